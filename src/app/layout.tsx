@@ -4,7 +4,8 @@ import { Geist, Geist_Mono } from 'next/font/google';
 import './globals.css';
 import { cn } from '@/lib/utils';
 import { ThemeProvider } from "next-themes";
-import { LayoutClientBoundary } from '@/components/layout'; 
+import { LayoutClientBoundary, DatabaseUnlockGate } from '@/components/layout'; 
+import { AppContainerProvider } from '@/contexts/AppContainerProvider';
 
 const geistSans = Geist({
   variable: '--font-geist-sans',
@@ -40,7 +41,11 @@ export default function RootLayout({
           enableSystem
           disableTransitionOnChange
         >
-          <LayoutClientBoundary>{children}</LayoutClientBoundary>
+          <AppContainerProvider>
+            <DatabaseUnlockGate>
+              <LayoutClientBoundary>{children}</LayoutClientBoundary>
+            </DatabaseUnlockGate>
+          </AppContainerProvider>
         </ThemeProvider>
       </body>
     </html>
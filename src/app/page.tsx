@@ -6,7 +6,7 @@ import { Header } from '@/components/layout';
 import { SpaceCard } from '@/components/space-card';
 import { CreateSpaceDialog } from '@/components/dialogs';
 import type { Space } from '@/domain/entities';
-import type { ClockEvent } from '@/domain/entities';
+import type { DailyRollup } from '@/domain/entities';
 import { Input } from '@/components/ui/input';
 import { Search, AlertTriangle, Loader2, Plus, Calendar as CalendarIcon } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -17,20 +17,12 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { format, startOfDay } from 'date-fns';
 import { cn } from '@/lib/utils';
 
-import {
-  GetAllSpacesUseCase,
-  CreateSpaceUseCase, type CreateSpaceInputDTO,
-  GetAllClockEventsUseCase,
-  DuplicateSpaceUseCase, type DuplicateSpaceInputDTO,
-} from '@/application/use-cases';
+import type { CreateSpaceInputDTO, DuplicateSpaceInputDTO } from '@/application/use-cases';
+import { useUseCases } from '@/contexts/AppContainerProvider';
+import { DatabaseMigrationError } from '@/infrastructure/persistence/indexeddb';
 
-import {
-  IndexedDBSpaceRepository,
-  IndexedDBClockEventRepository,
-  IndexedDBActionDefinitionRepository,
-} from '@/infrastructure/persistence/indexeddb';
-
-import { useDialogState } from '@/hooks';
+import { useDialogState, useDataChanges, useTrashAutoPurge, useScheduledBackups, useDailyRollupsBootstrap } from '@/hooks';
+import { summarizeDailyRollups } from '@/lib/daily-rollups';
 import ErrorBoundary from '@/components/ui/ErrorBoundary';
 
 
@@ -41,7 +33,7 @@ interface SpaceClockStats {
 
 export default function HomePage() {
   const [allSpaces, setAllSpaces] = useState<Space[]>([]);
-  const [allClockEvents, setAllClockEvents] = useState<ClockEvent[]>([]);
+  const [allDailyRollups, setAllDailyRollups] = useState<DailyRollup[]>([]);
   const [filteredSpaces, setFilteredSpaces] = useState<Space[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [isLoading, setIsLoading] = useState(true);
@@ -57,42 +49,44 @@ export default function HomePage() {
     closeDialog: closeCreateSpaceDialog
   } = useDialogState();
 
-  const spaceRepository = useMemo(() => new IndexedDBSpaceRepository(), []);
-  const clockEventRepository = useMemo(() => new IndexedDBClockEventRepository(), []);
-  const actionDefinitionRepository = useMemo(() => new IndexedDBActionDefinitionRepository(), []);
-
-  const getAllSpacesUseCase = useMemo(() => new GetAllSpacesUseCase(spaceRepository), [spaceRepository]);
-  const createSpaceUseCase = useMemo(() => new CreateSpaceUseCase(spaceRepository), [spaceRepository]);
-  const getAllClockEventsUseCase = useMemo(() => new GetAllClockEventsUseCase(clockEventRepository), [clockEventRepository]);
-  const duplicateSpaceUseCase = useMemo(() => new DuplicateSpaceUseCase(spaceRepository, actionDefinitionRepository), [spaceRepository, actionDefinitionRepository]);
+  const { getAllSpacesUseCase, createSpaceUseCase, getAllDailyRollupsUseCase, duplicateSpaceUseCase } = useUseCases();
 
   useEffect(() => {
     setSelectedDate(startOfDay(new Date()));
   }, []);
 
-  const fetchData = useCallback(async () => {
-    setIsLoading(true);
+  const fetchData = useCallback(async (showLoading: boolean = true) => {
+    if (showLoading) setIsLoading(true);
     setError(null);
     setDuplicateError(null);
     try {
-      const [spaceData, clockEventData] = await Promise.all([
+      const [spaceData, rollupData] = await Promise.all([
         getAllSpacesUseCase.execute(),
-        getAllClockEventsUseCase.execute(),
+        getAllDailyRollupsUseCase.execute(),
       ]);
       setAllSpaces(spaceData.sort((a,b) => new Date(b.creationDate).getTime() - new Date(a.creationDate).getTime()));
-      setAllClockEvents(clockEventData);
+      setAllDailyRollups(rollupData);
     } catch (err) {
       console.error("Failed to fetch data:", err);
-      setError("Could not load data. Please try again later.");
+      setError(err instanceof DatabaseMigrationError ? err.message : "Could not load data. Please try again later.");
     } finally {
       setIsLoading(false);
     }
-  }, [getAllSpacesUseCase, getAllClockEventsUseCase]);
+  }, [getAllSpacesUseCase, getAllDailyRollupsUseCase]);
 
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
+  const refreshWithoutLoader = useCallback(() => fetchData(false), [fetchData]);
+
+  useTrashAutoPurge();
+  useScheduledBackups();
+  useDailyRollupsBootstrap(refreshWithoutLoader);
+
+  // Keep space cards and clock status in sync with other tabs without flashing the loader
+  useDataChanges({ storeNames: ['spaces', 'dailyRollups'], onChange: refreshWithoutLoader });
+
   useEffect(() => {
     if (!selectedDate) {
       setFilteredSpaces([]);
@@ -112,32 +106,18 @@ export default function HomePage() {
   }, [searchTerm, allSpaces, selectedDate]);
 
   const spaceClockStatsMap = useMemo(() => {
+    const rollupsBySpace = new Map<string, DailyRollup[]>();
+    allDailyRollups.forEach(rollup => {
+      rollupsBySpace.set(rollup.spaceId, [...(rollupsBySpace.get(rollup.spaceId) ?? []), rollup]);
+    });
+
     const statsMap = new Map<string, SpaceClockStats>();
     allSpaces.forEach(space => {
-      const spaceEvents = allClockEvents
-        .filter(event => event.spaceId === space.id)
-        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-
-      let totalDurationMs = 0;
-      let lastClockInTime: Date | null = null;
-      let isCurrentlyClockedIn = false;
-
-      spaceEvents.forEach(event => {
-        if (event.type === 'clock-in') {
-          lastClockInTime = new Date(event.timestamp);
-        } else if (event.type === 'clock-out' && lastClockInTime) {
-          totalDurationMs += new Date(event.timestamp).getTime() - lastClockInTime.getTime();
-          lastClockInTime = null;
-        }
-      });
-
-      if (lastClockInTime) {
-        isCurrentlyClockedIn = true;
-      }
-      statsMap.set(space.id, { totalDurationMs, isCurrentlyClockedIn });
+      const totals = summarizeDailyRollups(rollupsBySpace.get(space.id) ?? []);
+      statsMap.set(space.id, { totalDurationMs: totals.clockedInMs, isCurrentlyClockedIn: totals.openClockInAt !== null });
     });
     return statsMap;
-  }, [allSpaces, allClockEvents]);
+  }, [allSpaces, allDailyRollups]);
 
   const handleSpaceCreated = useCallback((newSpace: Space) => {
     setAllSpaces(prevSpaces => [newSpace, ...prevSpaces].sort((a,b) => new Date(b.creationDate).getTime() - new Date(a.creationDate).getTime()));
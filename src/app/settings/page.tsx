@@ -1,27 +1,29 @@
 
 "use client";
 
-import { useState, useMemo, useCallback } from 'react';
+import { useState, useCallback } from 'react';
 import { Header } from '@/components/layout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Download, Upload, Palette, Trash2, AlertTriangle as AlertTriangleIcon, Loader2, CheckCircle } from 'lucide-react';
-import type { AppDataExportDTO } from '@/application/dto';
+import { Download, Upload, Palette, Trash2, AlertTriangle as AlertTriangleIcon, Loader2, CheckCircle, ImageOff, Lock, RefreshCw, GitMerge, FileArchive } from 'lucide-react';
+import type { AppDataExportDTO, EncryptedAppDataExportDTO } from '@/application/dto';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { ScrollArea } from '@/components/ui/scroll-area';
 
-import { ExportAppDataUseCase, ImportAppDataUseCase, ClearAllDataUseCase } from '@/application/use-cases';
-
-import { 
-  IndexedDBSpaceRepository, 
-  IndexedDBActionDefinitionRepository, 
-  IndexedDBActionLogRepository, 
-  IndexedDBProblemRepository, 
-  IndexedDBTodoRepository, 
-  IndexedDBUserProgressRepository, 
-  IndexedDBClockEventRepository, 
-  IndexedDBDataEntryLogRepository 
-} from '@/infrastructure/persistence/indexeddb';
+import { APP_DATA_RECORD_TYPES, InvalidAppDataExportError, isEncryptedAppDataExport, type AppDataExportIssue, type AppDataMergeResultDTO } from '@/application/use-cases';
+import { useUseCases } from '@/contexts/AppContainerProvider';
+import { useBackupBeforeChange } from '@/hooks/data';
+import { downloadBlob } from '@/lib/blob-utils';
+import { StorageUsagePanel } from '@/components/storage-usage-panel';
+import { EncryptionSettingsPanel } from '@/components/encryption-settings-panel';
+import { SpaceBundlePanel } from '@/components/space-bundle-panel';
+import { BackupPanel } from '@/components/backup-panel';
+import { CalendarExportPanel } from '@/components/calendar-export-panel';
+import { TimesheetExportPanel } from '@/components/timesheet-export-panel';
+import { ImportMergePreviewDialog } from '@/components/dialogs/import-merge-preview-dialog';
 
 import {
   AlertDialog,
@@ -35,41 +37,58 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 
+const MAX_LISTED_IMPORT_ISSUES = 20;
+
+const isZipFile = (file: File) => file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip';
+
 export default function SettingsPage() {
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
   const [isClearing, setIsClearing] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
   const [importError, setImportError] = useState<string | null>(null);
+  const [importIssues, setImportIssues] = useState<AppDataExportIssue[]>([]);
   const [clearError, setClearError] = useState<string | null>(null);
   const [exportSuccess, setExportSuccess] = useState<string | null>(null);
   const [importSuccess, setImportSuccess] = useState<string | null>(null);
   const [clearSuccess, setClearSuccess] = useState<string | null>(null);
+  const [isCleaningImages, setIsCleaningImages] = useState(false);
+  const [cleanupError, setCleanupError] = useState<string | null>(null);
+  const [cleanupSuccess, setCleanupSuccess] = useState<string | null>(null);
+  const [isRebuildingRollups, setIsRebuildingRollups] = useState(false);
+  const [rebuildError, setRebuildError] = useState<string | null>(null);
+  const [rebuildSuccess, setRebuildSuccess] = useState<string | null>(null);
+  const [encryptExport, setEncryptExport] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [exportPassphraseConfirmation, setExportPassphraseConfirmation] = useState('');
+  const [pendingEncryptedImport, setPendingEncryptedImport] = useState<EncryptedAppDataExportDTO | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [mergeImport, setMergeImport] = useState(false);
+  const [pendingMergeImport, setPendingMergeImport] = useState<AppDataExportDTO | null>(null);
 
-  const spaceRepository = useMemo(() => new IndexedDBSpaceRepository(), []);
-  const actionDefinitionRepository = useMemo(() => new IndexedDBActionDefinitionRepository(), []); 
-  const actionLogRepository = useMemo(() => new IndexedDBActionLogRepository(), []); 
-  const problemRepository = useMemo(() => new IndexedDBProblemRepository(), []);
-  const todoRepository = useMemo(() => new IndexedDBTodoRepository(), []);
-  const userProgressRepository = useMemo(() => new IndexedDBUserProgressRepository(), []);
-  const clockEventRepository = useMemo(() => new IndexedDBClockEventRepository(), []);
-  const dataEntryLogRepository = useMemo(() => new IndexedDBDataEntryLogRepository(), []); 
-
-  const exportAppDataUseCase = useMemo(() => new ExportAppDataUseCase(
-    spaceRepository, actionDefinitionRepository, actionLogRepository, problemRepository, todoRepository, userProgressRepository, clockEventRepository, dataEntryLogRepository
-  ), [spaceRepository, actionDefinitionRepository, actionLogRepository, problemRepository, todoRepository, userProgressRepository, clockEventRepository, dataEntryLogRepository]);
-
-  const importAppDataUseCase = useMemo(() => new ImportAppDataUseCase(
-    spaceRepository, actionDefinitionRepository, actionLogRepository, problemRepository, todoRepository, userProgressRepository, clockEventRepository, dataEntryLogRepository
-  ), [spaceRepository, actionDefinitionRepository, actionLogRepository, problemRepository, todoRepository, userProgressRepository, clockEventRepository, dataEntryLogRepository]);
-  
-  const clearAllDataUseCase = useMemo(() => new ClearAllDataUseCase(
-    spaceRepository, actionDefinitionRepository, actionLogRepository, problemRepository, todoRepository, userProgressRepository, clockEventRepository, dataEntryLogRepository
-  ), [spaceRepository, actionDefinitionRepository, actionLogRepository, problemRepository, todoRepository, userProgressRepository, clockEventRepository, dataEntryLogRepository]);
+  const {
+    exportAppDataUseCase,
+    exportAppDataArchiveUseCase,
+    importAppDataUseCase,
+    importAppDataArchiveUseCase,
+    parseAppDataExportUseCase,
+    encryptAppDataExportUseCase,
+    decryptAppDataExportUseCase,
+    clearAllDataUseCase,
+    deleteUnreferencedAttachmentsUseCase,
+    getStorageUsageUseCase,
+    deleteOldImagesUseCase,
+    prunePastSpaceLogsUseCase,
+    deleteOldBackupSnapshotsUseCase,
+    rebuildDailyRollupsUseCase,
+  } = useUseCases();
+  const backupBeforeChange = useBackupBeforeChange();
 
   const resetMessages = () => {
-    setExportError(null); setImportError(null); setClearError(null);
+    setExportError(null); setImportError(null); setImportIssues([]); setClearError(null);
     setExportSuccess(null); setImportSuccess(null); setClearSuccess(null);
+    setCleanupError(null); setCleanupSuccess(null);
+    setRebuildError(null); setRebuildSuccess(null);
   };
 
   const handleExportData = useCallback(async () => {
@@ -78,44 +97,116 @@ export default function SettingsPage() {
     try {
       const data = await exportAppDataUseCase.execute();
       if (data) {
-        const jsonString = JSON.stringify(data, null, 2);
+        const fileContent = encryptExport
+          ? await encryptAppDataExportUseCase.execute(data, exportPassphrase, exportPassphraseConfirmation)
+          : data;
+        const jsonString = JSON.stringify(fileContent, null, 2);
         const blob = new Blob([jsonString], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = 'okapi_workflow_game_data.json';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-        setExportSuccess("Export Successful! Your data has been downloaded.");
+        downloadBlob(blob, encryptExport ? 'okapi_workflow_game_data.encrypted.json' : 'okapi_workflow_game_data.json');
+        setExportPassphrase('');
+        setExportPassphraseConfirmation('');
+        setExportSuccess(encryptExport
+          ? "Export Successful! Your encrypted data has been downloaded. Keep the passphrase safe: without it the file cannot be imported."
+          : "Export Successful! Your data has been downloaded.");
       } else {
         setExportError("Could not prepare data for export.");
       }
     } catch (error) {
       console.error("Export error:", error);
-      setExportError(String(error) || "An unknown error occurred during export.");
+      setExportError((error instanceof Error ? error.message : String(error)) || "An unknown error occurred during export.");
+    } finally {
+      setIsExporting(false);
+    }
+  }, [exportAppDataUseCase, encryptAppDataExportUseCase, encryptExport, exportPassphrase, exportPassphraseConfirmation]);
+
+  const handleExportArchive = useCallback(async () => {
+    resetMessages();
+    setIsExporting(true);
+    try {
+      const archive = await exportAppDataArchiveUseCase.execute();
+      downloadBlob(archive, 'okapi_workflow_game_data.zip');
+      setExportSuccess("Export Successful! Your data has been downloaded as a ZIP archive.");
+    } catch (error) {
+      console.error("Archive export error:", error);
+      setExportError((error instanceof Error ? error.message : String(error)) || "An unknown error occurred during export.");
     } finally {
       setIsExporting(false);
     }
-  }, [exportAppDataUseCase]);
+  }, [exportAppDataArchiveUseCase]);
+
+  const importArchive = useCallback(async (file: File) => {
+    if (mergeImport) {
+      setImportError("ZIP archives can only replace all data. Turn off merging to import this file.");
+      return;
+    }
+    try {
+      await backupBeforeChange('beforeImport');
+      await importAppDataArchiveUseCase.execute(file);
+      setImportSuccess("Import Successful! Your data has been imported. You may need to refresh the app.");
+    } catch (error) {
+      console.error("Archive import error:", error);
+      setImportError(error instanceof Error ? error.message : String(error));
+      if (error instanceof InvalidAppDataExportError) setImportIssues(error.issues);
+    }
+  }, [importAppDataArchiveUseCase, backupBeforeChange, mergeImport]);
+
+  const importData = useCallback(async (file: unknown) => {
+    let data: AppDataExportDTO;
+    try {
+      data = await parseAppDataExportUseCase.execute(file);
+    } catch (error) {
+      console.error("Import validation error:", error);
+      setImportError(error instanceof Error ? error.message : String(error));
+      if (error instanceof InvalidAppDataExportError) setImportIssues(error.issues);
+      return;
+    }
+    if (mergeImport) {
+      // Nothing is written until the preview is confirmed
+      setPendingMergeImport(data);
+      return;
+    }
+    try {
+      await backupBeforeChange('beforeImport');
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    const success = await importAppDataUseCase.execute(data);
+    if (success) {
+      setImportSuccess("Import Successful! Your data has been imported. You may need to refresh the app.");
+    } else {
+      setImportError("Could not import data. File might be corrupted or invalid.");
+    }
+  }, [parseAppDataExportUseCase, importAppDataUseCase, backupBeforeChange, mergeImport]);
+
+  const handleMerged = useCallback((result: AppDataMergeResultDTO) => {
+    setPendingMergeImport(null);
+    const written = APP_DATA_RECORD_TYPES.reduce((sum, recordType) => sum + result.counts[recordType].written, 0);
+    setImportSuccess(`Merge Successful! ${written} record${written === 1 ? ' was' : 's were'} added or updated.`);
+  }, []);
 
   const handleImportData = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
+    if (file && isZipFile(file)) {
+      // Archives are read in pieces from the file itself, never as one string
+      resetMessages();
+      setIsImporting(true);
+      importArchive(file).finally(() => setIsImporting(false));
+    } else if (file) {
       resetMessages();
       setIsImporting(true);
       const reader = new FileReader();
       reader.onload = async (e) => {
         try {
           const jsonString = e.target?.result as string;
-          const data = JSON.parse(jsonString) as AppDataExportDTO;
-          const success = await importAppDataUseCase.execute(data);
-          if (success) {
-            setImportSuccess("Import Successful! Your data has been imported. You may need to refresh the app.");
-          } else {
-            setImportError("Could not import data. File might be corrupted or invalid.");
+          const parsed: unknown = JSON.parse(jsonString);
+          if (isEncryptedAppDataExport(parsed)) {
+            // Wait for the passphrase before importing anything
+            setImportPassphrase('');
+            setPendingEncryptedImport(parsed);
+            return;
           }
+          await importData(parsed);
         } catch (error) {
           console.error("Import error:", error);
           setImportError("Invalid JSON file or " + String(error));
@@ -126,12 +217,30 @@ export default function SettingsPage() {
       reader.readAsText(file);
     }
     if(event.target) event.target.value = ''; 
-  }, [importAppDataUseCase]);
+  }, [importData, importArchive]);
+
+  const handleDecryptAndImport = useCallback(async () => {
+    if (!pendingEncryptedImport) return;
+    resetMessages();
+    setIsImporting(true);
+    try {
+      const data = await decryptAppDataExportUseCase.execute(pendingEncryptedImport, importPassphrase);
+      setPendingEncryptedImport(null);
+      setImportPassphrase('');
+      await importData(data);
+    } catch (error) {
+      console.error("Encrypted import error:", error);
+      setImportError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsImporting(false);
+    }
+  }, [pendingEncryptedImport, importPassphrase, decryptAppDataExportUseCase, importData]);
 
   const handleClearAllData = useCallback(async () => {
     resetMessages();
     setIsClearing(true);
     try {
+        await backupBeforeChange('beforeClear');
         await clearAllDataUseCase.execute();
         setClearSuccess("All application data has been removed. You may need to refresh.");
     } catch (error) {
@@ -140,7 +249,35 @@ export default function SettingsPage() {
     } finally {
         setIsClearing(false);
     }
-  }, [clearAllDataUseCase]);
+  }, [clearAllDataUseCase, backupBeforeChange]);
+
+  const handleRemoveUnusedImages = useCallback(async () => {
+    resetMessages();
+    setIsCleaningImages(true);
+    try {
+      const removedCount = await deleteUnreferencedAttachmentsUseCase.execute();
+      setCleanupSuccess(removedCount > 0 ? `Removed ${removedCount} unused image${removedCount === 1 ? '' : 's'}.` : "No unused images found.");
+    } catch (error) {
+      console.error("Image cleanup error:", error);
+      setCleanupError(String(error) || "Could not remove unused images.");
+    } finally {
+      setIsCleaningImages(false);
+    }
+  }, [deleteUnreferencedAttachmentsUseCase]);
+
+  const handleRebuildStatistics = useCallback(async () => {
+    resetMessages();
+    setIsRebuildingRollups(true);
+    try {
+      const rollupCount = await rebuildDailyRollupsUseCase.execute();
+      setRebuildSuccess(`Recalculated statistics for ${rollupCount} day${rollupCount === 1 ? '' : 's'} of activity.`);
+    } catch (error) {
+      console.error("Statistics rebuild error:", error);
+      setRebuildError(error instanceof Error ? error.message : "Could not recalculate statistics.");
+    } finally {
+      setIsRebuildingRollups(false);
+    }
+  }, [rebuildDailyRollupsUseCase]);
 
   return (
     <div className="flex flex-col h-screen">
@@ -158,13 +295,50 @@ export default function SettingsPage() {
                 <CardContent className="space-y-3 p-4">
                   {exportError && <Alert variant="destructive" className="text-xs p-2"><AlertTriangleIcon className="h-4 w-4" /><AlertDescription>{exportError}</AlertDescription></Alert>}
                   {exportSuccess && <Alert variant="default" className="border-green-500 bg-green-50 text-green-700 text-xs p-2"><CheckCircle className="h-4 w-4 text-green-600" /><AlertDescription>{exportSuccess}</AlertDescription></Alert>}
-                  <Button onClick={handleExportData} className="w-full text-md py-2.5 rounded-lg" disabled={isExporting || isImporting || isClearing} size="default">
+                  <div className="rounded-lg border p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="encrypt-export" className="text-sm flex items-center"><Lock className="mr-2 h-4 w-4" />Encrypt export file</Label>
+                      <Switch id="encrypt-export" checked={encryptExport} onCheckedChange={setEncryptExport} disabled={isExporting} />
+                    </div>
+                    {encryptExport && (
+                      <>
+                        <Input type="password" autoComplete="new-password" placeholder="Export passphrase" value={exportPassphrase} onChange={(e) => setExportPassphrase(e.target.value)} className="h-9 text-sm" disabled={isExporting} aria-label="Export passphrase" />
+                        <Input type="password" autoComplete="new-password" placeholder="Confirm export passphrase" value={exportPassphraseConfirmation} onChange={(e) => setExportPassphraseConfirmation(e.target.value)} className="h-9 text-sm" disabled={isExporting} aria-label="Confirm export passphrase" />
+                        <p className="text-xs text-muted-foreground">Without encryption the file contains all your data in readable form.</p>
+                      </>
+                    )}
+                  </div>
+                  <Button onClick={handleExportData} className="w-full text-md py-2.5 rounded-lg" disabled={isExporting || isImporting || isClearing || (encryptExport && !exportPassphrase)} size="default">
                     {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
                     {isExporting ? "Exporting..." : "Export All Data"}
                   </Button>
+                  <Button onClick={handleExportArchive} className="w-full text-md py-2.5 rounded-lg" variant="outline" disabled={isExporting || isImporting || isClearing} size="default">
+                    <FileArchive className="mr-2 h-4 w-4" />
+                    Export as ZIP Archive
+                  </Button>
+                  <p className="text-xs text-muted-foreground text-center">Better for large collections: images are kept as separate files. Archives are not encrypted.</p>
                   
-                  {importError && <Alert variant="destructive" className="text-xs p-2"><AlertTriangleIcon className="h-4 w-4" /><AlertDescription>{importError}</AlertDescription></Alert>}
+                  {importError && (
+                    <Alert variant="destructive" className="text-xs p-2">
+                      <AlertTriangleIcon className="h-4 w-4" />
+                      <AlertDescription>
+                        {importError}
+                        {importIssues.length > 0 && (
+                          <ul className="mt-1 space-y-0.5 font-mono break-words">
+                            {importIssues.slice(0, MAX_LISTED_IMPORT_ISSUES).map((issue, index) => (
+                              <li key={index}>{issue.path}{issue.recordId ? ` (id ${issue.recordId})` : ''}: {issue.message}</li>
+                            ))}
+                            {importIssues.length > MAX_LISTED_IMPORT_ISSUES && <li>…and {importIssues.length - MAX_LISTED_IMPORT_ISSUES} more</li>}
+                          </ul>
+                        )}
+                      </AlertDescription>
+                    </Alert>
+                  )}
                   {importSuccess && <Alert variant="default" className="border-green-500 bg-green-50 text-green-700 text-xs p-2"><CheckCircle className="h-4 w-4 text-green-600" /><AlertDescription>{importSuccess}</AlertDescription></Alert>}
+                  <div className="flex items-center justify-between rounded-lg border p-3">
+                    <Label htmlFor="merge-import" className="text-sm flex items-center"><GitMerge className="mr-2 h-4 w-4" />Merge with current data</Label>
+                    <Switch id="merge-import" checked={mergeImport} onCheckedChange={setMergeImport} disabled={isImporting} />
+                  </div>
                   <div>
                     <label htmlFor="import-file" className="block w-full">
                       <Button asChild className="w-full text-md py-2.5 rounded-lg" variant="outline" disabled={isImporting || isExporting || isClearing} size="default">
@@ -173,13 +347,65 @@ export default function SettingsPage() {
                           {isImporting ? "Importing..." : "Import Data"}
                         </span>
                       </Button>
-                      <input type="file" id="import-file" accept=".json" onChange={handleImportData} className="hidden" disabled={isImporting || isExporting || isClearing}/>
+                      <input type="file" id="import-file" accept=".json,.zip,application/zip" onChange={handleImportData} className="hidden" disabled={isImporting || isExporting || isClearing}/>
                     </label>
-                    <p className="text-xs text-muted-foreground mt-1 text-center">Importing will overwrite existing data.</p>
+                    <p className="text-xs text-muted-foreground mt-1 text-center">
+                      {mergeImport ? "You will see what changes before anything is merged." : "Importing will overwrite existing data."}
+                    </p>
+                  </div>
+                  {pendingEncryptedImport && (
+                    <div className="rounded-lg border p-3 space-y-2">
+                      <Label htmlFor="import-passphrase" className="text-sm flex items-center"><Lock className="mr-2 h-4 w-4" />This file is encrypted</Label>
+                      <Input id="import-passphrase" type="password" placeholder="Passphrase used when exporting" value={importPassphrase} onChange={(e) => setImportPassphrase(e.target.value)} className="h-9 text-sm" disabled={isImporting} />
+                      <div className="flex gap-2 justify-end">
+                        <Button variant="outline" size="sm" onClick={() => setPendingEncryptedImport(null)} disabled={isImporting}>Cancel</Button>
+                        <Button size="sm" onClick={handleDecryptAndImport} disabled={isImporting || !importPassphrase}>
+                          {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                          Decrypt and Import
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {cleanupError && <Alert variant="destructive" className="text-xs p-2"><AlertTriangleIcon className="h-4 w-4" /><AlertDescription>{cleanupError}</AlertDescription></Alert>}
+                  {cleanupSuccess && <Alert variant="default" className="border-green-500 bg-green-50 text-green-700 text-xs p-2"><CheckCircle className="h-4 w-4 text-green-600" /><AlertDescription>{cleanupSuccess}</AlertDescription></Alert>}
+                  <Button onClick={handleRemoveUnusedImages} className="w-full text-md py-2.5 rounded-lg" variant="outline" disabled={isCleaningImages || isImporting || isExporting || isClearing} size="default">
+                    {isCleaningImages ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ImageOff className="mr-2 h-4 w-4" />}
+                    {isCleaningImages ? "Removing..." : "Remove Unused Images"}
+                  </Button>
+
+                  {rebuildError && <Alert variant="destructive" className="text-xs p-2"><AlertTriangleIcon className="h-4 w-4" /><AlertDescription>{rebuildError}</AlertDescription></Alert>}
+                  {rebuildSuccess && <Alert variant="default" className="border-green-500 bg-green-50 text-green-700 text-xs p-2"><CheckCircle className="h-4 w-4 text-green-600" /><AlertDescription>{rebuildSuccess}</AlertDescription></Alert>}
+                  <div>
+                    <Button onClick={handleRebuildStatistics} className="w-full text-md py-2.5 rounded-lg" variant="outline" disabled={isRebuildingRollups || isImporting || isExporting || isClearing} size="default">
+                      {isRebuildingRollups ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                      {isRebuildingRollups ? "Recalculating..." : "Recalculate Statistics"}
+                    </Button>
+                    <p className="text-xs text-muted-foreground mt-1 text-center">Recomputes points and clocked time from your logs if totals look wrong.</p>
                   </div>
                 </CardContent>
               </Card>
 
+              <SpaceBundlePanel disabled={isImporting || isClearing || isExporting} />
+
+              <CalendarExportPanel disabled={isImporting || isClearing || isExporting} />
+
+              <TimesheetExportPanel disabled={isImporting || isClearing || isExporting} />
+
+              <BackupPanel disabled={isImporting || isClearing || isExporting} />
+
+              <ImportMergePreviewDialog data={pendingMergeImport} onClose={() => setPendingMergeImport(null)} onMerged={handleMerged} />
+
+              <EncryptionSettingsPanel disabled={isImporting || isClearing || isExporting} />
+
+              <StorageUsagePanel
+                getStorageUsageUseCase={getStorageUsageUseCase}
+                deleteOldImagesUseCase={deleteOldImagesUseCase}
+                prunePastSpaceLogsUseCase={prunePastSpaceLogsUseCase}
+                deleteOldBackupSnapshotsUseCase={deleteOldBackupSnapshotsUseCase}
+                disabled={isImporting || isClearing}
+              />
+
               <Card className="shadow-md rounded-xl">
                 <CardHeader className="p-4">
                   <CardTitle className="text-lg flex items-center"><Palette className="mr-2.5 h-5 w-5 text-primary"/>Customization</CardTitle>
@@ -209,7 +435,7 @@ export default function SettingsPage() {
                       <AlertDialogHeader className="pb-2">
                         <AlertDialogTitle className="text-lg flex items-center"><AlertTriangleIcon className="mr-2 h-5 w-5 text-destructive" />Are you sure?</AlertDialogTitle>
                         <AlertDialogDesc className="text-sm">
-                          This will permanently delete all your data. This action cannot be undone.
+                          This will delete all your data. A backup is saved first and can be restored from Backups.
                         </AlertDialogDesc>
                       </AlertDialogHeader>
                       <AlertDialogFooter className="pt-2">
@@ -2,7 +2,7 @@
 // src/app/spaces/[spaceId]/page.tsx
 "use client";
 
-import React, { useEffect, useMemo, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -30,32 +30,13 @@ import { SpaceSettingsDialog } from '@/components/dialogs/space-settings-dialog'
 // Context Provider
 import { SpaceDataProvider, useSpaceContext } from '@/contexts/SpaceDataProvider';
 
-// Repositories (for use cases instantiated here)
-import {
-  IndexedDBActionDefinitionRepository,
-  IndexedDBActionLogRepository,
-  IndexedDBClockEventRepository,
-  IndexedDBDataEntryLogRepository,
-  IndexedDBSpaceRepository,
-  IndexedDBTodoRepository, 
-  IndexedDBProblemRepository, 
-} from '@/infrastructure/persistence/indexeddb';
-
-// Use Cases (Core use cases instantiated here)
-import {
-  UpdateSpaceUseCase, type UpdateSpaceUseCaseInputDTO,
-  DeleteSpaceUseCase,
-  GetTimelineItemsBySpaceUseCase,
-  GetDataEntriesBySpaceUseCase,
-  GetActionLogsBySpaceUseCase,
-  GetClockEventsBySpaceUseCase,
-  GetLastClockEventUseCase,
-  SaveClockEventUseCase,
-  GetProblemsBySpaceUseCase,
-} from '@/application/use-cases';
+// Use cases come from the app container
+import { useUseCases } from '@/contexts/AppContainerProvider';
+import type { UpdateSpaceUseCaseInputDTO } from '@/application/use-cases';
+import type { TimelineItem } from '@/application/dto';
 
 // Hooks for data management (instantiated here)
-import { useSpaceActionsData, useSpaceClockEvents, useSpaceMetrics, useTimelineData } from '@/hooks/data';
+import { useSpaceActionsData, useSpaceClockEvents, useSpaceMetrics, useTimelineData, useDailyRollupsBootstrap } from '@/hooks/data';
 import { useSpaceActionLogger } from '@/hooks/actions';
 import { useSpaceDialogs } from '@/hooks';
 
@@ -94,42 +75,21 @@ function SpaceDashboardPageContent() {
 
   const [currentSessionDisplayMs, setCurrentSessionDisplayMs] = useState(0);
 
-  // --- Repositories (memoized for use cases) ---
-  const actionDefinitionRepository = useMemo(() => new IndexedDBActionDefinitionRepository(), []);
-  const actionLogRepository = useMemo(() => new IndexedDBActionLogRepository(), []);
-  const clockEventRepository = useMemo(() => new IndexedDBClockEventRepository(), []);
-  const dataEntryLogRepository = useMemo(() => new IndexedDBDataEntryLogRepository(), []);
-  const spaceRepositoryForUpdates = useMemo(() => new IndexedDBSpaceRepository(), []);
-  const todoRepositoryForDelete = useMemo(() => new IndexedDBTodoRepository(), []);
-  const problemRepositoryForDelete = useMemo(() => new IndexedDBProblemRepository(), []);
-
-
-  // --- Core Use Cases (memoized) ---
-  const updateSpaceUseCase = useMemo(() => new UpdateSpaceUseCase(spaceRepositoryForUpdates), [spaceRepositoryForUpdates]);
-  const deleteSpaceUseCase = useMemo(() => new DeleteSpaceUseCase(
-    spaceRepositoryForUpdates,
-    actionDefinitionRepository,
-    actionLogRepository,
-    todoRepositoryForDelete,
-    problemRepositoryForDelete,
-    clockEventRepository,
-    dataEntryLogRepository
-  ), [spaceRepositoryForUpdates, actionDefinitionRepository, actionLogRepository, todoRepositoryForDelete, problemRepositoryForDelete, clockEventRepository, dataEntryLogRepository]);
-  
-  const getTimelineItemsBySpaceUseCase = useMemo(() => new GetTimelineItemsBySpaceUseCase(actionLogRepository, actionDefinitionRepository, problemRepositoryForDelete, todoRepositoryForDelete, dataEntryLogRepository), [actionLogRepository, actionDefinitionRepository, problemRepositoryForDelete, todoRepositoryForDelete, dataEntryLogRepository]);
-  
-  const getProblemsBySpaceUseCaseForMetrics = useMemo(() => new GetProblemsBySpaceUseCase(new IndexedDBProblemRepository()), []);
-  
-  const getDataEntriesBySpaceUseCase = useMemo(() => new GetDataEntriesBySpaceUseCase(dataEntryLogRepository), [dataEntryLogRepository]);
-  const getActionLogsBySpaceUseCase = useMemo(() => new GetActionLogsBySpaceUseCase(actionLogRepository), [actionLogRepository]);
-  const getClockEventsBySpaceUseCase = useMemo(() => new GetClockEventsBySpaceUseCase(clockEventRepository), [clockEventRepository]);
-  const getLastClockEventUseCase = useMemo(() => new GetLastClockEventUseCase(clockEventRepository), [clockEventRepository]);
-  const saveClockEventUseCase = useMemo(() => new SaveClockEventUseCase(clockEventRepository), [clockEventRepository]);
+  // --- Core Use Cases ---
+  const {
+    updateSpaceUseCase,
+    deleteSpaceUseCase,
+    getTimelineItemsBySpaceUseCase,
+    getProblemsBySpaceUseCase: getProblemsBySpaceUseCaseForMetrics,
+    getDataEntriesBySpaceUseCase,
+    getDailyRollupsBySpaceUseCase,
+    getClockEventsBySpaceUseCase,
+    getLastClockEventUseCase,
+    saveClockEventUseCase,
+  } = useUseCases();
 
   // --- Data Fetching & Management Hooks ---
-  const actionsDataHook = useSpaceActionsData({
-    spaceId, actionDefinitionRepository, actionLogRepository, dataEntryLogRepository
-  });
+  const actionsDataHook = useSpaceActionsData({ spaceId });
 
   const clockEventsHook = useSpaceClockEvents({
     spaceId, saveClockEventUseCase, getLastClockEventUseCase, getClockEventsBySpaceUseCase,
@@ -138,20 +98,36 @@ function SpaceDashboardPageContent() {
   const timelineDataHook = useTimelineData(spaceId, getTimelineItemsBySpaceUseCase);
 
   const metricsHook = useSpaceMetrics({
-    spaceId, getActionLogsBySpaceUseCase, getDataEntriesBySpaceUseCase, getProblemsBySpaceUseCase: getProblemsBySpaceUseCaseForMetrics, clockEventsForSpace: clockEventsHook.clockEventsForSpace,
+    spaceId, getDailyRollupsBySpaceUseCase, getDataEntriesBySpaceUseCase, getProblemsBySpaceUseCase: getProblemsBySpaceUseCaseForMetrics, clockEventsForSpace: clockEventsHook.clockEventsForSpace,
   });
+  useDailyRollupsBootstrap(metricsHook.refreshDailyRollups);
   
   const spaceActionLoggerHook = useSpaceActionLogger({
-    spaceId, actionLogRepository, dataEntryLogRepository, actionDefinitionRepository,
-    onActionLogged: (result) => {
-      if (result.loggedAction) metricsHook.addOptimisticActionLog(result.loggedAction);
+    spaceId,
+    onActionLogged: () => {
+      metricsHook.refreshDailyRollups();
       timelineDataHook.refreshTimeline();
     },
     onDataEntryLogged: (result) => {
       if (result.loggedDataEntry) metricsHook.addOptimisticDataEntryLog(result.loggedDataEntry);
+      metricsHook.refreshDailyRollups();
+      timelineDataHook.refreshTimeline();
+    },
+    onActionLogUndone: () => {
+      metricsHook.refreshDailyRollups();
+      timelineDataHook.refreshTimeline();
+    },
+    onDataEntryUndone: (removedEntry) => {
+      metricsHook.removeDataEntryLog(removedEntry.id);
+      metricsHook.refreshDailyRollups();
       timelineDataHook.refreshTimeline();
     },
   });
+
+  const handleUndoTimelineItem = useCallback(async (item: TimelineItem) => {
+    if (item.type === 'action_log') await spaceActionLoggerHook.handleUndoActionLog(item.id);
+    else if (item.type === 'data_entry') await spaceActionLoggerHook.handleUndoDataEntry(item.id);
+  }, [spaceActionLoggerHook.handleUndoActionLog, spaceActionLoggerHook.handleUndoDataEntry]);
   
   const refreshProblemsForMetricsAndTimeline = useCallback(async () => {
     if (!spaceId || !getProblemsBySpaceUseCaseForMetrics || !metricsHook.setProblemsForMetrics) return;
@@ -307,8 +283,10 @@ function SpaceDashboardPageContent() {
                 spaceId={spaceId}
                 actionDefinitions={actionsDataHook.actionDefinitions || []}
                 isLoadingActionDefinitions={actionsDataHook.isLoadingActionDefinitions}
-                onLogAction={async (...args) => { await spaceActionLoggerHook.handleLogAction(...args); }}
-                onLogDataEntry={async (data) => { await spaceActionLoggerHook.handleLogDataEntry(data); }}
+                onLogAction={spaceActionLoggerHook.handleLogAction}
+                onLogDataEntry={spaceActionLoggerHook.handleLogDataEntry}
+                onUndoActionLog={async (id) => { await spaceActionLoggerHook.handleUndoActionLog(id); }}
+                onUndoDataEntry={async (id) => { await spaceActionLoggerHook.handleUndoDataEntry(id); }}
                 isLoggingActionOrDataEntry={spaceActionLoggerHook.isLogging}
                 dialogs={dialogs}
                 actionsDataHook={{
@@ -348,8 +326,8 @@ function SpaceDashboardPageContent() {
                     />
                     <TimelineSummaryWidget
                         dialogs={dialogs}
-                        timelineItems={timelineDataHook.timelineItems}
-                        isLoadingTimeline={timelineDataHook.isLoadingTimeline}
+                        timeline={timelineDataHook}
+                        onUndoItem={handleUndoTimelineItem}
                     />
                 </div>
             </div>
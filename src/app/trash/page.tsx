@@ -0,0 +1,219 @@
+"use client";
+
+import { useState, useCallback, useEffect } from 'react';
+import { addDays, formatDistanceToNow, differenceInCalendarDays } from 'date-fns';
+import { Header } from '@/components/layout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Trash2, RotateCcw, Loader2, AlertTriangle as AlertTriangleIcon, CheckCircle, ToyBrick, ListChecks, ClipboardList, ShieldAlert, Clock } from 'lucide-react';
+import type { TrashItemDTO, TrashItemKind } from '@/application/use-cases';
+import { useTrash } from '@/hooks';
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription as AlertDialogDesc,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+const KIND_LABELS: Record<TrashItemKind, string> = {
+  space: 'Space',
+  actionDefinition: 'Action',
+  problem: 'Problem',
+  todo: 'To-do',
+};
+
+const KIND_ICONS: Record<TrashItemKind, typeof ToyBrick> = {
+  space: ToyBrick,
+  actionDefinition: ListChecks,
+  problem: ShieldAlert,
+  todo: ClipboardList,
+};
+
+export default function TrashPage() {
+  const { trashItems, isLoadingTrash, trashError, retentionDays, restoreItem, emptyTrash, updateRetentionDays } = useTrash();
+
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [restoreErrors, setRestoreErrors] = useState<Record<string, string>>({});
+  const [isEmptying, setIsEmptying] = useState(false);
+  const [emptyError, setEmptyError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [retentionInput, setRetentionInput] = useState(String(retentionDays));
+  const [retentionError, setRetentionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRetentionInput(String(retentionDays));
+  }, [retentionDays]);
+
+  const handleRestore = useCallback(async (item: TrashItemDTO) => {
+    setSuccessMessage(null);
+    setRestoringId(item.id);
+    setRestoreErrors(prev => {
+      const { [item.id]: _, ...rest } = prev;
+      return rest;
+    });
+    try {
+      await restoreItem(item.kind, item.id);
+      setSuccessMessage(`Restored ${KIND_LABELS[item.kind].toLowerCase()} "${item.label}".`);
+    } catch (error: any) {
+      console.error("Restore error:", error);
+      setRestoreErrors(prev => ({ ...prev, [item.id]: error.message || "Could not restore this item." }));
+    } finally {
+      setRestoringId(null);
+    }
+  }, [restoreItem]);
+
+  const handleEmptyTrash = useCallback(async () => {
+    setSuccessMessage(null);
+    setEmptyError(null);
+    setIsEmptying(true);
+    try {
+      await emptyTrash();
+      setRestoreErrors({});
+      setSuccessMessage("The trash has been emptied.");
+    } catch (error: any) {
+      console.error("Empty trash error:", error);
+      setEmptyError(error.message || "Could not empty the trash.");
+    } finally {
+      setIsEmptying(false);
+    }
+  }, [emptyTrash]);
+
+  const handleSaveRetention = useCallback(() => {
+    setRetentionError(null);
+    try {
+      updateRetentionDays(Number(retentionInput));
+      setSuccessMessage(`Items will be kept in the trash for ${retentionInput} days.`);
+    } catch (error: any) {
+      setRetentionError(error.message);
+    }
+  }, [retentionInput, updateRetentionDays]);
+
+  return (
+    <div className="flex flex-col h-screen">
+      <Header pageTitle="Trash" />
+      <div className="flex-grow flex flex-col overflow-hidden">
+        <ScrollArea className="flex-1">
+          <div className="container mx-auto px-4 py-6 sm:px-6 lg:px-8">
+            <div className="space-y-6 max-w-xl mx-auto">
+              {successMessage && <Alert variant="default" className="border-green-500 bg-green-50 text-green-700 text-xs p-2"><CheckCircle className="h-4 w-4 text-green-600" /><AlertDescription>{successMessage}</AlertDescription></Alert>}
+
+              <Card className="shadow-md rounded-xl">
+                <CardHeader className="p-4">
+                  <CardTitle className="text-lg flex items-center"><Trash2 className="mr-2.5 h-5 w-5 text-primary"/>Deleted Items</CardTitle>
+                  <CardDescription className="text-sm">
+                    Restoring a space also brings back everything that was deleted with it.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3 p-4">
+                  {trashError && <Alert variant="destructive" className="text-xs p-2"><AlertTriangleIcon className="h-4 w-4" /><AlertDescription>{trashError}</AlertDescription></Alert>}
+                  {isLoadingTrash ? (
+                    <div className="flex justify-center py-6"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+                  ) : trashItems.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">The trash is empty.</p>
+                  ) : (
+                    <ul className="divide-y">
+                      {trashItems.map(item => {
+                        const Icon = KIND_ICONS[item.kind];
+                        const purgeInDays = Math.max(0, differenceInCalendarDays(addDays(new Date(item.deletedAt), retentionDays), new Date()));
+                        const mustRestoreSpaceFirst = item.kind !== 'space' && item.isSpaceInTrash;
+                        return (
+                          <li key={`${item.kind}-${item.id}`} className="py-3 space-y-2">
+                            <div className="flex items-start gap-3">
+                              <Icon className="h-5 w-5 mt-0.5 shrink-0 text-muted-foreground" />
+                              <div className="flex-1 min-w-0">
+                                <p className="text-sm font-medium truncate">{item.label}</p>
+                                <p className="text-xs text-muted-foreground">
+                                  {KIND_LABELS[item.kind]}{item.kind !== 'space' && <> in {item.spaceName}</>} · deleted {formatDistanceToNow(new Date(item.deletedAt), { addSuffix: true })}
+                                </p>
+                                <p className="text-xs text-muted-foreground flex items-center"><Clock className="h-3 w-3 mr-1" />Permanently deleted in {purgeInDays} day{purgeInDays === 1 ? '' : 's'}</p>
+                              </div>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleRestore(item)}
+                                disabled={restoringId !== null || isEmptying || mustRestoreSpaceFirst}
+                                title={mustRestoreSpaceFirst ? "Restore its space first" : undefined}
+                              >
+                                {restoringId === item.id ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-1.5 h-4 w-4" />}
+                                Restore
+                              </Button>
+                            </div>
+                            {mustRestoreSpaceFirst && <p className="text-xs text-muted-foreground pl-8">Its space "{item.spaceName}" is in the trash. Restore the space first.</p>}
+                            {restoreErrors[item.id] && <Alert variant="destructive" className="text-xs p-2"><AlertTriangleIcon className="h-4 w-4" /><AlertDescription>{restoreErrors[item.id]}</AlertDescription></Alert>}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-md rounded-xl">
+                <CardHeader className="p-4">
+                  <CardTitle className="text-lg flex items-center"><Clock className="mr-2.5 h-5 w-5 text-primary"/>Retention</CardTitle>
+                  <CardDescription className="text-sm">Deleted items are permanently removed after this many days.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3 p-4">
+                  {retentionError && <Alert variant="destructive" className="text-xs p-2"><AlertTriangleIcon className="h-4 w-4" /><AlertDescription>{retentionError}</AlertDescription></Alert>}
+                  <div className="flex items-end gap-2">
+                    <div className="flex-1 space-y-1">
+                      <Label htmlFor="trash-retention-days" className="text-sm">Keep deleted items for (days)</Label>
+                      <Input id="trash-retention-days" type="number" min={1} step={1} value={retentionInput} onChange={e => setRetentionInput(e.target.value)} />
+                    </div>
+                    <Button onClick={handleSaveRetention} disabled={Number(retentionInput) === retentionDays}>Save</Button>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card className="border-destructive shadow-md rounded-xl">
+                <CardHeader className="p-4">
+                  <CardTitle className="text-lg flex items-center text-destructive"><Trash2 className="mr-2.5 h-5 w-5"/>Empty Trash</CardTitle>
+                  <CardDescription className="text-sm text-destructive/80">Permanently deletes everything in the trash, including images.</CardDescription>
+                </CardHeader>
+                <CardContent className="p-4">
+                  {emptyError && <Alert variant="destructive" className="mb-3 text-xs p-2"><AlertTriangleIcon className="h-4 w-4" /><AlertDescription>{emptyError}</AlertDescription></Alert>}
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="destructive" className="w-full text-md py-2.5 rounded-lg" size="default" disabled={isEmptying || trashItems.length === 0}>
+                        {isEmptying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                        Empty Trash
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent className="p-4 sm:max-w-sm">
+                      <AlertDialogHeader className="pb-2">
+                        <AlertDialogTitle className="text-lg flex items-center"><AlertTriangleIcon className="mr-2 h-5 w-5 text-destructive" />Are you sure?</AlertDialogTitle>
+                        <AlertDialogDesc className="text-sm">
+                          Everything in the trash will be permanently deleted. This action cannot be undone.
+                        </AlertDialogDesc>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter className="pt-2">
+                        <AlertDialogCancel className="text-sm px-3 py-1.5 h-auto" disabled={isEmptying}>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={handleEmptyTrash}
+                          className="bg-destructive hover:bg-destructive/90 text-destructive-foreground text-sm px-3 py-1.5 h-auto"
+                          disabled={isEmptying}
+                        >
+                          Empty Trash
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
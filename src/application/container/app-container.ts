@@ -0,0 +1,288 @@
+// src/application/container/app-container.ts
+import type {
+  IActionDefinitionRepository,
+  IActionLogRepository,
+  IAttachmentRepository,
+  IBackupSnapshotRepository,
+  IClockEventRepository,
+  IDailyRollupRepository,
+  IDataEntryLogRepository,
+  IProblemRepository,
+  IRecordHistoryRepository,
+  ISpaceRepository,
+  ITodoRepository,
+  IUserProgressRepository,
+  IUnitOfWork,
+  IRecordScanner,
+  IDataChangeFeed,
+  IDatabaseEncryption,
+} from '@/application/ports/repositories';
+import { domainEventBus, type IDomainEventBus } from '@/application/events';
+import {
+  CreateActionDefinitionUseCase,
+  DeleteActionDefinitionUseCase,
+  GetActionDefinitionsBySpaceUseCase,
+  UpdateActionDefinitionUseCase,
+  ExportActionTemplatesUseCase,
+  ImportActionTemplatesUseCase,
+  GetActionLogsBySpaceUseCase,
+  LogActionUseCase,
+  UndoActionLogUseCase,
+  GetAttachmentUseCase,
+  DeleteUnreferencedAttachmentsUseCase,
+  CreateBackupSnapshotUseCase,
+  DeleteBackupSnapshotUseCase,
+  DeleteOldBackupSnapshotsUseCase,
+  GetBackupSnapshotsUseCase,
+  RestoreBackupSnapshotUseCase,
+  ExportTimeCalendarUseCase,
+  GetAllClockEventsUseCase,
+  GetClockEventsBySpaceUseCase,
+  GetLastClockEventUseCase,
+  SaveClockEventUseCase,
+  ClearAllDataUseCase,
+  DecryptAppDataExportUseCase,
+  EncryptAppDataExportUseCase,
+  ExportAppDataArchiveUseCase,
+  ExportAppDataUseCase,
+  ExportSpaceBundleUseCase,
+  ImportAppDataArchiveUseCase,
+  ImportAppDataUseCase,
+  ImportSpaceBundleUseCase,
+  MergeAppDataUseCase,
+  ParseAppDataExportUseCase,
+  ExportDataEntriesUseCase,
+  GetDataEntriesBySpaceUseCase,
+  ImportDataEntriesUseCase,
+  LogDataEntryUseCase,
+  UndoDataEntryUseCase,
+  UpdateDataEntryUseCase,
+  GetRecordHistoryUseCase,
+  CreateProblemUseCase,
+  DeleteProblemUseCase,
+  GetProblemsBySpaceUseCase,
+  UpdateProblemUseCase,
+  ChangeDatabasePassphraseUseCase,
+  DisableDatabaseEncryptionUseCase,
+  EnableDatabaseEncryptionUseCase,
+  UnlockDatabaseUseCase,
+  CreateSpaceUseCase,
+  DeleteSpaceUseCase,
+  GetAllSpacesUseCase,
+  GetSpaceByIdUseCase,
+  UpdateSpaceUseCase,
+  DuplicateSpaceUseCase,
+  GetAllDailyRollupsUseCase,
+  GetDailyRollupsBySpaceUseCase,
+  GetSpaceStatsUseCase,
+  RebuildDailyRollupsUseCase,
+  GetStorageUsageUseCase,
+  DeleteOldImagesUseCase,
+  PrunePastSpaceLogsUseCase,
+  GetTimelineItemsBySpaceUseCase,
+  ExportTimesheetUseCase,
+  CreateTodoUseCase,
+  DeleteTodoUseCase,
+  GetTodosBySpaceUseCase,
+  UpdateTodoUseCase,
+  GetTrashUseCase,
+  RestoreFromTrashUseCase,
+  PurgeTrashUseCase,
+  GetUserProgressUseCase,
+} from '@/application/use-cases';
+
+/**
+ * One implementation of every port the use cases depend on. The app runs on the IndexedDB
+ * set; tests and previews can pass the in-memory set, and a remote backend only has to
+ * provide another set.
+ */
+export interface AppAdapters {
+  spaceRepository: ISpaceRepository;
+  actionDefinitionRepository: IActionDefinitionRepository;
+  actionLogRepository: IActionLogRepository;
+  problemRepository: IProblemRepository;
+  todoRepository: ITodoRepository;
+  userProgressRepository: IUserProgressRepository;
+  clockEventRepository: IClockEventRepository;
+  dataEntryLogRepository: IDataEntryLogRepository;
+  attachmentRepository: IAttachmentRepository;
+  recordHistoryRepository: IRecordHistoryRepository;
+  dailyRollupRepository: IDailyRollupRepository;
+  backupSnapshotRepository: IBackupSnapshotRepository;
+  unitOfWork: IUnitOfWork;
+  recordScanner: IRecordScanner;
+  dataChangeFeed: IDataChangeFeed;
+  databaseEncryption: IDatabaseEncryption;
+}
+
+function createUseCases(adapters: AppAdapters, eventBus: IDomainEventBus) {
+  const {
+    spaceRepository,
+    actionDefinitionRepository,
+    actionLogRepository,
+    problemRepository,
+    todoRepository,
+    userProgressRepository,
+    clockEventRepository,
+    dataEntryLogRepository,
+    attachmentRepository,
+    recordHistoryRepository,
+    dailyRollupRepository,
+    backupSnapshotRepository,
+    unitOfWork,
+    recordScanner,
+    databaseEncryption,
+  } = adapters;
+
+  return {
+    // Action definitions
+    createActionDefinitionUseCase: new CreateActionDefinitionUseCase(actionDefinitionRepository),
+    deleteActionDefinitionUseCase: new DeleteActionDefinitionUseCase(actionDefinitionRepository, actionLogRepository, dataEntryLogRepository, unitOfWork),
+    getActionDefinitionsBySpaceUseCase: new GetActionDefinitionsBySpaceUseCase(actionDefinitionRepository),
+    updateActionDefinitionUseCase: new UpdateActionDefinitionUseCase(actionDefinitionRepository, unitOfWork),
+    exportActionTemplatesUseCase: new ExportActionTemplatesUseCase(actionDefinitionRepository),
+    importActionTemplatesUseCase: new ImportActionTemplatesUseCase(spaceRepository, actionDefinitionRepository, unitOfWork),
+
+    // Action logs
+    getActionLogsBySpaceUseCase: new GetActionLogsBySpaceUseCase(actionLogRepository),
+    logActionUseCase: new LogActionUseCase(actionLogRepository, actionDefinitionRepository, unitOfWork, eventBus),
+    undoActionLogUseCase: new UndoActionLogUseCase(actionLogRepository, actionDefinitionRepository, unitOfWork),
+
+    // Attachments
+    getAttachmentUseCase: new GetAttachmentUseCase(attachmentRepository),
+    deleteUnreferencedAttachmentsUseCase: new DeleteUnreferencedAttachmentsUseCase(attachmentRepository, problemRepository, todoRepository),
+
+    // Backups
+    createBackupSnapshotUseCase: new CreateBackupSnapshotUseCase(recordScanner, backupSnapshotRepository),
+    deleteBackupSnapshotUseCase: new DeleteBackupSnapshotUseCase(backupSnapshotRepository),
+    deleteOldBackupSnapshotsUseCase: new DeleteOldBackupSnapshotsUseCase(backupSnapshotRepository),
+    getBackupSnapshotsUseCase: new GetBackupSnapshotsUseCase(backupSnapshotRepository),
+    restoreBackupSnapshotUseCase: new RestoreBackupSnapshotUseCase(backupSnapshotRepository, unitOfWork),
+
+    // Calendar
+    exportTimeCalendarUseCase: new ExportTimeCalendarUseCase(clockEventRepository, actionLogRepository, actionDefinitionRepository, spaceRepository),
+
+    // Clock events
+    getAllClockEventsUseCase: new GetAllClockEventsUseCase(clockEventRepository),
+    getClockEventsBySpaceUseCase: new GetClockEventsBySpaceUseCase(clockEventRepository),
+    getLastClockEventUseCase: new GetLastClockEventUseCase(clockEventRepository),
+    saveClockEventUseCase: new SaveClockEventUseCase(unitOfWork, eventBus),
+
+    // Data
+    clearAllDataUseCase: new ClearAllDataUseCase(unitOfWork),
+    decryptAppDataExportUseCase: new DecryptAppDataExportUseCase(),
+    encryptAppDataExportUseCase: new EncryptAppDataExportUseCase(),
+    exportAppDataArchiveUseCase: new ExportAppDataArchiveUseCase(recordScanner),
+    exportAppDataUseCase: new ExportAppDataUseCase(
+      spaceRepository, actionDefinitionRepository, actionLogRepository, problemRepository, todoRepository,
+      userProgressRepository, clockEventRepository, dataEntryLogRepository, attachmentRepository, recordHistoryRepository
+    ),
+    exportSpaceBundleUseCase: new ExportSpaceBundleUseCase(
+      spaceRepository, actionDefinitionRepository, actionLogRepository, problemRepository, todoRepository,
+      clockEventRepository, dataEntryLogRepository, attachmentRepository
+    ),
+    importAppDataArchiveUseCase: new ImportAppDataArchiveUseCase(unitOfWork),
+    importAppDataUseCase: new ImportAppDataUseCase(unitOfWork),
+    importSpaceBundleUseCase: new ImportSpaceBundleUseCase(
+      spaceRepository, actionDefinitionRepository, actionLogRepository, problemRepository, todoRepository,
+      clockEventRepository, dataEntryLogRepository, attachmentRepository, unitOfWork
+    ),
+    mergeAppDataUseCase: new MergeAppDataUseCase(recordScanner, attachmentRepository, unitOfWork),
+    parseAppDataExportUseCase: new ParseAppDataExportUseCase(),
+
+    // Data entries
+    exportDataEntriesUseCase: new ExportDataEntriesUseCase(dataEntryLogRepository, actionDefinitionRepository, spaceRepository),
+    getDataEntriesBySpaceUseCase: new GetDataEntriesBySpaceUseCase(dataEntryLogRepository),
+    importDataEntriesUseCase: new ImportDataEntriesUseCase(actionDefinitionRepository, unitOfWork),
+    logDataEntryUseCase: new LogDataEntryUseCase(actionDefinitionRepository, unitOfWork),
+    undoDataEntryUseCase: new UndoDataEntryUseCase(dataEntryLogRepository, unitOfWork),
+    updateDataEntryUseCase: new UpdateDataEntryUseCase(dataEntryLogRepository, actionDefinitionRepository, unitOfWork),
+
+    // History
+    getRecordHistoryUseCase: new GetRecordHistoryUseCase(recordHistoryRepository),
+
+    // Problems
+    createProblemUseCase: new CreateProblemUseCase(unitOfWork),
+    deleteProblemUseCase: new DeleteProblemUseCase(problemRepository),
+    getProblemsBySpaceUseCase: new GetProblemsBySpaceUseCase(problemRepository),
+    updateProblemUseCase: new UpdateProblemUseCase(problemRepository, unitOfWork, eventBus),
+
+    // Security
+    changeDatabasePassphraseUseCase: new ChangeDatabasePassphraseUseCase(databaseEncryption),
+    disableDatabaseEncryptionUseCase: new DisableDatabaseEncryptionUseCase(databaseEncryption),
+    enableDatabaseEncryptionUseCase: new EnableDatabaseEncryptionUseCase(databaseEncryption),
+    unlockDatabaseUseCase: new UnlockDatabaseUseCase(databaseEncryption),
+
+    // Spaces
+    createSpaceUseCase: new CreateSpaceUseCase(spaceRepository),
+    deleteSpaceUseCase: new DeleteSpaceUseCase(
+      spaceRepository, actionDefinitionRepository, actionLogRepository, problemRepository, todoRepository,
+      clockEventRepository, dataEntryLogRepository, unitOfWork
+    ),
+    getAllSpacesUseCase: new GetAllSpacesUseCase(spaceRepository),
+    getSpaceByIdUseCase: new GetSpaceByIdUseCase(spaceRepository),
+    updateSpaceUseCase: new UpdateSpaceUseCase(spaceRepository),
+    duplicateSpaceUseCase: new DuplicateSpaceUseCase(spaceRepository, actionDefinitionRepository),
+
+    // Stats
+    getAllDailyRollupsUseCase: new GetAllDailyRollupsUseCase(dailyRollupRepository),
+    getDailyRollupsBySpaceUseCase: new GetDailyRollupsBySpaceUseCase(dailyRollupRepository),
+    getSpaceStatsUseCase: new GetSpaceStatsUseCase(dailyRollupRepository),
+    rebuildDailyRollupsUseCase: new RebuildDailyRollupsUseCase(spaceRepository, dailyRollupRepository, unitOfWork),
+
+    // Storage
+    getStorageUsageUseCase: new GetStorageUsageUseCase(
+      spaceRepository, actionDefinitionRepository, actionLogRepository, problemRepository, todoRepository,
+      clockEventRepository, dataEntryLogRepository, attachmentRepository, recordHistoryRepository,
+      dailyRollupRepository, backupSnapshotRepository
+    ),
+    deleteOldImagesUseCase: new DeleteOldImagesUseCase(attachmentRepository, problemRepository, todoRepository, unitOfWork),
+    prunePastSpaceLogsUseCase: new PrunePastSpaceLogsUseCase(spaceRepository, recordHistoryRepository, unitOfWork),
+
+    // Timeline
+    getTimelineItemsBySpaceUseCase: new GetTimelineItemsBySpaceUseCase(actionLogRepository, actionDefinitionRepository, problemRepository, todoRepository, dataEntryLogRepository),
+
+    // Timesheets
+    exportTimesheetUseCase: new ExportTimesheetUseCase(clockEventRepository, spaceRepository),
+
+    // To-dos
+    createTodoUseCase: new CreateTodoUseCase(unitOfWork),
+    deleteTodoUseCase: new DeleteTodoUseCase(todoRepository),
+    getTodosBySpaceUseCase: new GetTodosBySpaceUseCase(todoRepository),
+    updateTodoUseCase: new UpdateTodoUseCase(todoRepository, unitOfWork, eventBus),
+
+    // Trash
+    getTrashUseCase: new GetTrashUseCase(spaceRepository, actionDefinitionRepository, problemRepository, todoRepository),
+    restoreFromTrashUseCase: new RestoreFromTrashUseCase(
+      spaceRepository, actionDefinitionRepository, actionLogRepository, problemRepository, todoRepository,
+      clockEventRepository, dataEntryLogRepository, unitOfWork
+    ),
+    purgeTrashUseCase: new PurgeTrashUseCase(
+      spaceRepository, actionDefinitionRepository, actionLogRepository, problemRepository, todoRepository,
+      clockEventRepository, dataEntryLogRepository, unitOfWork
+    ),
+
+    // User progress
+    getUserProgressUseCase: new GetUserProgressUseCase(userProgressRepository),
+  };
+}
+
+export type AppUseCases = ReturnType<typeof createUseCases>;
+
+export interface AppContainer {
+  adapters: AppAdapters;
+  eventBus: IDomainEventBus;
+  useCases: AppUseCases;
+}
+
+/**
+ * Composition root: builds every use case once on top of `adapters`. Use cases are
+ * stateless, so one container serves the whole app.
+ */
+export function createAppContainer(adapters: AppAdapters, eventBus: IDomainEventBus = domainEventBus): AppContainer {
+  return {
+    adapters,
+    eventBus,
+    useCases: createUseCases(adapters, eventBus),
+  };
+}
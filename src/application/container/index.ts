@@ -0,0 +1,3 @@
+// src/application/container/index.ts
+export { createAppContainer } from './app-container';
+export type { AppAdapters, AppContainer, AppUseCases } from './app-container';
@@ -0,0 +1,26 @@
+// src/application/dto/action-template.dto.ts
+import type { ActionDefinition, ActionStep, FormFieldDefinition } from '@/domain/entities';
+
+/*
+ * Action definitions without anything tied to one database: ids, the space, dates and
+ * the enabled flag are left out and given fresh values when a template is added to a space.
+ * Steps and form fields are listed in the order they appear.
+ */
+
+export type ActionTemplateFormFieldDTO = Omit<FormFieldDefinition, 'id' | 'order'>;
+
+export interface ActionTemplateStepDTO extends Omit<ActionStep, 'id' | 'order' | 'formFields'> {
+  formFields?: ActionTemplateFormFieldDTO[];
+}
+
+export interface ActionTemplateDTO extends Pick<ActionDefinition, 'name' | 'description' | 'type' | 'pointsForCompletion'> {
+  steps?: ActionTemplateStepDTO[];
+  formFields?: ActionTemplateFormFieldDTO[];
+}
+
+export interface ActionTemplateFileDTO {
+  format: 'okapi-action-templates';
+  formatVersion: 1;
+  exportedAt: string; // ISO date string
+  templates: ActionTemplateDTO[];
+}
@@ -0,0 +1,52 @@
+// src/application/dto/action-template.schema.ts
+import * as z from 'zod';
+import type { ActionTemplateDTO, ActionTemplateFileDTO, ActionTemplateFormFieldDTO, ActionTemplateStepDTO } from './action-template.dto';
+
+const formFieldSchema: z.ZodType<ActionTemplateFormFieldDTO> = z.object({
+  name: z.string().min(1, { message: 'Expected a field name' }),
+  label: z.string().min(1, { message: 'Expected a field label' }),
+  fieldType: z.enum(['text', 'number', 'date', 'textarea', 'barcode']),
+  isRequired: z.boolean(),
+  placeholder: z.string().optional(),
+});
+
+const formFieldsSchema = z.array(formFieldSchema).superRefine((fields, ctx) => {
+  // Entries store values by field name, so two fields sharing one would overwrite each other
+  const seen = new Set<string>();
+  fields.forEach((field, index) => {
+    if (seen.has(field.name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'name'], message: `Field name "${field.name}" is used twice` });
+    }
+    seen.add(field.name);
+  });
+});
+
+const actionTemplateStepSchema: z.ZodType<ActionTemplateStepDTO> = z.object({
+  description: z.string().min(1, { message: 'Expected a step description' }),
+  pointsPerStep: z.number().optional(),
+  stepType: z.enum(['description', 'data-entry']).optional(),
+  formFields: formFieldsSchema.optional(),
+});
+
+export const actionTemplateSchema: z.ZodType<ActionTemplateDTO> = z.object({
+  name: z.string().min(1, { message: 'Expected a name' }),
+  description: z.string().optional(),
+  type: z.enum(['single', 'multi-step', 'data-entry', 'timer']),
+  pointsForCompletion: z.number(),
+  steps: z.array(actionTemplateStepSchema).optional(),
+  formFields: formFieldsSchema.optional(),
+}).superRefine((template, ctx) => {
+  if (template.type === 'multi-step' && !template.steps?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['steps'], message: 'A multi-step action needs at least one step' });
+  }
+  if (template.type === 'data-entry' && !template.formFields?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['formFields'], message: 'A data-entry action needs at least one field' });
+  }
+});
+
+export const actionTemplateFileSchema: z.ZodType<ActionTemplateFileDTO> = z.object({
+  format: z.literal('okapi-action-templates'),
+  formatVersion: z.literal(1),
+  exportedAt: z.string(),
+  templates: z.array(actionTemplateSchema).min(1, { message: 'Expected at least one template' }),
+});
@@ -7,6 +7,18 @@ import type { Todo } from '@/domain/entities/todo.entity';
 import type { UserProgress } from '@/domain/entities/user-progress.entity';
 import type { ClockEvent } from '@/domain/entities/clock-event.entity';
 import type { DataEntryLog } from '@/domain/entities/data-entry-log.entity'; // New
+import type { RecordHistoryEntry } from '@/domain/entities/record-history.entity';
+
+/**
+ * An attachment in JSON-safe form: the blob is carried as a base64 data URI.
+ */
+export interface AttachmentExportDTO {
+  id: string;
+  spaceId: string;
+  mimeType: string;
+  creationDate: string;
+  dataUri: string;
+}
 
 /**
  * Represents an entire snapshot of the application's data for export/import.
@@ -20,5 +32,75 @@ export interface AppDataExportDTO {
   userProgress: UserProgress;
   clockEvents: ClockEvent[];
   dataEntries: DataEntryLog[]; // New
+  attachments?: AttachmentExportDTO[]; // Absent in exports made before attachments existed
+  recordHistory?: RecordHistoryEntry[]; // Absent in exports made before edits were recorded
   schemaVersion: string;
 }
+
+/**
+ * A self-contained copy of one or more spaces with everything recorded in them, for
+ * handing a day's work to someone else or moving a space to another device. Trashed
+ * records are left out.
+ */
+export interface SpaceBundleExportDTO {
+  format: 'okapi-space-bundle';
+  formatVersion: 1;
+  schemaVersion: string; // Format of the records, as for AppDataExportDTO
+  exportedAt: string; // ISO date string
+  spaces: Space[];
+  actionDefinitions: ActionDefinition[];
+  actionLogs: ActionLog[];
+  problems: Problem[];
+  todos: Todo[];
+  clockEvents: ClockEvent[];
+  dataEntries: DataEntryLog[];
+  attachments: AttachmentExportDTO[]; // Only the images the bundled problems and todos refer to
+}
+
+/**
+ * One file of an archive export. Checksums are the CRC-32 of the uncompressed content,
+ * the same value the ZIP directory holds, written as 8 hex digits.
+ */
+export interface AppDataArchiveFileDTO {
+  path: string;
+  recordType?: string; // Collection an NDJSON file holds, e.g. 'actionLogs'; absent for images
+  recordCount?: number;
+  size: number; // Uncompressed bytes
+  crc32: string;
+}
+
+/**
+ * `manifest.json` of an archive export: a ZIP holding one NDJSON file per collection,
+ * with one record per line, and every image as a file of its own under `images/`.
+ */
+export interface AppDataArchiveManifestDTO {
+  format: 'okapi-archive';
+  formatVersion: 1;
+  schemaVersion: string; // Format of the records, as for AppDataExportDTO
+  exportedAt: string; // ISO date string
+  files: AppDataArchiveFileDTO[];
+}
+
+/**
+ * A line of `attachments.ndjson`: the attachment without its blob, which is the archive
+ * file at `path`.
+ */
+export interface AttachmentArchiveDTO {
+  id: string;
+  spaceId: string;
+  mimeType: string;
+  creationDate: string;
+  path: string;
+}
+
+/**
+ * An export file encrypted with a passphrase chosen when exporting. `ciphertext`
+ * decrypts to the JSON of an AppDataExportDTO; binary values are base64.
+ */
+export interface EncryptedAppDataExportDTO {
+  format: 'okapi-encrypted-export';
+  formatVersion: 1;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; salt: string; iterations: number };
+  cipher: { name: 'AES-GCM'; iv: string };
+  ciphertext: string;
+}
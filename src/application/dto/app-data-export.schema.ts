@@ -0,0 +1,199 @@
+// src/application/dto/app-data-export.schema.ts
+import * as z from 'zod';
+import type { ActionDefinition, ActionLog, ActionStep, ClockEvent, DataEntryLog, FormFieldDefinition, Problem, RecordHistoryEntry, Space, Todo, UserProgress } from '@/domain/entities';
+import type { AppDataArchiveManifestDTO, AppDataExportDTO, AttachmentArchiveDTO, AttachmentExportDTO, SpaceBundleExportDTO } from './app-data-export.dto';
+
+/*
+ * Schemas for the current export format. Fields they do not list are dropped on import,
+ * so a field added to an entity must be added here as well.
+ */
+
+const isoDateString = z.string().refine(value => !Number.isNaN(Date.parse(value)), { message: 'Expected an ISO date string' });
+const id = z.string().min(1, { message: 'Expected a non-empty id' });
+
+export const spaceSchema: z.ZodType<Space> = z.object({
+  id,
+  name: z.string(),
+  description: z.string().optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Expected a date in YYYY-MM-DD form' }),
+  creationDate: isoDateString,
+  tags: z.array(z.string()),
+  colorScheme: z.string().optional(),
+  goal: z.string().optional(),
+  deletedAt: isoDateString.optional(),
+});
+
+const formFieldDefinitionSchema: z.ZodType<FormFieldDefinition> = z.object({
+  id,
+  name: z.string(),
+  label: z.string(),
+  fieldType: z.enum(['text', 'number', 'date', 'textarea', 'barcode']),
+  order: z.number(),
+  isRequired: z.boolean(),
+  placeholder: z.string().optional(),
+});
+
+const actionStepSchema: z.ZodType<ActionStep> = z.object({
+  id,
+  description: z.string(),
+  order: z.number(),
+  pointsPerStep: z.number().optional(),
+  stepType: z.enum(['description', 'data-entry']).optional(),
+  formFields: z.array(formFieldDefinitionSchema).optional(),
+});
+
+export const actionDefinitionSchema: z.ZodType<ActionDefinition> = z.object({
+  id,
+  spaceId: id,
+  name: z.string(),
+  description: z.string().optional(),
+  type: z.enum(['single', 'multi-step', 'data-entry', 'timer']),
+  pointsForCompletion: z.number(),
+  steps: z.array(actionStepSchema).optional(),
+  formFields: z.array(formFieldDefinitionSchema).optional(),
+  order: z.number().optional(),
+  creationDate: isoDateString,
+  isEnabled: z.boolean(),
+  deletedAt: isoDateString.optional(),
+});
+
+export const actionLogSchema: z.ZodType<ActionLog> = z.object({
+  id,
+  spaceId: id,
+  actionDefinitionId: id,
+  timestamp: isoDateString,
+  pointsAwarded: z.number(),
+  completedStepId: z.string().optional(),
+  stepOutcome: z.enum(['completed', 'skipped']).optional(),
+  isMultiStepFullCompletion: z.boolean().optional(),
+  notes: z.string().optional(),
+  durationMs: z.number().nonnegative().optional(),
+  deletedAt: isoDateString.optional(),
+});
+
+export const problemSchema: z.ZodType<Problem> = z.object({
+  id,
+  spaceId: id,
+  type: z.enum(['Waste', 'Blocker', 'Issue']),
+  description: z.string(),
+  timestamp: isoDateString,
+  lastModifiedDate: isoDateString,
+  resolved: z.boolean(),
+  resolutionNotes: z.string().optional(),
+  imageAttachmentId: z.string().optional(),
+  deletedAt: isoDateString.optional(),
+});
+
+export const todoSchema: z.ZodType<Todo> = z.object({
+  id,
+  spaceId: id,
+  description: z.string(),
+  status: z.enum(['todo', 'doing', 'done']),
+  beforeImageAttachmentId: z.string().optional(),
+  afterImageAttachmentId: z.string().optional(),
+  completed: z.boolean(),
+  creationDate: isoDateString,
+  completionDate: isoDateString.optional(),
+  lastModifiedDate: isoDateString,
+  order: z.number().optional(),
+  deletedAt: isoDateString.optional(),
+});
+
+export const userProgressSchema: z.ZodType<UserProgress> = z.object({
+  userId: id,
+  points: z.number(),
+  level: z.number(),
+  unlockedCustomizations: z.array(z.string()),
+});
+
+export const clockEventSchema: z.ZodType<ClockEvent> = z.object({
+  id,
+  type: z.enum(['clock-in', 'clock-out']),
+  timestamp: isoDateString,
+  spaceId: id,
+  deletedAt: isoDateString.optional(),
+});
+
+export const dataEntryLogSchema: z.ZodType<DataEntryLog> = z.object({
+  id,
+  actionDefinitionId: id,
+  stepId: z.string().optional(),
+  spaceId: id,
+  timestamp: isoDateString,
+  data: z.record(z.any()),
+  pointsAwarded: z.number(),
+  deletedAt: isoDateString.optional(),
+});
+
+export const attachmentExportSchema: z.ZodType<AttachmentExportDTO> = z.object({
+  id,
+  spaceId: id,
+  mimeType: z.string(),
+  creationDate: isoDateString,
+  dataUri: z.string().startsWith('data:', { message: 'Expected a data URI' }),
+});
+
+export const attachmentArchiveSchema: z.ZodType<AttachmentArchiveDTO> = z.object({
+  id,
+  spaceId: id,
+  mimeType: z.string(),
+  creationDate: isoDateString,
+  path: z.string().startsWith('images/', { message: 'Expected a file under images/' }),
+});
+
+export const recordHistoryEntrySchema: z.ZodType<RecordHistoryEntry> = z.object({
+  id,
+  recordType: z.enum(['dataEntry', 'todo', 'problem', 'actionDefinition']),
+  recordId: id,
+  spaceId: id,
+  timestamp: isoDateString,
+  reason: z.string().optional(),
+  changes: z.array(z.object({
+    field: z.string(),
+    before: z.unknown().optional(),
+    after: z.unknown().optional(),
+  })),
+});
+
+export const appDataExportSchema: z.ZodType<AppDataExportDTO> = z.object({
+  spaces: z.array(spaceSchema),
+  actionDefinitions: z.array(actionDefinitionSchema),
+  actionLogs: z.array(actionLogSchema),
+  problems: z.array(problemSchema),
+  todos: z.array(todoSchema),
+  userProgress: userProgressSchema,
+  clockEvents: z.array(clockEventSchema),
+  dataEntries: z.array(dataEntryLogSchema),
+  attachments: z.array(attachmentExportSchema).optional(),
+  recordHistory: z.array(recordHistoryEntrySchema).optional(),
+  schemaVersion: z.string(),
+});
+
+export const spaceBundleExportSchema: z.ZodType<SpaceBundleExportDTO> = z.object({
+  format: z.literal('okapi-space-bundle'),
+  formatVersion: z.literal(1),
+  schemaVersion: z.string(),
+  exportedAt: isoDateString,
+  spaces: z.array(spaceSchema).min(1, { message: 'Expected at least one space' }),
+  actionDefinitions: z.array(actionDefinitionSchema),
+  actionLogs: z.array(actionLogSchema),
+  problems: z.array(problemSchema),
+  todos: z.array(todoSchema),
+  clockEvents: z.array(clockEventSchema),
+  dataEntries: z.array(dataEntryLogSchema),
+  attachments: z.array(attachmentExportSchema),
+});
+
+export const appDataArchiveManifestSchema: z.ZodType<AppDataArchiveManifestDTO> = z.object({
+  format: z.literal('okapi-archive'),
+  formatVersion: z.literal(1),
+  schemaVersion: z.string(),
+  exportedAt: isoDateString,
+  files: z.array(z.object({
+    path: z.string().min(1),
+    recordType: z.string().optional(),
+    recordCount: z.number().int().nonnegative().optional(),
+    size: z.number().int().nonnegative(),
+    crc32: z.string().regex(/^[0-9a-f]{8}$/, { message: 'Expected 8 hex digits' }),
+  })),
+});
@@ -1,6 +1,11 @@
 // src/application/dto/index.ts
 export * from './app-data-export.dto';
-export type { AppDataExportDTO } from './app-data-export.dto';
+export type { AppDataExportDTO, AttachmentExportDTO, EncryptedAppDataExportDTO, SpaceBundleExportDTO, AppDataArchiveFileDTO, AppDataArchiveManifestDTO, AttachmentArchiveDTO } from './app-data-export.dto';
+export * from './app-data-export.schema';
 
 export * from './timeline-item.dto';
 export type { TimelineItem, TimelineItemType } from './timeline-item.dto';
+
+export * from './action-template.dto';
+export type { ActionTemplateDTO, ActionTemplateFileDTO, ActionTemplateFormFieldDTO, ActionTemplateStepDTO } from './action-template.dto';
+export * from './action-template.schema';
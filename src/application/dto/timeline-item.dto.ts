@@ -27,15 +27,15 @@ export interface TimelineItem {
   problemResolved?: boolean;
   problemResolutionNotes?: string;
   problemLastModifiedDate?: string;
-  problemImageDataUri?: string; 
+  problemImageAttachmentId?: string;
 
   // --- Todo specific details ---
   todoStatus?: 'todo' | 'doing' | 'done'; // Replaces todoCompleted
   todoCompleted?: boolean; // Keep for backward compatibility or simple display
   todoCompletionDate?: string;
   todoLastModifiedDate?: string;
-  todoBeforeImageDataUri?: string;
-  todoAfterImageDataUri?: string;
+  todoBeforeImageAttachmentId?: string;
+  todoAfterImageAttachmentId?: string;
 
   // --- DataEntryLog specific details ---
   dataEntryActionName?: string; // Name of the data entry action definition
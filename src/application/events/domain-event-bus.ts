@@ -0,0 +1,59 @@
+// src/application/events/domain-event-bus.ts
+import type { DomainEvent, DomainEventType, DomainEventOfType } from './domain-events';
+
+export type DomainEventHandler<K extends DomainEventType> = (event: DomainEventOfType<K>) => void | Promise<void>;
+
+export type AnyDomainEventHandler = (event: DomainEvent) => void | Promise<void>;
+
+// What use cases depend on: they announce events and never see who listens
+export interface IDomainEventPublisher {
+  publish(event: DomainEvent): void;
+}
+
+export interface IDomainEventBus extends IDomainEventPublisher {
+  // Returns a function that removes the handler
+  subscribe<K extends DomainEventType>(type: K, handler: DomainEventHandler<K>): () => void;
+  subscribeToAll(handler: AnyDomainEventHandler): () => void;
+}
+
+/**
+ * Delivers events to handlers in the same tab, in the order they subscribed.
+ * Handlers run after the publishing use case has saved its changes, and a handler
+ * that throws or rejects is logged without affecting the use case or other handlers.
+ */
+export class InProcessDomainEventBus implements IDomainEventBus {
+  private handlersByType = new Map<DomainEventType, Set<AnyDomainEventHandler>>();
+  private allEventHandlers = new Set<AnyDomainEventHandler>();
+
+  publish(event: DomainEvent): void {
+    const handlers = [...(this.handlersByType.get(event.type) ?? []), ...this.allEventHandlers];
+    handlers.forEach(handler => {
+      try {
+        Promise.resolve(handler(event)).catch(error => console.error(`Error in ${event.type} handler:`, error));
+      } catch (error) {
+        console.error(`Error in ${event.type} handler:`, error);
+      }
+    });
+  }
+
+  subscribe<K extends DomainEventType>(type: K, handler: DomainEventHandler<K>): () => void {
+    const handlers = this.handlersByType.get(type) ?? new Set<AnyDomainEventHandler>();
+    this.handlersByType.set(type, handlers);
+    // Only events of `type` reach this set, so the narrower handler is safe to store here
+    const storedHandler = handler as AnyDomainEventHandler;
+    handlers.add(storedHandler);
+    return () => {
+      handlers.delete(storedHandler);
+    };
+  }
+
+  subscribeToAll(handler: AnyDomainEventHandler): () => void {
+    this.allEventHandlers.add(handler);
+    return () => {
+      this.allEventHandlers.delete(handler);
+    };
+  }
+}
+
+// Shared by every use case in the app, so subscribers only need to register once
+export const domainEventBus: IDomainEventBus = new InProcessDomainEventBus();
@@ -0,0 +1,56 @@
+// src/application/events/domain-events.ts
+import type { ActionLog, Todo, TodoStatus, Problem, ClockEvent } from '@/domain/entities';
+
+interface DomainEventBase {
+  occurredAt: string; // ISO date string
+  spaceId: string;
+}
+
+// A single, timer or multi-step action (or one completed step of it) was logged
+export interface ActionLoggedEvent extends DomainEventBase {
+  type: 'ActionLogged';
+  actionLog: ActionLog;
+}
+
+export interface StepSkippedEvent extends DomainEventBase {
+  type: 'StepSkipped';
+  actionLog: ActionLog;
+  stepId: string;
+}
+
+export interface TodoStatusChangedEvent extends DomainEventBase {
+  type: 'TodoStatusChanged';
+  todo: Todo;
+  previousStatus: TodoStatus;
+}
+
+// Only raised when a problem goes from open to resolved, not when a resolved one is edited
+export interface ProblemResolvedEvent extends DomainEventBase {
+  type: 'ProblemResolved';
+  problem: Problem;
+}
+
+export interface ClockedInEvent extends DomainEventBase {
+  type: 'ClockedIn';
+  clockEvent: ClockEvent;
+}
+
+export interface ClockedOutEvent extends DomainEventBase {
+  type: 'ClockedOut';
+  clockEvent: ClockEvent;
+}
+
+/**
+ * Facts use cases announce after their changes have been saved.
+ */
+export type DomainEvent =
+  | ActionLoggedEvent
+  | StepSkippedEvent
+  | TodoStatusChangedEvent
+  | ProblemResolvedEvent
+  | ClockedInEvent
+  | ClockedOutEvent;
+
+export type DomainEventType = DomainEvent['type'];
+
+export type DomainEventOfType<K extends DomainEventType> = Extract<DomainEvent, { type: K }>;
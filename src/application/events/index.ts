@@ -0,0 +1,14 @@
+// src/application/events/index.ts
+export { InProcessDomainEventBus, domainEventBus } from './domain-event-bus';
+export type { IDomainEventBus, IDomainEventPublisher, DomainEventHandler, AnyDomainEventHandler } from './domain-event-bus';
+export type {
+  DomainEvent,
+  DomainEventType,
+  DomainEventOfType,
+  ActionLoggedEvent,
+  StepSkippedEvent,
+  TodoStatusChangedEvent,
+  ProblemResolvedEvent,
+  ClockedInEvent,
+  ClockedOutEvent,
+} from './domain-events';
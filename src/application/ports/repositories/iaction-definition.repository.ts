@@ -5,6 +5,7 @@ export interface IActionDefinitionRepository {
   findById(id: string): Promise<ActionDefinition | null>;
   findBySpaceId(spaceId: string): Promise<ActionDefinition[]>;
   getAll(): Promise<ActionDefinition[]>;
+  findDeleted(): Promise<ActionDefinition[]>; // Definitions in the trash; every other finder skips them
   save(actionDefinition: ActionDefinition): Promise<ActionDefinition>; // Creates or updates
   delete(id: string): Promise<void>;
   deleteBySpaceId(spaceId: string): Promise<void>;
@@ -1,11 +1,16 @@
 // src/application/ports/repositories/iaction-log.repository.ts
 import type { ActionLog } from '@/domain/entities/action-log.entity';
+import type { CursorPage, CursorPageRequest } from './pagination';
 
 export interface IActionLogRepository {
   findById(id: string): Promise<ActionLog | null>;
   findBySpaceId(spaceId: string): Promise<ActionLog[]>;
+  findBySpaceIdBetween(spaceId: string, from: string, to: string): Promise<ActionLog[]>; // Inclusive ISO bounds, oldest first
+  findBetween(from: string, to: string): Promise<ActionLog[]>; // Same bounds and order, across all spaces
+  findPageBySpaceId(spaceId: string, page: CursorPageRequest): Promise<CursorPage<ActionLog>>;
   findByActionDefinitionId(actionDefinitionId: string): Promise<ActionLog[]>;
   getAll(): Promise<ActionLog[]>;
+  findDeleted(): Promise<ActionLog[]>; // Logs trashed along with their action or space
   save(actionLog: ActionLog): Promise<ActionLog>; // Creates or updates a log entry
   delete(id: string): Promise<void>;
   deleteBySpaceId(spaceId: string): Promise<void>;
@@ -0,0 +1,14 @@
+// src/application/ports/repositories/iattachment.repository.ts
+import type { Attachment, AttachmentMetadata } from '@/domain/entities/attachment.entity';
+
+export interface IAttachmentRepository {
+  findById(id: string): Promise<Attachment | null>;
+  findBySpaceId(spaceId: string): Promise<Attachment[]>;
+  getAll(): Promise<Attachment[]>;
+  getAllIds(): Promise<string[]>; // Lists attachments without reading their blobs
+  getAllMetadata(): Promise<AttachmentMetadata[]>; // Every attachment but its blob, which is not read
+  save(attachment: Attachment): Promise<Attachment>;
+  delete(id: string): Promise<void>;
+  deleteBySpaceId(spaceId: string): Promise<void>;
+  clearAll(): Promise<void>;
+}
@@ -0,0 +1,13 @@
+// src/application/ports/repositories/ibackup-snapshot.repository.ts
+import type { BackupSnapshot } from '@/domain/entities/backup-snapshot.entity';
+
+/**
+ * Local backups live beside the app data but are not part of it: importing, merging and
+ * clearing all data leave them alone, and exports do not include them.
+ */
+export interface IBackupSnapshotRepository {
+  getAll(): Promise<BackupSnapshot[]>; // Newest first, without reading the archives
+  getArchive(id: string): Promise<Blob | null>;
+  save(snapshot: BackupSnapshot, archive: Blob): Promise<void>; // Writes both or neither
+  delete(id: string): Promise<void>;
+}
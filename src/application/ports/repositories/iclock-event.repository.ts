@@ -1,12 +1,17 @@
 // src/application/ports/repositories/iclock-event.repository.ts
 import type { ClockEvent } from '@/domain/entities/clock-event.entity';
+import type { CursorPage, CursorPageRequest } from './pagination';
 
 export interface IClockEventRepository {
   findById(id: string): Promise<ClockEvent | null>;
   getAll(): Promise<ClockEvent[]>;
+  findDeleted(): Promise<ClockEvent[]>; // Events trashed along with their space
   findLastForSpace(spaceId: string): Promise<ClockEvent | null>; // Changed from findLastByUserId
   save(clockEvent: ClockEvent): Promise<ClockEvent>;
   clearAll(): Promise<void>;
   findBySpaceId(spaceId: string): Promise<ClockEvent[]>; 
+  findBySpaceIdBetween(spaceId: string, from: string, to: string): Promise<ClockEvent[]>; // Inclusive ISO bounds, oldest first
+  findBetween(from: string, to: string): Promise<ClockEvent[]>; // Same bounds and order, across all spaces
+  findPageBySpaceId(spaceId: string, page: CursorPageRequest): Promise<CursorPage<ClockEvent>>;
   deleteBySpaceId(spaceId: string): Promise<void>; // Added for cascade delete
 }
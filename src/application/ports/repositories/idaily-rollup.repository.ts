@@ -0,0 +1,12 @@
+// src/application/ports/repositories/idaily-rollup.repository.ts
+import type { DailyRollup } from '@/domain/entities/daily-rollup.entity';
+
+/**
+ * Read access to the daily rollups. They are only written through the unit of work,
+ * in the same change as the logs they summarize.
+ */
+export interface IDailyRollupRepository {
+  findBySpaceId(spaceId: string): Promise<DailyRollup[]>; // Oldest day first
+  getAll(): Promise<DailyRollup[]>;
+  isBuilt(): Promise<boolean>; // True once a full rebuild has completed; logs written earlier may be missing until then
+}
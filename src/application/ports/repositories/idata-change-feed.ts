@@ -0,0 +1,28 @@
+// src/application/ports/repositories/idata-change-feed.ts
+import type { UnitOfWorkStoreName } from './iunit-of-work';
+
+export type DataChangeOperation = 'put' | 'delete' | 'clear';
+
+/**
+ * Describes one persisted write. Bulk deletes (by space or by action definition)
+ * carry no `id`, and `spaceId` is absent when the writer does not know the owning space.
+ */
+export interface DataChangeEvent {
+  storeName: UnitOfWorkStoreName;
+  operation: DataChangeOperation;
+  id?: string;
+  spaceId?: string;
+}
+
+export type DataChangeListener = (events: DataChangeEvent[]) => void;
+
+export interface IDataChangeFeed {
+  // Announces writes that have been committed; events from one transaction are sent as one batch
+  publish(events: DataChangeEvent[]): void;
+
+  /**
+   * Registers a listener for writes committed by other browsing contexts (tabs, windows)
+   * of the same app. Returns a function that removes the listener.
+   */
+  subscribe(listener: DataChangeListener): () => void;
+}
@@ -1,11 +1,16 @@
 // src/application/ports/repositories/idata-entry-log.repository.ts
 import type { DataEntryLog } from '@/domain/entities/data-entry-log.entity';
+import type { CursorPage, CursorPageRequest } from './pagination';
 
 export interface IDataEntryLogRepository {
   findById(id: string): Promise<DataEntryLog | null>;
   findByActionDefinitionId(actionDefinitionId: string): Promise<DataEntryLog[]>;
   findBySpaceId(spaceId: string): Promise<DataEntryLog[]>;
+  findBySpaceIdBetween(spaceId: string, from: string, to: string): Promise<DataEntryLog[]>; // Inclusive ISO bounds, oldest first
+  findBetween(from: string, to: string): Promise<DataEntryLog[]>; // Same bounds and order, across all spaces
+  findPageBySpaceId(spaceId: string, page: CursorPageRequest): Promise<CursorPage<DataEntryLog>>;
   getAll(): Promise<DataEntryLog[]>;
+  findDeleted(): Promise<DataEntryLog[]>; // Entries trashed along with their action or space
   save(dataEntryLog: DataEntryLog): Promise<DataEntryLog>;
   delete(id: string): Promise<void>;
   deleteBySpaceId(spaceId: string): Promise<void>;
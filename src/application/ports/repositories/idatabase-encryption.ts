@@ -0,0 +1,36 @@
+// src/application/ports/repositories/idatabase-encryption.ts
+
+/**
+ * - `disabled`: records are stored in plaintext
+ * - `locked`: records are encrypted and the passphrase has not been entered yet
+ * - `unlocked`: records are encrypted and can be read and written
+ */
+export type DatabaseEncryptionStatus = 'disabled' | 'locked' | 'unlocked';
+
+export type DatabaseEncryptionListener = (status: DatabaseEncryptionStatus) => void;
+
+/**
+ * Opt-in encryption at rest for the local database. Repositories keep working unchanged:
+ * while unlocked, records are encrypted on write and decrypted on read. Fields the
+ * database indexes stay in plaintext so queries still work.
+ */
+export interface IDatabaseEncryption {
+  getStatus(): Promise<DatabaseEncryptionStatus>;
+
+  // Resolves to false when the passphrase is wrong
+  unlock(passphrase: string): Promise<boolean>;
+
+  // Forgets the key; repositories fail until the database is unlocked again
+  lock(): Promise<void>;
+
+  // The methods below rewrite every record in one transaction and leave the database unlocked
+  enable(passphrase: string): Promise<void>;
+  changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void>;
+  disable(currentPassphrase: string): Promise<void>;
+
+  /**
+   * Notifies `listener` whenever the status changes, including when another tab
+   * enables, disables or re-keys the database. Returns a function that removes the listener.
+   */
+  subscribe(listener: DatabaseEncryptionListener): () => void;
+}
@@ -1,9 +1,18 @@
 // src/application/ports/repositories/index.ts
 export type { IActionDefinitionRepository } from './iaction-definition.repository';
 export type { IActionLogRepository } from './iaction-log.repository';
+export type { IAttachmentRepository } from './iattachment.repository';
+export type { IBackupSnapshotRepository } from './ibackup-snapshot.repository';
 export type { IClockEventRepository } from './iclock-event.repository';
+export type { IDailyRollupRepository } from './idaily-rollup.repository';
 export type { IDataEntryLogRepository } from './idata-entry-log.repository';
 export type { IProblemRepository } from './iproblem.repository';
+export type { IRecordHistoryRepository } from './irecord-history.repository';
 export type { ISpaceRepository } from './ispace.repository';
 export type { ITodoRepository } from './itodo.repository';
 export type { IUserProgressRepository } from './iuser-progress.repository';
+export type { CursorPage, CursorPageRequest } from './pagination';
+export type { IUnitOfWork, UnitOfWorkOperation, UnitOfWorkRecords, UnitOfWorkStoreName, SpaceScopedStoreName, SpaceRecords } from './iunit-of-work';
+export type { IRecordScanner, RecordScanRequest, RecordScanPage } from './irecord-scanner';
+export type { IDataChangeFeed, DataChangeEvent, DataChangeListener, DataChangeOperation } from './idata-change-feed';
+export type { IDatabaseEncryption, DatabaseEncryptionStatus, DatabaseEncryptionListener } from './idatabase-encryption';
@@ -5,6 +5,7 @@ export interface IProblemRepository {
   findById(id: string): Promise<Problem | null>;
   findBySpaceId(spaceId: string): Promise<Problem[]>;
   getAll(): Promise<Problem[]>;
+  findDeleted(): Promise<Problem[]>; // Problems in the trash; every other finder skips them
   save(problem: Problem): Promise<Problem>; // Handles create and update
   delete(id: string): Promise<void>;
   deleteBySpaceId(spaceId: string): Promise<void>;
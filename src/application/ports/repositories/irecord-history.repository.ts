@@ -0,0 +1,15 @@
+// src/application/ports/repositories/irecord-history.repository.ts
+import type { RecordHistoryEntry, HistoryRecordType } from '@/domain/entities/record-history.entity';
+
+/**
+ * Entries are only ever appended. They are removed in bulk along with their space
+ * or by a full clear, never edited.
+ */
+export interface IRecordHistoryRepository {
+  findByRecord(recordType: HistoryRecordType, recordId: string): Promise<RecordHistoryEntry[]>; // Newest first
+  findBySpaceId(spaceId: string): Promise<RecordHistoryEntry[]>;
+  getAll(): Promise<RecordHistoryEntry[]>;
+  append(entry: RecordHistoryEntry): Promise<RecordHistoryEntry>;
+  deleteBySpaceId(spaceId: string): Promise<void>;
+  clearAll(): Promise<void>;
+}
@@ -0,0 +1,23 @@
+// src/application/ports/repositories/irecord-scanner.ts
+import type { UnitOfWorkRecords, UnitOfWorkStoreName } from './iunit-of-work';
+
+/**
+ * `afterKey` is the `nextKey` of the previous page; the first page is read without it.
+ */
+export interface RecordScanRequest {
+  limit: number;
+  afterKey?: string | null;
+}
+
+export interface RecordScanPage<K extends UnitOfWorkStoreName> {
+  records: UnitOfWorkRecords[K][];
+  nextKey: string | null; // Null once the whole store has been read
+}
+
+/**
+ * Reads a whole store a page at a time, in primary key order and with trashed records
+ * included, for jobs such as backups that must not hold every record at once.
+ */
+export interface IRecordScanner {
+  scan<K extends UnitOfWorkStoreName>(storeName: K, request: RecordScanRequest): Promise<RecordScanPage<K>>;
+}
@@ -4,6 +4,7 @@ import type { Space } from '@/domain/entities/space.entity';
 export interface ISpaceRepository {
   findById(id: string): Promise<Space | null>;
   getAll(): Promise<Space[]>;
+  findDeleted(): Promise<Space[]>; // Spaces in the trash; every other finder skips them
   save(space: Space): Promise<Space>; // Handles both create and update
   delete(id: string): Promise<void>;
   clearAll(): Promise<void>;
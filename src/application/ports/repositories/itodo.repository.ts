@@ -5,6 +5,7 @@ export interface ITodoRepository {
   findById(id: string): Promise<Todo | null>;
   findBySpaceId(spaceId: string): Promise<Todo[]>;
   getAll(): Promise<Todo[]>;
+  findDeleted(): Promise<Todo[]>; // To-dos in the trash; every other finder skips them
   save(todo: Todo): Promise<Todo>; // Handles both create and update
   delete(id: string): Promise<void>;
   deleteBySpaceId(spaceId: string): Promise<void>;
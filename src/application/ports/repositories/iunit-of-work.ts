@@ -0,0 +1,93 @@
+// src/application/ports/repositories/iunit-of-work.ts
+import type { Space } from '@/domain/entities/space.entity';
+import type { ActionDefinition } from '@/domain/entities/action-definition.entity';
+import type { ActionLog } from '@/domain/entities/action-log.entity';
+import type { Problem } from '@/domain/entities/problem.entity';
+import type { Todo } from '@/domain/entities/todo.entity';
+import type { UserProgress } from '@/domain/entities/user-progress.entity';
+import type { ClockEvent } from '@/domain/entities/clock-event.entity';
+import type { DataEntryLog } from '@/domain/entities/data-entry-log.entity';
+import type { Attachment } from '@/domain/entities/attachment.entity';
+import type { RecordHistoryEntry } from '@/domain/entities/record-history.entity';
+import type { DailyRollup } from '@/domain/entities/daily-rollup.entity';
+import type { UpgradeMarker } from '@/domain/entities/upgrade-marker.entity';
+
+/**
+ * Maps each persisted collection to the record type it holds.
+ */
+export interface UnitOfWorkRecords {
+  spaces: Space;
+  actionDefinitions: ActionDefinition;
+  actionLogs: ActionLog;
+  problems: Problem;
+  todos: Todo;
+  userProgress: UserProgress;
+  clockEvents: ClockEvent;
+  dataEntries: DataEntryLog;
+  attachments: Attachment;
+  recordHistory: RecordHistoryEntry;
+  dailyRollups: DailyRollup;
+  upgradeMarkers: UpgradeMarker;
+}
+
+export type UnitOfWorkStoreName = keyof UnitOfWorkRecords;
+
+// Collections whose records belong to a space and can be removed by spaceId
+export type SpaceScopedStoreName = Exclude<UnitOfWorkStoreName, 'spaces' | 'userProgress' | 'upgradeMarkers'>;
+
+type PutOperation = {
+  [K in UnitOfWorkStoreName]: { type: 'put'; storeName: K; record: UnitOfWorkRecords[K] };
+}[UnitOfWorkStoreName];
+
+/**
+ * Reads the space's records inside the transaction and stores whatever `update` returns.
+ * Totals kept per space, such as daily rollups, change this way so that concurrent writers
+ * each add to what is stored rather than overwrite one another. `update` must be synchronous.
+ */
+type UpdateBySpaceIdOperation = {
+  [K in SpaceScopedStoreName]: {
+    type: 'updateBySpaceId';
+    storeName: K;
+    spaceId: string;
+    update: (records: UnitOfWorkRecords[K][]) => UnitOfWorkRecords[K][];
+  };
+}[SpaceScopedStoreName];
+
+// Records of one space, by collection
+export type SpaceRecords = { [K in SpaceScopedStoreName]: UnitOfWorkRecords[K][] };
+
+/**
+ * Replaces the space's records with what `compute` derives from the space's records in
+ * `sourceStoreNames`, all read inside the transaction, so that a rebuild cannot miss records
+ * written while it runs. Stores not listed are absent from `sources`. Trashed records are
+ * included; `compute` must be synchronous.
+ */
+type RecomputeBySpaceIdOperation = {
+  [K in SpaceScopedStoreName]: {
+    type: 'recomputeBySpaceId';
+    storeName: K;
+    spaceId: string;
+    sourceStoreNames: SpaceScopedStoreName[];
+    compute: (sources: Partial<SpaceRecords>) => UnitOfWorkRecords[K][];
+  };
+}[SpaceScopedStoreName];
+
+/**
+ * A single write within a unit of work. Records are stored exactly as given:
+ * unlike repository `save` methods, no timestamps are touched.
+ */
+export type UnitOfWorkOperation =
+  | PutOperation
+  | UpdateBySpaceIdOperation
+  | RecomputeBySpaceIdOperation
+  | { type: 'delete'; storeName: UnitOfWorkStoreName; key: string }
+  | { type: 'deleteBySpaceId'; storeName: SpaceScopedStoreName; spaceId: string }
+  | { type: 'clear'; storeName: UnitOfWorkStoreName };
+
+export interface IUnitOfWork {
+  /**
+   * Applies the operations in order as one atomic change: either all of them
+   * are persisted or, if any fails, none are.
+   */
+  execute(operations: UnitOfWorkOperation[]): Promise<void>;
+}
@@ -0,0 +1,20 @@
+// src/application/ports/repositories/pagination.ts
+
+/**
+ * Request for one page of a timestamp-ordered log query.
+ * `cursor` is the value returned as `nextCursor` by the previous page. Every log repository
+ * uses the format of `@/lib/page-cursor`, so one position can resume several of them.
+ */
+export interface CursorPageRequest {
+  limit: number;
+  cursor?: string | null;
+  direction?: 'newest-first' | 'oldest-first'; // Defaults to 'newest-first'
+}
+
+/**
+ * One page of results. `nextCursor` is null once the last page has been read.
+ */
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
@@ -0,0 +1,112 @@
+// src/application/use-cases/action-definition/action-template-gallery.ts
+import type { ActionTemplateDTO } from '@/application/dto/action-template.dto';
+
+export interface ActionTemplateGalleryItem {
+  id: string; // Stable key for lists; not stored with the actions created from it
+  category: string;
+  template: ActionTemplateDTO;
+}
+
+/**
+ * Starter templates offered in every space. They go through the same import as template
+ * files, so each must pass the template schema.
+ */
+export const ACTION_TEMPLATE_GALLERY: ActionTemplateGalleryItem[] = [
+  {
+    id: 'pre-trip-vehicle-inspection',
+    category: 'Transport',
+    template: {
+      name: 'Pre-Trip Vehicle Inspection',
+      description: 'Walk-around check before the vehicle leaves the yard.',
+      type: 'multi-step',
+      pointsForCompletion: 15,
+      steps: [
+        {
+          description: 'Vehicle details',
+          stepType: 'data-entry',
+          pointsPerStep: 2,
+          formFields: [
+            { name: 'vehicleId', label: 'Vehicle / Plate', fieldType: 'barcode', isRequired: true, placeholder: 'Scan or type the plate' },
+            { name: 'odometer', label: 'Odometer (km)', fieldType: 'number', isRequired: true },
+          ],
+        },
+        { description: 'Tyres: pressure, tread depth and no visible damage', stepType: 'description', pointsPerStep: 1 },
+        { description: 'Lights and indicators working, front and rear', stepType: 'description', pointsPerStep: 1 },
+        { description: 'Brakes, including the parking brake', stepType: 'description', pointsPerStep: 1 },
+        { description: 'Fluid levels: oil, coolant, washer fluid', stepType: 'description', pointsPerStep: 1 },
+        { description: 'Mirrors, windscreen and wipers', stepType: 'description', pointsPerStep: 1 },
+        { description: 'Load secured and doors locked', stepType: 'description', pointsPerStep: 1 },
+        {
+          description: 'Defects found',
+          stepType: 'data-entry',
+          pointsPerStep: 1,
+          formFields: [
+            { name: 'defects', label: 'Defects (leave empty if none)', fieldType: 'textarea', isRequired: false },
+          ],
+        },
+      ],
+    },
+  },
+  {
+    id: 'delivery-proof',
+    category: 'Transport',
+    template: {
+      name: 'Proof of Delivery',
+      description: 'Record who received a parcel and when.',
+      type: 'data-entry',
+      pointsForCompletion: 5,
+      formFields: [
+        { name: 'parcelId', label: 'Parcel Barcode', fieldType: 'barcode', isRequired: true, placeholder: 'Scan the parcel label' },
+        { name: 'recipientName', label: 'Received By', fieldType: 'text', isRequired: true },
+        { name: 'deliveryAddress', label: 'Address', fieldType: 'text', isRequired: false },
+        { name: 'parcelCount', label: 'Number of Parcels', fieldType: 'number', isRequired: false },
+        { name: 'notes', label: 'Notes', fieldType: 'textarea', isRequired: false, placeholder: 'e.g. left with a neighbour' },
+      ],
+    },
+  },
+  {
+    id: '5s-audit',
+    category: 'Lean',
+    template: {
+      name: '5S Audit',
+      description: 'Score the work area on each of the five S.',
+      type: 'multi-step',
+      pointsForCompletion: 20,
+      steps: [
+        {
+          description: 'Area',
+          stepType: 'data-entry',
+          pointsPerStep: 1,
+          formFields: [
+            { name: 'area', label: 'Area Audited', fieldType: 'text', isRequired: true },
+          ],
+        },
+        ...(['Sort', 'Set in Order', 'Shine', 'Standardize', 'Sustain'] as const).map(pillar => ({
+          description: `${pillar}: score 1-5`,
+          stepType: 'data-entry' as const,
+          pointsPerStep: 2,
+          formFields: [
+            { name: 'score', label: `${pillar} Score (1-5)`, fieldType: 'number' as const, isRequired: true },
+            { name: 'findings', label: 'Findings', fieldType: 'textarea' as const, isRequired: false },
+          ],
+        })),
+        { description: 'Agree actions with the area owner', stepType: 'description', pointsPerStep: 2 },
+      ],
+    },
+  },
+  {
+    id: 'shift-handover',
+    category: 'General',
+    template: {
+      name: 'Shift Handover',
+      description: 'Pass open issues and notes to the next shift.',
+      type: 'data-entry',
+      pointsForCompletion: 5,
+      formFields: [
+        { name: 'handedTo', label: 'Handed Over To', fieldType: 'text', isRequired: true },
+        { name: 'openIssues', label: 'Open Issues', fieldType: 'textarea', isRequired: false },
+        { name: 'notes', label: 'Notes', fieldType: 'textarea', isRequired: false },
+      ],
+    },
+  },
+];
@@ -0,0 +1,38 @@
+// src/application/use-cases/action-definition/action-templates.ts
+import type { ActionDefinition, FormFieldDefinition } from '@/domain/entities';
+import type { ActionTemplateDTO, ActionTemplateFileDTO, ActionTemplateFormFieldDTO } from '@/application/dto/action-template.dto';
+
+export function isActionTemplateFile(value: unknown): value is ActionTemplateFileDTO {
+  return typeof value === 'object' && value !== null && (value as { format?: unknown }).format === 'okapi-action-templates';
+}
+
+export function createActionTemplateFile(templates: ActionTemplateDTO[], exportedAt: string = new Date().toISOString()): ActionTemplateFileDTO {
+  return { format: 'okapi-action-templates', formatVersion: 1, exportedAt, templates };
+}
+
+const byOrder = <T extends { order: number }>(items: T[]): T[] => [...items].sort((a, b) => a.order - b.order);
+
+const toTemplateFields = (fields: FormFieldDefinition[]): ActionTemplateFormFieldDTO[] =>
+  byOrder(fields).map(({ name, label, fieldType, isRequired, placeholder }) => ({ name, label, fieldType, isRequired, placeholder }));
+
+/**
+ * Strips a definition down to what another space needs to recreate it. Steps are only kept
+ * for multi-step actions and top-level fields only for data-entry ones, as when editing.
+ */
+export function toActionTemplate(definition: ActionDefinition): ActionTemplateDTO {
+  return {
+    name: definition.name,
+    description: definition.description,
+    type: definition.type,
+    pointsForCompletion: definition.pointsForCompletion,
+    steps: definition.type === 'multi-step' && definition.steps
+      ? byOrder(definition.steps).map(step => ({
+          description: step.description,
+          pointsPerStep: step.pointsPerStep,
+          stepType: step.stepType,
+          formFields: step.stepType === 'data-entry' && step.formFields ? toTemplateFields(step.formFields) : undefined,
+        }))
+      : undefined,
+    formFields: definition.type === 'data-entry' && definition.formFields ? toTemplateFields(definition.formFields) : undefined,
+  };
+}
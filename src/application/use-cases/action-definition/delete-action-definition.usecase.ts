@@ -1,12 +1,18 @@
-
 // src/application/use-cases/action-definition/delete-action-definition.usecase.ts
-import type { IActionDefinitionRepository, IActionLogRepository, IDataEntryLogRepository } from '@/application/ports/repositories';
+import type { IActionDefinitionRepository, IActionLogRepository, IDataEntryLogRepository, IUnitOfWork, UnitOfWorkOperation } from '@/application/ports/repositories';
+import { STORE_ACTION_DEFINITIONS, STORE_ACTION_LOGS, STORE_DATA_ENTRIES, STORE_DAILY_ROLLUPS } from '@/lib/constants';
+import { applyDailyRollupChanges } from '@/lib/daily-rollups';
 
+/**
+ * Moves an action definition to the trash together with its action logs and data entries.
+ * They all share one `deletedAt`, which is how a restore finds them again.
+ */
 export class DeleteActionDefinitionUseCase {
   constructor(
     private readonly actionDefinitionRepository: IActionDefinitionRepository,
     private readonly actionLogRepository: IActionLogRepository,
-    private readonly dataEntryLogRepository: IDataEntryLogRepository
+    private readonly dataEntryLogRepository: IDataEntryLogRepository,
+    private readonly unitOfWork: IUnitOfWork
   ) {}
 
   async execute(id: string): Promise<void> {
@@ -15,25 +21,25 @@ export class DeleteActionDefinitionUseCase {
       throw new Error('ActionDefinition not found for deletion.');
     }
 
-    if (existingActionDefinition.type === 'single' || existingActionDefinition.type === 'multi-step' || existingActionDefinition.type === 'timer') {
-      await this.actionLogRepository.deleteByActionDefinitionId(id);
-    } else if (existingActionDefinition.type === 'data-entry') {
-      await this.dataEntryLogRepository.deleteByActionDefinitionId(id);
-    }
-    
-    if (existingActionDefinition.type === 'multi-step' && existingActionDefinition.steps) {
-        for (const step of existingActionDefinition.steps) {
-            if (step.stepType === 'data-entry') {
-                // Assuming data entries for steps are linked via actionDefinitionId AND stepId
-                // This might need adjustment if dataEntryLogRepository doesn't support stepId based deletion directly
-                // For now, direct deletion of step-specific data entries is not implemented here,
-                // relying on cascade if actionDefinitionId is sufficient.
-                // If logs are only linked to the parent ActionDefinition, no extra step needed here.
-            }
-        }
-    }
-
+    // Multi-step data entries are linked to the parent definition, so one lookup covers its steps too
+    const [actionLogs, dataEntries] = await Promise.all([
+      this.actionLogRepository.findByActionDefinitionId(id),
+      this.dataEntryLogRepository.findByActionDefinitionId(id),
+    ]);
 
-    await this.actionDefinitionRepository.delete(id);
+    const deletedAt = new Date().toISOString();
+    const operations: UnitOfWorkOperation[] = [
+      ...actionLogs.map((log): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_ACTION_LOGS, record: { ...log, deletedAt } })),
+      ...dataEntries.map((entry): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_DATA_ENTRIES, record: { ...entry, deletedAt } })),
+      // Trashed logs no longer count towards the space's totals
+      {
+        type: 'updateBySpaceId',
+        storeName: STORE_DAILY_ROLLUPS,
+        spaceId: existingActionDefinition.spaceId,
+        update: rollups => applyDailyRollupChanges(rollups, existingActionDefinition.spaceId, { removedActionLogs: actionLogs, removedDataEntries: dataEntries }),
+      },
+      { type: 'put', storeName: STORE_ACTION_DEFINITIONS, record: { ...existingActionDefinition, deletedAt } },
+    ];
+    await this.unitOfWork.execute(operations);
   }
 }
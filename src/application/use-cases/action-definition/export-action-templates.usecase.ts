@@ -0,0 +1,23 @@
+// src/application/use-cases/action-definition/export-action-templates.usecase.ts
+import type { ActionTemplateDTO, ActionTemplateFileDTO } from '@/application/dto/action-template.dto';
+import type { IActionDefinitionRepository } from '@/application/ports/repositories/iaction-definition.repository';
+import { createActionTemplateFile, toActionTemplate } from './action-templates';
+
+export class ExportActionTemplatesUseCase {
+  constructor(private readonly actionDefinitionRepository: IActionDefinitionRepository) {}
+
+  async execute(actionDefinitionIds: string[]): Promise<ActionTemplateFileDTO> {
+    if (actionDefinitionIds.length === 0) {
+      throw new Error('Choose at least one action to export.');
+    }
+    const templates: ActionTemplateDTO[] = [];
+    for (const id of new Set(actionDefinitionIds)) {
+      const definition = await this.actionDefinitionRepository.findById(id);
+      if (!definition) {
+        throw new Error(`Action definition with id ${id} not found.`);
+      }
+      templates.push(toActionTemplate(definition));
+    }
+    return createActionTemplateFile(templates);
+  }
+}
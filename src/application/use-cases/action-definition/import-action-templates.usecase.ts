@@ -0,0 +1,87 @@
+// src/application/use-cases/action-definition/import-action-templates.usecase.ts
+import type { ActionDefinition, FormFieldDefinition } from '@/domain/entities';
+import type { ActionTemplateDTO, ActionTemplateFormFieldDTO } from '@/application/dto/action-template.dto';
+import { actionTemplateFileSchema } from '@/application/dto/action-template.schema';
+import type { IActionDefinitionRepository } from '@/application/ports/repositories/iaction-definition.repository';
+import type { ISpaceRepository } from '@/application/ports/repositories/ispace.repository';
+import type { IUnitOfWork, UnitOfWorkOperation } from '@/application/ports/repositories/iunit-of-work';
+import { STORE_ACTION_DEFINITIONS } from '@/lib/constants';
+import { toAppDataExportIssue, type AppDataExportIssue } from '../data/parse-app-data-export.usecase';
+import { isActionTemplateFile } from './action-templates';
+
+export interface ImportActionTemplatesInputDTO {
+  spaceId: string;
+}
+
+export class InvalidActionTemplateFileError extends Error {
+  constructor(readonly issues: AppDataExportIssue[]) {
+    super(`The template file is not valid: ${issues.length} problem${issues.length === 1 ? '' : 's'} found. No actions were added.`);
+    this.name = 'InvalidActionTemplateFileError';
+  }
+}
+
+const toFormFields = (fields: ActionTemplateFormFieldDTO[]): FormFieldDefinition[] =>
+  fields.map((field, index) => ({ ...field, id: self.crypto.randomUUID(), order: index }));
+
+/**
+ * Adds the actions of a template file to a space. Every action, step and form field gets
+ * a new id, so one file can be imported into any number of spaces, or twice into the
+ * same one. The actions are placed after the ones the space already has, and are all
+ * added in one unit of work, so a failed import adds none of them.
+ */
+export class ImportActionTemplatesUseCase {
+  constructor(
+    private readonly spaceRepository: ISpaceRepository,
+    private readonly actionDefinitionRepository: IActionDefinitionRepository,
+    private readonly unitOfWork: IUnitOfWork
+  ) {}
+
+  private parse(file: unknown): ActionTemplateDTO[] {
+    if (!isActionTemplateFile(file)) {
+      throw new InvalidActionTemplateFileError([{ path: 'format', message: 'Expected an action template file' }]);
+    }
+    const result = actionTemplateFileSchema.safeParse(file);
+    if (!result.success) {
+      throw new InvalidActionTemplateFileError(result.error.issues.map(issue => toAppDataExportIssue(file, issue)));
+    }
+    return result.data.templates;
+  }
+
+  async execute(file: unknown, { spaceId }: ImportActionTemplatesInputDTO): Promise<ActionDefinition[]> {
+    const templates = this.parse(file);
+    const space = await this.spaceRepository.findById(spaceId);
+    if (!space) {
+      throw new Error(`Space with id ${spaceId} not found.`);
+    }
+
+    const existing = await this.actionDefinitionRepository.findBySpaceId(spaceId);
+    const firstOrder = existing.reduce((max, definition) => Math.max(max, (definition.order ?? 0) + 1), 0);
+    const creationDate = new Date().toISOString();
+
+    const definitions = templates.map((template, index): ActionDefinition => ({
+      id: self.crypto.randomUUID(),
+      spaceId,
+      name: template.name,
+      description: template.description,
+      type: template.type,
+      pointsForCompletion: template.pointsForCompletion,
+      order: firstOrder + index,
+      creationDate,
+      isEnabled: true,
+      steps: template.type === 'multi-step' && template.steps
+        ? template.steps.map((step, stepIndex) => ({
+            id: self.crypto.randomUUID(),
+            description: step.description,
+            pointsPerStep: step.pointsPerStep || 0,
+            stepType: step.stepType || 'description',
+            order: stepIndex,
+            formFields: step.stepType === 'data-entry' && step.formFields ? toFormFields(step.formFields) : undefined,
+          }))
+        : undefined,
+      formFields: template.type === 'data-entry' && template.formFields ? toFormFields(template.formFields) : undefined,
+    }));
+
+    await this.unitOfWork.execute(definitions.map((record): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_ACTION_DEFINITIONS, record })));
+    return definitions;
+  }
+}
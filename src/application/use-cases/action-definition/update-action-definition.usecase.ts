@@ -1,7 +1,9 @@
 
 // src/application/use-cases/action-definition/update-action-definition.usecase.ts
 import type { ActionDefinition, ActionStep, FormFieldDefinition } from '@/domain/entities';
-import type { IActionDefinitionRepository } from '@/application/ports/repositories';
+import type { IActionDefinitionRepository, IUnitOfWork, UnitOfWorkOperation } from '@/application/ports/repositories';
+import { STORE_ACTION_DEFINITIONS, STORE_RECORD_HISTORY } from '@/lib/constants';
+import { createRecordHistoryEntry } from '@/lib/record-diff';
 
 interface UpdateActionStepInputDTO extends Partial<Omit<ActionStep, 'order' | 'formFields'>> {
   id?: string; 
@@ -13,10 +15,14 @@ export interface UpdateActionDefinitionInputDTO extends Partial<Omit<ActionDefin
   steps?: UpdateActionStepInputDTO[];
   formFields?: Array<Partial<Omit<FormFieldDefinition, 'order'>> & { id?: string }>;
   description?: string | null;
+  reason?: string; // Kept with the change in the record history
 }
 
 export class UpdateActionDefinitionUseCase {
-  constructor(private readonly actionDefinitionRepository: IActionDefinitionRepository) {}
+  constructor(
+    private readonly actionDefinitionRepository: IActionDefinitionRepository,
+    private readonly unitOfWork: IUnitOfWork
+  ) {}
 
   async execute(data: UpdateActionDefinitionInputDTO): Promise<ActionDefinition> {
     const existingActionDefinition = await this.actionDefinitionRepository.findById(data.id);
@@ -80,6 +86,10 @@ export class UpdateActionDefinitionUseCase {
         updatedActionDefinition.formFields = undefined;
     }
     
-    return this.actionDefinitionRepository.save(updatedActionDefinition);
+    const historyEntry = createRecordHistoryEntry('actionDefinition', existingActionDefinition, updatedActionDefinition, data.reason);
+    const operations: UnitOfWorkOperation[] = [{ type: 'put', storeName: STORE_ACTION_DEFINITIONS, record: updatedActionDefinition }];
+    if (historyEntry) operations.push({ type: 'put', storeName: STORE_RECORD_HISTORY, record: historyEntry });
+    await this.unitOfWork.execute(operations);
+    return updatedActionDefinition;
   }
 }
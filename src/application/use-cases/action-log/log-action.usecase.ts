@@ -1,7 +1,10 @@
 
 // src/application/use-cases/action-log/log-action.usecase.ts
 import type { ActionLog } from '@/domain/entities';
-import type { IActionLogRepository, IActionDefinitionRepository } from '@/application/ports/repositories';
+import type { IActionLogRepository, IActionDefinitionRepository, IUnitOfWork } from '@/application/ports/repositories';
+import type { IDomainEventPublisher } from '@/application/events';
+import { STORE_ACTION_LOGS, STORE_DAILY_ROLLUPS } from '@/lib/constants';
+import { applyDailyRollupChanges } from '@/lib/daily-rollups';
 
 export interface LogActionInputDTO {
   spaceId: string;
@@ -19,7 +22,9 @@ export interface LogActionResult {
 export class LogActionUseCase {
   constructor(
     private readonly actionLogRepository: IActionLogRepository,
-    private readonly actionDefinitionRepository: IActionDefinitionRepository
+    private readonly actionDefinitionRepository: IActionDefinitionRepository,
+    private readonly unitOfWork: IUnitOfWork,
+    private readonly eventPublisher: IDomainEventPublisher
   ) {}
 
   async execute(data: LogActionInputDTO): Promise<LogActionResult> {
@@ -92,8 +97,24 @@ export class LogActionUseCase {
       durationMs: data.durationMs, 
     };
 
-    const loggedAction = await this.actionLogRepository.save(newActionLog);
+    // The log and its day's rollup are stored together, so the totals never miss a log
+    await this.unitOfWork.execute([
+      { type: 'put', storeName: STORE_ACTION_LOGS, record: newActionLog },
+      {
+        type: 'updateBySpaceId',
+        storeName: STORE_DAILY_ROLLUPS,
+        spaceId: newActionLog.spaceId,
+        update: rollups => applyDailyRollupChanges(rollups, newActionLog.spaceId, { addedActionLogs: [newActionLog] }),
+      },
+    ]);
 
-    return { loggedAction };
+    const eventBase = { occurredAt: newActionLog.timestamp, spaceId: newActionLog.spaceId };
+    if (newActionLog.stepOutcome === 'skipped' && newActionLog.completedStepId) {
+      this.eventPublisher.publish({ ...eventBase, type: 'StepSkipped', actionLog: newActionLog, stepId: newActionLog.completedStepId });
+    } else {
+      this.eventPublisher.publish({ ...eventBase, type: 'ActionLogged', actionLog: newActionLog });
+    }
+
+    return { loggedAction: newActionLog };
   }
 }
@@ -0,0 +1,91 @@
+// src/application/use-cases/action-log/undo-action-log.usecase.ts
+import type { ActionDefinition, ActionLog } from '@/domain/entities';
+import type { IActionLogRepository, IActionDefinitionRepository, IUnitOfWork, UnitOfWorkOperation } from '@/application/ports/repositories';
+import { STORE_ACTION_LOGS, STORE_DAILY_ROLLUPS } from '@/lib/constants';
+import { applyDailyRollupChanges } from '@/lib/daily-rollups';
+
+export interface UndoActionLogResult {
+  removedLog: ActionLog;
+  updatedLogs: ActionLog[]; // Step logs whose full-completion flag and bonus changed as a result
+}
+
+/**
+ * Replays the remaining completed steps of a checklist in the order they were logged,
+ * applying the same rule as LogActionUseCase: a completed step that leaves every defined
+ * step completed counts as a full completion and carries the completion bonus.
+ * Returns only the logs whose flag no longer matches.
+ */
+function recomputeFullCompletions(actionDefinition: ActionDefinition, logs: ActionLog[]): ActionLog[] {
+  const definedStepIds = new Set(actionDefinition.steps?.map(s => s.id) || []);
+  const completedStepIds = new Set<string>();
+  const changed: ActionLog[] = [];
+
+  const stepLogs = logs
+    .filter(log => log.completedStepId && log.stepOutcome === 'completed')
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  for (const log of stepLogs) {
+    completedStepIds.add(log.completedStepId!);
+    const isFullCompletion =
+      definedStepIds.size > 0 &&
+      definedStepIds.size === completedStepIds.size &&
+      [...definedStepIds].every(id => completedStepIds.has(id));
+
+    if (isFullCompletion !== !!log.isMultiStepFullCompletion) {
+      const bonus = isFullCompletion ? actionDefinition.pointsForCompletion : -actionDefinition.pointsForCompletion;
+      changed.push({
+        ...log,
+        isMultiStepFullCompletion: isFullCompletion,
+        pointsAwarded: Math.max(0, log.pointsAwarded + bonus),
+      });
+    }
+  }
+  return changed;
+}
+
+/**
+ * Permanently removes a mistakenly logged action. Undoing a checklist step also
+ * re-evaluates the other step logs of that checklist, so a full completion that
+ * relied on the removed step loses its flag and bonus.
+ */
+export class UndoActionLogUseCase {
+  constructor(
+    private readonly actionLogRepository: IActionLogRepository,
+    private readonly actionDefinitionRepository: IActionDefinitionRepository,
+    private readonly unitOfWork: IUnitOfWork
+  ) {}
+
+  async execute(id: string): Promise<UndoActionLogResult> {
+    const removedLog = await this.actionLogRepository.findById(id);
+    if (!removedLog) {
+      throw new Error('ActionLog not found. It may already have been undone.');
+    }
+
+    let previousLogs: ActionLog[] = [];
+    let updatedLogs: ActionLog[] = [];
+    if (removedLog.completedStepId && removedLog.stepOutcome === 'completed') {
+      const actionDefinition = await this.actionDefinitionRepository.findById(removedLog.actionDefinitionId);
+      if (actionDefinition?.type === 'multi-step') {
+        const remainingLogs = (await this.actionLogRepository.findByActionDefinitionId(actionDefinition.id))
+          .filter(log => log.id !== removedLog.id);
+        updatedLogs = recomputeFullCompletions(actionDefinition, remainingLogs);
+        const updatedIds = new Set(updatedLogs.map(log => log.id));
+        previousLogs = remainingLogs.filter(log => updatedIds.has(log.id));
+      }
+    }
+
+    const operations: UnitOfWorkOperation[] = [
+      { type: 'delete', storeName: STORE_ACTION_LOGS, key: removedLog.id },
+      ...updatedLogs.map((log): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_ACTION_LOGS, record: log })),
+      {
+        type: 'updateBySpaceId',
+        storeName: STORE_DAILY_ROLLUPS,
+        spaceId: removedLog.spaceId,
+        update: rollups => applyDailyRollupChanges(rollups, removedLog.spaceId, { removedActionLogs: [removedLog, ...previousLogs], addedActionLogs: updatedLogs }),
+      },
+    ];
+    await this.unitOfWork.execute(operations);
+
+    return { removedLog, updatedLogs };
+  }
+}
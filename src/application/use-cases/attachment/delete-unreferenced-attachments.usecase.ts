@@ -0,0 +1,42 @@
+// src/application/use-cases/attachment/delete-unreferenced-attachments.usecase.ts
+import type { IAttachmentRepository, IProblemRepository, ITodoRepository } from '@/application/ports/repositories';
+
+/**
+ * Garbage-collects attachments that no problem or to-do references anymore,
+ * e.g. left behind by an interrupted save. Returns the number removed.
+ */
+export class DeleteUnreferencedAttachmentsUseCase {
+  constructor(
+    private readonly attachmentRepository: IAttachmentRepository,
+    private readonly problemRepository: IProblemRepository,
+    private readonly todoRepository: ITodoRepository
+  ) {}
+
+  async execute(): Promise<number> {
+    // Images of trashed items are still referenced: a restore must bring them back intact
+    const [attachmentIds, liveProblems, trashedProblems, liveTodos, trashedTodos] = await Promise.all([
+      this.attachmentRepository.getAllIds(),
+      this.problemRepository.getAll(),
+      this.problemRepository.findDeleted(),
+      this.todoRepository.getAll(),
+      this.todoRepository.findDeleted(),
+    ]);
+    const problems = [...liveProblems, ...trashedProblems];
+    const todos = [...liveTodos, ...trashedTodos];
+
+    const referencedIds = new Set<string>();
+    problems.forEach(problem => {
+      if (problem.imageAttachmentId) referencedIds.add(problem.imageAttachmentId);
+    });
+    todos.forEach(todo => {
+      if (todo.beforeImageAttachmentId) referencedIds.add(todo.beforeImageAttachmentId);
+      if (todo.afterImageAttachmentId) referencedIds.add(todo.afterImageAttachmentId);
+    });
+
+    const unreferencedIds = attachmentIds.filter(id => !referencedIds.has(id));
+    for (const id of unreferencedIds) {
+      await this.attachmentRepository.delete(id);
+    }
+    return unreferencedIds.length;
+  }
+}
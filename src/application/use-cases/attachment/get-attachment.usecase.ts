@@ -0,0 +1,11 @@
+// src/application/use-cases/attachment/get-attachment.usecase.ts
+import type { Attachment } from '@/domain/entities';
+import type { IAttachmentRepository } from '@/application/ports/repositories';
+
+export class GetAttachmentUseCase {
+  constructor(private readonly attachmentRepository: IAttachmentRepository) {}
+
+  async execute(id: string): Promise<Attachment | null> {
+    return this.attachmentRepository.findById(id);
+  }
+}
@@ -0,0 +1,40 @@
+// src/application/use-cases/backup/backup-rotation.ts
+import { format, parseISO, startOfISOWeek } from 'date-fns';
+import type { BackupSnapshot } from '@/domain/entities/backup-snapshot.entity';
+
+export interface BackupRetentionPolicy {
+  keepDaily: number; // Days, counting back from the newest backup, that keep their latest backup
+  keepWeekly: number; // Weeks, likewise, that keep their latest backup
+}
+
+/**
+ * Returns the ids of the snapshots that survive rotation: the latest of each of the last
+ * `keepDaily` days that have a backup, and the latest of each of the last `keepWeekly`
+ * weeks. Every backup of the newest day is kept as well, so that each of several imports
+ * on one day can still be undone. Days and weeks are those of the local time zone.
+ */
+export function selectBackupsToKeep(snapshots: BackupSnapshot[], policy: BackupRetentionPolicy): Set<string> {
+  const newestFirst = [...snapshots].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const keep = new Set<string>();
+  if (newestFirst.length === 0) return keep;
+
+  const dayOf = (date: Date) => format(date, 'yyyy-MM-dd');
+  const newestDay = dayOf(parseISO(newestFirst[0].createdAt));
+  newestFirst
+    .filter(snapshot => dayOf(parseISO(snapshot.createdAt)) === newestDay)
+    .forEach(snapshot => keep.add(snapshot.id));
+
+  const keepLatestPerPeriod = (periodOf: (date: Date) => string, periodCount: number) => {
+    const periods = new Set<string>();
+    for (const snapshot of newestFirst) {
+      const period = periodOf(parseISO(snapshot.createdAt));
+      if (periods.has(period)) continue;
+      if (periods.size >= periodCount) break;
+      periods.add(period);
+      keep.add(snapshot.id);
+    }
+  };
+  keepLatestPerPeriod(dayOf, policy.keepDaily);
+  keepLatestPerPeriod(date => format(startOfISOWeek(date), 'yyyy-MM-dd'), policy.keepWeekly);
+  return keep;
+}
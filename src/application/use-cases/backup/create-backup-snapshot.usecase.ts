@@ -0,0 +1,48 @@
+// src/application/use-cases/backup/create-backup-snapshot.usecase.ts
+import type { BackupSnapshot, BackupTrigger } from '@/domain/entities/backup-snapshot.entity';
+import type { IBackupSnapshotRepository } from '@/application/ports/repositories/ibackup-snapshot.repository';
+import type { IRecordScanner } from '@/application/ports/repositories/irecord-scanner';
+import { writeAppDataArchive } from '../data/app-data-archive';
+import { selectBackupsToKeep, type BackupRetentionPolicy } from './backup-rotation';
+
+export interface CreateBackupSnapshotInputDTO {
+  trigger: BackupTrigger;
+  retention: BackupRetentionPolicy;
+}
+
+/**
+ * Saves a ZIP archive of all data as a local backup, then rotates out the backups the
+ * retention policy no longer keeps. The new backup always survives its own rotation.
+ */
+export class CreateBackupSnapshotUseCase {
+  constructor(
+    private readonly recordScanner: IRecordScanner,
+    private readonly backupSnapshotRepository: IBackupSnapshotRepository
+  ) {}
+
+  async execute(input: CreateBackupSnapshotInputDTO): Promise<BackupSnapshot> {
+    const { archive, manifest } = await writeAppDataArchive(this.recordScanner);
+    const recordCounts: Record<string, number> = {};
+    manifest.files.forEach(file => {
+      if (file.recordType) recordCounts[file.recordType] = file.recordCount ?? 0;
+    });
+
+    const snapshot: BackupSnapshot = {
+      id: self.crypto.randomUUID(),
+      createdAt: manifest.exportedAt,
+      trigger: input.trigger,
+      schemaVersion: manifest.schemaVersion,
+      size: archive.size,
+      recordCounts,
+    };
+    await this.backupSnapshotRepository.save(snapshot, archive);
+
+    const snapshots = await this.backupSnapshotRepository.getAll();
+    const keep = selectBackupsToKeep(snapshots, input.retention);
+    keep.add(snapshot.id);
+    for (const expired of snapshots.filter(existing => !keep.has(existing.id))) {
+      await this.backupSnapshotRepository.delete(expired.id);
+    }
+    return snapshot;
+  }
+}
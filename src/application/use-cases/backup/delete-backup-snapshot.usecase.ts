@@ -0,0 +1,10 @@
+// src/application/use-cases/backup/delete-backup-snapshot.usecase.ts
+import type { IBackupSnapshotRepository } from '@/application/ports/repositories/ibackup-snapshot.repository';
+
+export class DeleteBackupSnapshotUseCase {
+  constructor(private readonly backupSnapshotRepository: IBackupSnapshotRepository) {}
+
+  async execute(id: string): Promise<void> {
+    await this.backupSnapshotRepository.delete(id);
+  }
+}
@@ -0,0 +1,26 @@
+// src/application/use-cases/backup/delete-old-backup-snapshots.usecase.ts
+import { subDays } from 'date-fns';
+import type { IBackupSnapshotRepository } from '@/application/ports/repositories/ibackup-snapshot.repository';
+
+/**
+ * Deletes the local backups taken more than `olderThanDays` days ago, to free up storage
+ * sooner than rotation would. The newest backup is always kept, however old, so there is
+ * still one to restore. Returns the number of backups deleted.
+ */
+export class DeleteOldBackupSnapshotsUseCase {
+  constructor(private readonly backupSnapshotRepository: IBackupSnapshotRepository) {}
+
+  async execute(olderThanDays: number): Promise<number> {
+    if (!Number.isFinite(olderThanDays) || olderThanDays < 0) {
+      throw new Error('Number of days must be zero or more.');
+    }
+    const cutoff = subDays(new Date(), olderThanDays).toISOString();
+
+    const [, ...olderSnapshots] = await this.backupSnapshotRepository.getAll();
+    const expired = olderSnapshots.filter(snapshot => snapshot.createdAt < cutoff);
+    for (const snapshot of expired) {
+      await this.backupSnapshotRepository.delete(snapshot.id);
+    }
+    return expired.length;
+  }
+}
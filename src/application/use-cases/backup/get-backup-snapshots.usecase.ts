@@ -0,0 +1,12 @@
+// src/application/use-cases/backup/get-backup-snapshots.usecase.ts
+import type { BackupSnapshot } from '@/domain/entities/backup-snapshot.entity';
+import type { IBackupSnapshotRepository } from '@/application/ports/repositories/ibackup-snapshot.repository';
+
+export class GetBackupSnapshotsUseCase {
+  constructor(private readonly backupSnapshotRepository: IBackupSnapshotRepository) {}
+
+  // Newest first
+  async execute(): Promise<BackupSnapshot[]> {
+    return this.backupSnapshotRepository.getAll();
+  }
+}
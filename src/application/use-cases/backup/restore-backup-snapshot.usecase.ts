@@ -0,0 +1,26 @@
+// src/application/use-cases/backup/restore-backup-snapshot.usecase.ts
+import type { IBackupSnapshotRepository } from '@/application/ports/repositories/ibackup-snapshot.repository';
+import type { IUnitOfWork } from '@/application/ports/repositories/iunit-of-work';
+import { readAppDataArchive } from '../data/app-data-archive';
+import { toReplaceAllOperations } from '../data/app-data-records';
+
+/**
+ * Replaces all data with a local backup. The archive goes through the same checks as an
+ * imported one, so a damaged backup fails with an `InvalidAppDataExportError` and
+ * nothing is written. Other backups are left as they are.
+ */
+export class RestoreBackupSnapshotUseCase {
+  constructor(
+    private readonly backupSnapshotRepository: IBackupSnapshotRepository,
+    private readonly unitOfWork: IUnitOfWork
+  ) {}
+
+  async execute(id: string): Promise<void> {
+    const archive = await this.backupSnapshotRepository.getArchive(id);
+    if (!archive) {
+      throw new Error('Backup not found for restore. It may have been rotated out.');
+    }
+    const records = await readAppDataArchive(archive);
+    await this.unitOfWork.execute(toReplaceAllOperations(records));
+  }
+}
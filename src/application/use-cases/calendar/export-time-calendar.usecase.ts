@@ -0,0 +1,156 @@
+// src/application/use-cases/calendar/export-time-calendar.usecase.ts
+import { format } from 'date-fns';
+import type { ActionLog, ClockEvent } from '@/domain/entities';
+import type { IActionDefinitionRepository } from '@/application/ports/repositories/iaction-definition.repository';
+import type { IActionLogRepository } from '@/application/ports/repositories/iaction-log.repository';
+import type { IClockEventRepository } from '@/application/ports/repositories/iclock-event.repository';
+import type { ISpaceRepository } from '@/application/ports/repositories/ispace.repository';
+import { APP_NAME } from '@/lib/constants';
+import { formatICalendar, ICALENDAR_MIME_TYPE, type ICalendarEvent } from '@/lib/icalendar';
+import { toTimestampRange } from '@/lib/local-day-range';
+import { findSessionClockEvents } from '../clock-event/session-clock-events';
+
+// Calendars treat the part after @ as the issuing domain; it only has to stay the same
+const UID_DOMAIN = 'okapi-workflow-game';
+
+export interface ExportTimeCalendarInputDTO {
+  spaceId?: string; // Without it every space is exported
+  from?: string; // YYYY-MM-DD, inclusive, compared with the local date each block starts on
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface TimeCalendarExportFileDTO {
+  fileName: string;
+  mimeType: string;
+  content: string;
+  eventCount: number;
+}
+
+interface ClockSession {
+  clockIn: ClockEvent;
+  clockOut: ClockEvent;
+}
+
+/**
+ * Pairs clock events the way the daily rollups count them: a clock-out closes the latest
+ * clock-in, and a second clock-in replaces an open one. A session still open is left out.
+ */
+function pairClockSessions(events: ClockEvent[]): ClockSession[] {
+  const sessions: ClockSession[] = [];
+  let open: ClockEvent | null = null;
+  for (const event of [...events].sort((a, b) => a.timestamp.localeCompare(b.timestamp))) {
+    if (event.type === 'clock-in') {
+      open = event;
+    } else if (open) {
+      sessions.push({ clockIn: open, clockOut: event });
+      open = null;
+    }
+  }
+  return sessions;
+}
+
+function formatDuration(ms: number): string {
+  const totalMinutes = Math.round(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+const toFileNamePart = (text: string): string =>
+  text.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'space';
+
+/**
+ * Writes clock sessions and timer logs as an iCalendar file, one VEVENT per block of time.
+ * UIDs come from the clock-in event or the log, so importing a later export of the same
+ * range updates the events instead of adding copies. Trashed records are left out.
+ */
+export class ExportTimeCalendarUseCase {
+  constructor(
+    private readonly clockEventRepository: IClockEventRepository,
+    private readonly actionLogRepository: IActionLogRepository,
+    private readonly actionDefinitionRepository: IActionDefinitionRepository,
+    private readonly spaceRepository: ISpaceRepository
+  ) {}
+
+  async execute(input: ExportTimeCalendarInputDTO): Promise<TimeCalendarExportFileDTO> {
+    if (input.from && input.to && input.from > input.to) {
+      throw new Error('The start date must not be after the end date.');
+    }
+    // A timer log is saved when the timer stops, at or after the block's start, so only the
+    // first day bounds its read: a long timer started on the last day may stop much later
+    const logRange = toTimestampRange(input.from);
+    const [clockEvents, actionLogs] = await Promise.all([
+      findSessionClockEvents(this.clockEventRepository, toTimestampRange(input.from, input.to), input.spaceId),
+      input.spaceId
+        ? this.actionLogRepository.findBySpaceIdBetween(input.spaceId, logRange.from, logRange.to)
+        : this.actionLogRepository.findBetween(logRange.from, logRange.to),
+    ]);
+    const spaceNames = new Map(
+      [...await this.spaceRepository.getAll(), ...await this.spaceRepository.findDeleted()].map(space => [space.id, space.name] as const)
+    );
+    // Trashed actions still name the timer logs recorded before they were removed
+    const actionNames = new Map(
+      [...await this.actionDefinitionRepository.getAll(), ...await this.actionDefinitionRepository.findDeleted()]
+        .map(definition => [definition.id, definition.name] as const)
+    );
+
+    const isInRange = (start: Date) => {
+      const day = format(start, 'yyyy-MM-dd');
+      return !(input.from && day < input.from) && !(input.to && day > input.to);
+    };
+    const events: ICalendarEvent[] = [];
+
+    const clockEventsBySpace = new Map<string, ClockEvent[]>();
+    clockEvents.forEach(event => clockEventsBySpace.set(event.spaceId, [...clockEventsBySpace.get(event.spaceId) ?? [], event]));
+    clockEventsBySpace.forEach((spaceEvents, spaceId) => {
+      const spaceName = spaceNames.get(spaceId) ?? 'Unknown space';
+      for (const { clockIn, clockOut } of pairClockSessions(spaceEvents)) {
+        const start = new Date(clockIn.timestamp);
+        const end = new Date(clockOut.timestamp);
+        if (!isInRange(start)) continue;
+        events.push({
+          uid: `clock-${clockIn.id}@${UID_DOMAIN}`,
+          start,
+          end,
+          summary: `Clocked in: ${spaceName}`,
+          description: [`Space: ${spaceName}`, `Duration: ${formatDuration(end.getTime() - start.getTime())}`].join('\n'),
+          categories: [spaceName],
+        });
+      }
+    });
+
+    actionLogs
+      .filter((log): log is ActionLog & { durationMs: number } => typeof log.durationMs === 'number' && log.durationMs > 0)
+      .forEach(log => {
+        // Timer logs are saved when the timer stops, so the block ends at the log's timestamp
+        const end = new Date(log.timestamp);
+        const start = new Date(end.getTime() - log.durationMs);
+        if (!isInRange(start)) return;
+        const spaceName = spaceNames.get(log.spaceId) ?? 'Unknown space';
+        const actionName = actionNames.get(log.actionDefinitionId) ?? 'Unknown action';
+        events.push({
+          uid: `timer-${log.id}@${UID_DOMAIN}`,
+          start,
+          end,
+          summary: `${actionName} (${spaceName})`,
+          description: [
+            `Space: ${spaceName}`,
+            `Action: ${actionName}`,
+            `Duration: ${formatDuration(log.durationMs)}`,
+            ...(log.notes ? [`Notes: ${log.notes}`] : []),
+          ].join('\n'),
+          categories: [spaceName],
+        });
+      });
+
+    events.sort((a, b) => a.start.getTime() - b.start.getTime());
+    const spaceName = input.spaceId ? spaceNames.get(input.spaceId) : undefined;
+    const rangeSuffix = input.from || input.to ? `_${input.from ?? 'start'}_to_${input.to ?? 'today'}` : '';
+    return {
+      fileName: `okapi_time_${spaceName ? toFileNamePart(spaceName) : 'all_spaces'}${rangeSuffix}.ics`,
+      mimeType: ICALENDAR_MIME_TYPE,
+      content: formatICalendar(events, spaceName ? `${APP_NAME}: ${spaceName}` : APP_NAME, new Date()),
+      eventCount: events.length,
+    };
+  }
+}
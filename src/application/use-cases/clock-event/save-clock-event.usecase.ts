@@ -1,12 +1,18 @@
 
 // src/application/use-cases/clock-event/save-clock-event.usecase.ts
 import type { ClockEvent } from '@/domain/entities';
-import type { IClockEventRepository } from '@/application/ports/repositories';
+import type { IUnitOfWork } from '@/application/ports/repositories';
+import type { IDomainEventPublisher } from '@/application/events';
+import { STORE_CLOCK_EVENTS, STORE_DAILY_ROLLUPS } from '@/lib/constants';
+import { applyDailyRollupChanges } from '@/lib/daily-rollups';
 
 export interface SaveClockEventInputDTO extends Omit<ClockEvent, 'id'> {}
 
 export class SaveClockEventUseCase {
-  constructor(private readonly clockEventRepository: IClockEventRepository) {}
+  constructor(
+    private readonly unitOfWork: IUnitOfWork,
+    private readonly eventPublisher: IDomainEventPublisher
+  ) {}
 
   async execute(data: SaveClockEventInputDTO): Promise<ClockEvent> {
     if (!data.spaceId) {
@@ -16,6 +22,21 @@ export class SaveClockEventUseCase {
       ...data, 
       id: self.crypto.randomUUID(),
     };
-    return this.clockEventRepository.save(newClockEvent);
+    await this.unitOfWork.execute([
+      { type: 'put', storeName: STORE_CLOCK_EVENTS, record: newClockEvent },
+      {
+        type: 'updateBySpaceId',
+        storeName: STORE_DAILY_ROLLUPS,
+        spaceId: newClockEvent.spaceId,
+        update: rollups => applyDailyRollupChanges(rollups, newClockEvent.spaceId, { addedClockEvents: [newClockEvent] }),
+      },
+    ]);
+    this.eventPublisher.publish({
+      type: newClockEvent.type === 'clock-in' ? 'ClockedIn' : 'ClockedOut',
+      occurredAt: newClockEvent.timestamp,
+      spaceId: newClockEvent.spaceId,
+      clockEvent: newClockEvent,
+    });
+    return newClockEvent;
   }
 }
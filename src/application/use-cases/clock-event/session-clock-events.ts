@@ -0,0 +1,44 @@
+// src/application/use-cases/clock-event/session-clock-events.ts
+import type { ClockEvent } from '@/domain/entities';
+import type { IClockEventRepository } from '@/application/ports/repositories/iclock-event.repository';
+import type { TimestampRange } from '@/lib/local-day-range';
+import { encodePageCursor } from '@/lib/page-cursor';
+
+/**
+ * Reads the clock events needed to pair the sessions that start within a range: the events
+ * inside it, plus for each space the clock-in just before a range that opens on a clock-out
+ * and the event just after a range that ends clocked in. Without those, a session crossing
+ * either bound would come back unpaired. Callers still match sessions to the range by start.
+ */
+export async function findSessionClockEvents(
+  clockEventRepository: IClockEventRepository,
+  range: TimestampRange,
+  spaceId?: string
+): Promise<ClockEvent[]> {
+  const events = spaceId
+    ? await clockEventRepository.findBySpaceIdBetween(spaceId, range.from, range.to)
+    : await clockEventRepository.findBetween(range.from, range.to);
+
+  const firstBySpace = new Map<string, ClockEvent>();
+  const lastBySpace = new Map<string, ClockEvent>();
+  for (const event of events) {
+    if (!firstBySpace.has(event.spaceId)) firstBySpace.set(event.spaceId, event);
+    lastBySpace.set(event.spaceId, event);
+  }
+
+  const neighbours = await Promise.all([
+    ...Array.from(firstBySpace.values())
+      .filter(event => event.type === 'clock-out')
+      .map(async event => {
+        const { items } = await clockEventRepository.findPageBySpaceId(event.spaceId, { limit: 1, cursor: encodePageCursor(event) });
+        return items.filter(previous => previous.type === 'clock-in');
+      }),
+    ...Array.from(lastBySpace.values())
+      .filter(event => event.type === 'clock-in')
+      .map(async event => {
+        const { items } = await clockEventRepository.findPageBySpaceId(event.spaceId, { limit: 1, cursor: encodePageCursor(event), direction: 'oldest-first' });
+        return items;
+      }),
+  ]);
+  return [...neighbours.flat(), ...events];
+}
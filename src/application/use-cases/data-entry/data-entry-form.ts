@@ -0,0 +1,44 @@
+// src/application/use-cases/data-entry/data-entry-form.ts
+import type { ActionDefinition, FormFieldDefinition } from '@/domain/entities';
+
+export interface DataEntryForm {
+  fields: FormFieldDefinition[];
+  pointsAwarded: number; // Only a data-entry action awards points; a multi-step action awards them on completion
+}
+
+/**
+ * Finds the form an entry is logged against: the action's own form, or the form of one
+ * of its steps for a multi-step action. The action has to be enabled.
+ */
+export function resolveDataEntryForm(actionDefinition: ActionDefinition, stepId: string | undefined): DataEntryForm {
+  if (!actionDefinition.isEnabled) {
+    throw new Error('Parent ActionDefinition is not enabled');
+  }
+  if (actionDefinition.type === 'data-entry') {
+    return { fields: actionDefinition.formFields ?? [], pointsAwarded: actionDefinition.pointsForCompletion };
+  }
+  if (actionDefinition.type === 'multi-step' && stepId) {
+    const step = actionDefinition.steps?.find(s => s.id === stepId);
+    if (!step) throw new Error(`Step with id ${stepId} not found in ActionDefinition ${actionDefinition.id}`);
+    if (step.stepType !== 'data-entry') throw new Error(`Step ${stepId} is not a data-entry step.`);
+    return { fields: step.formFields ?? [], pointsAwarded: 0 };
+  }
+  throw new Error('ActionDefinition is not of type data-entry, or stepId is missing for multi-step data entry.');
+}
+
+/**
+ * Checks submitted values against their form. Returns every problem found, in field order,
+ * so an import can report a whole row; an empty list means the data can be saved.
+ */
+export function findFormDataErrors(fields: FormFieldDefinition[], formData: Record<string, any>): string[] {
+  const errors: string[] = [];
+  for (const field of fields) {
+    const value = formData[field.name];
+    if (field.isRequired && (value === undefined || String(value).trim() === '')) {
+      errors.push(`Field "${field.label}" is required.`);
+    } else if (field.fieldType === 'number' && value !== '' && value !== undefined && isNaN(Number(value))) {
+      errors.push(`Field "${field.label}" must be a valid number.`);
+    }
+  }
+  return errors;
+}
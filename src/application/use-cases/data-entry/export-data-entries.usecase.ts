@@ -0,0 +1,131 @@
+// src/application/use-cases/data-entry/export-data-entries.usecase.ts
+import { format, parseISO } from 'date-fns';
+import type { ActionDefinition, DataEntryLog, FormFieldDefinition } from '@/domain/entities';
+import type { IActionDefinitionRepository } from '@/application/ports/repositories/iaction-definition.repository';
+import type { IDataEntryLogRepository } from '@/application/ports/repositories/idata-entry-log.repository';
+import type { ISpaceRepository } from '@/application/ports/repositories/ispace.repository';
+import { asSpreadsheetText, formatDelimitedText, DELIMITED_TEXT_MIME_TYPES, type DelimitedTextFormat } from '@/lib/delimited-text';
+import { toTimestampRange } from '@/lib/local-day-range';
+
+export interface ExportDataEntriesInputDTO {
+  format: DelimitedTextFormat;
+  spaceId?: string; // Without it every space is exported and the table gains a Space column
+  actionDefinitionId?: string; // Limits the export to one form, together with stepId
+  stepId?: string; // Form of a multi-step action's step; absent for a data-entry action's own form
+  from?: string; // YYYY-MM-DD, inclusive, compared with the local date of each entry
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface DataEntryExportFileDTO {
+  fileName: string;
+  mimeType: string;
+  content: string;
+  entryCount: number;
+}
+
+interface FormTable {
+  title: string;
+  stepLabel: string;
+  fields: FormFieldDefinition[];
+  entries: DataEntryLog[];
+}
+
+function resolveForm(definition: ActionDefinition, stepId: string | undefined): Omit<FormTable, 'entries'> | null {
+  if (!stepId) {
+    return definition.formFields?.length ? { title: definition.name, stepLabel: '', fields: definition.formFields } : null;
+  }
+  const step = definition.steps?.find(s => s.id === stepId);
+  return step?.formFields?.length ? { title: `${definition.name} - ${step.description}`, stepLabel: step.description, fields: step.formFields } : null;
+}
+
+function formatFieldValue(field: FormFieldDefinition, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '';
+  if (field.fieldType === 'barcode') return asSpreadsheetText(String(value));
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+const toFileNamePart = (text: string): string =>
+  text.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'form';
+
+/**
+ * Writes data entries as spreadsheet tables, one file per form. Columns follow the form's
+ * field order and labels. Across spaces, forms with the same title and fields, such as a
+ * daily space's copy of the same checklist, are written to a single file.
+ * Entries whose form no longer exists are left out, since their columns are unknown.
+ */
+export class ExportDataEntriesUseCase {
+  constructor(
+    private readonly dataEntryLogRepository: IDataEntryLogRepository,
+    private readonly actionDefinitionRepository: IActionDefinitionRepository,
+    private readonly spaceRepository: ISpaceRepository
+  ) {}
+
+  async execute(input: ExportDataEntriesInputDTO): Promise<DataEntryExportFileDTO[]> {
+    if (input.from && input.to && input.from > input.to) {
+      throw new Error('The start date must not be after the end date.');
+    }
+    const range = toTimestampRange(input.from, input.to);
+    const entries = input.spaceId
+      ? await this.dataEntryLogRepository.findBySpaceIdBetween(input.spaceId, range.from, range.to)
+      : await this.dataEntryLogRepository.findBetween(range.from, range.to);
+    // Trashed actions still name the columns of entries logged before they were removed
+    const definitions = new Map(
+      [...await this.actionDefinitionRepository.getAll(), ...await this.actionDefinitionRepository.findDeleted()]
+        .map(definition => [definition.id, definition] as const)
+    );
+    const spaceNames = new Map(
+      [...await this.spaceRepository.getAll(), ...await this.spaceRepository.findDeleted()].map(space => [space.id, space.name] as const)
+    );
+
+    const tables = new Map<string, FormTable>();
+    for (const entry of entries) {
+      if (input.actionDefinitionId && (entry.actionDefinitionId !== input.actionDefinitionId || entry.stepId !== input.stepId)) continue;
+      const definition = definitions.get(entry.actionDefinitionId);
+      const form = definition && resolveForm(definition, entry.stepId);
+      if (!form) continue;
+      const fields = [...form.fields].sort((a, b) => a.order - b.order);
+      const key = `${form.title}\u0000${fields.map(field => `${field.name}:${field.label}:${field.fieldType}`).join('\u0000')}`;
+      const table = tables.get(key) ?? { ...form, fields, entries: [] };
+      table.entries.push(entry);
+      tables.set(key, table);
+    }
+
+    const includeSpace = !input.spaceId;
+    const rangeSuffix = input.from || input.to ? `_${input.from ?? 'start'}_to_${input.to ?? 'today'}` : '';
+    const usedFileNames = new Set<string>();
+
+    return Array.from(tables.values())
+      .sort((a, b) => a.title.localeCompare(b.title))
+      .map(table => {
+        const header = [
+          ...(includeSpace ? ['Space'] : []),
+          'Timestamp',
+          'Step',
+          ...table.fields.map(field => field.label),
+          'Points',
+        ];
+        const rows = table.entries
+          .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+          .map(entry => [
+            ...(includeSpace ? [spaceNames.get(entry.spaceId) ?? ''] : []),
+            format(parseISO(entry.timestamp), 'yyyy-MM-dd HH:mm:ss'),
+            table.stepLabel,
+            ...table.fields.map(field => formatFieldValue(field, entry.data[field.name])),
+            String(entry.pointsAwarded),
+          ]);
+
+        const baseName = `${toFileNamePart(table.title)}${rangeSuffix}`;
+        let fileName = `${baseName}.${input.format}`;
+        for (let copy = 2; usedFileNames.has(fileName); copy++) fileName = `${baseName}_${copy}.${input.format}`;
+        usedFileNames.add(fileName);
+
+        return {
+          fileName,
+          mimeType: DELIMITED_TEXT_MIME_TYPES[input.format],
+          content: formatDelimitedText([header, ...rows], input.format),
+          entryCount: rows.length,
+        };
+      });
+  }
+}
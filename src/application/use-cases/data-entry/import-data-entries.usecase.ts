@@ -0,0 +1,160 @@
+// src/application/use-cases/data-entry/import-data-entries.usecase.ts
+import { isValid, parseISO } from 'date-fns';
+import type { DataEntryLog, FormFieldDefinition } from '@/domain/entities';
+import type { IActionDefinitionRepository, IUnitOfWork, UnitOfWorkOperation } from '@/application/ports/repositories';
+import { STORE_DATA_ENTRIES, STORE_DAILY_ROLLUPS } from '@/lib/constants';
+import { applyDailyRollupChanges } from '@/lib/daily-rollups';
+import { fromSpreadsheetText } from '@/lib/delimited-text';
+import { findFormDataErrors, resolveDataEntryForm } from './data-entry-form';
+
+export interface ImportDataEntriesInputDTO {
+  spaceId: string;
+  actionDefinitionId: string;
+  stepId?: string; // Step whose form the rows fill in, for a multi-step action
+  rows: string[][]; // Table rows below the header line
+  columnMapping: Record<string, number | undefined>; // Field name to column index; unmapped fields stay empty
+  timestampColumn?: number; // Column holding when each row was recorded; rows are stamped with the import time otherwise
+  dryRun?: boolean; // Validate and report without saving anything
+}
+
+export interface DataEntryImportRowErrorDTO {
+  rowNumber: number; // 1-based as a spreadsheet shows it, the header being row 1
+  messages: string[];
+}
+
+export interface ImportDataEntriesResultDTO {
+  validCount: number;
+  importedCount: number; // Zero on a dry run
+  skippedBlankCount: number;
+  errors: DataEntryImportRowErrorDTO[];
+}
+
+const normalizeHeader = (text: string): string => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+/**
+ * Suggests a column for each field by comparing headers with field names and labels,
+ * ignoring case, spaces and punctuation, so both "batch_no" and "Batch No." find the
+ * field named batchNo. Each column is used for one field at most.
+ */
+export function matchColumnsToFields(headers: string[], fields: FormFieldDefinition[]): Record<string, number | undefined> {
+  const normalizedHeaders = headers.map(normalizeHeader);
+  const usedColumns = new Set<number>();
+  const mapping: Record<string, number | undefined> = {};
+  // Names are more specific than labels, so every name gets its chance first
+  for (const key of ['name', 'label'] as const) {
+    for (const field of fields) {
+      if (mapping[field.name] !== undefined) continue;
+      const column = normalizedHeaders.findIndex((header, index) => !usedColumns.has(index) && header !== '' && header === normalizeHeader(field[key]));
+      if (column >= 0) {
+        mapping[field.name] = column;
+        usedColumns.add(column);
+      }
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Accepts the formats the data export writes and ISO 8601, e.g. 2024-05-01,
+ * 2024-05-01 14:30 or 2024-05-01T14:30:00Z. Values without an offset are local time.
+ */
+function parseImportedTimestamp(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value)) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+}
+
+function toFieldValue(field: FormFieldDefinition, cell: string): string | number {
+  const value = fromSpreadsheetText(cell.trim());
+  // Numbers are stored as numbers, as the entry form does; invalid ones are kept for the error report
+  if (field.fieldType === 'number' && value !== '' && !isNaN(Number(value))) return Number(value);
+  return value;
+}
+
+/**
+ * Logs table rows, e.g. from a paper form typed into a spreadsheet, as data entries of one
+ * form. Each row is checked like an entry logged by hand; rows with problems are reported
+ * and left out while the others are saved together.
+ */
+export class ImportDataEntriesUseCase {
+  constructor(
+    private readonly actionDefinitionRepository: IActionDefinitionRepository,
+    private readonly unitOfWork: IUnitOfWork
+  ) {}
+
+  async execute(data: ImportDataEntriesInputDTO): Promise<ImportDataEntriesResultDTO> {
+    const actionDefinition = await this.actionDefinitionRepository.findById(data.actionDefinitionId);
+    if (!actionDefinition) {
+      throw new Error('ActionDefinition not found');
+    }
+    const { fields, pointsAwarded } = resolveDataEntryForm(actionDefinition, data.stepId);
+    if (fields.length === 0) {
+      throw new Error('This form has no fields to import into.');
+    }
+
+    const importedAt = Date.now();
+    const entries: DataEntryLog[] = [];
+    const errors: DataEntryImportRowErrorDTO[] = [];
+    let skippedBlankCount = 0;
+
+    data.rows.forEach((row, index) => {
+      const rowNumber = index + 2;
+      if (row.every(cell => cell.trim() === '')) {
+        skippedBlankCount++;
+        return;
+      }
+
+      const formData: Record<string, any> = {};
+      for (const field of fields) {
+        const column = data.columnMapping[field.name];
+        formData[field.name] = column === undefined ? '' : toFieldValue(field, row[column] ?? '');
+      }
+      const messages = findFormDataErrors(fields, formData);
+
+      // A millisecond apart, rows without a timestamp keep the order they had in the file
+      let timestamp = new Date(importedAt + index);
+      const timestampCell = data.timestampColumn === undefined ? '' : fromSpreadsheetText((row[data.timestampColumn] ?? '').trim());
+      if (timestampCell !== '') {
+        const parsed = parseImportedTimestamp(timestampCell);
+        if (parsed) {
+          timestamp = parsed;
+        } else {
+          messages.push(`Timestamp "${timestampCell}" is not a date; use YYYY-MM-DD or YYYY-MM-DD HH:mm.`);
+        }
+      }
+
+      if (messages.length > 0) {
+        errors.push({ rowNumber, messages });
+        return;
+      }
+      entries.push({
+        id: self.crypto.randomUUID(),
+        spaceId: data.spaceId,
+        actionDefinitionId: data.actionDefinitionId,
+        stepId: data.stepId,
+        timestamp: timestamp.toISOString(),
+        data: formData,
+        pointsAwarded,
+      });
+    });
+
+    if (!data.dryRun && entries.length > 0) {
+      await this.unitOfWork.execute([
+        ...entries.map((record): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_DATA_ENTRIES, record })),
+        {
+          type: 'updateBySpaceId',
+          storeName: STORE_DAILY_ROLLUPS,
+          spaceId: data.spaceId,
+          update: rollups => applyDailyRollupChanges(rollups, data.spaceId, { addedDataEntries: entries }),
+        },
+      ]);
+    }
+
+    return {
+      validCount: entries.length,
+      importedCount: data.dryRun ? 0 : entries.length,
+      skippedBlankCount,
+      errors,
+    };
+  }
+}
@@ -1,7 +1,10 @@
 
 // src/application/use-cases/data-entry/log-data-entry.usecase.ts
 import type { DataEntryLog } from '@/domain/entities';
-import type { IDataEntryLogRepository, IActionDefinitionRepository } from '@/application/ports/repositories';
+import type { IActionDefinitionRepository, IUnitOfWork } from '@/application/ports/repositories';
+import { STORE_DATA_ENTRIES, STORE_DAILY_ROLLUPS } from '@/lib/constants';
+import { applyDailyRollupChanges } from '@/lib/daily-rollups';
+import { findFormDataErrors, resolveDataEntryForm } from './data-entry-form';
 
 export interface LogDataEntryInputDTO {
   spaceId: string;
@@ -16,8 +19,8 @@ export interface LogDataEntryResult {
 
 export class LogDataEntryUseCase {
   constructor(
-    private readonly dataEntryLogRepository: IDataEntryLogRepository,
-    private readonly actionDefinitionRepository: IActionDefinitionRepository
+    private readonly actionDefinitionRepository: IActionDefinitionRepository,
+    private readonly unitOfWork: IUnitOfWork
   ) {}
 
   async execute(data: LogDataEntryInputDTO): Promise<LogDataEntryResult> {
@@ -25,37 +28,12 @@ export class LogDataEntryUseCase {
     if (!actionDefinition) {
       throw new Error('ActionDefinition not found');
     }
-    if (!actionDefinition.isEnabled) {
-      throw new Error('Parent ActionDefinition is not enabled');
+    const { fields, pointsAwarded } = resolveDataEntryForm(actionDefinition, data.stepId);
+    const [firstError] = findFormDataErrors(fields, data.formData);
+    if (firstError) {
+      throw new Error(firstError);
     }
 
-    let formFieldsToValidate;
-    let pointsToAward = 0;
-
-    if (actionDefinition.type === 'data-entry') {
-      formFieldsToValidate = actionDefinition.formFields;
-      pointsToAward = actionDefinition.pointsForCompletion; 
-    } else if (actionDefinition.type === 'multi-step' && data.stepId) {
-      const step = actionDefinition.steps?.find(s => s.id === data.stepId);
-      if (!step) throw new Error(`Step with id ${data.stepId} not found in ActionDefinition ${actionDefinition.id}`);
-      if (step.stepType !== 'data-entry') throw new Error(`Step ${data.stepId} is not a data-entry step.`);
-      formFieldsToValidate = step.formFields;
-      pointsToAward = 0; 
-    } else {
-      throw new Error('ActionDefinition is not of type data-entry, or stepId is missing for multi-step data entry.');
-    }
-
-    if (formFieldsToValidate) {
-      for (const field of formFieldsToValidate) {
-        if (field.isRequired && (data.formData[field.name] === undefined || String(data.formData[field.name]).trim() === '')) {
-          throw new Error(`Field "${field.label}" is required.`);
-        }
-        if (field.fieldType === 'number' && data.formData[field.name] !== '' && data.formData[field.name] !== undefined && isNaN(Number(data.formData[field.name]))) {
-          throw new Error(`Field "${field.label}" must be a valid number.`);
-        }
-      }
-    }
-    
     const newDataEntryLog: DataEntryLog = {
       id: self.crypto.randomUUID(),
       spaceId: data.spaceId,
@@ -63,10 +41,18 @@ export class LogDataEntryUseCase {
       stepId: data.stepId, 
       timestamp: new Date().toISOString(),
       data: data.formData,
-      pointsAwarded: pointsToAward,
+      pointsAwarded,
     };
 
-    const loggedDataEntry = await this.dataEntryLogRepository.save(newDataEntryLog);
-    return { loggedDataEntry };
+    await this.unitOfWork.execute([
+      { type: 'put', storeName: STORE_DATA_ENTRIES, record: newDataEntryLog },
+      {
+        type: 'updateBySpaceId',
+        storeName: STORE_DAILY_ROLLUPS,
+        spaceId: newDataEntryLog.spaceId,
+        update: rollups => applyDailyRollupChanges(rollups, newDataEntryLog.spaceId, { addedDataEntries: [newDataEntryLog] }),
+      },
+    ]);
+    return { loggedDataEntry: newDataEntryLog };
   }
 }
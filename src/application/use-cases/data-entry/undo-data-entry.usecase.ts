@@ -0,0 +1,33 @@
+// src/application/use-cases/data-entry/undo-data-entry.usecase.ts
+import type { DataEntryLog } from '@/domain/entities';
+import type { IDataEntryLogRepository, IUnitOfWork } from '@/application/ports/repositories';
+import { STORE_DATA_ENTRIES, STORE_DAILY_ROLLUPS } from '@/lib/constants';
+import { applyDailyRollupChanges } from '@/lib/daily-rollups';
+
+/**
+ * Permanently removes a mistakenly submitted data entry. Unlike deleting an action
+ * or a space, this bypasses the trash.
+ */
+export class UndoDataEntryUseCase {
+  constructor(
+    private readonly dataEntryLogRepository: IDataEntryLogRepository,
+    private readonly unitOfWork: IUnitOfWork
+  ) {}
+
+  async execute(id: string): Promise<DataEntryLog> {
+    const existingEntry = await this.dataEntryLogRepository.findById(id);
+    if (!existingEntry) {
+      throw new Error('DataEntryLog not found. It may already have been undone.');
+    }
+    await this.unitOfWork.execute([
+      { type: 'delete', storeName: STORE_DATA_ENTRIES, key: id },
+      {
+        type: 'updateBySpaceId',
+        storeName: STORE_DAILY_ROLLUPS,
+        spaceId: existingEntry.spaceId,
+        update: rollups => applyDailyRollupChanges(rollups, existingEntry.spaceId, { removedDataEntries: [existingEntry] }),
+      },
+    ]);
+    return existingEntry;
+  }
+}
@@ -1,17 +1,23 @@
 // src/application/use-cases/data-entry/update-data-entry.usecase.ts
 import type { DataEntryLog, FormFieldDefinition } from '@/domain/entities';
-import type { IDataEntryLogRepository, IActionDefinitionRepository } from '@/application/ports/repositories';
+import type { IDataEntryLogRepository, IActionDefinitionRepository, IUnitOfWork, UnitOfWorkOperation } from '@/application/ports/repositories';
+import { STORE_DATA_ENTRIES, STORE_RECORD_HISTORY, STORE_DAILY_ROLLUPS } from '@/lib/constants';
+import { createRecordHistoryEntry } from '@/lib/record-diff';
+import { applyDailyRollupChanges } from '@/lib/daily-rollups';
+import { findFormDataErrors } from './data-entry-form';
 
 export interface UpdateDataEntryInputDTO {
   id: string; // ID of the DataEntryLog to update
   formData: Record<string, any>;
+  reason?: string; // Kept with the change in the record history
   // spaceId and actionDefinitionId/stepId are not directly updatable, they are for context
 }
 
 export class UpdateDataEntryUseCase {
   constructor(
     private readonly dataEntryLogRepository: IDataEntryLogRepository,
-    private readonly actionDefinitionRepository: IActionDefinitionRepository
+    private readonly actionDefinitionRepository: IActionDefinitionRepository,
+    private readonly unitOfWork: IUnitOfWork
   ) {}
 
   async execute(data: UpdateDataEntryInputDTO): Promise<DataEntryLog> {
@@ -38,15 +44,9 @@ export class UpdateDataEntryUseCase {
       throw new Error('Could not determine form fields for validation.');
     }
 
-    if (formFieldsToValidate) {
-      for (const field of formFieldsToValidate) {
-        if (field.isRequired && (data.formData[field.name] === undefined || String(data.formData[field.name]).trim() === '')) {
-          throw new Error(`Field "${field.label}" is required.`);
-        }
-        if (field.fieldType === 'number' && data.formData[field.name] !== '' && data.formData[field.name] !== undefined && isNaN(Number(data.formData[field.name]))) {
-          throw new Error(`Field "${field.label}" must be a valid number.`);
-        }
-      }
+    const [firstError] = findFormDataErrors(formFieldsToValidate ?? [], data.formData);
+    if (firstError) {
+      throw new Error(firstError);
     }
 
     const updatedEntry: DataEntryLog = {
@@ -55,6 +55,19 @@ export class UpdateDataEntryUseCase {
       timestamp: new Date().toISOString(), // Update timestamp on edit
     };
 
-    return this.dataEntryLogRepository.save(updatedEntry);
+    // The entry and its history entry are written together, so no edit goes unrecorded
+    const historyEntry = createRecordHistoryEntry('dataEntry', existingEntry, updatedEntry, data.reason);
+    const operations: UnitOfWorkOperation[] = [{ type: 'put', storeName: STORE_DATA_ENTRIES, record: updatedEntry }];
+    if (historyEntry) operations.push({ type: 'put', storeName: STORE_RECORD_HISTORY, record: historyEntry });
+
+    // Saving an edit moves the entry to today, which may take its points to another day's rollup
+    operations.push({
+      type: 'updateBySpaceId',
+      storeName: STORE_DAILY_ROLLUPS,
+      spaceId: existingEntry.spaceId,
+      update: rollups => applyDailyRollupChanges(rollups, existingEntry.spaceId, { removedDataEntries: [existingEntry], addedDataEntries: [updatedEntry] }),
+    });
+    await this.unitOfWork.execute(operations);
+    return updatedEntry;
   }
 }
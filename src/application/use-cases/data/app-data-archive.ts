@@ -0,0 +1,253 @@
+// src/application/use-cases/data/app-data-archive.ts
+import type * as z from 'zod';
+import type { AppDataArchiveFileDTO, AppDataArchiveManifestDTO, AttachmentArchiveDTO } from '@/application/dto/app-data-export.dto';
+import {
+  actionDefinitionSchema,
+  actionLogSchema,
+  appDataArchiveManifestSchema,
+  attachmentArchiveSchema,
+  clockEventSchema,
+  dataEntryLogSchema,
+  problemSchema,
+  recordHistoryEntrySchema,
+  spaceSchema,
+  todoSchema,
+  userProgressSchema,
+} from '@/application/dto/app-data-export.schema';
+import type { IRecordScanner } from '@/application/ports/repositories/irecord-scanner';
+import type { UnitOfWorkRecords } from '@/application/ports/repositories/iunit-of-work';
+import { DB_VERSION } from '@/lib/constants';
+import { readNdjsonLines, toNdjsonLine } from '@/lib/ndjson';
+import { formatCrc32, ZipArchiveReader, ZipArchiveWriter, type ZipWrittenEntry } from '@/lib/zip-archive';
+import { getAppDataExportVersion, migrateAppDataExport } from './app-data-export-migrations';
+import { APP_DATA_RECORD_TYPES, scanRecords, type AppDataRecords, type AppDataRecordType } from './app-data-records';
+import { InvalidAppDataExportError, toAppDataExportIssue, type AppDataExportIssue } from './parse-app-data-export.usecase';
+
+export const APP_DATA_ARCHIVE_MANIFEST_PATH = 'manifest.json';
+
+const RECORD_PAGE_SIZE = 250;
+const ATTACHMENT_PAGE_SIZE = 10; // Each attachment brings its image along
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+};
+
+const archivePathFor = (recordType: AppDataRecordType): string => `${recordType}.ndjson`;
+
+type StoredRecordType = Exclude<AppDataRecordType, 'attachments'>;
+
+const RECORD_SCHEMAS: { [K in StoredRecordType]: z.ZodType<UnitOfWorkRecords[K]> } = {
+  spaces: spaceSchema,
+  actionDefinitions: actionDefinitionSchema,
+  actionLogs: actionLogSchema,
+  problems: problemSchema,
+  todos: todoSchema,
+  userProgress: userProgressSchema,
+  clockEvents: clockEventSchema,
+  dataEntries: dataEntryLogSchema,
+  recordHistory: recordHistoryEntrySchema,
+};
+
+export interface AppDataArchive {
+  archive: Blob;
+  manifest: AppDataArchiveManifestDTO;
+}
+
+/**
+ * Writes all data as a ZIP archive instead of one JSON document: each collection becomes
+ * an NDJSON file filled a page at a time from the store, and each image is stored as the
+ * file it is rather than as a data URI. `manifest.json` comes last, once every checksum
+ * is known. Trashed records are included, as in the JSON export.
+ */
+export async function writeAppDataArchive(recordScanner: IRecordScanner): Promise<AppDataArchive> {
+  const writer = new ZipArchiveWriter();
+  const exportedAt = new Date();
+  const files: AppDataArchiveFileDTO[] = [];
+  const describe = (written: ZipWrittenEntry, recordType?: AppDataRecordType, recordCount?: number): AppDataArchiveFileDTO =>
+    ({ path: written.name, recordType, recordCount, size: written.size, crc32: formatCrc32(written.crc32) });
+
+  for (const recordType of APP_DATA_RECORD_TYPES) {
+    let recordCount = 0;
+    let lines: AsyncIterable<Uint8Array>;
+
+    if (recordType === 'attachments') {
+      // Entries are written one after another, so the images go first and their list follows
+      const attachmentLines: Uint8Array[] = [];
+      for await (const attachment of scanRecords(recordScanner, 'attachments', ATTACHMENT_PAGE_SIZE)) {
+        const extension = IMAGE_EXTENSIONS[attachment.mimeType] ?? 'bin';
+        const written = await writer.add(`images/${attachment.id}.${extension}`, attachment.blob, { modifiedAt: new Date(attachment.creationDate) });
+        files.push(describe(written));
+        const line: AttachmentArchiveDTO = {
+          id: attachment.id,
+          spaceId: attachment.spaceId,
+          mimeType: attachment.mimeType,
+          creationDate: attachment.creationDate,
+          path: written.name,
+        };
+        attachmentLines.push(toNdjsonLine(line));
+      }
+      recordCount = attachmentLines.length;
+      lines = (async function* () { yield* attachmentLines; })();
+    } else {
+      const records = scanRecords(recordScanner, recordType, RECORD_PAGE_SIZE);
+      lines = (async function* () {
+        for await (const record of records) {
+          recordCount++;
+          yield toNdjsonLine(record);
+        }
+      })();
+    }
+
+    const written = await writer.add(archivePathFor(recordType), lines, { compress: true, modifiedAt: exportedAt });
+    files.push(describe(written, recordType, recordCount));
+  }
+
+  const manifest: AppDataArchiveManifestDTO = {
+    format: 'okapi-archive',
+    formatVersion: 1,
+    schemaVersion: DB_VERSION.toString(),
+    exportedAt: exportedAt.toISOString(),
+    files,
+  };
+  await writer.add(APP_DATA_ARCHIVE_MANIFEST_PATH, new Blob([JSON.stringify(manifest, null, 2)]), { compress: true, modifiedAt: exportedAt });
+  return { archive: writer.finish(), manifest };
+}
+
+async function readManifest(archive: ZipArchiveReader): Promise<AppDataArchiveManifestDTO> {
+  const entry = archive.get(APP_DATA_ARCHIVE_MANIFEST_PATH);
+  if (!entry) {
+    throw new InvalidAppDataExportError([{ path: APP_DATA_ARCHIVE_MANIFEST_PATH, message: 'The archive has no manifest' }]);
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await archive.text(entry));
+  } catch (error) {
+    throw new InvalidAppDataExportError([{ path: APP_DATA_ARCHIVE_MANIFEST_PATH, message: error instanceof Error ? error.message : 'Unreadable manifest' }]);
+  }
+  const result = appDataArchiveManifestSchema.safeParse(raw);
+  if (!result.success) {
+    throw new InvalidAppDataExportError(result.error.issues.map(issue => ({
+      path: [APP_DATA_ARCHIVE_MANIFEST_PATH, ...issue.path].join('.'),
+      message: issue.message,
+    })));
+  }
+  return result.data;
+}
+
+/**
+ * Reads every record of an archive written by `writeAppDataArchive`. Collections are read
+ * line by line from the ZIP and images are sliced straight from their files, so the
+ * archive is never held as one string. Throws an `InvalidAppDataExportError` listing every
+ * checksum and record problem found.
+ */
+export async function readAppDataArchive(file: Blob): Promise<AppDataRecords> {
+  const archive = await ZipArchiveReader.open(file);
+  const manifest = await readManifest(archive);
+  const fileVersion = getAppDataExportVersion(manifest);
+  migrateAppDataExport({ schemaVersion: manifest.schemaVersion }, DB_VERSION); // Rejects archives from a newer version
+
+  const issues: AppDataExportIssue[] = [];
+  for (const listed of manifest.files) {
+    const entry = archive.get(listed.path);
+    if (!entry) {
+      issues.push({ path: listed.path, message: 'Listed in the manifest but missing from the archive' });
+    } else if (formatCrc32(entry.crc32) !== listed.crc32 || entry.size !== listed.size) {
+      issues.push({ path: listed.path, message: 'Does not match the checksum in the manifest' });
+    }
+  }
+  if (issues.length > 0) {
+    throw new InvalidAppDataExportError(issues);
+  }
+
+  const records: AppDataRecords = {
+    spaces: [],
+    actionDefinitions: [],
+    actionLogs: [],
+    problems: [],
+    todos: [],
+    userProgress: [],
+    clockEvents: [],
+    dataEntries: [],
+    attachments: [],
+    recordHistory: [],
+  };
+  const attachmentLines: AttachmentArchiveDTO[] = [];
+
+  for (const recordType of APP_DATA_RECORD_TYPES) {
+    const listed = manifest.files.find(f => f.recordType === recordType);
+    if (!listed) continue; // A collection left out of the archive is imported empty
+    const schema = recordType === 'attachments' ? attachmentArchiveSchema : RECORD_SCHEMAS[recordType];
+    const target: unknown[] = recordType === 'attachments' ? attachmentLines : records[recordType];
+
+    // Kept apart until the file has been read to its end: a damaged file garbles its
+    // records, and only the damage is worth reporting then
+    const recordIssues: AppDataExportIssue[] = [];
+    let index = 0;
+    let recordCount = 0;
+    try {
+      for await (const line of readNdjsonLines(await archive.stream(archive.get(listed.path)!))) {
+        const lineIndex = index++;
+        if (line.trim() === '') continue;
+        recordCount++;
+        let raw: unknown;
+        // Paths read like those of a JSON export, e.g. todos[3].status for the fourth line of todos.ndjson
+        const fail = (message: string, path: (string | number)[] = []) =>
+          recordIssues.push(toAppDataExportIssue({ [recordType]: { [lineIndex]: raw } }, { code: 'custom', message, path: [recordType, lineIndex, ...path] }));
+        try {
+          raw = JSON.parse(line);
+        } catch {
+          fail('Not valid JSON');
+          continue;
+        }
+        if (fileVersion < DB_VERSION) {
+          // The export migrations work on collections, so each record is passed through as a collection of one
+          const migrated = migrateAppDataExport({ schemaVersion: manifest.schemaVersion, [recordType]: recordType === 'userProgress' ? raw : [raw] }, DB_VERSION);
+          raw = recordType === 'userProgress' ? migrated.userProgress : migrated[recordType]?.[0];
+        }
+        const result = schema.safeParse(raw);
+        if (result.success) {
+          target.push(result.data);
+        } else {
+          result.error.issues.forEach(issue => fail(issue.message, issue.path));
+        }
+      }
+    } catch (error) {
+      issues.push({ path: listed.path, message: error instanceof Error ? error.message : 'Could not be read' });
+      continue;
+    }
+    issues.push(...recordIssues);
+    if (listed.recordCount !== undefined && listed.recordCount !== recordCount) {
+      issues.push({ path: listed.path, message: `Expected ${listed.recordCount} records, found ${recordCount}` });
+    }
+  }
+
+  for (const attachment of attachmentLines) {
+    const entry = archive.get(attachment.path);
+    if (!entry) {
+      issues.push({ path: attachment.path, recordId: attachment.id, message: 'Image file missing from the archive' });
+      continue;
+    }
+    try {
+      const blob = await archive.blob(entry, attachment.mimeType);
+      records.attachments.push({
+        id: attachment.id,
+        spaceId: attachment.spaceId,
+        mimeType: attachment.mimeType,
+        creationDate: attachment.creationDate,
+        blob,
+        size: blob.size,
+      });
+    } catch (error) {
+      issues.push({ path: attachment.path, recordId: attachment.id, message: error instanceof Error ? error.message : 'Could not be read' });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new InvalidAppDataExportError(issues);
+  }
+  return records;
+}
@@ -0,0 +1,87 @@
+// src/application/use-cases/data/app-data-export-migrations.ts
+
+// An export file as parsed from JSON, before it has been validated
+export type RawAppDataExport = Record<string, any>;
+
+/**
+ * Upgrades an export file written before `version` to the format of that version.
+ * Most database versions leave the export format alone, so versions have gaps.
+ */
+export interface AppDataExportMigration {
+  version: number;
+  description: string;
+  migrate: (data: RawAppDataExport) => RawAppDataExport;
+}
+
+const mapRecords = (records: unknown, transform: (record: any) => any): unknown =>
+  Array.isArray(records) ? records.map(record => (typeof record === 'object' && record !== null ? transform(record) : record)) : records;
+
+/**
+ * Ordered history of the export format. Append new migrations to the end when the
+ * format changes; never edit one that has shipped.
+ */
+export const APP_DATA_EXPORT_MIGRATIONS: readonly AppDataExportMigration[] = [
+  {
+    // Files up to version 9 may also lack the data entries list altogether
+    version: 10,
+    description: 'Backfill Todo.status from completed',
+    migrate: data => ({
+      ...data,
+      dataEntries: data.dataEntries ?? [],
+      todos: mapRecords(data.todos, todo =>
+        todo.status === 'todo' || todo.status === 'doing' || todo.status === 'done'
+          ? todo
+          : { ...todo, status: todo.completed ? 'done' : 'todo' }
+      ),
+    }),
+  },
+  {
+    // Same conversion as the database migration to version 11, with the images kept as data URIs
+    version: 11,
+    description: 'Move inline image data URIs into the attachments list',
+    migrate: data => {
+      const attachments: RawAppDataExport[] = Array.isArray(data.attachments) ? [...data.attachments] : [];
+      const toAttachment = (spaceId: string, dataUri: unknown, creationDate: string): string | undefined => {
+        if (typeof dataUri !== 'string' || !dataUri) return undefined;
+        const mimeType = /^data:([^;,]*)/.exec(dataUri)?.[1] ?? '';
+        const attachment = { id: self.crypto.randomUUID(), spaceId, mimeType, creationDate, dataUri };
+        attachments.push(attachment);
+        return attachment.id;
+      };
+
+      const problems = mapRecords(data.problems, ({ imageDataUri, ...problem }) => ({
+        ...problem,
+        imageAttachmentId: problem.imageAttachmentId ?? toAttachment(problem.spaceId, imageDataUri, problem.lastModifiedDate),
+      }));
+      const todos = mapRecords(data.todos, ({ beforeImageDataUri, afterImageDataUri, ...todo }) => ({
+        ...todo,
+        beforeImageAttachmentId: todo.beforeImageAttachmentId ?? toAttachment(todo.spaceId, beforeImageDataUri, todo.creationDate),
+        afterImageAttachmentId: todo.afterImageAttachmentId ?? toAttachment(todo.spaceId, afterImageDataUri, todo.lastModifiedDate),
+      }));
+      return { ...data, problems, todos, attachments };
+    },
+  },
+];
+
+/**
+ * The version of the format an export was written in. Files without a readable
+ * `schemaVersion` predate the field and go through every migration.
+ */
+export function getAppDataExportVersion(data: RawAppDataExport): number {
+  const version = Number.parseInt(String(data.schemaVersion ?? ''), 10);
+  return Number.isNaN(version) ? 0 : version;
+}
+
+/**
+ * Applies the migrations newer than the file, in order.
+ */
+export function migrateAppDataExport(data: RawAppDataExport, targetVersion: number): RawAppDataExport {
+  const fileVersion = getAppDataExportVersion(data);
+  if (fileVersion > targetVersion) {
+    throw new Error(`This file was exported by a newer version of the app (format ${fileVersion}); this version reads up to format ${targetVersion}.`);
+  }
+  const migrated = APP_DATA_EXPORT_MIGRATIONS
+    .filter(migration => migration.version > fileVersion && migration.version <= targetVersion)
+    .reduce((current, migration) => migration.migrate(current), data);
+  return { ...migrated, schemaVersion: targetVersion.toString() };
+}
@@ -0,0 +1,93 @@
+// src/application/use-cases/data/app-data-records.ts
+import type { AppDataExportDTO, AttachmentExportDTO } from '@/application/dto/app-data-export.dto';
+import type { Attachment } from '@/domain/entities';
+import type { IRecordScanner, RecordScanPage } from '@/application/ports/repositories/irecord-scanner';
+import type { UnitOfWorkOperation, UnitOfWorkRecords, UnitOfWorkStoreName } from '@/application/ports/repositories/iunit-of-work';
+import { dataUriToBlob } from '@/lib/blob-utils';
+import { STORE_DAILY_ROLLUPS, STORE_UPGRADE_MARKERS } from '@/lib/constants';
+import { computeDailyRollupsForAllSpaces, DAILY_ROLLUPS_BUILT_MARKER } from '@/lib/daily-rollups';
+
+// Rollups and upgrade markers are never exported; rollups are computed from the logs after an import
+export type AppDataRecordType = Exclude<UnitOfWorkStoreName, 'dailyRollups' | 'upgradeMarkers'>;
+
+/**
+ * The contents of an export as they are stored: attachments carry blobs, and the
+ * single user progress record sits in a list like every other collection.
+ */
+export type AppDataRecords = { [K in AppDataRecordType]: UnitOfWorkRecords[K][] };
+
+export const APP_DATA_RECORD_TYPES: readonly AppDataRecordType[] = [
+  'spaces',
+  'actionDefinitions',
+  'actionLogs',
+  'problems',
+  'todos',
+  'userProgress',
+  'clockEvents',
+  'dataEntries',
+  'attachments',
+  'recordHistory',
+];
+
+// Every record of a store, trashed ones included, read `limit` at a time
+export async function* scanRecords<K extends AppDataRecordType>(recordScanner: IRecordScanner, storeName: K, limit: number): AsyncGenerator<UnitOfWorkRecords[K]> {
+  let afterKey: string | null = null;
+  do {
+    const page: RecordScanPage<K> = await recordScanner.scan(storeName, { limit, afterKey });
+    yield* page.records;
+    afterKey = page.nextKey;
+  } while (afterKey);
+}
+
+export function fromAttachmentExport({ dataUri, ...attachment }: AttachmentExportDTO): Attachment {
+  const blob = dataUriToBlob(dataUri);
+  return { ...attachment, blob, size: blob.size };
+}
+
+/**
+ * Converts validated export data into storable records, turning data URIs into blobs.
+ */
+export function toAppDataRecords(data: AppDataExportDTO): AppDataRecords {
+  const attachments = (data.attachments ?? []).map(fromAttachmentExport);
+
+  return {
+    spaces: data.spaces,
+    actionDefinitions: data.actionDefinitions,
+    actionLogs: data.actionLogs,
+    problems: data.problems,
+    todos: data.todos,
+    userProgress: [data.userProgress],
+    clockEvents: data.clockEvents,
+    dataEntries: data.dataEntries,
+    attachments,
+    recordHistory: data.recordHistory ?? [],
+  };
+}
+
+export function toPutOperations(records: AppDataRecords): UnitOfWorkOperation[] {
+  return APP_DATA_RECORD_TYPES.flatMap(storeName =>
+    (records[storeName] as UnitOfWorkRecords[typeof storeName][]).map(record => ({ type: 'put', storeName, record }) as UnitOfWorkOperation)
+  );
+}
+
+/**
+ * Operations that replace every collection with `records`. Rollups are not exported;
+ * they are computed from the imported logs instead. Run them as one unit of work, so a
+ * failure leaves the existing data untouched.
+ */
+export function toReplaceAllOperations(records: AppDataRecords): UnitOfWorkOperation[] {
+  const operations: UnitOfWorkOperation[] = [
+    ...APP_DATA_RECORD_TYPES.map((storeName): UnitOfWorkOperation => ({ type: 'clear', storeName })),
+    { type: 'clear', storeName: STORE_DAILY_ROLLUPS },
+    ...toPutOperations(records),
+  ];
+  const isLive = (record: { deletedAt?: string }) => !record.deletedAt;
+  computeDailyRollupsForAllSpaces(
+    records.actionLogs.filter(isLive),
+    records.dataEntries.filter(isLive),
+    records.clockEvents.filter(isLive)
+  ).forEach(record => operations.push({ type: 'put', storeName: STORE_DAILY_ROLLUPS, record }));
+  // The rollups now cover every log, so no rebuild is needed for the replaced data
+  operations.push({ type: 'put', storeName: STORE_UPGRADE_MARKERS, record: { id: DAILY_ROLLUPS_BUILT_MARKER, completedAt: new Date().toISOString() } });
+  return operations;
+}
@@ -0,0 +1,26 @@
+// src/application/use-cases/data/decrypt-app-data-export.usecase.ts
+import type { EncryptedAppDataExportDTO } from '@/application/dto/app-data-export.dto';
+import { decryptTextWithPassphrase } from '@/lib/passphrase-crypto';
+
+export function isEncryptedAppDataExport(value: unknown): value is EncryptedAppDataExportDTO {
+  return typeof value === 'object' && value !== null && (value as { format?: unknown }).format === 'okapi-encrypted-export';
+}
+
+export class DecryptAppDataExportUseCase {
+  // Resolves to the parsed JSON inside; pass it to ParseAppDataExportUseCase before importing
+  async execute(file: EncryptedAppDataExportDTO, passphrase: string): Promise<unknown> {
+    if (file.formatVersion !== 1) {
+      throw new Error(`Unsupported encrypted export version: ${file.formatVersion}.`);
+    }
+    if (!passphrase) {
+      throw new Error('Enter the passphrase the file was exported with.');
+    }
+    const json = await decryptTextWithPassphrase({
+      salt: file.kdf.salt,
+      iterations: file.kdf.iterations,
+      iv: file.cipher.iv,
+      ciphertext: file.ciphertext,
+    }, passphrase);
+    return JSON.parse(json);
+  }
+}
@@ -0,0 +1,18 @@
+// src/application/use-cases/data/encrypt-app-data-export.usecase.ts
+import type { AppDataExportDTO, EncryptedAppDataExportDTO } from '@/application/dto/app-data-export.dto';
+import { encryptTextWithPassphrase, validateNewPassphrase } from '@/lib/passphrase-crypto';
+
+export class EncryptAppDataExportUseCase {
+  // The export passphrase is independent of the database passphrase, if any
+  async execute(data: AppDataExportDTO, passphrase: string, confirmation: string): Promise<EncryptedAppDataExportDTO> {
+    validateNewPassphrase(passphrase, confirmation);
+    const encrypted = await encryptTextWithPassphrase(JSON.stringify(data), passphrase);
+    return {
+      format: 'okapi-encrypted-export',
+      formatVersion: 1,
+      kdf: { name: 'PBKDF2', hash: 'SHA-256', salt: encrypted.salt, iterations: encrypted.iterations },
+      cipher: { name: 'AES-GCM', iv: encrypted.iv },
+      ciphertext: encrypted.ciphertext,
+    };
+  }
+}
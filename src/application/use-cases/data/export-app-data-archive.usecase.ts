@@ -0,0 +1,15 @@
+// src/application/use-cases/data/export-app-data-archive.usecase.ts
+import type { IRecordScanner } from '@/application/ports/repositories/irecord-scanner';
+import { writeAppDataArchive } from './app-data-archive';
+
+/**
+ * Exports all data as a ZIP archive, for collections too large for the JSON export.
+ */
+export class ExportAppDataArchiveUseCase {
+  constructor(private readonly recordScanner: IRecordScanner) {}
+
+  async execute(): Promise<Blob> {
+    const { archive } = await writeAppDataArchive(this.recordScanner);
+    return archive;
+  }
+}
@@ -8,6 +8,9 @@ import type { ITodoRepository } from '@/application/ports/repositories/itodo.rep
 import type { IUserProgressRepository } from '@/application/ports/repositories/iuser-progress.repository';
 import type { IClockEventRepository } from '@/application/ports/repositories/iclock-event.repository';
 import type { IDataEntryLogRepository } from '@/application/ports/repositories/idata-entry-log.repository'; // New
+import type { IAttachmentRepository } from '@/application/ports/repositories/iattachment.repository';
+import type { IRecordHistoryRepository } from '@/application/ports/repositories/irecord-history.repository';
+import { blobToDataUri } from '@/lib/blob-utils';
 import { DB_VERSION, DEFAULT_USER_ID } from '@/lib/constants';
 
 export class ExportAppDataUseCase {
@@ -19,18 +22,33 @@ export class ExportAppDataUseCase {
     private readonly todoRepository: ITodoRepository,
     private readonly userProgressRepository: IUserProgressRepository,
     private readonly clockEventRepository: IClockEventRepository,
-    private readonly dataEntryLogRepository: IDataEntryLogRepository // New
+    private readonly dataEntryLogRepository: IDataEntryLogRepository, // New
+    private readonly attachmentRepository: IAttachmentRepository,
+    private readonly recordHistoryRepository: IRecordHistoryRepository
   ) {}
 
   async execute(): Promise<AppDataExportDTO> {
-    const spaces = await this.spaceRepository.getAll();
-    const actionDefinitions = await this.actionDefinitionRepository.getAll();
-    const actionLogs = await this.actionLogRepository.getAll();
-    const problems = await this.problemRepository.getAll();
-    const todos = await this.todoRepository.getAll();
+    // The trash is part of the backup: trashed records are exported with their deletedAt
+    const withTrash = async <T>(repository: { getAll(): Promise<T[]>; findDeleted(): Promise<T[]> }) =>
+      [...await repository.getAll(), ...await repository.findDeleted()];
+
+    const spaces = await withTrash(this.spaceRepository);
+    const actionDefinitions = await withTrash(this.actionDefinitionRepository);
+    const actionLogs = await withTrash(this.actionLogRepository);
+    const problems = await withTrash(this.problemRepository);
+    const todos = await withTrash(this.todoRepository);
     const userProgress = await this.userProgressRepository.findByUserId(DEFAULT_USER_ID);
-    const clockEvents = await this.clockEventRepository.getAll();
-    const dataEntries = await this.dataEntryLogRepository.getAll(); // New
+    const clockEvents = await withTrash(this.clockEventRepository);
+    const dataEntries = await withTrash(this.dataEntryLogRepository); // New
+    const attachments = await this.attachmentRepository.getAll();
+    const recordHistory = await this.recordHistoryRepository.getAll();
+    const exportedAttachments = await Promise.all(attachments.map(async attachment => ({
+      id: attachment.id,
+      spaceId: attachment.spaceId,
+      mimeType: attachment.mimeType,
+      creationDate: attachment.creationDate,
+      dataUri: await blobToDataUri(attachment.blob),
+    })));
 
     return {
       spaces,
@@ -41,6 +59,8 @@ export class ExportAppDataUseCase {
       userProgress: userProgress || { userId: DEFAULT_USER_ID, points: 0, level: 1, unlockedCustomizations: [] },
       clockEvents,
       dataEntries, // New
+      attachments: exportedAttachments,
+      recordHistory,
       schemaVersion: DB_VERSION.toString(),
     };
   }
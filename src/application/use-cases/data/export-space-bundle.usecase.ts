@@ -0,0 +1,78 @@
+// src/application/use-cases/data/export-space-bundle.usecase.ts
+import type { AttachmentExportDTO, SpaceBundleExportDTO } from '@/application/dto/app-data-export.dto';
+import type { ISpaceRepository } from '@/application/ports/repositories/ispace.repository';
+import type { IActionDefinitionRepository } from '@/application/ports/repositories/iaction-definition.repository';
+import type { IActionLogRepository } from '@/application/ports/repositories/iaction-log.repository';
+import type { IProblemRepository } from '@/application/ports/repositories/iproblem.repository';
+import type { ITodoRepository } from '@/application/ports/repositories/itodo.repository';
+import type { IClockEventRepository } from '@/application/ports/repositories/iclock-event.repository';
+import type { IDataEntryLogRepository } from '@/application/ports/repositories/idata-entry-log.repository';
+import type { IAttachmentRepository } from '@/application/ports/repositories/iattachment.repository';
+import { blobToDataUri } from '@/lib/blob-utils';
+import { DB_VERSION } from '@/lib/constants';
+
+export class ExportSpaceBundleUseCase {
+  constructor(
+    private readonly spaceRepository: ISpaceRepository,
+    private readonly actionDefinitionRepository: IActionDefinitionRepository,
+    private readonly actionLogRepository: IActionLogRepository,
+    private readonly problemRepository: IProblemRepository,
+    private readonly todoRepository: ITodoRepository,
+    private readonly clockEventRepository: IClockEventRepository,
+    private readonly dataEntryLogRepository: IDataEntryLogRepository,
+    private readonly attachmentRepository: IAttachmentRepository
+  ) {}
+
+  async execute(spaceIds: string[]): Promise<SpaceBundleExportDTO> {
+    if (spaceIds.length === 0) {
+      throw new Error('Choose at least one space to export.');
+    }
+    const bundle: SpaceBundleExportDTO = {
+      format: 'okapi-space-bundle',
+      formatVersion: 1,
+      schemaVersion: DB_VERSION.toString(),
+      exportedAt: new Date().toISOString(),
+      spaces: [],
+      actionDefinitions: [],
+      actionLogs: [],
+      problems: [],
+      todos: [],
+      clockEvents: [],
+      dataEntries: [],
+      attachments: [],
+    };
+
+    for (const spaceId of new Set(spaceIds)) {
+      const space = await this.spaceRepository.findById(spaceId);
+      if (!space) {
+        throw new Error(`Space with id ${spaceId} not found.`);
+      }
+      bundle.spaces.push(space);
+      bundle.actionDefinitions.push(...await this.actionDefinitionRepository.findBySpaceId(spaceId));
+      bundle.actionLogs.push(...await this.actionLogRepository.findBySpaceId(spaceId));
+      bundle.problems.push(...await this.problemRepository.findBySpaceId(spaceId));
+      bundle.todos.push(...await this.todoRepository.findBySpaceId(spaceId));
+      bundle.clockEvents.push(...await this.clockEventRepository.findBySpaceId(spaceId));
+      bundle.dataEntries.push(...await this.dataEntryLogRepository.findBySpaceId(spaceId));
+    }
+
+    const attachmentIds = new Set([
+      ...bundle.problems.map(problem => problem.imageAttachmentId),
+      ...bundle.todos.flatMap(todo => [todo.beforeImageAttachmentId, todo.afterImageAttachmentId]),
+    ].filter((id): id is string => !!id));
+    for (const attachmentId of attachmentIds) {
+      const attachment = await this.attachmentRepository.findById(attachmentId);
+      if (!attachment) continue; // Already removed; the record keeps a dangling reference, as it does locally
+      const exported: AttachmentExportDTO = {
+        id: attachment.id,
+        spaceId: attachment.spaceId,
+        mimeType: attachment.mimeType,
+        creationDate: attachment.creationDate,
+        dataUri: await blobToDataUri(attachment.blob),
+      };
+      bundle.attachments.push(exported);
+    }
+
+    return bundle;
+  }
+}
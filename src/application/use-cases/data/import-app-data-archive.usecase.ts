@@ -0,0 +1,17 @@
+// src/application/use-cases/data/import-app-data-archive.usecase.ts
+import type { IUnitOfWork } from '@/application/ports/repositories/iunit-of-work';
+import { readAppDataArchive } from './app-data-archive';
+import { toReplaceAllOperations } from './app-data-records';
+
+/**
+ * Replaces all data with the contents of an archive export. Every checksum and record
+ * is checked before anything is written, and the replacement is a single unit of work.
+ */
+export class ImportAppDataArchiveUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(file: Blob): Promise<void> {
+    const records = await readAppDataArchive(file);
+    await this.unitOfWork.execute(toReplaceAllOperations(records));
+  }
+}
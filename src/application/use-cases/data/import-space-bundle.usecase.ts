@@ -0,0 +1,172 @@
+// src/application/use-cases/data/import-space-bundle.usecase.ts
+import type { SpaceBundleExportDTO } from '@/application/dto/app-data-export.dto';
+import { spaceBundleExportSchema } from '@/application/dto/app-data-export.schema';
+import type { ISpaceRepository } from '@/application/ports/repositories/ispace.repository';
+import type { IActionDefinitionRepository } from '@/application/ports/repositories/iaction-definition.repository';
+import type { IActionLogRepository } from '@/application/ports/repositories/iaction-log.repository';
+import type { IProblemRepository } from '@/application/ports/repositories/iproblem.repository';
+import type { ITodoRepository } from '@/application/ports/repositories/itodo.repository';
+import type { IClockEventRepository } from '@/application/ports/repositories/iclock-event.repository';
+import type { IDataEntryLogRepository } from '@/application/ports/repositories/idata-entry-log.repository';
+import type { IAttachmentRepository } from '@/application/ports/repositories/iattachment.repository';
+import type { IUnitOfWork, UnitOfWorkOperation } from '@/application/ports/repositories/iunit-of-work';
+import { DB_VERSION, STORE_DAILY_ROLLUPS } from '@/lib/constants';
+import { computeDailyRollupsForAllSpaces } from '@/lib/daily-rollups';
+import { migrateAppDataExport, type RawAppDataExport } from './app-data-export-migrations';
+import { InvalidAppDataExportError, toAppDataExportIssue } from './parse-app-data-export.usecase';
+import { fromAttachmentExport, toPutOperations, type AppDataRecords } from './app-data-records';
+
+export function isSpaceBundleExport(value: unknown): value is SpaceBundleExportDTO {
+  return typeof value === 'object' && value !== null && (value as { format?: unknown }).format === 'okapi-space-bundle';
+}
+
+export interface ImportSpaceBundleInputDTO {
+  targetDate?: string; // YYYY-MM-DD the imported spaces are moved to; they keep their own dates when absent
+}
+
+export interface ImportSpaceBundleResultDTO {
+  spaceIds: string[]; // Ids the spaces were stored under
+  remappedIdCount: number; // Records given a new id because theirs was already taken
+}
+
+type IdCollection = 'spaces' | 'actionDefinitions' | 'actionLogs' | 'problems' | 'todos' | 'clockEvents' | 'dataEntries' | 'attachments';
+
+/**
+ * Adds the spaces of a bundle alongside the current data. A record whose id is already
+ * taken, in the trash included, gets a new id and every reference to it follows, so
+ * importing the same bundle twice yields two copies instead of overwriting the first.
+ */
+export class ImportSpaceBundleUseCase {
+  constructor(
+    private readonly spaceRepository: ISpaceRepository,
+    private readonly actionDefinitionRepository: IActionDefinitionRepository,
+    private readonly actionLogRepository: IActionLogRepository,
+    private readonly problemRepository: IProblemRepository,
+    private readonly todoRepository: ITodoRepository,
+    private readonly clockEventRepository: IClockEventRepository,
+    private readonly dataEntryLogRepository: IDataEntryLogRepository,
+    private readonly attachmentRepository: IAttachmentRepository,
+    private readonly unitOfWork: IUnitOfWork
+  ) {}
+
+  private parse(file: unknown): SpaceBundleExportDTO {
+    if (!isSpaceBundleExport(file)) {
+      throw new InvalidAppDataExportError([{ path: 'format', message: 'Expected a space bundle file' }]);
+    }
+    // Bundles hold the same records as full exports, so older ones are upgraded the same way
+    const migrated = migrateAppDataExport(file as unknown as RawAppDataExport, DB_VERSION);
+    const result = spaceBundleExportSchema.safeParse(migrated);
+    if (!result.success) {
+      throw new InvalidAppDataExportError(result.error.issues.map(issue => toAppDataExportIssue(migrated, issue)));
+    }
+    return result.data;
+  }
+
+  private async loadTakenIds(): Promise<Record<IdCollection, Set<string>>> {
+    const idsWithTrash = async (repository: { getAll(): Promise<{ id: string }[]>; findDeleted(): Promise<{ id: string }[]> }) =>
+      new Set([...await repository.getAll(), ...await repository.findDeleted()].map(record => record.id));
+    return {
+      spaces: await idsWithTrash(this.spaceRepository),
+      actionDefinitions: await idsWithTrash(this.actionDefinitionRepository),
+      actionLogs: await idsWithTrash(this.actionLogRepository),
+      problems: await idsWithTrash(this.problemRepository),
+      todos: await idsWithTrash(this.todoRepository),
+      clockEvents: await idsWithTrash(this.clockEventRepository),
+      dataEntries: await idsWithTrash(this.dataEntryLogRepository),
+      attachments: new Set(await this.attachmentRepository.getAllIds()),
+    };
+  }
+
+  async execute(file: unknown, input: ImportSpaceBundleInputDTO = {}): Promise<ImportSpaceBundleResultDTO> {
+    if (input.targetDate !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(input.targetDate)) {
+      throw new Error(`Invalid target date: ${input.targetDate}. Expected YYYY-MM-DD.`);
+    }
+    const bundle = this.parse(file);
+    const takenIds = await this.loadTakenIds();
+
+    let remappedIdCount = 0;
+    const newIds = new Map<string, string>(); // `${collection}:${oldId}` to the id stored
+    const assignId = (collection: IdCollection, id: string): string => {
+      let newId = id;
+      if (takenIds[collection].has(id)) {
+        newId = self.crypto.randomUUID();
+        remappedIdCount++;
+      }
+      takenIds[collection].add(newId);
+      newIds.set(`${collection}:${id}`, newId);
+      return newId;
+    };
+    // References to records outside the bundle are kept as they are
+    const idFor = (collection: IdCollection, id: string): string => newIds.get(`${collection}:${id}`) ?? id;
+    const optionalIdFor = (collection: IdCollection, id: string | undefined): string | undefined => id && idFor(collection, id);
+
+    // Ids are assigned before any reference to them is rewritten
+    const spaces = bundle.spaces.map(space => ({
+      ...space,
+      id: assignId('spaces', space.id),
+      date: input.targetDate ?? space.date,
+    }));
+    const actionDefinitions = bundle.actionDefinitions.map(definition => ({
+      ...definition,
+      id: assignId('actionDefinitions', definition.id),
+      spaceId: idFor('spaces', definition.spaceId),
+    }));
+    const attachments = bundle.attachments.map(attachment => ({
+      ...attachment,
+      id: assignId('attachments', attachment.id),
+      spaceId: idFor('spaces', attachment.spaceId),
+    }));
+    const actionLogs = bundle.actionLogs.map(log => ({
+      ...log,
+      id: assignId('actionLogs', log.id),
+      spaceId: idFor('spaces', log.spaceId),
+      actionDefinitionId: idFor('actionDefinitions', log.actionDefinitionId),
+    }));
+    const dataEntries = bundle.dataEntries.map(entry => ({
+      ...entry,
+      id: assignId('dataEntries', entry.id),
+      spaceId: idFor('spaces', entry.spaceId),
+      actionDefinitionId: idFor('actionDefinitions', entry.actionDefinitionId),
+    }));
+    const problems = bundle.problems.map(problem => ({
+      ...problem,
+      id: assignId('problems', problem.id),
+      spaceId: idFor('spaces', problem.spaceId),
+      imageAttachmentId: optionalIdFor('attachments', problem.imageAttachmentId),
+    }));
+    const todos = bundle.todos.map(todo => ({
+      ...todo,
+      id: assignId('todos', todo.id),
+      spaceId: idFor('spaces', todo.spaceId),
+      beforeImageAttachmentId: optionalIdFor('attachments', todo.beforeImageAttachmentId),
+      afterImageAttachmentId: optionalIdFor('attachments', todo.afterImageAttachmentId),
+    }));
+    const clockEvents = bundle.clockEvents.map(event => ({
+      ...event,
+      id: assignId('clockEvents', event.id),
+      spaceId: idFor('spaces', event.spaceId),
+    }));
+
+    const records: AppDataRecords = {
+      spaces,
+      actionDefinitions,
+      actionLogs,
+      problems,
+      todos,
+      userProgress: [], // Bundles carry no progress; the current progress stays as it is
+      clockEvents,
+      dataEntries,
+      attachments: attachments.map(fromAttachmentExport),
+      recordHistory: [],
+    };
+
+    // The spaces are new here, so their rollups come from the bundled logs alone
+    const operations: UnitOfWorkOperation[] = toPutOperations(records);
+    const isLive = (record: { deletedAt?: string }) => !record.deletedAt;
+    computeDailyRollupsForAllSpaces(actionLogs.filter(isLive), dataEntries.filter(isLive), clockEvents.filter(isLive))
+      .forEach(record => operations.push({ type: 'put', storeName: STORE_DAILY_ROLLUPS, record }));
+    await this.unitOfWork.execute(operations);
+
+    return { spaceIds: spaces.map(space => space.id), remappedIdCount };
+  }
+}
@@ -0,0 +1,191 @@
+// src/application/use-cases/data/merge-app-data.usecase.ts
+import type { AppDataExportDTO } from '@/application/dto/app-data-export.dto';
+import type { IAttachmentRepository } from '@/application/ports/repositories/iattachment.repository';
+import type { IRecordScanner } from '@/application/ports/repositories/irecord-scanner';
+import type { IUnitOfWork, UnitOfWorkOperation } from '@/application/ports/repositories/iunit-of-work';
+import type { AttachmentMetadata } from '@/domain/entities';
+import { STORE_ACTION_LOGS, STORE_CLOCK_EVENTS, STORE_DAILY_ROLLUPS, STORE_DATA_ENTRIES } from '@/lib/constants';
+import { computeDailyRollups } from '@/lib/daily-rollups';
+import { isEqual } from '@/lib/record-diff';
+import { APP_DATA_RECORD_TYPES, scanRecords, toAppDataRecords, toPutOperations, type AppDataRecords, type AppDataRecordType } from './app-data-records';
+
+/**
+ * How a record that exists on both sides with different contents is resolved:
+ * - `newest-wins`: the imported record replaces the current one only when it is newer
+ * - `keep-existing`: the current record is always kept
+ * - `prefer-imported`: the imported record always replaces the current one
+ */
+export type MergeConflictPolicy = 'newest-wins' | 'keep-existing' | 'prefer-imported';
+
+export type MergeConflictPolicies = Partial<Record<AppDataRecordType, MergeConflictPolicy>>;
+
+export interface MergeAppDataInputDTO {
+  policies?: MergeConflictPolicies; // Types without a policy use 'newest-wins'
+  dryRun?: boolean; // Only count what would change; nothing is written
+}
+
+/**
+ * How the imported records of one type compare with the current ones. `updated` records are
+ * newer than the current version; `conflicting` ones differ without being newer, either because
+ * the current version is as new or newer, or because the type records no modification time.
+ */
+export interface MergeRecordCountsDTO {
+  new: number;
+  updated: number;
+  conflicting: number;
+  unchanged: number;
+  written: number; // New records plus the updated and conflicting ones the policy lets replace the current version
+}
+
+export interface AppDataMergeResultDTO {
+  counts: Record<AppDataRecordType, MergeRecordCountsDTO>;
+  applied: boolean; // False for a dry run
+}
+
+type MergeOutcome = 'new' | 'updated' | 'conflicting' | 'unchanged';
+
+type AnyRecord = AppDataRecords[AppDataRecordType][number];
+
+// Current attachments are read without their blobs
+type ExistingRecord = AnyRecord | AttachmentMetadata;
+
+type ExistingRecords = Record<AppDataRecordType, Map<string, ExistingRecord>>;
+
+const RECORD_PAGE_SIZE = 250;
+
+const LOG_RECORD_TYPES = ['actionLogs', 'dataEntries', 'clockEvents'] as const;
+
+const isLive = (record: { deletedAt?: string }) => !record.deletedAt;
+
+// The field that tells which of two versions is newer; types without one cannot be ordered
+const VERSION_FIELDS: Partial<Record<AppDataRecordType, 'timestamp' | 'lastModifiedDate'>> = {
+  actionLogs: 'timestamp',
+  problems: 'lastModifiedDate',
+  todos: 'lastModifiedDate',
+  clockEvents: 'timestamp',
+  dataEntries: 'timestamp',
+  recordHistory: 'timestamp',
+};
+
+const keyOf = (recordType: AppDataRecordType, record: AnyRecord): string =>
+  recordType === 'userProgress' ? (record as AppDataRecords['userProgress'][number]).userId : (record as { id: string }).id;
+
+// Attachments are never edited, so their metadata stands in for comparing the blobs
+function comparableValue(recordType: AppDataRecordType, record: ExistingRecord): unknown {
+  if (recordType !== 'attachments') return record;
+  const { blob, ...metadata } = record as AppDataRecords['attachments'][number];
+  return metadata;
+}
+
+function classify(recordType: AppDataRecordType, existing: ExistingRecord | undefined, incoming: AnyRecord): MergeOutcome {
+  if (!existing) return 'new';
+  if (isEqual(comparableValue(recordType, existing), comparableValue(recordType, incoming))) return 'unchanged';
+  const versionField = VERSION_FIELDS[recordType];
+  if (!versionField) return 'conflicting';
+  const versionOf = (record: ExistingRecord) => (record as Partial<Record<typeof versionField, string>>)[versionField] ?? '';
+  return versionOf(incoming) > versionOf(existing) ? 'updated' : 'conflicting';
+}
+
+function takesIncoming(outcome: MergeOutcome, policy: MergeConflictPolicy): boolean {
+  switch (outcome) {
+    case 'new':
+      return true;
+    case 'unchanged':
+      return false;
+    case 'updated':
+      return policy !== 'keep-existing';
+    case 'conflicting':
+      return policy === 'prefer-imported';
+  }
+}
+
+/**
+ * Brings an export in alongside the current data instead of replacing it. Records are
+ * matched by id; the policies decide which version wins when both sides changed. Run with
+ * `dryRun` first to preview the counts, since the merge itself is not reversible.
+ */
+export class MergeAppDataUseCase {
+  constructor(
+    private readonly recordScanner: IRecordScanner,
+    private readonly attachmentRepository: IAttachmentRepository,
+    private readonly unitOfWork: IUnitOfWork
+  ) {}
+
+  /**
+   * The current version of every imported record, keyed like `keyOf`. Stores are read a page at a
+   * time and only the records the import also holds are kept. Trashed records are matched too,
+   * so importing a record does not duplicate its trashed copy.
+   */
+  private async loadExistingRecords(incoming: AppDataRecords): Promise<ExistingRecords> {
+    const existing = {} as ExistingRecords;
+    for (const recordType of APP_DATA_RECORD_TYPES) {
+      const incomingKeys = new Set((incoming[recordType] as AnyRecord[]).map(record => keyOf(recordType, record)));
+      const byKey = new Map<string, ExistingRecord>();
+      existing[recordType] = byKey;
+      if (incomingKeys.size === 0) continue;
+
+      if (recordType === 'attachments') {
+        for (const metadata of await this.attachmentRepository.getAllMetadata()) {
+          if (incomingKeys.has(metadata.id)) byKey.set(metadata.id, metadata);
+        }
+        continue;
+      }
+      for await (const record of scanRecords(this.recordScanner, recordType, RECORD_PAGE_SIZE)) {
+        const key = keyOf(recordType, record);
+        if (incomingKeys.has(key)) byKey.set(key, record);
+      }
+    }
+    return existing;
+  }
+
+  async execute(data: AppDataExportDTO, input: MergeAppDataInputDTO = {}): Promise<AppDataMergeResultDTO> {
+    const incoming = toAppDataRecords(data);
+    const existing = await this.loadExistingRecords(incoming);
+
+    const counts = {} as Record<AppDataRecordType, MergeRecordCountsDTO>;
+    const writes = {} as Record<AppDataRecordType, AnyRecord[]>;
+    for (const recordType of APP_DATA_RECORD_TYPES) {
+      const policy = input.policies?.[recordType] ?? 'newest-wins';
+      const typeCounts: MergeRecordCountsDTO = { new: 0, updated: 0, conflicting: 0, unchanged: 0, written: 0 };
+      writes[recordType] = [];
+
+      for (const record of incoming[recordType] as AnyRecord[]) {
+        const outcome = classify(recordType, existing[recordType].get(keyOf(recordType, record)), record);
+        typeCounts[outcome]++;
+        if (takesIncoming(outcome, policy)) {
+          writes[recordType].push(record);
+          typeCounts.written++;
+        }
+      }
+      counts[recordType] = typeCounts;
+    }
+
+    if (input.dryRun) return { counts, applied: false };
+
+    const operations: UnitOfWorkOperation[] = toPutOperations(writes as AppDataRecords);
+
+    // Only spaces whose logs were written have their rollups recomputed. Imported clock events
+    // may predate the ones already counted, which an incremental update cannot take, so each
+    // space is recomputed from its logs as they stand inside the transaction, after the puts.
+    const spaceIds = new Set<string>();
+    for (const recordType of LOG_RECORD_TYPES) {
+      for (const record of writes[recordType] as AppDataRecords[typeof recordType]) {
+        spaceIds.add(record.spaceId);
+        const previous = existing[recordType].get(record.id) as AppDataRecords[typeof recordType][number] | undefined;
+        if (previous) spaceIds.add(previous.spaceId);
+      }
+    }
+    const updatedAt = new Date().toISOString();
+    spaceIds.forEach(spaceId => operations.push({
+      type: 'recomputeBySpaceId',
+      storeName: STORE_DAILY_ROLLUPS,
+      spaceId,
+      sourceStoreNames: [STORE_ACTION_LOGS, STORE_DATA_ENTRIES, STORE_CLOCK_EVENTS],
+      compute: ({ actionLogs = [], dataEntries = [], clockEvents = [] }) =>
+        computeDailyRollups(spaceId, actionLogs.filter(isLive), dataEntries.filter(isLive), clockEvents.filter(isLive), updatedAt),
+    }));
+
+    if (operations.length > 0) await this.unitOfWork.execute(operations);
+    return { counts, applied: true };
+  }
+}
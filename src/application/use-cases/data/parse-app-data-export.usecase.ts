@@ -0,0 +1,52 @@
+// src/application/use-cases/data/parse-app-data-export.usecase.ts
+import type { ZodIssue } from 'zod';
+import type { AppDataExportDTO } from '@/application/dto/app-data-export.dto';
+import { appDataExportSchema } from '@/application/dto/app-data-export.schema';
+import { DB_VERSION } from '@/lib/constants';
+import { migrateAppDataExport, type RawAppDataExport } from './app-data-export-migrations';
+
+/**
+ * One problem found in an export file. `path` names the value, e.g. `todos[3].status`,
+ * and `recordId` the record it belongs to when that record has an id.
+ */
+export interface AppDataExportIssue {
+  path: string;
+  recordId?: string;
+  message: string;
+}
+
+export class InvalidAppDataExportError extends Error {
+  constructor(readonly issues: AppDataExportIssue[]) {
+    super(`The import file is not valid: ${issues.length} problem${issues.length === 1 ? '' : 's'} found. Nothing was imported.`);
+    this.name = 'InvalidAppDataExportError';
+  }
+}
+
+const formatPath = (path: (string | number)[]): string =>
+  path.reduce<string>((formatted, segment) =>
+    typeof segment === 'number' ? `${formatted}[${segment}]` : formatted ? `${formatted}.${segment}` : segment, '');
+
+export function toAppDataExportIssue(data: RawAppDataExport, issue: ZodIssue): AppDataExportIssue {
+  const [collection, index] = issue.path;
+  const record = typeof index === 'number' ? data[collection]?.[index] : undefined;
+  const recordId = typeof record?.id === 'string' ? record.id : undefined;
+  return { path: formatPath(issue.path) || '(file)', recordId, message: issue.message };
+}
+
+/**
+ * Turns the parsed JSON of an export file into export data that is safe to import:
+ * files from older versions are upgraded first, then every record is validated.
+ */
+export class ParseAppDataExportUseCase {
+  async execute(file: unknown): Promise<AppDataExportDTO> {
+    if (typeof file !== 'object' || file === null || Array.isArray(file)) {
+      throw new InvalidAppDataExportError([{ path: '(file)', message: 'Expected an exported data object' }]);
+    }
+    const migrated = migrateAppDataExport(file as RawAppDataExport, DB_VERSION);
+    const result = appDataExportSchema.safeParse(migrated);
+    if (!result.success) {
+      throw new InvalidAppDataExportError(result.error.issues.map(issue => toAppDataExportIssue(migrated, issue)));
+    }
+    return result.data;
+  }
+}
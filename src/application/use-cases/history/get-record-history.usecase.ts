@@ -0,0 +1,12 @@
+// src/application/use-cases/history/get-record-history.usecase.ts
+import type { RecordHistoryEntry, HistoryRecordType } from '@/domain/entities';
+import type { IRecordHistoryRepository } from '@/application/ports/repositories';
+
+export class GetRecordHistoryUseCase {
+  constructor(private readonly recordHistoryRepository: IRecordHistoryRepository) {}
+
+  // Most recent change first
+  async execute(recordType: HistoryRecordType, recordId: string): Promise<RecordHistoryEntry[]> {
+    return this.recordHistoryRepository.findByRecord(recordType, recordId);
+  }
+}
@@ -5,10 +5,30 @@ export { CreateActionDefinitionUseCase, type CreateActionDefinitionInputDTO } fr
 export { DeleteActionDefinitionUseCase } from './action-definition/delete-action-definition.usecase';
 export { GetActionDefinitionsBySpaceUseCase } from './action-definition/get-action-definitions-by-space.usecase';
 export { UpdateActionDefinitionUseCase, type UpdateActionDefinitionInputDTO } from './action-definition/update-action-definition.usecase';
+export { ExportActionTemplatesUseCase } from './action-definition/export-action-templates.usecase';
+export { ImportActionTemplatesUseCase, InvalidActionTemplateFileError, type ImportActionTemplatesInputDTO } from './action-definition/import-action-templates.usecase';
+export { createActionTemplateFile, isActionTemplateFile, toActionTemplate } from './action-definition/action-templates';
+export { ACTION_TEMPLATE_GALLERY, type ActionTemplateGalleryItem } from './action-definition/action-template-gallery';
 
 // Action Log Use Cases
 export { GetActionLogsBySpaceUseCase } from './action-log/get-action-logs-by-space.usecase';
 export { LogActionUseCase, type LogActionInputDTO, type LogActionResult } from './action-log/log-action.usecase';
+export { UndoActionLogUseCase, type UndoActionLogResult } from './action-log/undo-action-log.usecase';
+
+// Attachment Use Cases
+export { GetAttachmentUseCase } from './attachment/get-attachment.usecase';
+export { DeleteUnreferencedAttachmentsUseCase } from './attachment/delete-unreferenced-attachments.usecase';
+
+// Backup Use Cases
+export { CreateBackupSnapshotUseCase, type CreateBackupSnapshotInputDTO } from './backup/create-backup-snapshot.usecase';
+export { DeleteBackupSnapshotUseCase } from './backup/delete-backup-snapshot.usecase';
+export { DeleteOldBackupSnapshotsUseCase } from './backup/delete-old-backup-snapshots.usecase';
+export { GetBackupSnapshotsUseCase } from './backup/get-backup-snapshots.usecase';
+export { RestoreBackupSnapshotUseCase } from './backup/restore-backup-snapshot.usecase';
+export { selectBackupsToKeep, type BackupRetentionPolicy } from './backup/backup-rotation';
+
+// Calendar Use Cases
+export { ExportTimeCalendarUseCase, type ExportTimeCalendarInputDTO, type TimeCalendarExportFileDTO } from './calendar/export-time-calendar.usecase';
 
 // Clock Event Use Cases
 export { GetAllClockEventsUseCase } from './clock-event/get-all-clock-events.usecase';
@@ -18,20 +38,43 @@ export { SaveClockEventUseCase, type SaveClockEventInputDTO } from './clock-even
 
 // Data Use Cases
 export { ClearAllDataUseCase } from './data/clear-all-data.usecase';
+export { DecryptAppDataExportUseCase, isEncryptedAppDataExport } from './data/decrypt-app-data-export.usecase';
+export { EncryptAppDataExportUseCase } from './data/encrypt-app-data-export.usecase';
 export { ExportAppDataUseCase } from './data/export-app-data.usecase';
+export { ExportSpaceBundleUseCase } from './data/export-space-bundle.usecase';
 export { ImportAppDataUseCase } from './data/import-app-data.usecase';
+export { ExportAppDataArchiveUseCase } from './data/export-app-data-archive.usecase';
+export { ImportAppDataArchiveUseCase } from './data/import-app-data-archive.usecase';
+export { ImportSpaceBundleUseCase, isSpaceBundleExport, type ImportSpaceBundleInputDTO, type ImportSpaceBundleResultDTO } from './data/import-space-bundle.usecase';
+export { ParseAppDataExportUseCase, InvalidAppDataExportError, type AppDataExportIssue } from './data/parse-app-data-export.usecase';
+export { MergeAppDataUseCase, type MergeConflictPolicy, type MergeConflictPolicies, type MergeAppDataInputDTO, type MergeRecordCountsDTO, type AppDataMergeResultDTO } from './data/merge-app-data.usecase';
+export { APP_DATA_RECORD_TYPES, type AppDataRecordType } from './data/app-data-records';
+export { APP_DATA_ARCHIVE_MANIFEST_PATH } from './data/app-data-archive';
+export { APP_DATA_EXPORT_MIGRATIONS, migrateAppDataExport, type AppDataExportMigration } from './data/app-data-export-migrations';
 
 // Data Entry Use Cases
+export { ExportDataEntriesUseCase, type ExportDataEntriesInputDTO, type DataEntryExportFileDTO } from './data-entry/export-data-entries.usecase';
 export { GetDataEntriesBySpaceUseCase } from './data-entry/get-data-entries-by-space.usecase';
+export { ImportDataEntriesUseCase, matchColumnsToFields, type ImportDataEntriesInputDTO, type ImportDataEntriesResultDTO, type DataEntryImportRowErrorDTO } from './data-entry/import-data-entries.usecase';
 export { LogDataEntryUseCase, type LogDataEntryInputDTO, type LogDataEntryResult } from './data-entry/log-data-entry.usecase';
+export { UndoDataEntryUseCase } from './data-entry/undo-data-entry.usecase';
 export { UpdateDataEntryUseCase, type UpdateDataEntryInputDTO } from './data-entry/update-data-entry.usecase';
 
+// History Use Cases
+export { GetRecordHistoryUseCase } from './history/get-record-history.usecase';
+
 // Problem Use Cases
 export { CreateProblemUseCase, type CreateProblemInputDTO } from './problem/create-problem.usecase';
 export { DeleteProblemUseCase } from './problem/delete-problem.usecase';
 export { GetProblemsBySpaceUseCase } from './problem/get-problems-by-space.usecase';
 export { UpdateProblemUseCase, type UpdateProblemInputDTO } from './problem/update-problem.usecase';
 
+// Security Use Cases
+export { ChangeDatabasePassphraseUseCase, type ChangeDatabasePassphraseInputDTO } from './security/change-database-passphrase.usecase';
+export { DisableDatabaseEncryptionUseCase } from './security/disable-database-encryption.usecase';
+export { EnableDatabaseEncryptionUseCase, type EnableDatabaseEncryptionInputDTO } from './security/enable-database-encryption.usecase';
+export { UnlockDatabaseUseCase } from './security/unlock-database.usecase';
+
 // Space Use Cases
 export { CreateSpaceUseCase, type CreateSpaceInputDTO } from './space/create-space.usecase';
 export { DeleteSpaceUseCase } from './space/delete-space.usecase';
@@ -41,10 +84,22 @@ export { UpdateSpaceUseCase, type UpdateSpaceInputDTO as UpdateSpaceUseCaseInput
 export { DuplicateSpaceUseCase, type DuplicateSpaceInputDTO } from './space/duplicate-space.usecase';
 
 // Stats Use Cases
+export { GetAllDailyRollupsUseCase } from './stats/get-all-daily-rollups.usecase';
+export { GetDailyRollupsBySpaceUseCase } from './stats/get-daily-rollups-by-space.usecase';
 export { GetSpaceStatsUseCase, type SpaceStatsDTO } from './stats/get-space-stats.usecase';
+export { RebuildDailyRollupsUseCase, type RebuildDailyRollupsInputDTO } from './stats/rebuild-daily-rollups.usecase';
+
+// Storage Use Cases
+export { GetStorageUsageUseCase, type StorageUsageDTO, type StoreUsageDTO, type SpaceUsageDTO } from './storage/get-storage-usage.usecase';
+export { DeleteOldImagesUseCase } from './storage/delete-old-images.usecase';
+export { PrunePastSpaceLogsUseCase } from './storage/prune-past-space-logs.usecase';
 
 // Timeline Use Cases
-export { GetTimelineItemsBySpaceUseCase } from './timeline/get-timeline-items-by-space.usecase';
+export { GetTimelineItemsBySpaceUseCase, type GetTimelineItemsInputDTO, type TimelinePageDTO } from './timeline/get-timeline-items-by-space.usecase';
+
+// Timesheet Use Cases
+export { ExportTimesheetUseCase, type ExportTimesheetInputDTO, type TimesheetExportFileDTO } from './timesheet/export-timesheet.usecase';
+export { TIMESHEET_ROUNDING_MINUTES, type TimesheetOptions } from './timesheet/timesheet';
 
 // To-Do Use Cases
 export { CreateTodoUseCase, type CreateTodoInputDTO } from './todo/create-todo.usecase';
@@ -52,5 +107,10 @@ export { DeleteTodoUseCase } from './todo/delete-todo.usecase';
 export { GetTodosBySpaceUseCase } from './todo/get-todos-by-space.usecase';
 export { UpdateTodoUseCase, type UpdateTodoInputDTO } from './todo/update-todo.usecase';
 
+// Trash Use Cases
+export { GetTrashUseCase, type TrashItemDTO, type TrashItemKind } from './trash/get-trash.usecase';
+export { RestoreFromTrashUseCase } from './trash/restore-from-trash.usecase';
+export { PurgeTrashUseCase } from './trash/purge-trash.usecase';
+
 // User Progress Use Cases
 export { GetUserProgressUseCase } from './user-progress/get-user-progress.usecase';
@@ -1,17 +1,18 @@
 
 // src/application/use-cases/problem/create-problem.usecase.ts
-import type { Problem } from '@/domain/entities';
-import type { IProblemRepository } from '@/application/ports/repositories';
+import type { Attachment, Problem } from '@/domain/entities';
+import type { IUnitOfWork, UnitOfWorkOperation } from '@/application/ports/repositories';
+import { STORE_ATTACHMENTS, STORE_PROBLEMS } from '@/lib/constants';
 
 export interface CreateProblemInputDTO {
   spaceId: string;
   type: 'Waste' | 'Blocker' | 'Issue';
   description: string;
-  imageDataUri?: string;
+  image?: Blob;
 }
 
 export class CreateProblemUseCase {
-  constructor(private readonly problemRepository: IProblemRepository) {}
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
 
   async execute(data: CreateProblemInputDTO): Promise<Problem> {
     if (!data.description.trim()) {
@@ -19,6 +20,15 @@ export class CreateProblemUseCase {
     }
 
     const now = new Date().toISOString();
+    const attachment: Attachment | undefined = data.image && {
+      id: self.crypto.randomUUID(),
+      spaceId: data.spaceId,
+      blob: data.image,
+      mimeType: data.image.type,
+      size: data.image.size,
+      creationDate: now,
+    };
+
     const newProblem: Problem = {
       id: self.crypto.randomUUID(),
       spaceId: data.spaceId,
@@ -27,9 +37,14 @@ export class CreateProblemUseCase {
       timestamp: now,
       lastModifiedDate: now,
       resolved: false,
-      imageDataUri: data.imageDataUri,
+      imageAttachmentId: attachment?.id,
     };
 
-    return this.problemRepository.save(newProblem);
+    // The image is written with the problem, so neither is stored without the other
+    const operations: UnitOfWorkOperation[] = [];
+    if (attachment) operations.push({ type: 'put', storeName: STORE_ATTACHMENTS, record: attachment });
+    operations.push({ type: 'put', storeName: STORE_PROBLEMS, record: newProblem });
+    await this.unitOfWork.execute(operations);
+    return newProblem;
   }
 }
@@ -1,6 +1,9 @@
 // src/application/use-cases/problem/delete-problem.usecase.ts
 import type { IProblemRepository } from '@/application/ports/repositories/iproblem.repository';
 
+/**
+ * Moves a problem to the trash. Its image is kept until the trash is purged.
+ */
 export class DeleteProblemUseCase {
   constructor(private readonly problemRepository: IProblemRepository) {}
 
@@ -9,6 +12,6 @@ export class DeleteProblemUseCase {
     if (!existingProblem) {
       throw new Error('Problem not found for deletion.');
     }
-    return this.problemRepository.delete(id);
+    await this.problemRepository.save({ ...existingProblem, deletedAt: new Date().toISOString() });
   }
 }
@@ -1,7 +1,10 @@
 
 // src/application/use-cases/problem/update-problem.usecase.ts
-import type { Problem } from '@/domain/entities';
-import type { IProblemRepository } from '@/application/ports/repositories';
+import type { Attachment, Problem } from '@/domain/entities';
+import type { IProblemRepository, IUnitOfWork, UnitOfWorkOperation } from '@/application/ports/repositories';
+import { STORE_ATTACHMENTS, STORE_PROBLEMS, STORE_RECORD_HISTORY } from '@/lib/constants';
+import type { IDomainEventPublisher } from '@/application/events';
+import { createRecordHistoryEntry } from '@/lib/record-diff';
 
 export interface UpdateProblemInputDTO {
   id: string;
@@ -9,11 +12,16 @@ export interface UpdateProblemInputDTO {
   type?: 'Waste' | 'Blocker' | 'Issue';
   resolved?: boolean;
   resolutionNotes?: string;
-  imageDataUri?: string | null; 
+  image?: Blob | null; // A new image replaces the current one, null removes it
+  reason?: string; // Kept with the change in the record history
 }
 
 export class UpdateProblemUseCase {
-  constructor(private readonly problemRepository: IProblemRepository) {}
+  constructor(
+    private readonly problemRepository: IProblemRepository,
+    private readonly unitOfWork: IUnitOfWork,
+    private readonly eventPublisher: IDomainEventPublisher
+  ) {}
 
   async execute(data: UpdateProblemInputDTO): Promise<Problem> {
     const existingProblem = await this.problemRepository.findById(data.id);
@@ -22,6 +30,7 @@ export class UpdateProblemUseCase {
     }
 
     const updatedProblem: Problem = { ...existingProblem };
+    let newImage: Attachment | undefined;
 
     if (data.description !== undefined) {
       if (!data.description.trim()) {
@@ -38,12 +47,38 @@ export class UpdateProblemUseCase {
     if (data.resolutionNotes !== undefined) {
       updatedProblem.resolutionNotes = data.resolutionNotes.trim() || undefined;
     }
-    if (data.imageDataUri !== undefined) {
-      updatedProblem.imageDataUri = data.imageDataUri === null ? undefined : data.imageDataUri;
+    if (data.image !== undefined) {
+      newImage = data.image ? {
+        id: self.crypto.randomUUID(),
+        spaceId: existingProblem.spaceId,
+        blob: data.image,
+        mimeType: data.image.type,
+        size: data.image.size,
+        creationDate: new Date().toISOString(),
+      } : undefined;
+      updatedProblem.imageAttachmentId = newImage?.id;
     }
     
     updatedProblem.lastModifiedDate = new Date().toISOString();
 
-    return this.problemRepository.save(updatedProblem);
+    const historyEntry = createRecordHistoryEntry('problem', existingProblem, updatedProblem, data.reason, ['lastModifiedDate']);
+    const operations: UnitOfWorkOperation[] = [];
+    if (newImage) operations.push({ type: 'put', storeName: STORE_ATTACHMENTS, record: newImage });
+    operations.push({ type: 'put', storeName: STORE_PROBLEMS, record: updatedProblem });
+    if (historyEntry) operations.push({ type: 'put', storeName: STORE_RECORD_HISTORY, record: historyEntry });
+    // The replaced image goes in the same transaction that stops the problem pointing at it
+    if (existingProblem.imageAttachmentId && existingProblem.imageAttachmentId !== updatedProblem.imageAttachmentId) {
+      operations.push({ type: 'delete', storeName: STORE_ATTACHMENTS, key: existingProblem.imageAttachmentId });
+    }
+    await this.unitOfWork.execute(operations);
+    if (updatedProblem.resolved && !existingProblem.resolved) {
+      this.eventPublisher.publish({
+        type: 'ProblemResolved',
+        occurredAt: updatedProblem.lastModifiedDate,
+        spaceId: updatedProblem.spaceId,
+        problem: updatedProblem,
+      });
+    }
+    return updatedProblem;
   }
 }
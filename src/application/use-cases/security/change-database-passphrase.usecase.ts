@@ -0,0 +1,25 @@
+// src/application/use-cases/security/change-database-passphrase.usecase.ts
+import type { IDatabaseEncryption } from '@/application/ports/repositories';
+import { validateNewPassphrase } from '@/lib/passphrase-crypto';
+
+export interface ChangeDatabasePassphraseInputDTO {
+  currentPassphrase: string;
+  newPassphrase: string;
+  confirmation: string;
+}
+
+export class ChangeDatabasePassphraseUseCase {
+  constructor(private readonly databaseEncryption: IDatabaseEncryption) {}
+
+  async execute(data: ChangeDatabasePassphraseInputDTO): Promise<void> {
+    if (!data.currentPassphrase) {
+      throw new Error('Enter your current passphrase.');
+    }
+    validateNewPassphrase(data.newPassphrase, data.confirmation);
+    if (data.newPassphrase === data.currentPassphrase) {
+      throw new Error('The new passphrase must differ from the current one.');
+    }
+    // The key is derived from the passphrase, so every record is re-encrypted with the new one
+    await this.databaseEncryption.changePassphrase(data.currentPassphrase, data.newPassphrase);
+  }
+}
@@ -0,0 +1,14 @@
+// src/application/use-cases/security/disable-database-encryption.usecase.ts
+import type { IDatabaseEncryption } from '@/application/ports/repositories';
+
+export class DisableDatabaseEncryptionUseCase {
+  constructor(private readonly databaseEncryption: IDatabaseEncryption) {}
+
+  // Decrypts every record and stores it in plaintext again
+  async execute(currentPassphrase: string): Promise<void> {
+    if (!currentPassphrase) {
+      throw new Error('Enter your current passphrase.');
+    }
+    await this.databaseEncryption.disable(currentPassphrase);
+  }
+}
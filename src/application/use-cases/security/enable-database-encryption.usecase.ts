@@ -0,0 +1,18 @@
+// src/application/use-cases/security/enable-database-encryption.usecase.ts
+import type { IDatabaseEncryption } from '@/application/ports/repositories';
+import { validateNewPassphrase } from '@/lib/passphrase-crypto';
+
+export interface EnableDatabaseEncryptionInputDTO {
+  passphrase: string;
+  confirmation: string;
+}
+
+export class EnableDatabaseEncryptionUseCase {
+  constructor(private readonly databaseEncryption: IDatabaseEncryption) {}
+
+  // Encrypts every existing record; the database stays unlocked afterwards
+  async execute(data: EnableDatabaseEncryptionInputDTO): Promise<void> {
+    validateNewPassphrase(data.passphrase, data.confirmation);
+    await this.databaseEncryption.enable(data.passphrase);
+  }
+}
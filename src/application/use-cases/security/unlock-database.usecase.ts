@@ -0,0 +1,14 @@
+// src/application/use-cases/security/unlock-database.usecase.ts
+import type { IDatabaseEncryption } from '@/application/ports/repositories';
+
+export class UnlockDatabaseUseCase {
+  constructor(private readonly databaseEncryption: IDatabaseEncryption) {}
+
+  // Resolves to false when the passphrase is wrong
+  async execute(passphrase: string): Promise<boolean> {
+    if (!passphrase) {
+      throw new Error('Enter your passphrase.');
+    }
+    return this.databaseEncryption.unlock(passphrase);
+  }
+}
@@ -1,21 +1,33 @@
 // src/application/use-cases/space/delete-space.usecase.ts
-import type { ISpaceRepository } from '@/application/ports/repositories/ispace.repository';
-import type { IActionDefinitionRepository } from '@/application/ports/repositories/iaction-definition.repository';
-import type { IActionLogRepository } from '@/application/ports/repositories/iaction-log.repository';
-import type { ITodoRepository } from '@/application/ports/repositories/itodo.repository';
-import type { IProblemRepository } from '@/application/ports/repositories/iproblem.repository';
-import type { IClockEventRepository } from '@/application/ports/repositories/iclock-event.repository';
-import type { IDataEntryLogRepository } from '@/application/ports/repositories/idata-entry-log.repository'; // New
+import type {
+  ISpaceRepository,
+  IActionDefinitionRepository,
+  IActionLogRepository,
+  IProblemRepository,
+  ITodoRepository,
+  IClockEventRepository,
+  IDataEntryLogRepository,
+  IUnitOfWork,
+  UnitOfWorkOperation,
+} from '@/application/ports/repositories';
+import { STORE_ACTION_DEFINITIONS, STORE_ACTION_LOGS, STORE_TODOS, STORE_PROBLEMS, STORE_CLOCK_EVENTS, STORE_DATA_ENTRIES, STORE_DAILY_ROLLUPS, STORE_SPACES } from '@/lib/constants';
 
+/**
+ * Moves a space to the trash along with everything in it that is not already there.
+ * The records are stamped with the space's `deletedAt`, so restoring the space brings
+ * back exactly what was trashed with it. Attachments stay in place until the trash is purged;
+ * the space's rollups are dropped and computed again on restore.
+ */
 export class DeleteSpaceUseCase {
   constructor(
     private readonly spaceRepository: ISpaceRepository,
     private readonly actionDefinitionRepository: IActionDefinitionRepository,
     private readonly actionLogRepository: IActionLogRepository,
-    private readonly todoRepository: ITodoRepository,
     private readonly problemRepository: IProblemRepository,
+    private readonly todoRepository: ITodoRepository,
     private readonly clockEventRepository: IClockEventRepository,
-    private readonly dataEntryLogRepository: IDataEntryLogRepository // New
+    private readonly dataEntryLogRepository: IDataEntryLogRepository,
+    private readonly unitOfWork: IUnitOfWork
   ) {}
 
   async execute(spaceId: string): Promise<void> {
@@ -24,13 +36,27 @@ export class DeleteSpaceUseCase {
       throw new Error(`Space with ID ${spaceId} not found.`);
     }
 
-    await this.actionDefinitionRepository.deleteBySpaceId(spaceId);
-    await this.actionLogRepository.deleteBySpaceId(spaceId);
-    await this.todoRepository.deleteBySpaceId(spaceId);
-    await this.problemRepository.deleteBySpaceId(spaceId);
-    await this.clockEventRepository.deleteBySpaceId(spaceId);
-    await this.dataEntryLogRepository.deleteBySpaceId(spaceId); // New
-    
-    await this.spaceRepository.delete(spaceId);
+    const [actionDefinitions, actionLogs, problems, todos, clockEvents, dataEntries] = await Promise.all([
+      this.actionDefinitionRepository.findBySpaceId(spaceId),
+      this.actionLogRepository.findBySpaceId(spaceId),
+      this.problemRepository.findBySpaceId(spaceId),
+      this.todoRepository.findBySpaceId(spaceId),
+      this.clockEventRepository.findBySpaceId(spaceId),
+      this.dataEntryLogRepository.findBySpaceId(spaceId),
+    ]);
+
+    // The space and everything that belongs to it are trashed together or not at all.
+    const deletedAt = new Date().toISOString();
+    const operations: UnitOfWorkOperation[] = [
+      ...actionDefinitions.map((record): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_ACTION_DEFINITIONS, record: { ...record, deletedAt } })),
+      ...actionLogs.map((record): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_ACTION_LOGS, record: { ...record, deletedAt } })),
+      ...problems.map((record): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_PROBLEMS, record: { ...record, deletedAt } })),
+      ...todos.map((record): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_TODOS, record: { ...record, deletedAt } })),
+      ...clockEvents.map((record): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_CLOCK_EVENTS, record: { ...record, deletedAt } })),
+      ...dataEntries.map((record): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_DATA_ENTRIES, record: { ...record, deletedAt } })),
+      { type: 'deleteBySpaceId', storeName: STORE_DAILY_ROLLUPS, spaceId },
+      { type: 'put', storeName: STORE_SPACES, record: { ...space, deletedAt } },
+    ];
+    await this.unitOfWork.execute(operations);
   }
 }
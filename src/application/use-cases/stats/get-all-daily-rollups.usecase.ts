@@ -0,0 +1,11 @@
+// src/application/use-cases/stats/get-all-daily-rollups.usecase.ts
+import type { DailyRollup } from '@/domain/entities/daily-rollup.entity';
+import type { IDailyRollupRepository } from '@/application/ports/repositories/idaily-rollup.repository';
+
+export class GetAllDailyRollupsUseCase {
+  constructor(private readonly dailyRollupRepository: IDailyRollupRepository) {}
+
+  async execute(): Promise<DailyRollup[]> {
+    return this.dailyRollupRepository.getAll();
+  }
+}
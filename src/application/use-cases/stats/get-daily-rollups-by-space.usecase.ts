@@ -0,0 +1,14 @@
+// src/application/use-cases/stats/get-daily-rollups-by-space.usecase.ts
+import type { DailyRollup } from '@/domain/entities/daily-rollup.entity';
+import type { IDailyRollupRepository } from '@/application/ports/repositories/idaily-rollup.repository';
+
+export class GetDailyRollupsBySpaceUseCase {
+  constructor(private readonly dailyRollupRepository: IDailyRollupRepository) {}
+
+  async execute(spaceId: string): Promise<DailyRollup[]> {
+    if (!spaceId) {
+      return [];
+    }
+    return this.dailyRollupRepository.findBySpaceId(spaceId);
+  }
+}
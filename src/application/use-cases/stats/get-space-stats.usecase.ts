@@ -1,31 +1,22 @@
 // src/application/use-cases/stats/get-space-stats.usecase.ts
-import type { IActionLogRepository } from '@/application/ports/repositories/iaction-log.repository';
-// import type { IClockEventRepository } from '@/application/ports/repositories/iclock-event.repository'; // If clock events are space-specific
+import type { IDailyRollupRepository } from '@/application/ports/repositories/idaily-rollup.repository';
+import { summarizeDailyRollups } from '@/lib/daily-rollups';
 
 export interface SpaceStatsDTO {
   totalPointsEarned: number;
   actionsLoggedCount: number;
-  // totalTimeClockedInMs?: number; // If clock events are relevant
+  totalTimeClockedInMs: number; // Completed sessions only
 }
 
 export class GetSpaceStatsUseCase {
-  constructor(
-    private readonly actionLogRepository: IActionLogRepository
-    // private readonly clockEventRepository: IClockEventRepository // If needed
-  ) {}
+  constructor(private readonly dailyRollupRepository: IDailyRollupRepository) {}
 
   async execute(spaceId: string): Promise<SpaceStatsDTO> {
-    const actionLogs = await this.actionLogRepository.findBySpaceId(spaceId);
-
-    const totalPointsEarned = actionLogs.reduce((sum, log) => sum + log.pointsAwarded, 0);
-    const actionsLoggedCount = actionLogs.length;
-
-    // TODO: Calculate totalTimeClockedInMs if clock events become space-specific
-    // For now, this part is omitted.
-
+    const totals = summarizeDailyRollups(await this.dailyRollupRepository.findBySpaceId(spaceId));
     return {
-      totalPointsEarned,
-      actionsLoggedCount,
+      totalPointsEarned: totals.actionPoints,
+      actionsLoggedCount: totals.actionCount,
+      totalTimeClockedInMs: totals.clockedInMs,
     };
   }
 }
@@ -0,0 +1,54 @@
+// src/application/use-cases/stats/rebuild-daily-rollups.usecase.ts
+import type { ISpaceRepository, IDailyRollupRepository, IUnitOfWork, UnitOfWorkOperation } from '@/application/ports/repositories';
+import { STORE_ACTION_LOGS, STORE_CLOCK_EVENTS, STORE_DAILY_ROLLUPS, STORE_DATA_ENTRIES, STORE_UPGRADE_MARKERS } from '@/lib/constants';
+import { computeDailyRollups, DAILY_ROLLUPS_BUILT_MARKER } from '@/lib/daily-rollups';
+
+export interface RebuildDailyRollupsInputDTO {
+  onlyIfNotBuilt?: boolean; // Skip the rebuild once one has completed, as the first page load after the upgrade does
+}
+
+const isLive = (record: { deletedAt?: string }) => !record.deletedAt;
+
+/**
+ * Recomputes every daily rollup from the live action logs, data entries and clock events.
+ * The use cases that write logs keep the rollups current; this is for a database that has
+ * none yet and for repairing totals that have drifted. Each space's logs are read in the
+ * same transaction that replaces its rollups, so a log written meanwhile is never lost, and
+ * the marker that `onlyIfNotBuilt` checks is written in that transaction too.
+ * Returns the number of rollups written.
+ */
+export class RebuildDailyRollupsUseCase {
+  constructor(
+    private readonly spaceRepository: ISpaceRepository,
+    private readonly dailyRollupRepository: IDailyRollupRepository,
+    private readonly unitOfWork: IUnitOfWork
+  ) {}
+
+  async execute({ onlyIfNotBuilt = false }: RebuildDailyRollupsInputDTO = {}): Promise<number> {
+    if (onlyIfNotBuilt && await this.dailyRollupRepository.isBuilt()) {
+      return 0;
+    }
+
+    // Trashed spaces are included when they still hold rollups, which the rebuild then removes
+    const [spaces, existingRollups] = await Promise.all([this.spaceRepository.getAll(), this.dailyRollupRepository.getAll()]);
+    const spaceIds = new Set([...spaces.map(space => space.id), ...existingRollups.map(rollup => rollup.spaceId)]);
+
+    const completedAt = new Date().toISOString();
+    let rollupCount = 0;
+    await this.unitOfWork.execute([
+      ...Array.from(spaceIds, (spaceId): UnitOfWorkOperation => ({
+        type: 'recomputeBySpaceId',
+        storeName: STORE_DAILY_ROLLUPS,
+        spaceId,
+        sourceStoreNames: [STORE_ACTION_LOGS, STORE_DATA_ENTRIES, STORE_CLOCK_EVENTS],
+        compute: ({ actionLogs = [], dataEntries = [], clockEvents = [] }) => {
+          const rollups = computeDailyRollups(spaceId, actionLogs.filter(isLive), dataEntries.filter(isLive), clockEvents.filter(isLive), completedAt);
+          rollupCount += rollups.length;
+          return rollups;
+        },
+      })),
+      { type: 'put', storeName: STORE_UPGRADE_MARKERS, record: { id: DAILY_ROLLUPS_BUILT_MARKER, completedAt } },
+    ]);
+    return rollupCount;
+  }
+}
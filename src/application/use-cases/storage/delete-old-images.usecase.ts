@@ -0,0 +1,65 @@
+// src/application/use-cases/storage/delete-old-images.usecase.ts
+import { subDays } from 'date-fns';
+import type { IAttachmentRepository, IProblemRepository, ITodoRepository, IUnitOfWork, UnitOfWorkOperation } from '@/application/ports/repositories';
+import { STORE_ATTACHMENTS, STORE_PROBLEMS, STORE_TODOS } from '@/lib/constants';
+
+/**
+ * Removes images created more than `olderThanDays` days ago and clears the references
+ * to them, in one unit of work. Returns the number of images removed.
+ */
+export class DeleteOldImagesUseCase {
+  constructor(
+    private readonly attachmentRepository: IAttachmentRepository,
+    private readonly problemRepository: IProblemRepository,
+    private readonly todoRepository: ITodoRepository,
+    private readonly unitOfWork: IUnitOfWork
+  ) {}
+
+  async execute(olderThanDays: number): Promise<number> {
+    if (!Number.isFinite(olderThanDays) || olderThanDays < 0) {
+      throw new Error('Number of days must be zero or more.');
+    }
+    const cutoff = subDays(new Date(), olderThanDays).toISOString();
+
+    const attachments = await this.attachmentRepository.getAll();
+    const expiredIds = new Set(attachments.filter(a => a.creationDate < cutoff).map(a => a.id));
+    if (expiredIds.size === 0) return 0;
+
+    // Trashed items are included so that a later restore does not bring back dangling references
+    const [liveProblems, trashedProblems, liveTodos, trashedTodos] = await Promise.all([
+      this.problemRepository.getAll(),
+      this.problemRepository.findDeleted(),
+      this.todoRepository.getAll(),
+      this.todoRepository.findDeleted(),
+    ]);
+    const problems = [...liveProblems, ...trashedProblems];
+    const todos = [...liveTodos, ...trashedTodos];
+
+    // Records are put back as-is apart from the cleared reference, so lastModifiedDate is untouched
+    const operations: UnitOfWorkOperation[] = [];
+    problems.forEach(problem => {
+      if (problem.imageAttachmentId && expiredIds.has(problem.imageAttachmentId)) {
+        operations.push({ type: 'put', storeName: STORE_PROBLEMS, record: { ...problem, imageAttachmentId: undefined } });
+      }
+    });
+    todos.forEach(todo => {
+      const clearBefore = !!todo.beforeImageAttachmentId && expiredIds.has(todo.beforeImageAttachmentId);
+      const clearAfter = !!todo.afterImageAttachmentId && expiredIds.has(todo.afterImageAttachmentId);
+      if (clearBefore || clearAfter) {
+        operations.push({
+          type: 'put',
+          storeName: STORE_TODOS,
+          record: {
+            ...todo,
+            beforeImageAttachmentId: clearBefore ? undefined : todo.beforeImageAttachmentId,
+            afterImageAttachmentId: clearAfter ? undefined : todo.afterImageAttachmentId,
+          },
+        });
+      }
+    });
+    expiredIds.forEach(key => operations.push({ type: 'delete', storeName: STORE_ATTACHMENTS, key }));
+
+    await this.unitOfWork.execute(operations);
+    return expiredIds.size;
+  }
+}
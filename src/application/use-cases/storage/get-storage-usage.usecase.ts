@@ -0,0 +1,121 @@
+// src/application/use-cases/storage/get-storage-usage.usecase.ts
+import type {
+  ISpaceRepository, IActionDefinitionRepository, IActionLogRepository, IProblemRepository,
+  ITodoRepository, IClockEventRepository, IDataEntryLogRepository, IAttachmentRepository,
+  IRecordHistoryRepository, IDailyRollupRepository, IBackupSnapshotRepository,
+} from '@/application/ports/repositories';
+import {
+  STORE_SPACES, STORE_ACTION_DEFINITIONS, STORE_ACTION_LOGS, STORE_PROBLEMS, STORE_TODOS, STORE_CLOCK_EVENTS,
+  STORE_DATA_ENTRIES, STORE_ATTACHMENTS, STORE_RECORD_HISTORY, STORE_DAILY_ROLLUPS, STORE_BACKUP_ARCHIVES,
+} from '@/lib/constants';
+
+export interface StoreUsageDTO {
+  storeName: string;
+  recordCount: number;
+  bytes: number;
+}
+
+export interface SpaceUsageDTO {
+  spaceId: string;
+  spaceName: string;
+  spaceDate: string;
+  inTrash: boolean;
+  imageBytes: number;
+  logBytes: number; // Action logs, clock events, data entries and their daily rollups
+  otherBytes: number; // Definitions, problems, to-dos and record history, without images
+}
+
+export interface StorageUsageDTO {
+  stores: StoreUsageDTO[];
+  spaces: SpaceUsageDTO[];
+}
+
+// Approximate size of a record as stored: its UTF-8 encoded JSON form
+const recordBytes = (record: unknown): number => new Blob([JSON.stringify(record)]).size;
+
+export class GetStorageUsageUseCase {
+  constructor(
+    private readonly spaceRepository: ISpaceRepository,
+    private readonly actionDefinitionRepository: IActionDefinitionRepository,
+    private readonly actionLogRepository: IActionLogRepository,
+    private readonly problemRepository: IProblemRepository,
+    private readonly todoRepository: ITodoRepository,
+    private readonly clockEventRepository: IClockEventRepository,
+    private readonly dataEntryLogRepository: IDataEntryLogRepository,
+    private readonly attachmentRepository: IAttachmentRepository,
+    private readonly recordHistoryRepository: IRecordHistoryRepository,
+    private readonly dailyRollupRepository: IDailyRollupRepository,
+    private readonly backupSnapshotRepository: IBackupSnapshotRepository
+  ) {}
+
+  async execute(): Promise<StorageUsageDTO> {
+    // Trashed records still take up space until they are purged, so they are counted per store
+    const withTrash = async <T>(repository: { getAll(): Promise<T[]>; findDeleted(): Promise<T[]> }) =>
+      (await Promise.all([repository.getAll(), repository.findDeleted()])).flat();
+
+    const [
+      spaces, actionDefinitions, actionLogs, problems, todos, clockEvents, dataEntries, attachments,
+      recordHistory, dailyRollups, backupSnapshots,
+    ] = await Promise.all([
+      withTrash(this.spaceRepository),
+      withTrash(this.actionDefinitionRepository),
+      withTrash(this.actionLogRepository),
+      withTrash(this.problemRepository),
+      withTrash(this.todoRepository),
+      withTrash(this.clockEventRepository),
+      withTrash(this.dataEntryLogRepository),
+      this.attachmentRepository.getAllMetadata(),
+      this.recordHistoryRepository.getAll(),
+      this.dailyRollupRepository.getAll(),
+      this.backupSnapshotRepository.getAll(),
+    ]);
+
+    const spaceUsage = new Map<string, SpaceUsageDTO>(spaces.map(space => [space.id, {
+      spaceId: space.id,
+      spaceName: space.name,
+      spaceDate: space.date,
+      inTrash: !!space.deletedAt,
+      imageBytes: 0,
+      logBytes: 0,
+      otherBytes: 0,
+    }]));
+
+    const measure = <T extends object>(
+      storeName: string,
+      records: T[],
+      sizeOf: (record: T) => number,
+      bucket?: 'imageBytes' | 'logBytes' | 'otherBytes'
+    ): StoreUsageDTO => {
+      let bytes = 0;
+      records.forEach(record => {
+        const size = sizeOf(record);
+        bytes += size;
+        const spaceId = (record as { spaceId?: string }).spaceId;
+        const usage = bucket && spaceId ? spaceUsage.get(spaceId) : undefined;
+        if (usage && bucket) usage[bucket] += size;
+      });
+      return { storeName, recordCount: records.length, bytes };
+    };
+
+    const stores: StoreUsageDTO[] = [
+      measure(STORE_SPACES, spaces, recordBytes),
+      measure(STORE_ACTION_DEFINITIONS, actionDefinitions, recordBytes, 'otherBytes'),
+      measure(STORE_ACTION_LOGS, actionLogs, recordBytes, 'logBytes'),
+      measure(STORE_PROBLEMS, problems, recordBytes, 'otherBytes'),
+      measure(STORE_TODOS, todos, recordBytes, 'otherBytes'),
+      measure(STORE_CLOCK_EVENTS, clockEvents, recordBytes, 'logBytes'),
+      measure(STORE_DATA_ENTRIES, dataEntries, recordBytes, 'logBytes'),
+      measure(STORE_ATTACHMENTS, attachments, attachment => attachment.size, 'imageBytes'),
+      measure(STORE_RECORD_HISTORY, recordHistory, recordBytes, 'otherBytes'),
+      measure(STORE_DAILY_ROLLUPS, dailyRollups, recordBytes, 'logBytes'),
+      // Local backups belong to no space; each archive holds a copy of all data
+      measure(STORE_BACKUP_ARCHIVES, backupSnapshots, snapshot => snapshot.size),
+    ];
+
+    return {
+      stores: stores.sort((a, b) => b.bytes - a.bytes),
+      spaces: Array.from(spaceUsage.values())
+        .sort((a, b) => (b.imageBytes + b.logBytes + b.otherBytes) - (a.imageBytes + a.logBytes + a.otherBytes)),
+    };
+  }
+}
@@ -0,0 +1,44 @@
+// src/application/use-cases/storage/prune-past-space-logs.usecase.ts
+import { format, subDays } from 'date-fns';
+import type { ISpaceRepository, IRecordHistoryRepository, IUnitOfWork, UnitOfWorkOperation } from '@/application/ports/repositories';
+import { STORE_ACTION_LOGS, STORE_CLOCK_EVENTS, STORE_DATA_ENTRIES, STORE_DAILY_ROLLUPS, STORE_RECORD_HISTORY } from '@/lib/constants';
+
+/**
+ * Deletes the action logs, clock events and data entries of spaces whose date is more
+ * than `olderThanDays` days in the past, along with the history of those data entries.
+ * The spaces themselves, their definitions, problems and to-dos are kept, and so is their
+ * history. Returns the number of spaces pruned.
+ */
+export class PrunePastSpaceLogsUseCase {
+  constructor(
+    private readonly spaceRepository: ISpaceRepository,
+    private readonly recordHistoryRepository: IRecordHistoryRepository,
+    private readonly unitOfWork: IUnitOfWork
+  ) {}
+
+  async execute(olderThanDays: number): Promise<number> {
+    if (!Number.isFinite(olderThanDays) || olderThanDays < 0) {
+      throw new Error('Number of days must be zero or more.');
+    }
+    const cutoffDate = format(subDays(new Date(), olderThanDays), 'yyyy-MM-dd');
+
+    const spaces = await this.spaceRepository.getAll();
+    const pastSpaces = spaces.filter(space => space.date < cutoffDate);
+    if (pastSpaces.length === 0) return 0;
+
+    const operations: UnitOfWorkOperation[] = [];
+    for (const { id: spaceId } of pastSpaces) {
+      operations.push(
+        { type: 'deleteBySpaceId', storeName: STORE_ACTION_LOGS, spaceId },
+        { type: 'deleteBySpaceId', storeName: STORE_CLOCK_EVENTS, spaceId },
+        { type: 'deleteBySpaceId', storeName: STORE_DATA_ENTRIES, spaceId },
+        { type: 'deleteBySpaceId', storeName: STORE_DAILY_ROLLUPS, spaceId },
+      );
+      (await this.recordHistoryRepository.findBySpaceId(spaceId))
+        .filter(entry => entry.recordType === 'dataEntry')
+        .forEach(entry => operations.push({ type: 'delete', storeName: STORE_RECORD_HISTORY, key: entry.id }));
+    }
+    await this.unitOfWork.execute(operations);
+    return pastSpaces.length;
+  }
+}
@@ -1,7 +1,37 @@
-
 // src/application/use-cases/timeline/get-timeline-items-by-space.usecase.ts
-import type { TimelineItem } from '@/application/dto';
+import type { TimelineItem, TimelineItemType } from '@/application/dto';
 import type { IActionLogRepository, IActionDefinitionRepository, IProblemRepository, ITodoRepository, IDataEntryLogRepository } from '@/application/ports/repositories';
+import type { CursorPage, CursorPageRequest } from '@/application/ports/repositories/pagination';
+import type { ActionDefinition, ActionLog, DataEntryLog, Problem, Todo } from '@/domain/entities';
+import { comparePageCursorPositions, decodePageCursor, encodePageCursor } from '@/lib/page-cursor';
+
+const DEFAULT_PAGE_LIMIT = 50;
+const ALL_TIMELINE_ITEM_TYPES: TimelineItemType[] = ['action_log', 'problem', 'todo', 'data_entry'];
+
+export interface GetTimelineItemsInputDTO {
+  limit?: number; // Defaults to 50
+  before?: string | null; // Cursor: only items older than it
+  after?: string | null; // Cursor: only items newer than it
+  types?: TimelineItemType[]; // Defaults to every type
+}
+
+export interface TimelinePageDTO {
+  items: TimelineItem[]; // Newest first
+  olderCursor: string | null; // Pass as `before` for the next older page; null once the oldest item has been returned
+  newerCursor: string | null; // Pass as `after` for the items newer than this page; null when the page starts at the newest
+}
+
+type PageDirection = NonNullable<CursorPageRequest['direction']>;
+
+type TimelineRecord = { timestamp: string; id: string } & (
+  | { type: 'action_log'; log: ActionLog }
+  | { type: 'problem'; problem: Problem }
+  | { type: 'todo'; todo: Todo }
+  | { type: 'data_entry'; entry: DataEntryLog }
+);
+
+// One store read in timeline order, a page at a time
+type TimelineSource = (cursor: string | null, limit: number, direction: PageDirection) => Promise<CursorPage<TimelineRecord>>;
 
 const formatDurationForTimeline = (ms: number): string => {
   const totalSeconds = Math.floor(ms / 1000);
@@ -11,11 +41,179 @@ const formatDurationForTimeline = (ms: number): string => {
   let parts = [];
   if (hours > 0) parts.push(`${hours}h`);
   if (minutes > 0) parts.push(`${minutes}m`);
-  if (seconds > 0 || parts.length === 0) parts.push(`${seconds}s`); 
+  if (seconds > 0 || parts.length === 0) parts.push(`${seconds}s`);
   return parts.join(' ');
 };
 
+/**
+ * Problems and to-dos appear at their last change, which no index covers. A space holds few
+ * of them, so they are read once and paged in memory.
+ */
+function inMemorySource<T>(load: () => Promise<T[]>, toRecord: (record: T) => TimelineRecord): TimelineSource {
+  let loaded: Promise<TimelineRecord[]> | null = null;
+  return async (cursor, limit, direction) => {
+    loaded ??= load().then(records => records.map(toRecord).sort(comparePageCursorPositions));
+    let ordered = await loaded;
+    if (direction === 'newest-first') ordered = [...ordered].reverse();
+    if (cursor) {
+      const position = decodePageCursor(cursor);
+      ordered = ordered.filter(record => {
+        const order = comparePageCursorPositions(record, position);
+        return direction === 'newest-first' ? order < 0 : order > 0;
+      });
+    }
+    const items = ordered.slice(0, limit);
+    return {
+      items,
+      nextCursor: ordered.length > limit ? encodePageCursor(items[items.length - 1]) : null,
+    };
+  };
+}
+
+/**
+ * Reads up to `count` records from all sources in timeline order. Each source is read a page
+ * at a time and only read again once its page has been merged, so a long history is never
+ * loaded in full.
+ */
+async function mergeSources(sources: TimelineSource[], start: string | null, count: number, direction: PageDirection): Promise<TimelineRecord[]> {
+  const compare = direction === 'newest-first'
+    ? (a: TimelineRecord, b: TimelineRecord) => comparePageCursorPositions(b, a)
+    : comparePageCursorPositions;
+  const streams = await Promise.all(sources.map(async read => ({ read, ...(await read(start, count, direction)) })));
+
+  const merged: TimelineRecord[] = [];
+  while (merged.length < count) {
+    let next: (typeof streams)[number] | null = null;
+    for (const stream of streams) {
+      if (stream.items.length === 0 && stream.nextCursor) {
+        Object.assign(stream, await stream.read(stream.nextCursor, count - merged.length, direction));
+      }
+      if (stream.items.length > 0 && (!next || compare(stream.items[0], next.items[0]) < 0)) {
+        next = stream;
+      }
+    }
+    if (!next) break;
+    merged.push(next.items.shift()!);
+  }
+  return merged;
+}
+
+function toActionLogItem(log: ActionLog, actionDef: ActionDefinition | undefined): TimelineItem {
+  let stepDescription: string | undefined;
+  if (log.completedStepId && actionDef && actionDef.steps) {
+    const step = actionDef.steps.find(s => s.id === log.completedStepId);
+    stepDescription = step?.description;
+  }
+
+  let title = actionDef?.name || 'Unknown Action';
+  if (actionDef?.type === 'timer' && log.durationMs !== undefined) {
+      title = `${title} (Timer)`;
+  }
+  let description = log.notes || (actionDef && !actionDef.steps && actionDef.type !== 'timer' ? actionDef.description : undefined);
+
+  if (stepDescription) {
+    const stepOutcomeText = log.stepOutcome === 'completed' ? 'Completed' : (log.stepOutcome === 'skipped' ? 'Skipped' : '');
+    const stepInfo = `Step: ${stepDescription}${stepOutcomeText ? ` (${stepOutcomeText})` : ''}`;
+    description = description ? `${stepInfo} - ${description}` : stepInfo;
+  }
+
+  if (actionDef?.type === 'timer' && log.durationMs !== undefined) {
+    const durationText = `Logged time: ${formatDurationForTimeline(log.durationMs)}`;
+    description = description ? `${durationText} - ${description}` : durationText;
+  }
+
+  return {
+    id: log.id,
+    spaceId: log.spaceId,
+    timestamp: log.timestamp,
+    type: 'action_log',
+    title: title,
+    description: description,
+    actionStepDescription: stepDescription,
+    stepOutcome: log.stepOutcome,
+    pointsAwarded: log.pointsAwarded,
+    isMultiStepFullCompletion: log.isMultiStepFullCompletion,
+    actionLogNotes: log.notes,
+    actionDefinitionId: log.actionDefinitionId,
+    completedStepId: log.completedStepId,
+    actionDurationMs: log.durationMs,
+  };
+}
+
+function toProblemItem(problem: Problem): TimelineItem {
+  return {
+    id: problem.id,
+    spaceId: problem.spaceId,
+    timestamp: problem.lastModifiedDate,
+    type: 'problem',
+    title: `Problem: ${problem.type}`,
+    description: problem.description,
+    problemType: problem.type,
+    problemResolved: problem.resolved,
+    problemResolutionNotes: problem.resolutionNotes,
+    problemLastModifiedDate: problem.lastModifiedDate,
+    problemImageAttachmentId: problem.imageAttachmentId,
+  };
+}
+
+function toTodoItem(todo: Todo): TimelineItem {
+  let title = `To-do: ${todo.description.substring(0, 30)}${todo.description.length > 30 ? '...' : ''}`;
+  let desc = `Status: ${todo.status}`;
+  if (todo.status === 'done' && todo.completionDate) {
+    title = `To-do Completed: ${todo.description.substring(0, 20)}${todo.description.length > 20 ? '...' : ''}`;
+    desc = `Completed on ${new Date(todo.completionDate).toLocaleDateString()}`;
+  } else if (todo.status === 'doing') {
+    desc = 'Marked as "Doing"';
+  } else if (todo.creationDate === todo.lastModifiedDate) {
+     desc = 'Added to board';
+  } else {
+     desc = `Status changed to "${todo.status}"`;
+  }
+
+  return {
+    id: todo.id,
+    spaceId: todo.spaceId,
+    timestamp: todo.lastModifiedDate,
+    type: 'todo',
+    title: title,
+    description: desc,
+    todoStatus: todo.status,
+    todoCompleted: todo.completed,
+    todoCompletionDate: todo.completionDate,
+    todoLastModifiedDate: todo.lastModifiedDate,
+    todoBeforeImageAttachmentId: todo.beforeImageAttachmentId,
+    todoAfterImageAttachmentId: todo.afterImageAttachmentId,
+  };
+}
 
+function toDataEntryItem(entry: DataEntryLog, actionDef: ActionDefinition | undefined): TimelineItem {
+  let descriptionPreview = "Data submitted.";
+  if (actionDef?.formFields && actionDef.formFields.length > 0) {
+      const firstFieldName = actionDef.formFields[0].name;
+      const firstFieldLabel = actionDef.formFields[0].label;
+      if(entry.data[firstFieldName]) {
+        descriptionPreview = `${firstFieldLabel}: ${String(entry.data[firstFieldName]).substring(0,50)}${String(entry.data[firstFieldName]).length > 50 ? '...' : ''}`;
+      }
+  }
+
+  return {
+    id: entry.id,
+    spaceId: entry.spaceId,
+    timestamp: entry.timestamp,
+    type: 'data_entry',
+    title: `Data Logged: ${actionDef?.name || 'Unknown Form'}`,
+    description: descriptionPreview,
+    dataEntryActionName: actionDef?.name,
+    dataEntrySubmittedData: entry.data,
+    pointsAwarded: entry.pointsAwarded,
+  };
+}
+
+/**
+ * Reads one page of a space's activity, newest first. Action logs and data entries are paged
+ * through their timestamp indexes and merged with problems and to-dos in timestamp order;
+ * the space's action definitions are read once per page.
+ */
 export class GetTimelineItemsBySpaceUseCase {
   constructor(
     private readonly actionLogRepository: IActionLogRepository,
@@ -25,132 +223,98 @@ export class GetTimelineItemsBySpaceUseCase {
     private readonly dataEntryLogRepository: IDataEntryLogRepository
   ) {}
 
-  async execute(spaceId: string, limit: number = 50): Promise<TimelineItem[]> {
-    const actionLogs = await this.actionLogRepository.findBySpaceId(spaceId);
-    const problems = await this.problemRepository.findBySpaceId(spaceId);
-    const todos = await this.todoRepository.findBySpaceId(spaceId);
-    const dataEntries = await this.dataEntryLogRepository.findBySpaceId(spaceId);
-
-    const timelineItems: TimelineItem[] = [];
-
-    for (const log of actionLogs) {
-      const actionDef = await this.actionDefinitionRepository.findById(log.actionDefinitionId);
-      let stepDescription: string | undefined;
-      if (log.completedStepId && actionDef && actionDef.steps) {
-        const step = actionDef.steps.find(s => s.id === log.completedStepId);
-        stepDescription = step?.description;
-      }
-      
-      let title = actionDef?.name || 'Unknown Action';
-      if (actionDef?.type === 'timer' && log.durationMs !== undefined) {
-          title = `${title} (Timer)`;
-      }
-      let description = log.notes || (actionDef && !actionDef.steps && actionDef.type !== 'timer' ? actionDef.description : undefined);
-
-      if (stepDescription) {
-        const stepOutcomeText = log.stepOutcome === 'completed' ? 'Completed' : (log.stepOutcome === 'skipped' ? 'Skipped' : '');
-        const stepInfo = `Step: ${stepDescription}${stepOutcomeText ? ` (${stepOutcomeText})` : ''}`;
-        description = description ? `${stepInfo} - ${description}` : stepInfo;
-      }
-
-      if (actionDef?.type === 'timer' && log.durationMs !== undefined) {
-        const durationText = `Logged time: ${formatDurationForTimeline(log.durationMs)}`;
-        description = description ? `${durationText} - ${description}` : durationText;
-      }
-      
-      timelineItems.push({
-        id: log.id,
-        spaceId: log.spaceId,
-        timestamp: log.timestamp,
-        type: 'action_log',
-        title: title,
-        description: description,
-        actionStepDescription: stepDescription,
-        stepOutcome: log.stepOutcome,
-        pointsAwarded: log.pointsAwarded,
-        isMultiStepFullCompletion: log.isMultiStepFullCompletion,
-        actionLogNotes: log.notes,
-        actionDefinitionId: log.actionDefinitionId,
-        completedStepId: log.completedStepId,
-        actionDurationMs: log.durationMs, 
-      });
+  async execute(spaceId: string, input: GetTimelineItemsInputDTO = {}): Promise<TimelinePageDTO> {
+    const limit = input.limit ?? DEFAULT_PAGE_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error("Timeline page limit must be a positive whole number.");
     }
-
-    for (const problem of problems) {
-      timelineItems.push({
-        id: problem.id,
-        spaceId: problem.spaceId,
-        timestamp: problem.lastModifiedDate, 
-        type: 'problem',
-        title: `Problem: ${problem.type}`,
-        description: problem.description,
-        problemType: problem.type,
-        problemResolved: problem.resolved,
-        problemResolutionNotes: problem.resolutionNotes,
-        problemLastModifiedDate: problem.lastModifiedDate,
-        problemImageDataUri: problem.imageDataUri,
-      });
+    if (input.before && input.after) {
+      throw new Error("Pass either a 'before' or an 'after' cursor, not both.");
     }
 
-    for (const todo of todos) {
-      let title = `To-do: ${todo.description.substring(0, 30)}${todo.description.length > 30 ? '...' : ''}`;
-      let desc = `Status: ${todo.status}`;
-      if (todo.status === 'done' && todo.completionDate) {
-        title = `To-do Completed: ${todo.description.substring(0, 20)}${todo.description.length > 20 ? '...' : ''}`;
-        desc = `Completed on ${new Date(todo.completionDate).toLocaleDateString()}`;
-      } else if (todo.status === 'doing') {
-        desc = 'Marked as "Doing"';
-      } else if (todo.creationDate === todo.lastModifiedDate) {
-         desc = 'Added to board';
-      } else {
-         desc = `Status changed to "${todo.status}"`;
-      }
+    const types = new Set(input.types ?? ALL_TIMELINE_ITEM_TYPES);
+    const sources = this.createSources(spaceId).filter(source => types.has(source.type)).map(source => source.read);
 
+    // Items newer than `after` are read oldest first, so the page is the run right after the cursor
+    const readsNewer = !!input.after;
+    const start = input.after || input.before || null;
+    const records = await mergeSources(sources, start, limit + 1, readsNewer ? 'oldest-first' : 'newest-first');
+    const hasMore = records.length > limit;
+    const pageRecords = records.slice(0, limit);
+    if (readsNewer) pageRecords.reverse();
 
-      timelineItems.push({
-        id: todo.id,
-        spaceId: todo.spaceId,
-        timestamp: todo.lastModifiedDate, 
-        type: 'todo',
-        title: title,
-        description: desc,
-        todoStatus: todo.status,
-        todoCompleted: todo.completed, 
-        todoCompletionDate: todo.completionDate,
-        todoLastModifiedDate: todo.lastModifiedDate,
-        todoBeforeImageDataUri: todo.beforeImageDataUri,
-        todoAfterImageDataUri: todo.afterImageDataUri,
-      });
-    }
-
-    for (const entry of dataEntries) {
-      const actionDef = await this.actionDefinitionRepository.findById(entry.actionDefinitionId);
-      let descriptionPreview = "Data submitted.";
-      if (actionDef?.formFields && actionDef.formFields.length > 0) {
-          const firstFieldName = actionDef.formFields[0].name;
-          const firstFieldLabel = actionDef.formFields[0].label;
-          if(entry.data[firstFieldName]) {
-            descriptionPreview = `${firstFieldLabel}: ${String(entry.data[firstFieldName]).substring(0,50)}${String(entry.data[firstFieldName]).length > 50 ? '...' : ''}`;
-          }
-      }
+    const items = await this.toTimelineItems(spaceId, pageRecords);
+    const newest = pageRecords[0];
+    const oldest = pageRecords[pageRecords.length - 1];
+    return {
+      items,
+      olderCursor: readsNewer
+        ? (oldest ? encodePageCursor(oldest) : start)
+        : (hasMore && oldest ? encodePageCursor(oldest) : null),
+      newerCursor: readsNewer
+        ? (hasMore && newest ? encodePageCursor(newest) : null)
+        : (start && newest ? encodePageCursor(newest) : start),
+    };
+  }
 
-      timelineItems.push({
-        id: entry.id,
-        spaceId: entry.spaceId,
-        timestamp: entry.timestamp,
+  private createSources(spaceId: string): { type: TimelineItemType; read: TimelineSource }[] {
+    return [
+      {
+        type: 'action_log',
+        read: async (cursor, limit, direction) => {
+          const page = await this.actionLogRepository.findPageBySpaceId(spaceId, { limit, cursor, direction });
+          return {
+            items: page.items.map(log => ({ type: 'action_log' as const, timestamp: log.timestamp, id: log.id, log })),
+            nextCursor: page.nextCursor,
+          };
+        },
+      },
+      {
         type: 'data_entry',
-        title: `Data Logged: ${actionDef?.name || 'Unknown Form'}`,
-        description: descriptionPreview,
-        dataEntryActionName: actionDef?.name,
-        dataEntrySubmittedData: entry.data,
-        pointsAwarded: entry.pointsAwarded,
-      });
-    }
+        read: async (cursor, limit, direction) => {
+          const page = await this.dataEntryLogRepository.findPageBySpaceId(spaceId, { limit, cursor, direction });
+          return {
+            items: page.items.map(entry => ({ type: 'data_entry' as const, timestamp: entry.timestamp, id: entry.id, entry })),
+            nextCursor: page.nextCursor,
+          };
+        },
+      },
+      {
+        type: 'problem',
+        read: inMemorySource(
+          () => this.problemRepository.findBySpaceId(spaceId),
+          problem => ({ type: 'problem', timestamp: problem.lastModifiedDate, id: problem.id, problem })
+        ),
+      },
+      {
+        type: 'todo',
+        read: inMemorySource(
+          () => this.todoRepository.findBySpaceId(spaceId),
+          todo => ({ type: 'todo', timestamp: todo.lastModifiedDate, id: todo.id, todo })
+        ),
+      },
+    ];
+  }
 
-    const sortedTimelineItems = timelineItems.sort((a, b) => 
-      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  private async toTimelineItems(spaceId: string, records: TimelineRecord[]): Promise<TimelineItem[]> {
+    const needsDefinitions = records.some(record => record.type === 'action_log' || record.type === 'data_entry');
+    const actionDefsById = new Map(
+      needsDefinitions
+        ? (await this.actionDefinitionRepository.findBySpaceId(spaceId)).map(actionDef => [actionDef.id, actionDef] as const)
+        : []
     );
-    
-    return sortedTimelineItems.slice(0, limit);
+
+    return records.map(record => {
+      switch (record.type) {
+        case 'action_log':
+          return toActionLogItem(record.log, actionDefsById.get(record.log.actionDefinitionId));
+        case 'problem':
+          return toProblemItem(record.problem);
+        case 'todo':
+          return toTodoItem(record.todo);
+        case 'data_entry':
+          return toDataEntryItem(record.entry, actionDefsById.get(record.entry.actionDefinitionId));
+      }
+    });
   }
 }
@@ -0,0 +1,89 @@
+// src/application/use-cases/timesheet/export-timesheet.usecase.ts
+import { format } from 'date-fns';
+import type { IClockEventRepository } from '@/application/ports/repositories/iclock-event.repository';
+import type { ISpaceRepository } from '@/application/ports/repositories/ispace.repository';
+import { formatDelimitedText, DELIMITED_TEXT_MIME_TYPES } from '@/lib/delimited-text';
+import { toTimestampRange } from '@/lib/local-day-range';
+import { findSessionClockEvents } from '../clock-event/session-clock-events';
+import { buildTimesheet, validateTimesheetOptions, type TimesheetIssue, type TimesheetOptions, type TimesheetTotals } from './timesheet';
+
+export type ExportTimesheetInputDTO = TimesheetOptions;
+
+export interface TimesheetExportFileDTO {
+  fileName: string;
+  mimeType: string;
+  content: string;
+  sessionCount: number;
+  issueCount: number; // Unpaired clock events, listed in the file but not counted
+  workedMs: number;
+  overtimeMs: number;
+}
+
+const ISSUE_NOTES: Record<TimesheetIssue, string> = {
+  missingClockOut: 'Missing clock-out',
+  missingClockIn: 'Missing clock-in',
+  stillClockedIn: 'Still clocked in',
+};
+
+// Payroll systems take decimal hours, e.g. 7.75 for 7h 45m
+const toHours = (ms: number): string => (ms / (60 * 60 * 1000)).toFixed(2);
+
+const formatTime = (timestamp: string | undefined): string =>
+  timestamp ? format(new Date(timestamp), 'yyyy-MM-dd HH:mm') : '';
+
+const totalColumns = (totals: TimesheetTotals): string[] =>
+  [toHours(totals.workedMs), toHours(totals.regularMs), toHours(totals.overtimeMs)];
+
+/**
+ * Writes a payroll timesheet as CSV across all spaces: one row per session, followed by a
+ * subtotal row for each day and each week and a total for the whole period. Unpaired clock
+ * events get a row with a note and no hours, so they can be corrected before payroll.
+ */
+export class ExportTimesheetUseCase {
+  constructor(
+    private readonly clockEventRepository: IClockEventRepository,
+    private readonly spaceRepository: ISpaceRepository
+  ) {}
+
+  async execute(input: ExportTimesheetInputDTO): Promise<TimesheetExportFileDTO> {
+    validateTimesheetOptions(input);
+    const clockEvents = await findSessionClockEvents(this.clockEventRepository, toTimestampRange(input.from, input.to));
+    // Sessions logged in a space that was trashed later were still worked
+    const spaceNames = new Map(
+      [...await this.spaceRepository.getAll(), ...await this.spaceRepository.findDeleted()].map(space => [space.id, space.name] as const)
+    );
+    const timesheet = buildTimesheet(clockEvents, spaceNames, input);
+
+    const rows: string[][] = [[
+      'Type', 'Date', 'Week Of', 'Space', 'Clock In', 'Clock Out', 'Rounded In', 'Rounded Out',
+      'Hours', 'Regular Hours', 'Overtime Hours', 'Note',
+    ]];
+    for (const week of timesheet.weeks) {
+      for (const day of week.days) {
+        for (const session of day.sessions) {
+          rows.push([
+            'Session', day.day, week.weekStart, session.spaceName,
+            formatTime(session.clockIn), formatTime(session.clockOut),
+            formatTime(session.roundedClockIn), formatTime(session.roundedClockOut),
+            ...(session.issue ? ['', '', ''] : totalColumns(session)),
+            session.issue ? ISSUE_NOTES[session.issue] : '',
+          ]);
+        }
+        rows.push(['Day total', day.day, week.weekStart, '', '', '', '', '', ...totalColumns(day), '']);
+      }
+      rows.push(['Week total', '', week.weekStart, '', '', '', '', '', ...totalColumns(week), '']);
+    }
+    rows.push(['Period total', '', '', '', '', '', '', '', ...totalColumns(timesheet), '']);
+
+    const rangeSuffix = input.from || input.to ? `_${input.from ?? 'start'}_to_${input.to ?? 'today'}` : '';
+    return {
+      fileName: `timesheet${rangeSuffix}.csv`,
+      mimeType: DELIMITED_TEXT_MIME_TYPES.csv,
+      content: formatDelimitedText(rows, 'csv'),
+      sessionCount: timesheet.sessionCount,
+      issueCount: timesheet.issueCount,
+      workedMs: timesheet.workedMs,
+      overtimeMs: timesheet.overtimeMs,
+    };
+  }
+}
@@ -0,0 +1,165 @@
+// src/application/use-cases/timesheet/timesheet.ts
+import { format, roundToNearestMinutes, startOfWeek, type NearestMinutes } from 'date-fns';
+import type { ClockEvent } from '@/domain/entities';
+
+// Increments that split an hour evenly, so rounded times land on the same marks every hour
+export const TIMESHEET_ROUNDING_MINUTES = [0, 1, 5, 6, 10, 15, 30] as const;
+
+export interface TimesheetOptions {
+  from?: string; // YYYY-MM-DD, inclusive, compared with the local date a session starts on
+  to?: string; // YYYY-MM-DD, inclusive
+  roundingMinutes: number; // Clock-in and clock-out times are rounded to the nearest multiple; 0 keeps them exact
+  dailyOvertimeHours?: number; // Hours worked in a day beyond this count as overtime; 0 or absent turns it off
+}
+
+/**
+ * Why a clock event has no partner: a clock-in followed by another clock-in in the same
+ * space lacks its clock-out, a clock-out with nothing open lacks its clock-in, and the
+ * latest clock-in of a space may simply still be running.
+ */
+export type TimesheetIssue = 'missingClockOut' | 'missingClockIn' | 'stillClockedIn';
+
+export interface TimesheetTotals {
+  workedMs: number;
+  regularMs: number;
+  overtimeMs: number;
+}
+
+export interface TimesheetSession extends TimesheetTotals {
+  spaceId: string;
+  spaceName: string;
+  clockIn?: string; // ISO date string
+  clockOut?: string;
+  roundedClockIn?: string;
+  roundedClockOut?: string;
+  issue?: TimesheetIssue; // Flagged sessions count no time
+}
+
+export interface TimesheetDay extends TimesheetTotals {
+  day: string; // YYYY-MM-DD
+  sessions: TimesheetSession[];
+}
+
+export interface TimesheetWeek extends TimesheetTotals {
+  weekStart: string; // YYYY-MM-DD of the Monday
+  days: TimesheetDay[];
+}
+
+export interface Timesheet extends TimesheetTotals {
+  weeks: TimesheetWeek[];
+  sessionCount: number;
+  issueCount: number;
+}
+
+export function validateTimesheetOptions(options: TimesheetOptions): void {
+  if (options.from && options.to && options.from > options.to) {
+    throw new Error('The start date must not be after the end date.');
+  }
+  if (!(TIMESHEET_ROUNDING_MINUTES as readonly number[]).includes(options.roundingMinutes)) {
+    throw new Error(`Times can be rounded to ${TIMESHEET_ROUNDING_MINUTES.filter(minutes => minutes > 0).join(', ')} minutes, or not at all.`);
+  }
+  const overtime = options.dailyOvertimeHours;
+  if (overtime !== undefined && (!Number.isFinite(overtime) || overtime < 0 || overtime > 24)) {
+    throw new Error('The daily overtime threshold must be between 0 and 24 hours.');
+  }
+}
+
+/**
+ * Pairs one space's clock events the way the daily rollups count them: a clock-out closes
+ * the latest clock-in, and a second clock-in replaces an open one. Events that end up
+ * without a partner come back as flagged sessions instead of being dropped.
+ */
+function pairSpaceClockEvents(events: ClockEvent[], spaceName: string): TimesheetSession[] {
+  const sessions: TimesheetSession[] = [];
+  const flagged = (event: ClockEvent, issue: TimesheetIssue): TimesheetSession => ({
+    spaceId: event.spaceId,
+    spaceName,
+    ...(event.type === 'clock-in' ? { clockIn: event.timestamp } : { clockOut: event.timestamp }),
+    workedMs: 0,
+    regularMs: 0,
+    overtimeMs: 0,
+    issue,
+  });
+
+  let open: ClockEvent | null = null;
+  for (const event of [...events].sort((a, b) => a.timestamp.localeCompare(b.timestamp))) {
+    if (event.type === 'clock-in') {
+      if (open) sessions.push(flagged(open, 'missingClockOut'));
+      open = event;
+    } else if (open) {
+      sessions.push({ spaceId: event.spaceId, spaceName, clockIn: open.timestamp, clockOut: event.timestamp, workedMs: 0, regularMs: 0, overtimeMs: 0 });
+      open = null;
+    } else {
+      sessions.push(flagged(event, 'missingClockIn'));
+    }
+  }
+  if (open) sessions.push(flagged(open, 'stillClockedIn'));
+  return sessions;
+}
+
+const sessionStart = (session: TimesheetSession): string => (session.clockIn ?? session.clockOut)!;
+
+const roundTime = (timestamp: string, minutes: number): Date =>
+  minutes > 0 ? roundToNearestMinutes(new Date(timestamp), { nearestTo: minutes as NearestMinutes }) : new Date(timestamp);
+
+function addTotals(target: TimesheetTotals, source: TimesheetTotals): void {
+  target.workedMs += source.workedMs;
+  target.regularMs += source.regularMs;
+  target.overtimeMs += source.overtimeMs;
+}
+
+/**
+ * Builds a timesheet from clock events across spaces: one session per clock-in and
+ * clock-out pair, grouped into days and Monday-based weeks by the local date each session
+ * starts on. Overtime is counted per day across all spaces, taken from the latest sessions
+ * once the day's hours pass the threshold.
+ */
+export function buildTimesheet(clockEvents: ClockEvent[], spaceNames: Map<string, string>, options: TimesheetOptions): Timesheet {
+  const eventsBySpace = new Map<string, ClockEvent[]>();
+  clockEvents.forEach(event => eventsBySpace.set(event.spaceId, [...eventsBySpace.get(event.spaceId) ?? [], event]));
+
+  const sessionsByDay = new Map<string, TimesheetSession[]>();
+  eventsBySpace.forEach((events, spaceId) => {
+    for (const session of pairSpaceClockEvents(events, spaceNames.get(spaceId) ?? 'Unknown space')) {
+      const day = format(new Date(sessionStart(session)), 'yyyy-MM-dd');
+      if ((options.from && day < options.from) || (options.to && day > options.to)) continue;
+      sessionsByDay.set(day, [...sessionsByDay.get(day) ?? [], session]);
+    }
+  });
+
+  const overtimeThresholdMs = (options.dailyOvertimeHours ?? 0) * 60 * 60 * 1000;
+  const weeks = new Map<string, TimesheetWeek>();
+  const timesheet: Timesheet = { weeks: [], sessionCount: 0, issueCount: 0, workedMs: 0, regularMs: 0, overtimeMs: 0 };
+
+  for (const day of Array.from(sessionsByDay.keys()).sort()) {
+    const sessions = sessionsByDay.get(day)!.sort((a, b) => sessionStart(a).localeCompare(sessionStart(b)));
+    const timesheetDay: TimesheetDay = { day, sessions, workedMs: 0, regularMs: 0, overtimeMs: 0 };
+
+    for (const session of sessions) {
+      if (session.issue) {
+        timesheet.issueCount++;
+        continue;
+      }
+      const roundedIn = roundTime(session.clockIn!, options.roundingMinutes);
+      const roundedOut = roundTime(session.clockOut!, options.roundingMinutes);
+      session.roundedClockIn = roundedIn.toISOString();
+      session.roundedClockOut = roundedOut.toISOString();
+      session.workedMs = Math.max(0, roundedOut.getTime() - roundedIn.getTime());
+      const regularLeftMs = overtimeThresholdMs > 0 ? Math.max(0, overtimeThresholdMs - timesheetDay.workedMs) : Infinity;
+      session.regularMs = Math.min(session.workedMs, regularLeftMs);
+      session.overtimeMs = session.workedMs - session.regularMs;
+      addTotals(timesheetDay, session);
+      timesheet.sessionCount++;
+    }
+
+    const weekStart = format(startOfWeek(new Date(`${day}T00:00:00`), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+    const week = weeks.get(weekStart) ?? { weekStart, days: [], workedMs: 0, regularMs: 0, overtimeMs: 0 };
+    week.days.push(timesheetDay);
+    addTotals(week, timesheetDay);
+    weeks.set(weekStart, week);
+    addTotals(timesheet, timesheetDay);
+  }
+
+  timesheet.weeks = Array.from(weeks.values());
+  return timesheet;
+}
@@ -1,17 +1,18 @@
 
 // src/application/use-cases/todo/create-todo.usecase.ts
-import type { Todo, TodoStatus } from '@/domain/entities';
-import type { ITodoRepository } from '@/application/ports/repositories';
+import type { Attachment, Todo, TodoStatus } from '@/domain/entities';
+import type { IUnitOfWork, UnitOfWorkOperation } from '@/application/ports/repositories';
+import { STORE_ATTACHMENTS, STORE_TODOS } from '@/lib/constants';
 
 export interface CreateTodoInputDTO {
   spaceId: string;
   description: string;
   order?: number;
-  beforeImageDataUri?: string;
+  beforeImage?: Blob;
 }
 
 export class CreateTodoUseCase {
-  constructor(private readonly todoRepository: ITodoRepository) {}
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
 
   async execute(data: CreateTodoInputDTO): Promise<Todo> {
     if (!data.description.trim()) {
@@ -19,6 +20,15 @@ export class CreateTodoUseCase {
     }
 
     const now = new Date().toISOString();
+    const beforeImage: Attachment | undefined = data.beforeImage && {
+      id: self.crypto.randomUUID(),
+      spaceId: data.spaceId,
+      blob: data.beforeImage,
+      mimeType: data.beforeImage.type,
+      size: data.beforeImage.size,
+      creationDate: now,
+    };
+
     const newTodo: Todo = {
       id: self.crypto.randomUUID(),
       spaceId: data.spaceId,
@@ -28,9 +38,14 @@ export class CreateTodoUseCase {
       creationDate: now,
       lastModifiedDate: now,
       order: data.order,
-      beforeImageDataUri: data.beforeImageDataUri,
+      beforeImageAttachmentId: beforeImage?.id,
     };
 
-    return this.todoRepository.save(newTodo);
+    // The image is written with the to-do, so neither is stored without the other
+    const operations: UnitOfWorkOperation[] = [];
+    if (beforeImage) operations.push({ type: 'put', storeName: STORE_ATTACHMENTS, record: beforeImage });
+    operations.push({ type: 'put', storeName: STORE_TODOS, record: newTodo });
+    await this.unitOfWork.execute(operations);
+    return newTodo;
   }
 }
@@ -1,6 +1,9 @@
 // src/application/use-cases/todo/delete-todo.usecase.ts
 import type { ITodoRepository } from '@/application/ports/repositories/itodo.repository';
 
+/**
+ * Moves a to-do to the trash. Its images are kept until the trash is purged.
+ */
 export class DeleteTodoUseCase {
   constructor(private readonly todoRepository: ITodoRepository) {}
 
@@ -11,6 +14,6 @@ export class DeleteTodoUseCase {
       // For now, let's be explicit.
       throw new Error('Todo not found for deletion.');
     }
-    return this.todoRepository.delete(id);
+    await this.todoRepository.save({ ...existingTodo, deletedAt: new Date().toISOString() });
   }
 }
@@ -1,7 +1,10 @@
 
 // src/application/use-cases/todo/update-todo.usecase.ts
-import type { Todo, TodoStatus } from '@/domain/entities';
-import type { ITodoRepository } from '@/application/ports/repositories';
+import type { Attachment, Todo, TodoStatus } from '@/domain/entities';
+import type { ITodoRepository, IUnitOfWork, UnitOfWorkOperation } from '@/application/ports/repositories';
+import { STORE_ATTACHMENTS, STORE_TODOS, STORE_RECORD_HISTORY } from '@/lib/constants';
+import type { IDomainEventPublisher } from '@/application/events';
+import { createRecordHistoryEntry } from '@/lib/record-diff';
 
 export interface UpdateTodoInputDTO {
   id: string;
@@ -9,12 +12,29 @@ export interface UpdateTodoInputDTO {
   status?: TodoStatus; 
   completed?: boolean; 
   order?: number;
-  beforeImageDataUri?: string | null; 
-  afterImageDataUri?: string | null;  
+  beforeImage?: Blob | null; // A new image replaces the current one, null removes it
+  afterImage?: Blob | null;
+  reason?: string; // Kept with the change in the record history
 }
 
 export class UpdateTodoUseCase {
-  constructor(private readonly todoRepository: ITodoRepository) {}
+  constructor(
+    private readonly todoRepository: ITodoRepository,
+    private readonly unitOfWork: IUnitOfWork,
+    private readonly eventPublisher: IDomainEventPublisher
+  ) {}
+
+  private toAttachment(spaceId: string, image: Blob | null): Attachment | undefined {
+    if (!image) return undefined;
+    return {
+      id: self.crypto.randomUUID(),
+      spaceId,
+      blob: image,
+      mimeType: image.type,
+      size: image.size,
+      creationDate: new Date().toISOString(),
+    };
+  }
 
   async execute(data: UpdateTodoInputDTO): Promise<Todo> {
     const existingTodo = await this.todoRepository.findById(data.id);
@@ -55,15 +75,41 @@ export class UpdateTodoUseCase {
         updatedTodo.order = data.order;
     }
 
-    if (data.beforeImageDataUri !== undefined) {
-      updatedTodo.beforeImageDataUri = data.beforeImageDataUri === null ? undefined : data.beforeImageDataUri;
+    const newImages: Attachment[] = [];
+    if (data.beforeImage !== undefined) {
+      const beforeImage = this.toAttachment(existingTodo.spaceId, data.beforeImage);
+      if (beforeImage) newImages.push(beforeImage);
+      updatedTodo.beforeImageAttachmentId = beforeImage?.id;
     }
-    if (data.afterImageDataUri !== undefined) {
-      updatedTodo.afterImageDataUri = data.afterImageDataUri === null ? undefined : data.afterImageDataUri;
+    if (data.afterImage !== undefined) {
+      const afterImage = this.toAttachment(existingTodo.spaceId, data.afterImage);
+      if (afterImage) newImages.push(afterImage);
+      updatedTodo.afterImageAttachmentId = afterImage?.id;
     }
 
     updatedTodo.lastModifiedDate = new Date().toISOString();
 
-    return this.todoRepository.save(updatedTodo);
+    const historyEntry = createRecordHistoryEntry('todo', existingTodo, updatedTodo, data.reason, ['lastModifiedDate']);
+    const operations: UnitOfWorkOperation[] = newImages.map(record => ({ type: 'put', storeName: STORE_ATTACHMENTS, record }));
+    operations.push({ type: 'put', storeName: STORE_TODOS, record: updatedTodo });
+    if (historyEntry) operations.push({ type: 'put', storeName: STORE_RECORD_HISTORY, record: historyEntry });
+    // Replaced images go in the same transaction that stops the to-do pointing at them
+    if (existingTodo.beforeImageAttachmentId && existingTodo.beforeImageAttachmentId !== updatedTodo.beforeImageAttachmentId) {
+      operations.push({ type: 'delete', storeName: STORE_ATTACHMENTS, key: existingTodo.beforeImageAttachmentId });
+    }
+    if (existingTodo.afterImageAttachmentId && existingTodo.afterImageAttachmentId !== updatedTodo.afterImageAttachmentId) {
+      operations.push({ type: 'delete', storeName: STORE_ATTACHMENTS, key: existingTodo.afterImageAttachmentId });
+    }
+    await this.unitOfWork.execute(operations);
+    if (updatedTodo.status !== existingTodo.status) {
+      this.eventPublisher.publish({
+        type: 'TodoStatusChanged',
+        occurredAt: updatedTodo.lastModifiedDate,
+        spaceId: updatedTodo.spaceId,
+        todo: updatedTodo,
+        previousStatus: existingTodo.status,
+      });
+    }
+    return updatedTodo;
   }
 }
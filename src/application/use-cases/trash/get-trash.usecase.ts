@@ -0,0 +1,70 @@
+// src/application/use-cases/trash/get-trash.usecase.ts
+import type { ISpaceRepository, IActionDefinitionRepository, IProblemRepository, ITodoRepository } from '@/application/ports/repositories';
+
+export type TrashItemKind = 'space' | 'actionDefinition' | 'problem' | 'todo';
+
+export interface TrashItemDTO {
+  kind: TrashItemKind;
+  id: string;
+  label: string; // Space or action name, or the item's description
+  spaceId: string;
+  spaceName: string;
+  deletedAt: string; // ISO date string
+  isSpaceInTrash: boolean; // True for items whose space is trashed too; the space must be restored first
+}
+
+/**
+ * Lists what can be restored, most recently deleted first. Records trashed together
+ * with their space are not listed separately: restoring the space brings them back.
+ */
+export class GetTrashUseCase {
+  constructor(
+    private readonly spaceRepository: ISpaceRepository,
+    private readonly actionDefinitionRepository: IActionDefinitionRepository,
+    private readonly problemRepository: IProblemRepository,
+    private readonly todoRepository: ITodoRepository
+  ) {}
+
+  async execute(): Promise<TrashItemDTO[]> {
+    const [liveSpaces, deletedSpaces, actionDefinitions, problems, todos] = await Promise.all([
+      this.spaceRepository.getAll(),
+      this.spaceRepository.findDeleted(),
+      this.actionDefinitionRepository.findDeleted(),
+      this.problemRepository.findDeleted(),
+      this.todoRepository.findDeleted(),
+    ]);
+
+    const spacesById = new Map([...liveSpaces, ...deletedSpaces].map(space => [space.id, space]));
+
+    const items: TrashItemDTO[] = deletedSpaces.map(space => ({
+      kind: 'space',
+      id: space.id,
+      label: space.name,
+      spaceId: space.id,
+      spaceName: space.name,
+      deletedAt: space.deletedAt!,
+      isSpaceInTrash: true,
+    }));
+
+    const addItems = <T extends { id: string; spaceId: string; deletedAt?: string }>(kind: TrashItemKind, records: T[], labelOf: (record: T) => string) => {
+      records.forEach(record => {
+        const space = spacesById.get(record.spaceId);
+        if (space?.deletedAt && space.deletedAt === record.deletedAt) return; // Comes back with its space
+        items.push({
+          kind,
+          id: record.id,
+          label: labelOf(record),
+          spaceId: record.spaceId,
+          spaceName: space?.name ?? 'Unknown space',
+          deletedAt: record.deletedAt!,
+          isSpaceInTrash: !!space?.deletedAt,
+        });
+      });
+    };
+    addItems('actionDefinition', actionDefinitions, definition => definition.name);
+    addItems('problem', problems, problem => problem.description);
+    addItems('todo', todos, todo => todo.description);
+
+    return items.sort((a, b) => (a.deletedAt < b.deletedAt ? 1 : a.deletedAt > b.deletedAt ? -1 : 0));
+  }
+}
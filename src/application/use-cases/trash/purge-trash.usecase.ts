@@ -0,0 +1,92 @@
+// src/application/use-cases/trash/purge-trash.usecase.ts
+import type {
+  ISpaceRepository,
+  IActionDefinitionRepository,
+  IActionLogRepository,
+  IProblemRepository,
+  ITodoRepository,
+  IClockEventRepository,
+  IDataEntryLogRepository,
+  IUnitOfWork,
+  UnitOfWorkOperation,
+  UnitOfWorkStoreName,
+  SpaceScopedStoreName,
+} from '@/application/ports/repositories';
+import { STORE_ACTION_DEFINITIONS, STORE_ACTION_LOGS, STORE_TODOS, STORE_PROBLEMS, STORE_CLOCK_EVENTS, STORE_DATA_ENTRIES, STORE_ATTACHMENTS, STORE_RECORD_HISTORY, STORE_DAILY_ROLLUPS, STORE_SPACES } from '@/lib/constants';
+
+const SPACE_SCOPED_STORES: SpaceScopedStoreName[] = [
+  STORE_ACTION_DEFINITIONS,
+  STORE_ACTION_LOGS,
+  STORE_PROBLEMS,
+  STORE_TODOS,
+  STORE_CLOCK_EVENTS,
+  STORE_DATA_ENTRIES,
+  STORE_ATTACHMENTS,
+  STORE_RECORD_HISTORY,
+  STORE_DAILY_ROLLUPS,
+];
+
+/**
+ * Permanently deletes everything that was moved to the trash at or before `olderThan`,
+ * including the images of purged problems and to-dos. A purged space takes all of its
+ * remaining records with it. Returns the number of trashed records removed.
+ */
+export class PurgeTrashUseCase {
+  constructor(
+    private readonly spaceRepository: ISpaceRepository,
+    private readonly actionDefinitionRepository: IActionDefinitionRepository,
+    private readonly actionLogRepository: IActionLogRepository,
+    private readonly problemRepository: IProblemRepository,
+    private readonly todoRepository: ITodoRepository,
+    private readonly clockEventRepository: IClockEventRepository,
+    private readonly dataEntryLogRepository: IDataEntryLogRepository,
+    private readonly unitOfWork: IUnitOfWork
+  ) {}
+
+  async execute(olderThan: Date): Promise<number> {
+    const cutoff = olderThan.toISOString();
+    const isExpired = (record: { deletedAt?: string }) => !!record.deletedAt && record.deletedAt <= cutoff;
+
+    const [spaces, actionDefinitions, actionLogs, problems, todos, clockEvents, dataEntries] = await Promise.all([
+      this.spaceRepository.findDeleted(),
+      this.actionDefinitionRepository.findDeleted(),
+      this.actionLogRepository.findDeleted(),
+      this.problemRepository.findDeleted(),
+      this.todoRepository.findDeleted(),
+      this.clockEventRepository.findDeleted(),
+      this.dataEntryLogRepository.findDeleted(),
+    ]);
+
+    const expiredSpaces = spaces.filter(isExpired);
+    const expiredProblems = problems.filter(isExpired);
+    const expiredTodos = todos.filter(isExpired);
+    const expiredByStore: [UnitOfWorkStoreName, { id: string }[]][] = [
+      [STORE_ACTION_DEFINITIONS, actionDefinitions.filter(isExpired)],
+      [STORE_ACTION_LOGS, actionLogs.filter(isExpired)],
+      [STORE_PROBLEMS, expiredProblems],
+      [STORE_TODOS, expiredTodos],
+      [STORE_CLOCK_EVENTS, clockEvents.filter(isExpired)],
+      [STORE_DATA_ENTRIES, dataEntries.filter(isExpired)],
+    ];
+
+    const attachmentIds = [
+      ...expiredProblems.map(problem => problem.imageAttachmentId),
+      ...expiredTodos.flatMap(todo => [todo.beforeImageAttachmentId, todo.afterImageAttachmentId]),
+    ].filter((attachmentId): attachmentId is string => !!attachmentId);
+
+    const operations: UnitOfWorkOperation[] = [
+      ...expiredByStore.flatMap(([storeName, records]) =>
+        records.map((record): UnitOfWorkOperation => ({ type: 'delete', storeName, key: record.id }))
+      ),
+      ...attachmentIds.map((key): UnitOfWorkOperation => ({ type: 'delete', storeName: STORE_ATTACHMENTS, key })),
+      ...expiredSpaces.flatMap((space): UnitOfWorkOperation[] => [
+        ...SPACE_SCOPED_STORES.map((storeName): UnitOfWorkOperation => ({ type: 'deleteBySpaceId', storeName, spaceId: space.id })),
+        { type: 'delete', storeName: STORE_SPACES, key: space.id },
+      ]),
+    ];
+    if (operations.length === 0) return 0;
+
+    await this.unitOfWork.execute(operations);
+    return expiredSpaces.length + expiredByStore.reduce((count, [, records]) => count + records.length, 0);
+  }
+}
@@ -0,0 +1,136 @@
+// src/application/use-cases/trash/restore-from-trash.usecase.ts
+import type {
+  ISpaceRepository,
+  IActionDefinitionRepository,
+  IActionLogRepository,
+  IProblemRepository,
+  ITodoRepository,
+  IClockEventRepository,
+  IDataEntryLogRepository,
+  IUnitOfWork,
+  UnitOfWorkOperation,
+} from '@/application/ports/repositories';
+import { STORE_ACTION_DEFINITIONS, STORE_ACTION_LOGS, STORE_TODOS, STORE_PROBLEMS, STORE_CLOCK_EVENTS, STORE_DATA_ENTRIES, STORE_DAILY_ROLLUPS, STORE_SPACES } from '@/lib/constants';
+import { applyDailyRollupChanges, computeDailyRollups } from '@/lib/daily-rollups';
+import type { TrashItemKind } from './get-trash.usecase';
+
+function withoutDeletedAt<T extends { deletedAt?: string }>(record: T): T {
+  const { deletedAt, ...restored } = record;
+  return restored as T;
+}
+
+async function findInTrash<T extends { id: string }>(trashed: Promise<T[]>, id: string): Promise<T> {
+  const record = (await trashed).find(r => r.id === id);
+  if (!record) {
+    throw new Error('Item not found in the trash. It may already have been restored or purged.');
+  }
+  return record;
+}
+
+/**
+ * Takes an item out of the trash. A space comes back with every record that was trashed
+ * along with it (same `deletedAt`), an action definition with its logs and data entries.
+ * Records deleted individually before their space keep their own place in the trash.
+ */
+export class RestoreFromTrashUseCase {
+  constructor(
+    private readonly spaceRepository: ISpaceRepository,
+    private readonly actionDefinitionRepository: IActionDefinitionRepository,
+    private readonly actionLogRepository: IActionLogRepository,
+    private readonly problemRepository: IProblemRepository,
+    private readonly todoRepository: ITodoRepository,
+    private readonly clockEventRepository: IClockEventRepository,
+    private readonly dataEntryLogRepository: IDataEntryLogRepository,
+    private readonly unitOfWork: IUnitOfWork
+  ) {}
+
+  async execute(kind: TrashItemKind, id: string): Promise<void> {
+    let operations: UnitOfWorkOperation[];
+    switch (kind) {
+      case 'space':
+        operations = await this.restoreSpace(id);
+        break;
+      case 'actionDefinition':
+        operations = await this.restoreActionDefinition(id);
+        break;
+      case 'problem': {
+        const problem = await findInTrash(this.problemRepository.findDeleted(), id);
+        await this.ensureSpaceIsLive(problem.spaceId);
+        operations = [{ type: 'put', storeName: STORE_PROBLEMS, record: withoutDeletedAt(problem) }];
+        break;
+      }
+      case 'todo': {
+        const todo = await findInTrash(this.todoRepository.findDeleted(), id);
+        await this.ensureSpaceIsLive(todo.spaceId);
+        operations = [{ type: 'put', storeName: STORE_TODOS, record: withoutDeletedAt(todo) }];
+        break;
+      }
+    }
+    await this.unitOfWork.execute(operations);
+  }
+
+  private async ensureSpaceIsLive(spaceId: string): Promise<void> {
+    if (!(await this.spaceRepository.findById(spaceId))) {
+      throw new Error('This item belongs to a space that is in the trash. Restore the space first.');
+    }
+  }
+
+  private async restoreSpace(spaceId: string): Promise<UnitOfWorkOperation[]> {
+    const space = await findInTrash(this.spaceRepository.findDeleted(), spaceId);
+
+    const [actionDefinitions, actionLogs, problems, todos, clockEvents, dataEntries] = await Promise.all([
+      this.actionDefinitionRepository.findDeleted(),
+      this.actionLogRepository.findDeleted(),
+      this.problemRepository.findDeleted(),
+      this.todoRepository.findDeleted(),
+      this.clockEventRepository.findDeleted(),
+      this.dataEntryLogRepository.findDeleted(),
+    ]);
+    const trashedWithSpace = <T extends { spaceId: string; deletedAt?: string }>(records: T[]) =>
+      records.filter(record => record.spaceId === spaceId && record.deletedAt === space.deletedAt).map(withoutDeletedAt);
+
+    // Trashing the space dropped its rollups; the restored logs are all it has live again
+    const restoredActionLogs = trashedWithSpace(actionLogs);
+    const restoredClockEvents = trashedWithSpace(clockEvents);
+    const restoredDataEntries = trashedWithSpace(dataEntries);
+    const rollups = computeDailyRollups(spaceId, restoredActionLogs, restoredDataEntries, restoredClockEvents);
+
+    return [
+      { type: 'put', storeName: STORE_SPACES, record: withoutDeletedAt(space) },
+      ...trashedWithSpace(actionDefinitions).map((record): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_ACTION_DEFINITIONS, record })),
+      ...restoredActionLogs.map((record): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_ACTION_LOGS, record })),
+      ...trashedWithSpace(problems).map((record): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_PROBLEMS, record })),
+      ...trashedWithSpace(todos).map((record): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_TODOS, record })),
+      ...restoredClockEvents.map((record): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_CLOCK_EVENTS, record })),
+      ...restoredDataEntries.map((record): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_DATA_ENTRIES, record })),
+      ...rollups.map((record): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_DAILY_ROLLUPS, record })),
+    ];
+  }
+
+  private async restoreActionDefinition(id: string): Promise<UnitOfWorkOperation[]> {
+    const definition = await findInTrash(this.actionDefinitionRepository.findDeleted(), id);
+    await this.ensureSpaceIsLive(definition.spaceId);
+
+    const [actionLogs, dataEntries] = await Promise.all([
+      this.actionLogRepository.findDeleted(),
+      this.dataEntryLogRepository.findDeleted(),
+    ]);
+    const trashedWithDefinition = <T extends { actionDefinitionId: string; deletedAt?: string }>(records: T[]) =>
+      records.filter(record => record.actionDefinitionId === id && record.deletedAt === definition.deletedAt).map(withoutDeletedAt);
+
+    const restoredActionLogs = trashedWithDefinition(actionLogs);
+    const restoredDataEntries = trashedWithDefinition(dataEntries);
+
+    return [
+      { type: 'put', storeName: STORE_ACTION_DEFINITIONS, record: withoutDeletedAt(definition) },
+      ...restoredActionLogs.map((record): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_ACTION_LOGS, record })),
+      ...restoredDataEntries.map((record): UnitOfWorkOperation => ({ type: 'put', storeName: STORE_DATA_ENTRIES, record })),
+      {
+        type: 'updateBySpaceId',
+        storeName: STORE_DAILY_ROLLUPS,
+        spaceId: definition.spaceId,
+        update: rollups => applyDailyRollupChanges(rollups, definition.spaceId, { addedActionLogs: restoredActionLogs, addedDataEntries: restoredDataEntries }),
+      },
+    ];
+  }
+}
@@ -0,0 +1,30 @@
+// src/components/attachment-image.tsx
+"use client";
+
+import NextImage from 'next/image';
+import { useAttachmentUrl } from '@/hooks';
+import { cn } from '@/lib/utils';
+
+interface AttachmentImageProps {
+  attachmentId: string;
+  alt: string;
+  width: number;
+  height: number;
+  className?: string;
+  'data-ai-hint'?: string;
+}
+
+/**
+ * Shows an image stored in the attachments store. Renders a placeholder of the
+ * same size while the blob is being read.
+ */
+export function AttachmentImage({ attachmentId, alt, width, height, className, ...rest }: AttachmentImageProps) {
+  const url = useAttachmentUrl(attachmentId);
+
+  if (!url) {
+    return <div className={cn("rounded border bg-muted animate-pulse", className)} style={{ width, height }} aria-label={alt} />;
+  }
+
+  // Object URLs can't go through the Next.js image optimizer
+  return <NextImage src={url} alt={alt} width={width} height={height} className={className} unoptimized {...rest} />;
+}
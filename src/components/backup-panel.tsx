@@ -0,0 +1,224 @@
+// src/components/backup-panel.tsx
+"use client";
+
+import { useState, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { History, Loader2, AlertTriangle, CheckCircle, RotateCcw, Trash2, Save } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { BackupSnapshot, BackupTrigger } from '@/domain/entities';
+import { InvalidAppDataExportError } from '@/application/use-cases';
+import { useBackups } from '@/hooks/data';
+import { formatBytes } from '@/lib/blob-utils';
+
+interface BackupPanelProps {
+  disabled?: boolean;
+}
+
+const SCHEDULE_OPTIONS = [
+  { hours: 0, label: 'Off' },
+  { hours: 6, label: 'Every 6 hours' },
+  { hours: 12, label: 'Every 12 hours' },
+  { hours: 24, label: 'Daily' },
+  { hours: 168, label: 'Weekly' },
+];
+
+const TRIGGER_LABELS: Record<BackupTrigger, string> = {
+  scheduled: 'Scheduled',
+  manual: 'Manual',
+  beforeImport: 'Before import',
+  beforeClear: 'Before clearing data',
+  beforeRestore: 'Before restore',
+};
+
+// userProgress is a single record, so it is left out of the summary
+const RECORD_COUNT_LABELS: [string, string][] = [
+  ['spaces', 'spaces'],
+  ['actionDefinitions', 'actions'],
+  ['actionLogs', 'logs'],
+  ['dataEntries', 'data entries'],
+  ['todos', 'to-dos'],
+  ['problems', 'problems'],
+  ['clockEvents', 'clock events'],
+  ['attachments', 'images'],
+  ['recordHistory', 'history entries'],
+];
+
+const summarizeRecordCounts = (snapshot: BackupSnapshot): string =>
+  RECORD_COUNT_LABELS
+    .filter(([recordType]) => (snapshot.recordCounts[recordType] ?? 0) > 0)
+    .map(([recordType, label]) => `${snapshot.recordCounts[recordType]} ${label}`)
+    .join(' · ') || 'No data';
+
+export function BackupPanel({ disabled }: BackupPanelProps) {
+  const { snapshots, isLoadingSnapshots, snapshotsError, scheduledBackupError, settings, createBackup, restoreBackup, deleteBackup, updateSettings } = useBackups();
+  const [keepDaily, setKeepDaily] = useState(() => String(settings.keepDaily));
+  const [keepWeekly, setKeepWeekly] = useState(() => String(settings.keepWeekly));
+  const [isWorking, setIsWorking] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<BackupSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const resetMessages = () => {
+    setError(null);
+    setSuccess(null);
+  };
+
+  // Runs one action at a time and reports how it went
+  const run = useCallback(async (action: () => Promise<string>, fallbackError: string) => {
+    resetMessages();
+    setIsWorking(true);
+    try {
+      setSuccess(await action());
+    } catch (err) {
+      console.error("Backup action failed:", err);
+      const message = err instanceof Error ? err.message : fallbackError;
+      const firstIssue = err instanceof InvalidAppDataExportError ? err.issues[0] : undefined;
+      setError(firstIssue ? `${message} ${firstIssue.path}: ${firstIssue.message}` : message);
+    } finally {
+      setIsWorking(false);
+    }
+  }, []);
+
+  const handleScheduleChange = (value: string) => {
+    resetMessages();
+    updateSettings({ ...settings, intervalHours: Number(value) });
+  };
+
+  const handleSaveRotation = () => {
+    resetMessages();
+    try {
+      updateSettings({ ...settings, keepDaily: Number(keepDaily), keepWeekly: Number(keepWeekly) });
+      setSuccess("Rotation saved. It applies from the next backup.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save the rotation.");
+    }
+  };
+
+  const handleBackUpNow = () => run(async () => {
+    const snapshot = await createBackup();
+    return `Backup saved (${formatBytes(snapshot.size)}).`;
+  }, "Could not save a backup.");
+
+  const handleConfirmRestore = () => {
+    if (!pendingRestore) return;
+    const snapshot = pendingRestore;
+    setPendingRestore(null);
+    run(async () => {
+      await restoreBackup(snapshot.id);
+      return `Restored the backup from ${format(parseISO(snapshot.createdAt), 'MMM d, yyyy HH:mm')}. You may need to refresh the app.`;
+    }, "Could not restore the backup.");
+  };
+
+  const handleDelete = (snapshot: BackupSnapshot) => run(async () => {
+    await deleteBackup(snapshot.id);
+    return "Backup deleted.";
+  }, "Could not delete the backup.");
+
+  const isBusy = disabled || isWorking;
+
+  return (
+    <Card className="shadow-md rounded-xl">
+      <CardHeader className="p-4">
+        <CardTitle className="text-lg flex items-center"><History className="mr-2.5 h-5 w-5 text-primary"/>Backups</CardTitle>
+        <CardDescription className="text-sm">Copies of all your data kept on this device, taken on a schedule and before every import or clear.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 p-4">
+        {(error || snapshotsError || scheduledBackupError) && <Alert variant="destructive" className="text-xs p-2"><AlertTriangle className="h-4 w-4" /><AlertDescription>{error || snapshotsError || scheduledBackupError}</AlertDescription></Alert>}
+        {success && <Alert variant="default" className="border-green-500 bg-green-50 text-green-700 text-xs p-2"><CheckCircle className="h-4 w-4 text-green-600" /><AlertDescription>{success}</AlertDescription></Alert>}
+
+        <div className="rounded-lg border p-3 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="backup-schedule" className="text-sm">Automatic backups</Label>
+            <Select value={String(settings.intervalHours)} onValueChange={handleScheduleChange} disabled={isBusy}>
+              <SelectTrigger id="backup-schedule" className="h-9 w-40 text-sm"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {SCHEDULE_OPTIONS.map(option => (
+                  <SelectItem key={option.hours} value={String(option.hours)} className="text-sm">{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="backup-keep-daily" className="text-xs">Daily backups kept</Label>
+              <Input id="backup-keep-daily" type="number" min={1} value={keepDaily} onChange={(e) => setKeepDaily(e.target.value)} className="h-9 text-sm" disabled={isBusy} />
+            </div>
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="backup-keep-weekly" className="text-xs">Weekly backups kept</Label>
+              <Input id="backup-keep-weekly" type="number" min={0} value={keepWeekly} onChange={(e) => setKeepWeekly(e.target.value)} className="h-9 text-sm" disabled={isBusy} />
+            </div>
+            <Button variant="outline" size="icon" onClick={handleSaveRotation} disabled={isBusy} className="h-9 w-9 shrink-0" aria-label="Save rotation">
+              <Save className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">All of the most recent day&apos;s backups are kept; for earlier days and weeks only the latest one is.</p>
+        </div>
+
+        <Button onClick={handleBackUpNow} className="w-full text-md py-2.5 rounded-lg" disabled={isBusy} size="default">
+          {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <History className="mr-2 h-4 w-4" />}
+          {isWorking ? "Working..." : "Back Up Now"}
+        </Button>
+
+        {isLoadingSnapshots ? (
+          <div className="flex justify-center py-2"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+        ) : snapshots.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-2">No backups yet.</p>
+        ) : (
+          <ScrollArea className="h-56 rounded-lg border">
+            <ul className="divide-y">
+              {snapshots.map(snapshot => (
+                <li key={snapshot.id} className="flex items-center gap-2 p-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium">
+                      {format(parseISO(snapshot.createdAt), 'MMM d, yyyy HH:mm')}
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">{TRIGGER_LABELS[snapshot.trigger]} · {formatBytes(snapshot.size)}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">{summarizeRecordCounts(snapshot)}</p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setPendingRestore(snapshot)} disabled={isBusy} className="h-8 text-xs">
+                    <RotateCcw className="mr-1.5 h-3.5 w-3.5" />Restore
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(snapshot)} disabled={isBusy} className="h-8 w-8" aria-label="Delete backup">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pendingRestore} onOpenChange={(open) => { if (!open) setPendingRestore(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore this backup?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All current data will be replaced with the backup from {pendingRestore ? format(parseISO(pendingRestore.createdAt), 'MMM d, yyyy HH:mm') : ''}.
+              A backup of the current data is saved first, so you can go back.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmRestore}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
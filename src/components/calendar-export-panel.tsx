@@ -0,0 +1,117 @@
+// src/components/calendar-export-panel.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { format, parseISO, subDays } from 'date-fns';
+import { CalendarClock, Loader2, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { Space } from '@/domain/entities';
+import { useUseCases } from '@/contexts/AppContainerProvider';
+import { useDataChanges } from '@/hooks/data';
+import { downloadBlob } from '@/lib/blob-utils';
+
+interface CalendarExportPanelProps {
+  disabled?: boolean;
+}
+
+const ALL_SPACES = 'all'; // Select items cannot have an empty value
+
+export function CalendarExportPanel({ disabled }: CalendarExportPanelProps) {
+  const [spaces, setSpaces] = useState<Space[]>([]);
+  const [spaceId, setSpaceId] = useState(ALL_SPACES);
+  const [rangeFrom, setRangeFrom] = useState(() => format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [rangeTo, setRangeTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const { getAllSpacesUseCase, exportTimeCalendarUseCase } = useUseCases();
+
+  const loadSpaces = useCallback(async () => {
+    try {
+      const allSpaces = await getAllSpacesUseCase.execute();
+      setSpaces(allSpaces.sort((a, b) => b.date.localeCompare(a.date) || a.name.localeCompare(b.name)));
+    } catch (err: any) {
+      console.error("Failed to load spaces for the calendar export:", err);
+      setError(err.message || "Could not load spaces.");
+    }
+  }, [getAllSpacesUseCase]);
+
+  useEffect(() => {
+    loadSpaces();
+  }, [loadSpaces]);
+
+  useDataChanges({ storeNames: ['spaces'], onChange: loadSpaces });
+
+  const handleExport = useCallback(async () => {
+    setError(null);
+    setSuccess(null);
+    setIsExporting(true);
+    try {
+      const file = await exportTimeCalendarUseCase.execute({
+        spaceId: spaceId === ALL_SPACES ? undefined : spaceId,
+        from: rangeFrom || undefined,
+        to: rangeTo || undefined,
+      });
+      if (file.eventCount === 0) {
+        setSuccess("No clock sessions or timer logs in this range.");
+        return;
+      }
+      downloadBlob(new Blob([file.content], { type: `${file.mimeType};charset=utf-8` }), file.fileName);
+      setSuccess(`Exported ${file.eventCount} event${file.eventCount === 1 ? '' : 's'}. Importing the file again later updates them instead of adding copies.`);
+    } catch (err: any) {
+      console.error("Calendar export failed:", err);
+      setError(err.message || "Could not export the calendar.");
+    } finally {
+      setIsExporting(false);
+    }
+  }, [exportTimeCalendarUseCase, spaceId, rangeFrom, rangeTo]);
+
+  const isBusy = disabled || isExporting;
+
+  return (
+    <Card className="shadow-md rounded-xl">
+      <CardHeader className="p-4">
+        <CardTitle className="text-lg flex items-center"><CalendarClock className="mr-2.5 h-5 w-5 text-primary"/>Calendar Export</CardTitle>
+        <CardDescription className="text-sm">Download clock sessions and timer logs as an .ics file for your calendar.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 p-4">
+        {error && <Alert variant="destructive" className="text-xs p-2"><AlertTriangle className="h-4 w-4" /><AlertDescription>{error}</AlertDescription></Alert>}
+        {success && <Alert variant="default" className="border-green-500 bg-green-50 text-green-700 text-xs p-2"><CheckCircle className="h-4 w-4 text-green-600" /><AlertDescription>{success}</AlertDescription></Alert>}
+
+        <div className="space-y-1">
+          <Label htmlFor="calendar-space" className="text-xs">Space</Label>
+          <Select value={spaceId} onValueChange={setSpaceId} disabled={isBusy}>
+            <SelectTrigger id="calendar-space" className="h-9 text-sm"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_SPACES} className="text-sm">All spaces</SelectItem>
+              {spaces.map(space => (
+                <SelectItem key={space.id} value={space.id} className="text-sm">{space.name} ({format(parseISO(space.date), 'MMM d, yyyy')})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="calendar-from" className="text-xs">From</Label>
+            <Input id="calendar-from" type="date" value={rangeFrom} onChange={(e) => setRangeFrom(e.target.value)} className="h-9 text-sm" disabled={isBusy} />
+          </div>
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="calendar-to" className="text-xs">To</Label>
+            <Input id="calendar-to" type="date" value={rangeTo} onChange={(e) => setRangeTo(e.target.value)} className="h-9 text-sm" disabled={isBusy} />
+          </div>
+        </div>
+        <Button onClick={handleExport} className="w-full text-md py-2.5 rounded-lg" disabled={isBusy} size="default">
+          {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CalendarClock className="mr-2 h-4 w-4" />}
+          {isExporting ? "Exporting..." : "Export .ics"}
+        </Button>
+        <p className="text-xs text-muted-foreground text-center">A session you are still clocked in to is added once you clock out.</p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,234 @@
+// src/components/dialogs/action-templates-dialog.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { LayoutTemplate, Loader2, AlertTriangle, CheckCircle, Download, Upload, Plus } from 'lucide-react';
+import type { ActionDefinition } from '@/domain/entities';
+import type { ActionTemplateDTO } from '@/application/dto';
+import { ACTION_TEMPLATE_GALLERY, createActionTemplateFile, InvalidActionTemplateFileError } from '@/application/use-cases';
+import { useUseCases } from '@/contexts/AppContainerProvider';
+import { downloadBlob } from '@/lib/blob-utils';
+
+interface ActionTemplatesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  spaceId: string;
+  actionDefinitions: ActionDefinition[]; // The space's actions, offered for export
+  onTemplatesAdded: (definitions: ActionDefinition[]) => void;
+}
+
+const MAX_LISTED_ISSUES = 5;
+
+function describeTemplate(template: Pick<ActionTemplateDTO, 'type' | 'steps' | 'formFields'>): string {
+  const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+  switch (template.type) {
+    case 'multi-step':
+      return count(template.steps?.length ?? 0, 'step');
+    case 'data-entry':
+      return count(template.formFields?.length ?? 0, 'field');
+    case 'timer':
+      return 'Timer';
+    default:
+      return 'Single action';
+  }
+}
+
+export function ActionTemplatesDialog({ isOpen, onClose, spaceId, actionDefinitions, onTemplatesAdded }: ActionTemplatesDialogProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [busyItem, setBusyItem] = useState<string | null>(null); // Gallery item id, 'import' or 'export'
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const { exportActionTemplatesUseCase, importActionTemplatesUseCase } = useUseCases();
+
+  useEffect(() => {
+    if (!isOpen) {
+      setSelectedIds([]);
+      setError(null);
+      setIssues([]);
+      setSuccess(null);
+    }
+  }, [isOpen]);
+
+  const resetMessages = () => {
+    setError(null);
+    setIssues([]);
+    setSuccess(null);
+  };
+
+  const importTemplates = useCallback(async (busyKey: string, readFile: () => Promise<unknown>) => {
+    resetMessages();
+    setBusyItem(busyKey);
+    try {
+      const added = await importActionTemplatesUseCase.execute(await readFile(), { spaceId });
+      onTemplatesAdded(added);
+      setSuccess(added.length === 1 ? `Added "${added[0].name}".` : `Added ${added.length} actions.`);
+    } catch (err) {
+      console.error("Action template import failed:", err);
+      setError(err instanceof Error ? err.message : "Could not add the templates.");
+      if (err instanceof InvalidActionTemplateFileError) {
+        setIssues(err.issues.map(issue => `${issue.path}: ${issue.message}`));
+      }
+    } finally {
+      setBusyItem(null);
+    }
+  }, [importActionTemplatesUseCase, spaceId, onTemplatesAdded]);
+
+  const handleAddFromGallery = (itemId: string, template: ActionTemplateDTO) =>
+    importTemplates(itemId, async () => createActionTemplateFile([template]));
+
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      importTemplates('import', async () => JSON.parse(await file.text()));
+    }
+    if (event.target) event.target.value = '';
+  };
+
+  const handleExport = useCallback(async () => {
+    resetMessages();
+    setBusyItem('export');
+    try {
+      const file = await exportActionTemplatesUseCase.execute(selectedIds);
+      const baseName = file.templates.length === 1
+        ? file.templates[0].name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'action'
+        : `actions_${format(new Date(), 'yyyy-MM-dd')}`;
+      downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }), `okapi_template_${baseName}.json`);
+      setSuccess(`Exported ${file.templates.length} template${file.templates.length === 1 ? '' : 's'}.`);
+    } catch (err: any) {
+      console.error("Action template export failed:", err);
+      setError(err.message || "Could not export the selected actions.");
+    } finally {
+      setBusyItem(null);
+    }
+  }, [exportActionTemplatesUseCase, selectedIds]);
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, id] : prev.filter(selectedId => selectedId !== id));
+  };
+
+  const isBusy = busyItem !== null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isBusy && onClose()}>
+      <DialogContent className="sm:max-w-lg md:max-w-2xl max-h-[85vh] flex flex-col p-0">
+        <DialogHeader className="p-4 pb-2 border-b shrink-0">
+          <DialogTitle className="text-lg sm:text-xl flex items-center">
+            <LayoutTemplate className="mr-2 h-5 w-5 text-primary"/> Action Templates
+          </DialogTitle>
+          <DialogDescription className="text-xs sm:text-sm">
+            Start from a ready-made action, or share actions with their steps and form fields between spaces.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="px-4 pt-2 space-y-2 shrink-0">
+          {error && (
+            <Alert variant="destructive" className="text-xs p-2">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {error}
+                {issues.length > 0 && (
+                  <ul className="mt-1 space-y-0.5 font-mono break-words">
+                    {issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => <li key={index}>{issue}</li>)}
+                    {issues.length > MAX_LISTED_ISSUES && <li>…and {issues.length - MAX_LISTED_ISSUES} more</li>}
+                  </ul>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+          {success && <Alert variant="default" className="border-green-500 bg-green-50 text-green-700 text-xs p-2"><CheckCircle className="h-4 w-4 text-green-600" /><AlertDescription>{success}</AlertDescription></Alert>}
+        </div>
+
+        <Tabs defaultValue="gallery" className="flex-1 flex flex-col overflow-hidden p-4 pt-2">
+          <TabsList className="grid w-full grid-cols-2 shrink-0">
+            <TabsTrigger value="gallery" className="text-xs sm:text-sm">Gallery</TabsTrigger>
+            <TabsTrigger value="share" className="text-xs sm:text-sm">Import &amp; Export</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="gallery" className="flex-1 overflow-hidden mt-2">
+            <ScrollArea className="h-[45vh] pr-2">
+              <ul className="space-y-2">
+                {ACTION_TEMPLATE_GALLERY.map(item => (
+                  <li key={item.id} className="flex items-start gap-3 rounded-lg border p-3">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <p className="text-sm font-medium flex items-center gap-2">
+                        {item.template.name}
+                        <Badge variant="secondary" className="text-[10px] px-1.5 py-0">{item.category}</Badge>
+                      </p>
+                      {item.template.description && <p className="text-xs text-muted-foreground">{item.template.description}</p>}
+                      <p className="text-xs text-muted-foreground">{describeTemplate(item.template)} · {item.template.pointsForCompletion} pts</p>
+                    </div>
+                    <Button size="sm" variant="outline" className="h-8 text-xs shrink-0" onClick={() => handleAddFromGallery(item.id, item.template)} disabled={isBusy}>
+                      {busyItem === item.id ? <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" /> : <Plus className="mr-1.5 h-3.5 w-3.5" />}
+                      Add
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="share" className="flex-1 overflow-hidden mt-2 space-y-3">
+            {actionDefinitions.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-2">This space has no actions to export yet.</p>
+            ) : (
+              <ScrollArea className="h-40 rounded-lg border">
+                <ul className="p-2 space-y-1">
+                  {actionDefinitions.map(definition => (
+                    <li key={definition.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`template-export-${definition.id}`}
+                        checked={selectedIds.includes(definition.id)}
+                        onCheckedChange={(checked) => toggleSelected(definition.id, checked === true)}
+                        disabled={isBusy}
+                      />
+                      <Label htmlFor={`template-export-${definition.id}`} className="text-sm font-normal flex-1 truncate">{definition.name}</Label>
+                      <span className="text-xs text-muted-foreground">{describeTemplate(definition)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </ScrollArea>
+            )}
+            <Button onClick={handleExport} className="w-full" disabled={isBusy || selectedIds.length === 0}>
+              {busyItem === 'export' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+              {busyItem === 'export' ? "Exporting..." : `Export ${selectedIds.length || ''} Selected`}
+            </Button>
+            <label htmlFor="action-template-file" className="block w-full">
+              <Button asChild className="w-full" variant="outline" disabled={isBusy}>
+                <span>
+                  {busyItem === 'import' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                  {busyItem === 'import' ? "Importing..." : "Import Template File"}
+                </span>
+              </Button>
+              <input type="file" id="action-template-file" accept=".json,application/json" onChange={handleImportFile} className="hidden" disabled={isBusy} />
+            </label>
+            <p className="text-xs text-muted-foreground text-center">Imported actions get new ids and are added after this space&apos;s own actions.</p>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter className="p-4 pt-2 border-t shrink-0 flex-row items-center justify-end gap-2">
+          <Button type="button" variant="outline" size="default" onClick={onClose} disabled={isBusy}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
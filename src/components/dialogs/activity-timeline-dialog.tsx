@@ -11,7 +11,7 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { ActivityTimelineView } from '@/components/space-tabs/activity-timeline-view';
-import type { TimelineItem } from '@/application/dto';
+import type { TimelineItem, TimelineItemType } from '@/application/dto';
 import { GanttChartSquare } from 'lucide-react';
 
 interface ActivityTimelineDialogProps {
@@ -19,7 +19,13 @@ interface ActivityTimelineDialogProps {
   onClose: () => void;
   timelineItems: TimelineItem[];
   isLoading: boolean;
+  isLoadingMore?: boolean;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+  selectedTypes?: TimelineItemType[];
+  onSelectedTypesChange?: (types: TimelineItemType[]) => void;
   title?: string; // Make title optional
+  onUndoItem?: (item: TimelineItem) => Promise<void>;
 }
 
 export function ActivityTimelineDialog({
@@ -27,7 +33,13 @@ export function ActivityTimelineDialog({
   onClose,
   timelineItems,
   isLoading,
-  title = "Activity Timeline" // Default title
+  isLoadingMore,
+  hasMore,
+  onLoadMore,
+  selectedTypes,
+  onSelectedTypesChange,
+  title = "Activity Timeline", // Default title
+  onUndoItem,
 }: ActivityTimelineDialogProps) {
   if (!isOpen) {
     return null;
@@ -41,13 +53,19 @@ export function ActivityTimelineDialog({
             <GanttChartSquare className="mr-2 h-5 w-5 text-green-500"/> {title}
           </DialogTitle>
           <DialogDescription className="text-xs sm:text-sm">
-            Recent activity in this space. Future: Gantt chart visualization.
+            All activity in this space, newest first. Future: Gantt chart visualization.
           </DialogDescription>
         </DialogHeader>
         <div className="flex-1 overflow-hidden p-2 sm:p-4">
           <ActivityTimelineView
             timelineItems={timelineItems}
             isLoading={isLoading}
+            isLoadingMore={isLoadingMore}
+            hasMore={hasMore}
+            onLoadMore={onLoadMore}
+            selectedTypes={selectedTypes}
+            onSelectedTypesChange={onSelectedTypesChange}
+            onUndoItem={onUndoItem}
           />
         </div>
         <DialogFooter className="p-4 pt-2 border-t shrink-0">
@@ -2,7 +2,7 @@
 // src/components/dialogs/create-todo-dialog.tsx
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import {
   Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter
@@ -16,6 +16,7 @@ import { ImageCaptureDialogView } from '@/components/dialogs';
 import NextImage from 'next/image';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Label } from '@/components/ui/label';
+import { canvasToBlob } from '@/lib/blob-utils';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -46,11 +47,18 @@ export function CreateTodoDialog({
   createTodoUseCase,
   onTodoCreated,
 }: CreateTodoDialogProps) {
-  const [beforeImageDataUri, setBeforeImageDataUri] = useState<string | undefined>(undefined);
+  const [beforeImage, setBeforeImage] = useState<Blob | undefined>(undefined);
+  const beforeImagePreviewUrl = useMemo(() => beforeImage ? URL.createObjectURL(beforeImage) : undefined, [beforeImage]);
   const [imageCaptureError, setImageCaptureError] = useState<string | null>(null);
 
   const imageCapture: UseImageCaptureDialogReturn<null, CaptureMode> = useImageCaptureDialog<null, CaptureMode>();
 
+  useEffect(() => {
+    return () => {
+      if (beforeImagePreviewUrl) URL.revokeObjectURL(beforeImagePreviewUrl);
+    };
+  }, [beforeImagePreviewUrl]);
+
   const form = useForm<TodoFormValues>({
     resolver: zodResolver(todoFormSchema),
     defaultValues: {
@@ -61,7 +69,7 @@ export function CreateTodoDialog({
 
   const resetDialogState = useCallback(() => {
     form.reset();
-    setBeforeImageDataUri(undefined);
+    setBeforeImage(undefined);
     setImageCaptureError(null);
     form.clearErrors();
   }, [form]);
@@ -97,10 +105,14 @@ export function CreateTodoDialog({
       return;
     }
     context.drawImage(video, 0, 0, canvas.width, canvas.height);
-    const imageDataUri = canvas.toDataURL('image/jpeg', 0.8);
-    setBeforeImageDataUri(imageDataUri);
-    imageCapture.setIsCapturingImage(false);
-    imageCapture.handleCloseImageCaptureDialog();
+    try {
+      setBeforeImage(await canvasToBlob(canvas));
+      imageCapture.handleCloseImageCaptureDialog();
+    } catch (e: any) {
+      setImageCaptureError(e.message || "Could not capture image.");
+    } finally {
+      imageCapture.setIsCapturingImage(false);
+    }
   }, [imageCapture]);
 
   const onSubmit = async (values: TodoFormValues) => {
@@ -108,7 +120,7 @@ export function CreateTodoDialog({
       const newTodoData: CreateTodoInputDTO = {
         spaceId,
         description: values.description.trim(),
-        beforeImageDataUri: beforeImageDataUri,
+        beforeImage,
       };
       const newTodo = await createTodoUseCase.execute(newTodoData);
       onTodoCreated(newTodo); 
@@ -165,9 +177,9 @@ export function CreateTodoDialog({
                     <AlertDescription>{imageCaptureError}</AlertDescription>
                   </Alert>
                 )}
-                {beforeImageDataUri ? (
+                {beforeImagePreviewUrl ? (
                   <div className="mt-1 space-y-1.5">
-                    <NextImage src={beforeImageDataUri} alt="Before image preview" width={120} height={90} className="rounded border object-cover" data-ai-hint="task setup" />
+                    <NextImage src={beforeImagePreviewUrl} alt="Before image preview" width={120} height={90} unoptimized className="rounded border object-cover" data-ai-hint="task setup" />
                     <Button type="button" variant="outline" size="sm" onClick={handleOpenImageCapture} disabled={isSubmitting} className="text-xs h-8">
                       <Camera className="mr-1.5 h-3.5 w-3.5" /> Retake Image
                     </Button>
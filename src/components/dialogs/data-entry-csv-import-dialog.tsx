@@ -0,0 +1,270 @@
+// src/components/dialogs/data-entry-csv-import-dialog.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { FileUp, Loader2, AlertTriangle, CheckCircle } from 'lucide-react';
+import type { FormFieldDefinition } from '@/domain/entities';
+import { matchColumnsToFields, type ImportDataEntriesResultDTO } from '@/application/use-cases';
+import { useUseCases } from '@/contexts/AppContainerProvider';
+import { useBackupBeforeChange } from '@/hooks/data';
+import { parseDelimitedText } from '@/lib/delimited-text';
+
+export interface DataEntryCsvImportTarget {
+  spaceId: string;
+  actionDefinitionId: string;
+  stepId?: string;
+  title: string;
+  fields: FormFieldDefinition[];
+}
+
+interface DataEntryCsvImportDialogProps {
+  target: DataEntryCsvImportTarget | null; // The dialog is open while there is a form to import into
+  onClose: () => void;
+  onImported: (result: ImportDataEntriesResultDTO) => void;
+}
+
+interface ParsedTable {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+// Radix Select items cannot have an empty value
+const UNMAPPED = 'none';
+const MAX_LISTED_ROW_ERRORS = 20;
+const TIMESTAMP_HEADERS = ['timestamp', 'date', 'time', 'datetime', 'recorded', 'recordedat'];
+
+const columnLabel = (headers: string[], index: number) => headers[index]?.trim() || `Column ${index + 1}`;
+
+export function DataEntryCsvImportDialog({ target, onClose, onImported }: DataEntryCsvImportDialogProps) {
+  const [table, setTable] = useState<ParsedTable | null>(null);
+  const [columnMapping, setColumnMapping] = useState<Record<string, number | undefined>>({});
+  const [timestampColumn, setTimestampColumn] = useState<number | undefined>(undefined);
+  const [preview, setPreview] = useState<ImportDataEntriesResultDTO | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { importDataEntriesUseCase } = useUseCases();
+  const backupBeforeChange = useBackupBeforeChange();
+
+  useEffect(() => {
+    if (!target) {
+      setTable(null);
+      setColumnMapping({});
+      setTimestampColumn(undefined);
+      setPreview(null);
+      setError(null);
+    }
+  }, [target]);
+
+  useEffect(() => {
+    if (!target || !table) {
+      setPreview(null);
+      return;
+    }
+    // Every mapping change can turn rows valid or invalid, so the report is redone each time
+    let isCurrent = true;
+    setIsPreviewing(true);
+    setError(null);
+    importDataEntriesUseCase.execute({
+      spaceId: target.spaceId,
+      actionDefinitionId: target.actionDefinitionId,
+      stepId: target.stepId,
+      rows: table.rows,
+      columnMapping,
+      timestampColumn,
+      dryRun: true,
+    })
+      .then(result => { if (isCurrent) setPreview(result); })
+      .catch(err => {
+        console.error("Error checking data entry import:", err);
+        if (isCurrent) setError(err instanceof Error ? err.message : "Could not check the file.");
+      })
+      .finally(() => { if (isCurrent) setIsPreviewing(false); });
+    return () => {
+      isCurrent = false;
+    };
+  }, [target, table, columnMapping, timestampColumn, importDataEntriesUseCase]);
+
+  const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file && target) {
+      setError(null);
+      file.text()
+        .then(text => {
+          const [headers = [], ...rows] = parseDelimitedText(text);
+          if (headers.length === 0) {
+            throw new Error("The file is empty.");
+          }
+          const mapping = matchColumnsToFields(headers, target.fields);
+          const mappedColumns = new Set(Object.values(mapping));
+          const timestampIndex = headers.findIndex((header, index) =>
+            !mappedColumns.has(index) && TIMESTAMP_HEADERS.includes(header.toLowerCase().replace(/[^a-z]/g, ''))
+          );
+          setTable({ fileName: file.name, headers, rows });
+          setColumnMapping(mapping);
+          setTimestampColumn(timestampIndex >= 0 ? timestampIndex : undefined);
+        })
+        .catch(err => {
+          console.error("Error reading data entry import file:", err);
+          setTable(null);
+          setError(err instanceof Error ? err.message : "Could not read the file.");
+        });
+    }
+    if (event.target) event.target.value = '';
+  }, [target]);
+
+  const handleImport = async () => {
+    if (!target || !table) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      await backupBeforeChange('beforeImport');
+      onImported(await importDataEntriesUseCase.execute({
+        spaceId: target.spaceId,
+        actionDefinitionId: target.actionDefinitionId,
+        stepId: target.stepId,
+        rows: table.rows,
+        columnMapping,
+        timestampColumn,
+      }));
+    } catch (err) {
+      console.error("Error importing data entries:", err);
+      setError(err instanceof Error ? err.message : "Could not import the rows.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (!target) {
+    return null;
+  }
+
+  const toSelectValue = (column: number | undefined) => column === undefined ? UNMAPPED : String(column);
+  const fromSelectValue = (value: string) => value === UNMAPPED ? undefined : Number(value);
+  const columnOptions = table ? table.headers.map((_, index) => (
+    <SelectItem key={index} value={String(index)} className="text-xs">{columnLabel(table.headers, index)}</SelectItem>
+  )) : null;
+  const sortedFields = [...target.fields].sort((a, b) => a.order - b.order);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isImporting && onClose()}>
+      <DialogContent className="sm:max-w-lg md:max-w-2xl max-h-[85vh] flex flex-col p-0">
+        <DialogHeader className="p-4 pb-2 border-b shrink-0">
+          <DialogTitle className="text-lg sm:text-xl flex items-center">
+            <FileUp className="mr-2 h-5 w-5 text-primary"/> Import Entries
+          </DialogTitle>
+          <DialogDescription className="text-xs sm:text-sm">
+            Add rows from a CSV or TSV file with a header line to &quot;{target.title}&quot;. Columns are matched to fields by name; check the matches before importing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="flex-1 p-4">
+          <div className="space-y-3">
+            {error && <Alert variant="destructive" className="text-xs p-2"><AlertTriangle className="h-4 w-4" /><AlertDescription>{error}</AlertDescription></Alert>}
+
+            <label htmlFor="data-entry-import-file" className="block">
+              <Button asChild variant="outline" size="sm" className="w-full text-xs" disabled={isImporting}>
+                <span><FileUp className="mr-1 h-3.5 w-3.5" />{table ? `${table.fileName} (${table.rows.length} row${table.rows.length === 1 ? '' : 's'}) – choose another file` : "Choose a CSV or TSV file"}</span>
+              </Button>
+              <input type="file" id="data-entry-import-file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFileChange} className="hidden" disabled={isImporting} />
+            </label>
+
+            {table && (
+              <div className="rounded-lg border p-3 space-y-2">
+                {sortedFields.map(field => (
+                  <div key={field.id} className="flex items-center gap-2">
+                    <Label className="text-xs flex-1 truncate" title={field.name}>
+                      {field.label}{field.isRequired && <span className="text-destructive"> *</span>}
+                    </Label>
+                    <Select
+                      value={toSelectValue(columnMapping[field.name])}
+                      onValueChange={(value) => setColumnMapping(prev => ({ ...prev, [field.name]: fromSelectValue(value) }))}
+                      disabled={isImporting}
+                    >
+                      <SelectTrigger className="h-8 text-xs w-[180px]" aria-label={`Column for ${field.label}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED} className="text-xs">Leave empty</SelectItem>
+                        {columnOptions}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                <div className="flex items-center gap-2 border-t pt-2">
+                  <Label className="text-xs flex-1">Timestamp</Label>
+                  <Select value={toSelectValue(timestampColumn)} onValueChange={(value) => setTimestampColumn(fromSelectValue(value))} disabled={isImporting}>
+                    <SelectTrigger className="h-8 text-xs w-[180px]" aria-label="Column for the timestamp">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED} className="text-xs">Time of import</SelectItem>
+                      {columnOptions}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            {table && !preview && isPreviewing && (
+              <div className="flex justify-center items-center py-4"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+            )}
+
+            {preview && (
+              <>
+                {preview.validCount > 0 && (
+                  <Alert variant="default" className="border-green-500 bg-green-50 text-green-700 text-xs p-2">
+                    <CheckCircle className="h-4 w-4 text-green-600" />
+                    <AlertDescription>
+                      {preview.validCount} row{preview.validCount === 1 ? '' : 's'} ready to import.
+                      {preview.skippedBlankCount > 0 && ` ${preview.skippedBlankCount} blank row${preview.skippedBlankCount === 1 ? ' is' : 's are'} skipped.`}
+                    </AlertDescription>
+                  </Alert>
+                )}
+                {preview.errors.length > 0 && (
+                  <Alert variant="destructive" className="text-xs p-2">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      {preview.errors.length} row{preview.errors.length === 1 ? ' has' : 's have'} problems and will not be imported:
+                      <ul className="mt-1 space-y-0.5 break-words">
+                        {preview.errors.slice(0, MAX_LISTED_ROW_ERRORS).map(rowError => (
+                          <li key={rowError.rowNumber}><span className="font-mono">Row {rowError.rowNumber}:</span> {rowError.messages.join(' ')}</li>
+                        ))}
+                        {preview.errors.length > MAX_LISTED_ROW_ERRORS && <li>…and {preview.errors.length - MAX_LISTED_ROW_ERRORS} more</li>}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </>
+            )}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="p-4 pt-2 border-t shrink-0 flex-row items-center justify-end gap-2">
+          <Button type="button" variant="outline" size="default" onClick={onClose} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button type="button" size="default" onClick={handleImport} disabled={!preview || isPreviewing || isImporting || preview.validCount === 0}>
+            {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+            Import {preview && preview.validCount > 0 ? `${preview.validCount} Row${preview.validCount === 1 ? '' : 's'}` : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -20,7 +20,7 @@ interface DataEntryFormDialogProps {
   initialFormData?: Record<string, any>;
   isOpen: boolean;
   onClose: () => void;
-  onSubmitLog: (formData: Record<string, any>, existingEntryId?: string) => Promise<void>;
+  onSubmitLog: (formData: Record<string, any>, existingEntryId?: string, reason?: string) => Promise<void>;
   dialogTitle: string;
   dialogDescription?: string;
   existingEntryId?: string; // For edit mode
@@ -39,6 +39,7 @@ export function DataEntryFormDialog({
   const [formData, setFormData] = useState<Record<string, any>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
 
   const [isBarcodeScannerOpen, setIsBarcodeScannerOpen] = useState(false);
   const [currentScanningField, setCurrentScanningField] = useState<{ name: string; label: string } | null>(null);
@@ -59,6 +60,7 @@ export function DataEntryFormDialog({
         setFormData(initialData);
       }
       setError(null);
+      setReason('');
     } else {
       setFormData({}); // Reset on close if not already handled
     }
@@ -105,7 +107,7 @@ export function DataEntryFormDialog({
     
     setIsSubmitting(true);
     try {
-      await onSubmitLog(formData, existingEntryId);
+      await onSubmitLog(formData, existingEntryId, isEditMode ? reason : undefined);
       // Parent component (DataViewerDialog) handles closing on success.
     } catch (err: any) {
       console.error(`Error submitting data entry form (mode: ${isEditMode ? 'edit' : 'create'}):`, err);
@@ -190,6 +192,19 @@ export function DataEntryFormDialog({
                 )}
               </div>
             ))}
+            {isEditMode && (
+              <div className="space-y-0.5 border-t pt-3">
+                <Label htmlFor="data-entry-edit-reason" className="text-sm">Reason for change</Label>
+                <Input
+                  id="data-entry-edit-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Optional, kept in the change history"
+                  className="text-sm p-2 h-9"
+                  disabled={isSubmitting}
+                />
+              </div>
+            )}
             <DialogFooter className="mt-4">
               <Button type="button" variant="outline" size="sm" onClick={handleDialogClose} disabled={isSubmitting}>Cancel</Button>
               <Button type="submit" size="sm" disabled={isSubmitting}>
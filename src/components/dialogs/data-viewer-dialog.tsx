@@ -3,6 +3,7 @@
 "use client";
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
+import { format, subDays } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -13,16 +14,21 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { DataViewer } from '@/components/space-tabs/data-viewer';
-import type { GetDataEntriesBySpaceUseCase, UpdateDataEntryInputDTO } from '@/application/use-cases';
-import { UpdateDataEntryUseCase } from '@/application/use-cases'; // Added import
+import type { ExportDataEntriesInputDTO, GetDataEntriesBySpaceUseCase, ImportDataEntriesResultDTO, UpdateDataEntryInputDTO } from '@/application/use-cases';
 import type { ActionDefinition, FormFieldDefinition, DataEntryLog } from '@/domain/entities';
-import { Database, Loader2, AlertTriangle, ListFilter } from 'lucide-react';
+import { Database, Loader2, AlertTriangle, ListFilter, FileDown, FileUp } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Alert, AlertDescription as UIDialogAlertDescription } from "@/components/ui/alert";
 import { BarcodeDisplayDialog } from './barcode-display-dialog';
 import { DataEntryFormDialog } from './data-entry-form-dialog'; // For editing
-import { IndexedDBDataEntryLogRepository, IndexedDBActionDefinitionRepository } from '@/infrastructure/persistence/indexeddb';
+import { DataEntryCsvImportDialog, type DataEntryCsvImportTarget } from './data-entry-csv-import-dialog';
+import { RecordHistoryDialog } from './record-history-dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useUseCases } from '@/contexts/AppContainerProvider';
+import { downloadBlob } from '@/lib/blob-utils';
+import type { DelimitedTextFormat } from '@/lib/delimited-text';
 
 
 interface DataViewerDialogProps {
@@ -63,9 +69,15 @@ export function DataViewerDialog({
   const [dialogDescriptionForForm, setDialogDescriptionForForm] = useState<string | undefined>("");
   const [initialFormDataForForm, setInitialFormDataForForm] = useState<Record<string, any>>({});
 
-  const dataEntryRepository = useMemo(() => new IndexedDBDataEntryLogRepository(), []);
-  const actionDefRepository = useMemo(() => new IndexedDBActionDefinitionRepository(), []);
-  const updateDataEntryUseCase = useMemo(() => new UpdateDataEntryUseCase(dataEntryRepository, actionDefRepository), [dataEntryRepository, actionDefRepository]);
+  const [historyTarget, setHistoryTarget] = useState<{ entry: DataEntryLog; formInfo: DisplayableFormInfo } | null>(null);
+
+  const [rangeFrom, setRangeFrom] = useState(() => format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [rangeTo, setRangeTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [isExporting, setIsExporting] = useState(false);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [importTarget, setImportTarget] = useState<DataEntryCsvImportTarget | null>(null);
+
+  const { updateDataEntryUseCase, exportDataEntriesUseCase } = useUseCases();
 
 
   const fetchDataEntries = useCallback(async () => {
@@ -176,7 +188,7 @@ export function DataViewerDialog({
 
   }, [actionDefinitions]);
 
-  const handleSubmitDataEntryLog = useCallback(async (formData: Record<string, any>, existingId?: string) => {
+  const handleSubmitDataEntryLog = useCallback(async (formData: Record<string, any>, existingId?: string, reason?: string) => {
     if (!existingId) {
       setError("Cannot update entry: ID is missing."); // Should not happen in edit mode
       return;
@@ -185,6 +197,7 @@ export function DataViewerDialog({
       const updateDTO: UpdateDataEntryInputDTO = {
         id: existingId,
         formData,
+        reason,
       };
       await updateDataEntryUseCase.execute(updateDTO);
       await fetchDataEntries(); // Refresh data
@@ -198,6 +211,40 @@ export function DataViewerDialog({
   }, [updateDataEntryUseCase, fetchDataEntries]);
 
 
+  const exportEntries = useCallback(async (input: ExportDataEntriesInputDTO) => {
+    setIsExporting(true);
+    setStatusMessage(null);
+    try {
+      const files = await exportDataEntriesUseCase.execute(input);
+      files.forEach(file => downloadBlob(new Blob([file.content], { type: `${file.mimeType};charset=utf-8` }), file.fileName));
+      if (files.length === 0) setStatusMessage("No entries to export.");
+    } catch (err: any) {
+      console.error("Error exporting data entries:", err);
+      setError(err.message || "Could not export data entries.");
+    } finally {
+      setIsExporting(false);
+    }
+  }, [exportDataEntriesUseCase]);
+
+  const handleExportForm = (formInfo: DisplayableFormInfo, fileFormat: DelimitedTextFormat) =>
+    exportEntries({ format: fileFormat, spaceId, actionDefinitionId: formInfo.actionDefId, stepId: formInfo.stepId });
+
+  const handleOpenImport = (formInfo: DisplayableFormInfo) => {
+    setStatusMessage(null);
+    setImportTarget({ spaceId, actionDefinitionId: formInfo.actionDefId, stepId: formInfo.stepId, title: formInfo.title, fields: formInfo.fields });
+  };
+
+  const handleImported = useCallback(async (result: ImportDataEntriesResultDTO) => {
+    setImportTarget(null);
+    const skipped = result.errors.length > 0 ? `, ${result.errors.length} skipped` : '';
+    setStatusMessage(`Imported ${result.importedCount} entr${result.importedCount === 1 ? 'y' : 'ies'}${skipped}.`);
+    await fetchDataEntries();
+  }, [fetchDataEntries]);
+
+  // Covers every space, so a form used in each day's space ends up in one table
+  const handleExportRange = (fileFormat: DelimitedTextFormat) =>
+    exportEntries({ format: fileFormat, from: rangeFrom, to: rangeTo });
+
   if (!isOpen) {
     return null;
   }
@@ -253,12 +300,24 @@ export function DataViewerDialog({
               {displayableForms.map(formInfo => {
                 return (
                   <TabsContent key={formInfo.id} value={formInfo.id} className="flex-1 mt-0 p-1 sm:p-2">
+                    <div className="flex justify-end gap-2 mb-1">
+                      <Button variant="outline" size="sm" className="h-7 text-xs mr-auto" onClick={() => handleOpenImport(formInfo)} disabled={isExporting}>
+                        <FileUp className="mr-1 h-3.5 w-3.5" /> Import CSV
+                      </Button>
+                      <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => handleExportForm(formInfo, 'csv')} disabled={isExporting || formInfo.entries.length === 0}>
+                        <FileDown className="mr-1 h-3.5 w-3.5" /> CSV
+                      </Button>
+                      <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => handleExportForm(formInfo, 'tsv')} disabled={isExporting || formInfo.entries.length === 0}>
+                        <FileDown className="mr-1 h-3.5 w-3.5" /> TSV
+                      </Button>
+                    </div>
                     <DataViewer
                       formTitle={formInfo.title}
                       formFields={formInfo.fields}
                       dataEntries={formInfo.entries}
                       onShowBarcode={handleShowBarcodeInModal}
                       onEditEntry={handleOpenDataEntryFormForEdit}
+                      onShowHistory={(entry) => setHistoryTarget({ entry, formInfo })}
                     />
                   </TabsContent>
                 );
@@ -266,7 +325,24 @@ export function DataViewerDialog({
             </Tabs>
           )}
           
-          <DialogFooter className="p-4 pt-2 border-t shrink-0">
+          <DialogFooter className="p-4 pt-2 border-t shrink-0 flex-col sm:flex-row sm:items-end gap-2">
+            <div className="flex flex-wrap items-end gap-2 mr-auto">
+              <div className="space-y-1">
+                <Label htmlFor="data-export-from" className="text-xs">From</Label>
+                <Input id="data-export-from" type="date" value={rangeFrom} onChange={(e) => setRangeFrom(e.target.value)} className="h-8 text-xs w-[140px]" disabled={isExporting} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="data-export-to" className="text-xs">To</Label>
+                <Input id="data-export-to" type="date" value={rangeTo} onChange={(e) => setRangeTo(e.target.value)} className="h-8 text-xs w-[140px]" disabled={isExporting} />
+              </div>
+              <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => handleExportRange('csv')} disabled={isExporting || !rangeFrom || !rangeTo} title="Export every form of all spaces in this date range">
+                {isExporting ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : <FileDown className="mr-1 h-3.5 w-3.5" />} All forms CSV
+              </Button>
+              <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => handleExportRange('tsv')} disabled={isExporting || !rangeFrom || !rangeTo} title="Export every form of all spaces in this date range">
+                <FileDown className="mr-1 h-3.5 w-3.5" /> All forms TSV
+              </Button>
+              {statusMessage && <p className="text-xs text-muted-foreground self-center">{statusMessage}</p>}
+            </div>
             <Button type="button" variant="outline" size="default" onClick={onClose}>
               Close
             </Button>
@@ -298,6 +374,23 @@ export function DataViewerDialog({
           existingEntryId={entryToEdit?.id}
         />
       )}
+
+      <DataEntryCsvImportDialog
+        target={importTarget}
+        onClose={() => setImportTarget(null)}
+        onImported={handleImported}
+      />
+
+      {historyTarget && (
+        <RecordHistoryDialog
+          isOpen={!!historyTarget}
+          onClose={() => setHistoryTarget(null)}
+          recordType="dataEntry"
+          recordId={historyTarget.entry.id}
+          recordLabel={`the "${historyTarget.formInfo.title}" entry`}
+          fieldLabels={Object.fromEntries(historyTarget.formInfo.fields.map(field => [`data.${field.name}`, field.label]))}
+        />
+      )}
     </>
   );
 }
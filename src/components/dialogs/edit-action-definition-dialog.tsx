@@ -67,6 +67,7 @@ export function EditActionDefinitionDialog({
     formFields,
     order, setOrder,
     isEnabled, setIsEnabled,
+    changeReason, setChangeReason,
     isLoading,
     resetForm,
     handleAddStep, handleRemoveStep, handleStepChange,
@@ -343,6 +344,13 @@ export function EditActionDefinitionDialog({
 
           {renderStepContent()}
 
+          {currentStepIndex === totalStepsForWizard - 1 && (
+            <div className="space-y-1">
+              <Label htmlFor="edit-action-reason" className="text-sm">Reason for Change (Optional)</Label>
+              <Input id="edit-action-reason" value={changeReason} onChange={(e) => setChangeReason(e.target.value)} placeholder="Shown in the change history" className="text-sm p-2 h-9" disabled={isLoading || isDeleting}/>
+            </div>
+          )}
+
           <DialogFooter className="mt-4 sm:justify-between flex flex-col-reverse sm:flex-row gap-2">
              <AlertDialog>
               <AlertDialogTrigger asChild>
@@ -355,7 +363,7 @@ export function EditActionDefinitionDialog({
                 <AlertDialogHeader className="pb-2">
                   <AlertDialogTitle className="flex items-center text-md"><AlertTriangleIcon className="h-5 w-5 mr-2 text-destructive"/>Confirm Deletion</AlertDialogTitle>
                   <AlertDialogDesc className="text-xs">
-                    Are you sure you want to delete "{actionDefinition.name}"? This also removes associated logs. This action cannot be undone.
+                    Are you sure you want to delete "{actionDefinition.name}"? It will be moved to the Trash together with its logs.
                   </AlertDialogDesc>
                 </AlertDialogHeader>
                 {deleteError && (
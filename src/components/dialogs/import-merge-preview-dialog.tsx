@@ -0,0 +1,196 @@
+// src/components/dialogs/import-merge-preview-dialog.tsx
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { GitMerge, Loader2, AlertTriangle } from 'lucide-react';
+import type { AppDataExportDTO } from '@/application/dto';
+import {
+  APP_DATA_RECORD_TYPES,
+  type AppDataMergeResultDTO,
+  type AppDataRecordType,
+  type MergeConflictPolicies,
+  type MergeConflictPolicy,
+} from '@/application/use-cases';
+import { useUseCases } from '@/contexts/AppContainerProvider';
+import { useBackupBeforeChange } from '@/hooks/data';
+
+interface ImportMergePreviewDialogProps {
+  data: AppDataExportDTO | null; // The dialog is open while there is data to merge
+  onClose: () => void;
+  onMerged: (result: AppDataMergeResultDTO) => void;
+}
+
+const RECORD_TYPE_LABELS: Record<AppDataRecordType, string> = {
+  spaces: 'Spaces',
+  actionDefinitions: 'Actions',
+  actionLogs: 'Action logs',
+  problems: 'Problems',
+  todos: 'To-dos',
+  userProgress: 'Progress',
+  clockEvents: 'Clock events',
+  dataEntries: 'Data entries',
+  attachments: 'Images',
+  recordHistory: 'Edit history',
+};
+
+const POLICY_LABELS: Record<MergeConflictPolicy, string> = {
+  'newest-wins': 'Newest wins',
+  'keep-existing': 'Keep mine',
+  'prefer-imported': 'Use imported',
+};
+
+export function ImportMergePreviewDialog({ data, onClose, onMerged }: ImportMergePreviewDialogProps) {
+  const [policies, setPolicies] = useState<MergeConflictPolicies>({});
+  const [preview, setPreview] = useState<AppDataMergeResultDTO | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { mergeAppDataUseCase } = useUseCases();
+  const backupBeforeChange = useBackupBeforeChange();
+
+  useEffect(() => {
+    if (!data) {
+      setPolicies({});
+      setPreview(null);
+      setError(null);
+      return;
+    }
+    // The counts of records to write depend on the policies, so the preview is redone when they change
+    let isCurrent = true;
+    setIsPreviewing(true);
+    setError(null);
+    mergeAppDataUseCase.execute(data, { policies, dryRun: true })
+      .then(result => { if (isCurrent) setPreview(result); })
+      .catch(err => {
+        console.error("Error previewing import:", err);
+        if (isCurrent) setError(err instanceof Error ? err.message : "Could not read the import file.");
+      })
+      .finally(() => { if (isCurrent) setIsPreviewing(false); });
+    return () => {
+      isCurrent = false;
+    };
+  }, [data, policies, mergeAppDataUseCase]);
+
+  const handleMerge = async () => {
+    if (!data) return;
+    setIsMerging(true);
+    setError(null);
+    try {
+      await backupBeforeChange('beforeImport');
+      onMerged(await mergeAppDataUseCase.execute(data, { policies }));
+    } catch (err) {
+      console.error("Error merging import:", err);
+      setError(err instanceof Error ? err.message : "Could not merge the imported data.");
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  if (!data) {
+    return null;
+  }
+
+  const rows = preview
+    ? APP_DATA_RECORD_TYPES.filter(recordType => {
+        const counts = preview.counts[recordType];
+        return counts.new + counts.updated + counts.conflicting + counts.unchanged > 0;
+      })
+    : [];
+  const totalWritten = preview ? APP_DATA_RECORD_TYPES.reduce((sum, recordType) => sum + preview.counts[recordType].written, 0) : 0;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isMerging && onClose()}>
+      <DialogContent className="sm:max-w-lg md:max-w-2xl max-h-[85vh] flex flex-col p-0">
+        <DialogHeader className="p-4 pb-2 border-b shrink-0">
+          <DialogTitle className="text-lg sm:text-xl flex items-center">
+            <GitMerge className="mr-2 h-5 w-5 text-primary"/> Merge Import
+          </DialogTitle>
+          <DialogDescription className="text-xs sm:text-sm">
+            Records are matched by id. Updated records are newer than yours; conflicting ones differ but are not newer, and are resolved by the rule chosen for their type.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="flex-1 p-4">
+          {error && <Alert variant="destructive" className="mb-3 text-xs p-2"><AlertTriangle className="h-4 w-4" /><AlertDescription>{error}</AlertDescription></Alert>}
+          {!preview ? (
+            <div className="flex justify-center items-center py-6"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+          ) : rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">The file contains no records.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">Type</TableHead>
+                  <TableHead className="text-xs text-right">New</TableHead>
+                  <TableHead className="text-xs text-right">Updated</TableHead>
+                  <TableHead className="text-xs text-right">Conflicting</TableHead>
+                  <TableHead className="text-xs text-right">Unchanged</TableHead>
+                  <TableHead className="text-xs">On conflict</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(recordType => {
+                  const counts = preview.counts[recordType];
+                  return (
+                    <TableRow key={recordType}>
+                      <TableCell className="text-xs font-medium">{RECORD_TYPE_LABELS[recordType]}</TableCell>
+                      <TableCell className="text-xs text-right">{counts.new}</TableCell>
+                      <TableCell className="text-xs text-right">{counts.updated}</TableCell>
+                      <TableCell className={`text-xs text-right ${counts.conflicting > 0 ? 'text-amber-600 font-medium' : ''}`}>{counts.conflicting}</TableCell>
+                      <TableCell className="text-xs text-right text-muted-foreground">{counts.unchanged}</TableCell>
+                      <TableCell className="text-xs">
+                        <Select
+                          value={policies[recordType] ?? 'newest-wins'}
+                          onValueChange={(value) => setPolicies(prev => ({ ...prev, [recordType]: value as MergeConflictPolicy }))}
+                          disabled={isMerging}
+                        >
+                          <SelectTrigger className="h-8 text-xs w-[130px]" aria-label={`Conflict rule for ${RECORD_TYPE_LABELS[recordType]}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(POLICY_LABELS) as MergeConflictPolicy[]).map(policy => (
+                              <SelectItem key={policy} value={policy} className="text-xs">{POLICY_LABELS[policy]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </ScrollArea>
+
+        <DialogFooter className="p-4 pt-2 border-t shrink-0 flex-row items-center justify-end gap-2">
+          {preview && (
+            <p className="text-xs text-muted-foreground mr-auto">
+              {totalWritten} record{totalWritten === 1 ? '' : 's'} will be written.
+            </p>
+          )}
+          <Button type="button" variant="outline" size="default" onClick={onClose} disabled={isMerging}>
+            Cancel
+          </Button>
+          <Button type="button" size="default" onClick={handleMerge} disabled={!preview || isPreviewing || isMerging || totalWritten === 0}>
+            {isMerging ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,5 @@
 // src/components/dialogs/index.ts
+export * from './action-templates-dialog';
 export * from './activity-timeline-dialog';
 export * from './advanced-actions-dialog';
 // AlertDialog is from @/components/ui/alert-dialog, so not re-exported here unless it's a custom one.
@@ -7,12 +8,15 @@ export * from './barcode-display-dialog'; // Added new dialog
 export * from './create-action-definition-dialog';
 export * from './create-space-dialog';
 export * from './create-todo-dialog';
+export * from './data-entry-csv-import-dialog';
 export * from './data-entry-form-dialog';
 export * from './data-viewer-dialog';
 export * from './edit-action-definition-dialog';
 export * from './image-capture-dialog-view';
+export * from './import-merge-preview-dialog';
 export * from './multi-step-action-dialog';
 export * from './problem-tracker-dialog';
+export * from './record-history-dialog';
 export * from './space-settings-dialog';
 export * from './timer-action-dialog';
 export * from './todo-list-dialog';
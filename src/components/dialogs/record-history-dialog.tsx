@@ -0,0 +1,129 @@
+// src/components/dialogs/record-history-dialog.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { History, Loader2, AlertTriangle } from 'lucide-react';
+import type { HistoryRecordType, RecordHistoryEntry } from '@/domain/entities';
+import { useUseCases } from '@/contexts/AppContainerProvider';
+import { useDataChanges } from '@/hooks/data';
+
+interface RecordHistoryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  recordType: HistoryRecordType;
+  recordId: string;
+  recordLabel: string;
+  fieldLabels?: Record<string, string>; // Friendlier names for field paths, e.g. form field labels
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+};
+
+export function RecordHistoryDialog({
+  isOpen,
+  onClose,
+  recordType,
+  recordId,
+  recordLabel,
+  fieldLabels = {},
+}: RecordHistoryDialogProps) {
+  const [entries, setEntries] = useState<RecordHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { getRecordHistoryUseCase } = useUseCases();
+
+  const fetchHistory = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setEntries(await getRecordHistoryUseCase.execute(recordType, recordId));
+    } catch (err: any) {
+      console.error("Error loading record history:", err);
+      setError(err.message || "Could not load the change history.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getRecordHistoryUseCase, recordType, recordId]);
+
+  useEffect(() => {
+    if (isOpen) fetchHistory();
+  }, [isOpen, fetchHistory]);
+
+  useDataChanges({
+    storeNames: ['recordHistory'],
+    onChange: () => { if (isOpen) fetchHistory(); },
+  });
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg md:max-w-xl max-h-[85vh] flex flex-col p-0">
+        <DialogHeader className="p-4 pb-2 border-b shrink-0">
+          <DialogTitle className="text-lg sm:text-xl flex items-center">
+            <History className="mr-2 h-5 w-5 text-primary"/> Change History
+          </DialogTitle>
+          <DialogDescription className="text-xs sm:text-sm truncate">
+            Edits made to {recordLabel}, most recent first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="flex-1 p-4">
+          {isLoading ? (
+            <div className="flex justify-center items-center py-6"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+          ) : error ? (
+            <Alert variant="destructive" className="text-xs p-2"><AlertTriangle className="h-4 w-4" /><AlertDescription>{error}</AlertDescription></Alert>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No edits recorded yet.</p>
+          ) : (
+            <ol className="space-y-3">
+              {entries.map(entry => (
+                <li key={entry.id} className="rounded-md border p-3 space-y-2">
+                  <div className="flex justify-between items-baseline gap-2">
+                    <p className="text-sm font-medium">{format(parseISO(entry.timestamp), "MMM d, yyyy 'at' h:mm a")}</p>
+                    <p className="text-xs text-muted-foreground">{entry.changes.length} field{entry.changes.length === 1 ? '' : 's'}</p>
+                  </div>
+                  <p className="text-xs text-muted-foreground italic">{entry.reason ? `Reason: ${entry.reason}` : 'No reason given'}</p>
+                  <div className="space-y-1">
+                    {entry.changes.map(change => (
+                      <div key={change.field} className="grid grid-cols-3 gap-2 text-xs">
+                        <span className="font-medium text-muted-foreground truncate" title={change.field}>{fieldLabels[change.field] ?? change.field}</span>
+                        <span className="text-destructive line-through break-words">{formatValue(change.before)}</span>
+                        <span className="text-green-700 break-words">{formatValue(change.after)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </ScrollArea>
+
+        <DialogFooter className="p-4 pt-2 border-t shrink-0">
+          <Button type="button" variant="outline" size="default" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
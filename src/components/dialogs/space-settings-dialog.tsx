@@ -209,7 +209,7 @@ export function SpaceSettingsDialog({
             <AlertDialogTitle className="flex items-center text-lg"><AlertTriangleIcon className="h-6 w-6 mr-2 text-destructive"/>Confirm Deletion</AlertDialogTitle>
             <AlertDialogDesc className="text-sm">
               Are you sure you want to delete "{form.getValues("name") || space?.name}"? 
-              This will permanently remove the space and all its associated data. This action cannot be undone.
+              The space and all its associated data will be moved to the Trash, where you can restore them.
             </AlertDialogDesc>
           </AlertDialogHeader>
           {deleteError && (
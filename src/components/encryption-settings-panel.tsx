@@ -0,0 +1,171 @@
+// src/components/encryption-settings-panel.tsx
+"use client";
+
+import { useState, type FormEvent } from 'react';
+import { ShieldCheck, ShieldOff, Lock, KeyRound, Loader2, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useDatabaseEncryption } from '@/hooks';
+import { MIN_PASSPHRASE_LENGTH } from '@/lib/constants';
+
+interface EncryptionSettingsPanelProps {
+  disabled?: boolean;
+}
+
+type PendingOperation = 'enable' | 'change' | 'disable' | 'lock';
+
+export function EncryptionSettingsPanel({ disabled }: EncryptionSettingsPanelProps) {
+  const { status, lock, enableEncryption, changePassphrase, disableEncryption } = useDatabaseEncryption();
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [disablePassphrase, setDisablePassphrase] = useState('');
+  const [pendingOperation, setPendingOperation] = useState<PendingOperation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const isBusy = pendingOperation !== null;
+
+  const run = async (operation: PendingOperation, action: () => Promise<void>, successMessage: string) => {
+    setPendingOperation(operation);
+    setError(null);
+    setSuccess(null);
+    try {
+      await action();
+      setNewPassphrase('');
+      setConfirmation('');
+      setCurrentPassphrase('');
+      setDisablePassphrase('');
+      setSuccess(successMessage);
+    } catch (err: any) {
+      console.error(`Failed to ${operation} encryption:`, err);
+      setError(err.message || "The operation failed. Your data was not changed.");
+    } finally {
+      setPendingOperation(null);
+    }
+  };
+
+  const handleEnable = (event: FormEvent) => {
+    event.preventDefault();
+    run('enable', () => enableEncryption(newPassphrase, confirmation), "Encryption enabled. You will need the passphrase whenever the app starts.");
+  };
+
+  const handleChangePassphrase = (event: FormEvent) => {
+    event.preventDefault();
+    run('change', () => changePassphrase({ currentPassphrase, newPassphrase, confirmation }), "Passphrase changed and all data re-encrypted.");
+  };
+
+  const handleDisable = () => {
+    run('disable', () => disableEncryption(disablePassphrase), "Encryption disabled. Your data is stored unencrypted again.");
+  };
+
+  const newPassphraseFields = (
+    <>
+      <div className="space-y-1">
+        <Label htmlFor="encryption-new-passphrase" className="text-sm">{status === 'disabled' ? 'Passphrase' : 'New Passphrase'}</Label>
+        <Input id="encryption-new-passphrase" type="password" autoComplete="new-password" value={newPassphrase} onChange={(e) => setNewPassphrase(e.target.value)} className="h-9 text-sm" disabled={disabled || isBusy} />
+        <p className="text-xs text-muted-foreground">At least {MIN_PASSPHRASE_LENGTH} characters.</p>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="encryption-confirm-passphrase" className="text-sm">Confirm Passphrase</Label>
+        <Input id="encryption-confirm-passphrase" type="password" autoComplete="new-password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} className="h-9 text-sm" disabled={disabled || isBusy} />
+      </div>
+    </>
+  );
+
+  return (
+    <Card className="shadow-md rounded-xl">
+      <CardHeader className="p-4">
+        <CardTitle className="text-lg flex items-center"><ShieldCheck className="mr-2.5 h-5 w-5 text-primary"/>Encryption</CardTitle>
+        <CardDescription className="text-sm">
+          {status === 'unlocked'
+            ? "Your data is encrypted on this device with your passphrase."
+            : "Encrypt the data stored on this device with a passphrase."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 p-4">
+        {error && <Alert variant="destructive" className="text-xs p-2"><AlertTriangle className="h-4 w-4" /><AlertDescription>{error}</AlertDescription></Alert>}
+        {success && <Alert variant="default" className="border-green-500 bg-green-50 text-green-700 text-xs p-2"><CheckCircle className="h-4 w-4 text-green-600" /><AlertDescription>{success}</AlertDescription></Alert>}
+
+        {status === 'disabled' && (
+          <form onSubmit={handleEnable} className="space-y-3">
+            {newPassphraseFields}
+            <p className="text-xs text-muted-foreground">
+              The passphrase cannot be recovered. If you forget it, your data is lost, so keep an export somewhere safe.
+              Dates and links between records stay readable so that lists can still be searched.
+            </p>
+            <Button type="submit" className="w-full" disabled={disabled || isBusy || !newPassphrase}>
+              {pendingOperation === 'enable' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Lock className="mr-2 h-4 w-4" />}
+              {pendingOperation === 'enable' ? "Encrypting..." : "Enable Encryption"}
+            </Button>
+          </form>
+        )}
+
+        {status === 'unlocked' && (
+          <>
+            <Button variant="outline" className="w-full" onClick={() => run('lock', lock, "")} disabled={disabled || isBusy}>
+              <Lock className="mr-2 h-4 w-4" /> Lock Now
+            </Button>
+
+            <form onSubmit={handleChangePassphrase} className="space-y-3 border-t pt-4">
+              <h3 className="text-sm font-semibold flex items-center"><KeyRound className="mr-2 h-4 w-4" />Change Passphrase</h3>
+              <div className="space-y-1">
+                <Label htmlFor="encryption-current-passphrase" className="text-sm">Current Passphrase</Label>
+                <Input id="encryption-current-passphrase" type="password" autoComplete="current-password" value={currentPassphrase} onChange={(e) => setCurrentPassphrase(e.target.value)} className="h-9 text-sm" disabled={disabled || isBusy} />
+              </div>
+              {newPassphraseFields}
+              <Button type="submit" variant="outline" className="w-full" disabled={disabled || isBusy || !currentPassphrase || !newPassphrase}>
+                {pendingOperation === 'change' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                {pendingOperation === 'change' ? "Re-encrypting..." : "Change Passphrase"}
+              </Button>
+            </form>
+
+            <div className="space-y-3 border-t pt-4">
+              <h3 className="text-sm font-semibold flex items-center"><ShieldOff className="mr-2 h-4 w-4" />Turn Off Encryption</h3>
+              <div className="space-y-1">
+                <Label htmlFor="encryption-disable-passphrase" className="text-sm">Current Passphrase</Label>
+                <Input id="encryption-disable-passphrase" type="password" autoComplete="current-password" value={disablePassphrase} onChange={(e) => setDisablePassphrase(e.target.value)} className="h-9 text-sm" disabled={disabled || isBusy} />
+              </div>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="destructive" className="w-full" disabled={disabled || isBusy || !disablePassphrase}>
+                    {pendingOperation === 'disable' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                    {pendingOperation === 'disable' ? "Decrypting..." : "Turn Off Encryption"}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent className="p-4 sm:max-w-sm">
+                  <AlertDialogHeader className="pb-2">
+                    <AlertDialogTitle className="text-lg flex items-center"><AlertTriangle className="mr-2 h-5 w-5 text-destructive" />Store data unencrypted?</AlertDialogTitle>
+                    <AlertDialogDescription className="text-sm">
+                      All records will be decrypted and stored in plaintext on this device. Anyone with access to the browser profile can read them.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter className="pt-2">
+                    <AlertDialogCancel className="text-sm px-3 py-1.5 h-auto">Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleDisable} className="bg-destructive hover:bg-destructive/90 text-destructive-foreground text-sm px-3 py-1.5 h-auto">
+                      Turn Off
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useState, type FormEvent, type ReactNode } from 'react';
+import { Lock, Loader2, AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { OkapiLogo } from '@/components/okapi-logo';
+import { useDatabaseEncryption } from '@/hooks';
+import { APP_NAME } from '@/lib/constants';
+
+/**
+ * Renders the app only once its data can be read. An encrypted database shows an
+ * unlock screen first, and again whenever it is locked (from Settings or another tab).
+ */
+export function DatabaseUnlockGate({ children }: { children: ReactNode }) {
+  const { status, statusError, unlock } = useDatabaseEncryption();
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+
+  const handleUnlock = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsUnlocking(true);
+    setUnlockError(null);
+    try {
+      const unlocked = await unlock(passphrase);
+      if (unlocked) {
+        setPassphrase('');
+      } else {
+        setUnlockError("Incorrect passphrase.");
+      }
+    } catch (err: any) {
+      console.error("Failed to unlock database:", err);
+      setUnlockError(err.message || "Could not unlock the database.");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  if (status === 'disabled' || status === 'unlocked') {
+    return <>{children}</>;
+  }
+
+  if (status === null) {
+    return (
+      <div className="flex flex-1 items-center justify-center p-4">
+        {statusError ? (
+          <Alert variant="destructive" className="max-w-sm text-sm">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{statusError}</AlertDescription>
+          </Alert>
+        ) : (
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-1 items-center justify-center p-4">
+      <Card className="w-full max-w-sm shadow-md rounded-xl">
+        <CardHeader className="p-4 items-center text-center">
+          <OkapiLogo className="h-12 w-12 mb-2" />
+          <CardTitle className="text-lg flex items-center"><Lock className="mr-2 h-5 w-5 text-primary" />{APP_NAME} is locked</CardTitle>
+          <CardDescription className="text-sm">Your data is encrypted on this device. Enter your passphrase to continue.</CardDescription>
+        </CardHeader>
+        <CardContent className="p-4 pt-0">
+          <form onSubmit={handleUnlock} className="space-y-3">
+            {unlockError && (
+              <Alert variant="destructive" className="text-xs p-2">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{unlockError}</AlertDescription>
+              </Alert>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="unlock-passphrase" className="text-sm">Passphrase</Label>
+              <Input
+                id="unlock-passphrase"
+                type="password"
+                autoComplete="current-password"
+                autoFocus
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                disabled={isUnlocking}
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={isUnlocking || !passphrase}>
+              {isUnlocking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              {isUnlocking ? "Unlocking..." : "Unlock"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 // src/components/layout/index.ts
+export * from './database-unlock-gate';
 export * from './header';
 export * from './layout-client-boundary';
 export * from './main-nav';
@@ -56,5 +56,6 @@ export function LayoutClientBoundary({ children }: { children: ReactNode }) {
 function getPageTitle(pathname: string): string | undefined {
   if (pathname === '/settings') return "Application Settings";
   if (pathname === '/rewards') return "Rewards & Progress";
+  if (pathname === '/trash') return "Trash";
   return undefined; 
 }
@@ -4,7 +4,7 @@
 import type { FC } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Settings, ToyBrick } from 'lucide-react';
+import { Settings, ToyBrick, Trash2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import {
   SidebarMenu,
@@ -21,6 +21,7 @@ interface NavItem {
 
 const navItems: NavItem[] = [
   { href: '/', label: 'Spaces', icon: ToyBrick, matchExact: true },
+  { href: '/trash', label: 'Trash', icon: Trash2 },
   { href: '/settings', label: 'Settings', icon: Settings },
 ];
 
@@ -0,0 +1,190 @@
+// src/components/space-bundle-panel.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Share2, Download, Upload, Loader2, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { Space } from '@/domain/entities';
+import { InvalidAppDataExportError } from '@/application/use-cases';
+import { useUseCases } from '@/contexts/AppContainerProvider';
+import { useBackupBeforeChange, useDataChanges } from '@/hooks/data';
+import { downloadBlob } from '@/lib/blob-utils';
+
+interface SpaceBundlePanelProps {
+  disabled?: boolean;
+}
+
+const MAX_LISTED_ISSUES = 5;
+
+export function SpaceBundlePanel({ disabled }: SpaceBundlePanelProps) {
+  const [spaces, setSpaces] = useState<Space[]>([]);
+  const [selectedSpaceIds, setSelectedSpaceIds] = useState<string[]>([]);
+  const [targetDate, setTargetDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [keepOriginalDates, setKeepOriginalDates] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const { getAllSpacesUseCase, exportSpaceBundleUseCase, importSpaceBundleUseCase } = useUseCases();
+  const backupBeforeChange = useBackupBeforeChange();
+
+  const loadSpaces = useCallback(async () => {
+    try {
+      const allSpaces = await getAllSpacesUseCase.execute();
+      setSpaces(allSpaces.sort((a, b) => b.date.localeCompare(a.date) || a.name.localeCompare(b.name)));
+      setSelectedSpaceIds(prev => prev.filter(id => allSpaces.some(space => space.id === id)));
+    } catch (err: any) {
+      console.error("Failed to load spaces for sharing:", err);
+      setError(err.message || "Could not load spaces.");
+    }
+  }, [getAllSpacesUseCase]);
+
+  useEffect(() => {
+    loadSpaces();
+  }, [loadSpaces]);
+
+  useDataChanges({ storeNames: ['spaces'], onChange: loadSpaces });
+
+  const resetMessages = () => {
+    setError(null);
+    setIssues([]);
+    setSuccess(null);
+  };
+
+  const toggleSpace = (spaceId: string, checked: boolean) => {
+    setSelectedSpaceIds(prev => checked ? [...prev, spaceId] : prev.filter(id => id !== spaceId));
+  };
+
+  const handleExport = useCallback(async () => {
+    resetMessages();
+    setIsExporting(true);
+    try {
+      const bundle = await exportSpaceBundleUseCase.execute(selectedSpaceIds);
+      const fileName = bundle.spaces.length === 1
+        ? `okapi_space_${bundle.spaces[0].date}.json`
+        : `okapi_spaces_${format(new Date(), 'yyyy-MM-dd')}.json`;
+      downloadBlob(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }), fileName);
+      setSuccess(`Exported ${bundle.spaces.length} space${bundle.spaces.length === 1 ? '' : 's'}.`);
+    } catch (err: any) {
+      console.error("Space bundle export failed:", err);
+      setError(err.message || "Could not export the selected spaces.");
+    } finally {
+      setIsExporting(false);
+    }
+  }, [exportSpaceBundleUseCase, selectedSpaceIds]);
+
+  const handleImport = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      resetMessages();
+      setIsImporting(true);
+      file.text()
+        .then(async text => {
+          const bundle: unknown = JSON.parse(text);
+          await backupBeforeChange('beforeImport');
+          return importSpaceBundleUseCase.execute(bundle, { targetDate: keepOriginalDates ? undefined : targetDate });
+        })
+        .then(result => {
+          const count = result.spaceIds.length;
+          const dateNote = keepOriginalDates ? '' : ` on ${format(parseISO(targetDate), 'MMM d, yyyy')}`;
+          const remapNote = result.remappedIdCount > 0 ? ` ${result.remappedIdCount} record${result.remappedIdCount === 1 ? ' was' : 's were'} given new ids because they already existed here.` : '';
+          setSuccess(`Imported ${count} space${count === 1 ? '' : 's'}${dateNote}.${remapNote}`);
+          return loadSpaces();
+        })
+        .catch(err => {
+          console.error("Space bundle import failed:", err);
+          setError(err instanceof Error ? err.message : "Could not import the space bundle.");
+          if (err instanceof InvalidAppDataExportError) {
+            setIssues(err.issues.map(issue => `${issue.path}${issue.recordId ? ` (id ${issue.recordId})` : ''}: ${issue.message}`));
+          }
+        })
+        .finally(() => setIsImporting(false));
+    }
+    if (event.target) event.target.value = '';
+  }, [importSpaceBundleUseCase, backupBeforeChange, keepOriginalDates, targetDate, loadSpaces]);
+
+  const isBusy = disabled || isExporting || isImporting;
+
+  return (
+    <Card className="shadow-md rounded-xl">
+      <CardHeader className="p-4">
+        <CardTitle className="text-lg flex items-center"><Share2 className="mr-2.5 h-5 w-5 text-primary"/>Share Spaces</CardTitle>
+        <CardDescription className="text-sm">Export selected spaces with their logs, to-dos, problems and images, or add spaces from another device.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 p-4">
+        {error && (
+          <Alert variant="destructive" className="text-xs p-2">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              {error}
+              {issues.length > 0 && (
+                <ul className="mt-1 space-y-0.5 font-mono break-words">
+                  {issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => <li key={index}>{issue}</li>)}
+                  {issues.length > MAX_LISTED_ISSUES && <li>…and {issues.length - MAX_LISTED_ISSUES} more</li>}
+                </ul>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+        {success && <Alert variant="default" className="border-green-500 bg-green-50 text-green-700 text-xs p-2"><CheckCircle className="h-4 w-4 text-green-600" /><AlertDescription>{success}</AlertDescription></Alert>}
+
+        {spaces.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-2">No spaces to export yet.</p>
+        ) : (
+          <ScrollArea className="h-40 rounded-lg border">
+            <ul className="p-2 space-y-1">
+              {spaces.map(space => (
+                <li key={space.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`bundle-space-${space.id}`}
+                    checked={selectedSpaceIds.includes(space.id)}
+                    onCheckedChange={(checked) => toggleSpace(space.id, checked === true)}
+                    disabled={isBusy}
+                  />
+                  <Label htmlFor={`bundle-space-${space.id}`} className="text-sm font-normal flex-1 truncate">{space.name}</Label>
+                  <span className="text-xs text-muted-foreground">{format(parseISO(space.date), 'MMM d, yyyy')}</span>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+        <Button onClick={handleExport} className="w-full text-md py-2.5 rounded-lg" disabled={isBusy || selectedSpaceIds.length === 0} size="default">
+          {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          {isExporting ? "Exporting..." : `Export ${selectedSpaceIds.length || ''} Selected`}
+        </Button>
+
+        <div className="rounded-lg border p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="bundle-keep-dates" className="text-sm">Keep the spaces&apos; own dates</Label>
+            <Switch id="bundle-keep-dates" checked={keepOriginalDates} onCheckedChange={setKeepOriginalDates} disabled={isBusy} />
+          </div>
+          {!keepOriginalDates && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="bundle-target-date" className="text-sm whitespace-nowrap">Import to</Label>
+              <Input id="bundle-target-date" type="date" value={targetDate} onChange={(e) => setTargetDate(e.target.value)} className="h-9 text-sm" disabled={isBusy} />
+            </div>
+          )}
+        </div>
+        <label htmlFor="space-bundle-file" className="block w-full">
+          <Button asChild className="w-full text-md py-2.5 rounded-lg" variant="outline" disabled={isBusy || (!keepOriginalDates && !targetDate)} size="default">
+            <span>
+              {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              {isImporting ? "Importing..." : "Import Spaces"}
+            </span>
+          </Button>
+          <input type="file" id="space-bundle-file" accept=".json" onChange={handleImport} className="hidden" disabled={isBusy || (!keepOriginalDates && !targetDate)} />
+        </label>
+      </CardContent>
+    </Card>
+  );
+}
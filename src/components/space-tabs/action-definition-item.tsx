@@ -6,10 +6,22 @@ import { useState } from 'react';
 import type { ActionDefinition } from '@/domain/entities';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Play, ListChecks, Loader2, FileText, Edit3, CheckCircle2 } from 'lucide-react';
+import { Play, ListChecks, Loader2, FileText, Edit3, CheckCircle2, History } from 'lucide-react';
+import { RecordHistoryDialog } from '@/components/dialogs/record-history-dialog';
 import { cn } from '@/lib/utils';
 import { ANIMATION_ITEM_NEWLY_ADDED } from '@/lib/constants';
 
+const ACTION_DEFINITION_FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  type: 'Type',
+  pointsForCompletion: 'Points for completion',
+  order: 'Position',
+  isEnabled: 'Enabled',
+  steps: 'Steps',
+  formFields: 'Form fields',
+};
+
 interface ActionDefinitionItemProps {
   actionDefinition: ActionDefinition;
   onLogSingleAction: (actionDefinitionId: string) => Promise<void>;
@@ -31,6 +43,7 @@ export function ActionDefinitionItem({
 }: ActionDefinitionItemProps) {
   const [isLoggingThisAction, setIsLoggingThisAction] = useState(false);
   const [logSuccess, setLogSuccess] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   const pointsText = actionDefinition.type === 'single' || actionDefinition.type === 'data-entry'
     ? `Points: ${actionDefinition.pointsForCompletion}`
@@ -123,11 +136,30 @@ export function ActionDefinitionItem({
           >
             <Edit3 className="h-5 w-5" />
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-muted-foreground hover:text-foreground"
+            onClick={() => setIsHistoryOpen(true)}
+            aria-label="Change history"
+          >
+            <History className="h-5 w-5" />
+          </Button>
         </div>
       </div>
       {!actionDefinition.isEnabled && (
         <p className="text-xs text-destructive mt-1">This action is currently disabled.</p>
       )}
+      {isHistoryOpen && (
+        <RecordHistoryDialog
+          isOpen={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          recordType="actionDefinition"
+          recordId={actionDefinition.id}
+          recordLabel={`"${actionDefinition.name}"`}
+          fieldLabels={ACTION_DEFINITION_FIELD_LABELS}
+        />
+      )}
     </Card>
   );
 }
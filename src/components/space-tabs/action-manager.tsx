@@ -6,13 +6,14 @@ import React, { useState, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import type { ActionDefinition } from '@/domain/entities';
 import { 
+  ActionTemplatesDialog,
   CreateActionDefinitionDialog, 
   MultiStepActionDialog, 
   DataEntryFormDialog, 
   EditActionDefinitionDialog 
 } from '@/components/dialogs';
 import { ActionDefinitionItem } from './action-definition-item'; 
-import { Loader2, PlusCircle } from 'lucide-react';
+import { LayoutTemplate, Loader2, PlusCircle } from 'lucide-react';
 import type { LogDataEntryInputDTO } from '@/application/use-cases';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useDialogState } from '@/hooks';
@@ -73,6 +74,11 @@ export function ActionManager({
     openDialog: openDataEntryDialogInternal, 
     closeDialog: closeDataEntryDialog 
   } = useDialogState();
+  const {
+    isOpen: isTemplatesDialogOpen,
+    openDialog: openTemplatesDialog,
+    closeDialog: closeTemplatesDialog
+  } = useDialogState();
   
   const [currentMultiStepAction, setCurrentMultiStepAction] = useState<ActionDefinition | null>(null);
   const [currentDataEntryAction, setCurrentDataEntryAction] = useState<ActionDefinition | null>(null);
@@ -87,6 +93,16 @@ export function ActionManager({
     onActionDefinitionsChanged();
   }, [addActionDefinition, closeCreateDialog, onActionDefinitionsChanged]);
 
+  // The dialog stays open so several templates can be added in a row
+  const handleTemplatesAdded = useCallback((newDefs: ActionDefinition[]) => {
+    newDefs.forEach(def => addActionDefinition(def));
+    if (newDefs.length > 0) {
+      setNewlyAddedActionId(newDefs[0].id);
+      setTimeout(() => setNewlyAddedActionId(null), 1000);
+    }
+    onActionDefinitionsChanged();
+  }, [addActionDefinition, onActionDefinitionsChanged]);
+
   const handleOpenMultiStepDialog = useCallback((actionDef: ActionDefinition) => {
     if (actionDef.steps && actionDef.steps.length > 0) {
       setCurrentMultiStepAction(actionDef);
@@ -143,7 +159,10 @@ export function ActionManager({
 
   return (
     <div className="h-full flex flex-col"> 
-      <div className="flex flex-row justify-end items-center mb-2 shrink-0">
+      <div className="flex flex-row justify-end items-center gap-2 mb-2 shrink-0">
+        <Button size="sm" variant="outline" className="text-xs" onClick={openTemplatesDialog}>
+          <LayoutTemplate className="mr-1.5 h-4 w-4" /> Templates
+        </Button>
         <Button size="sm" variant="outline" className="text-xs" onClick={openCreateDialog}>
           <PlusCircle className="mr-1.5 h-4 w-4" /> Add New Action Definition
         </Button>
@@ -186,6 +205,16 @@ export function ActionManager({
         />
       )}
 
+      {isTemplatesDialogOpen && (
+        <ActionTemplatesDialog
+          isOpen={isTemplatesDialogOpen}
+          onClose={closeTemplatesDialog}
+          spaceId={spaceId}
+          actionDefinitions={actionDefinitions}
+          onTemplatesAdded={handleTemplatesAdded}
+        />
+      )}
+
       {currentMultiStepAction && isMultiStepDialogOpen && (
         <MultiStepActionDialog
           actionDefinition={currentMultiStepAction}
@@ -2,20 +2,48 @@
 // src/components/space-tabs/activity-timeline-view.tsx
 "use client";
 
-import type { TimelineItem } from '@/application/dto';
+import { useEffect, useRef, useState } from 'react';
+import type { TimelineItem, TimelineItemType } from '@/application/dto';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { format, parseISO } from 'date-fns';
-import { History, ListChecks, Award, AlertOctagon, ClipboardCheck, CheckSquare, XSquare, CheckCircle2, Database, TimerIcon } from 'lucide-react'; 
-import NextImage from 'next/image'; 
+import { History, ListChecks, Award, AlertOctagon, ClipboardCheck, CheckSquare, XSquare, CheckCircle2, Database, TimerIcon, Undo2, Loader2, AlertTriangle } from 'lucide-react'; 
+import { AttachmentImage } from '@/components/attachment-image';
 import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 
 interface ActivityTimelineViewProps {
   timelineItems: TimelineItem[];
   isLoading: boolean;
+  isLoadingMore?: boolean;
+  hasMore?: boolean; // Older items can be loaded with onLoadMore
+  onLoadMore?: () => void;
+  selectedTypes?: TimelineItemType[];
+  onSelectedTypesChange?: (types: TimelineItemType[]) => void; // Shows the type filter when given
+  onUndoItem?: (item: TimelineItem) => Promise<void>; // Offered for action logs and data entries only
 }
 
+const TYPE_FILTERS: { type: TimelineItemType; label: string }[] = [
+  { type: 'action_log', label: 'Actions' },
+  { type: 'data_entry', label: 'Data' },
+  { type: 'problem', label: 'Problems' },
+  { type: 'todo', label: 'To-dos' },
+];
+
+const isUndoable = (item: TimelineItem) => item.type === 'action_log' || item.type === 'data_entry';
+
 const formatDurationForDisplay = (ms: number): string => {
   const totalSeconds = Math.floor(ms / 1000);
   const hours = Math.floor(totalSeconds / 3600);
@@ -47,7 +75,76 @@ const getIconForType = (item: TimelineItem) => {
   }
 };
 
-export function ActivityTimelineView({ timelineItems, isLoading }: ActivityTimelineViewProps) {
+export function ActivityTimelineView({
+  timelineItems,
+  isLoading,
+  isLoadingMore = false,
+  hasMore = false,
+  onLoadMore,
+  selectedTypes,
+  onSelectedTypesChange,
+  onUndoItem,
+}: ActivityTimelineViewProps) {
+  const [itemPendingUndo, setItemPendingUndo] = useState<TimelineItem | null>(null);
+  const [undoingItemId, setUndoingItemId] = useState<string | null>(null);
+  const [undoError, setUndoError] = useState<string | null>(null);
+  const loadMoreSentinelRef = useRef<HTMLDivElement>(null);
+
+  // Loads the next older page as soon as the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreSentinelRef.current;
+    if (!sentinel || !hasMore || isLoadingMore || !onLoadMore || typeof IntersectionObserver === 'undefined') return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) onLoadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoadingMore, onLoadMore, timelineItems.length]);
+
+  const isFiltered = !!selectedTypes && selectedTypes.length < TYPE_FILTERS.length;
+
+  const toggleType = (type: TimelineItemType) => {
+    if (!selectedTypes || !onSelectedTypesChange) return;
+    const next = selectedTypes.includes(type) ? selectedTypes.filter(t => t !== type) : [...selectedTypes, type];
+    if (next.length > 0) onSelectedTypesChange(next); // At least one type stays selected
+  };
+
+  const typeFilter = selectedTypes && onSelectedTypesChange ? (
+    <div className="flex flex-wrap gap-1.5 mb-3" role="group" aria-label="Filter activity by type">
+      {TYPE_FILTERS.map(({ type, label }) => {
+        const isSelected = selectedTypes.includes(type);
+        return (
+          <Button
+            key={type}
+            type="button"
+            size="sm"
+            variant={isSelected ? 'secondary' : 'outline'}
+            className="h-7 px-2.5 text-xs"
+            aria-pressed={isSelected}
+            onClick={() => toggleType(type)}
+          >
+            {label}
+          </Button>
+        );
+      })}
+    </div>
+  ) : null;
+
+  const handleConfirmUndo = async () => {
+    if (!itemPendingUndo || !onUndoItem) return;
+    const item = itemPendingUndo;
+    setItemPendingUndo(null);
+    setUndoingItemId(item.id);
+    setUndoError(null);
+    try {
+      await onUndoItem(item);
+    } catch (error: any) {
+      setUndoError(error.message || "Could not undo this entry.");
+    } finally {
+      setUndoingItemId(null);
+    }
+  };
+
   if (isLoading) {
     return (
       <Card className="shadow-lg h-full flex flex-col">
@@ -55,6 +152,7 @@ export function ActivityTimelineView({ timelineItems, isLoading }: ActivityTimel
           <CardTitle className="text-xl">Activity Timeline</CardTitle>
         </CardHeader>
         <CardContent className="flex-1 overflow-hidden p-4">
+          {typeFilter}
           <div className="space-y-4">
             {[...Array(5)].map((_, i) => (
               <div key={i} className="flex items-start gap-4 p-3 rounded-md border">
@@ -78,9 +176,12 @@ export function ActivityTimelineView({ timelineItems, isLoading }: ActivityTimel
         <CardHeader className="shrink-0">
           <CardTitle className="text-xl">Activity Timeline</CardTitle>
         </CardHeader>
-        <CardContent className="flex-1 flex flex-col items-center justify-center text-center">
-          <History className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
-          <p className="text-muted-foreground">No activity logged for this space yet.</p>
+        <CardContent className="flex-1 flex flex-col p-4">
+          {typeFilter}
+          <div className="flex-1 flex flex-col items-center justify-center text-center">
+            <History className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">{isFiltered ? "No activity of the selected types." : "No activity logged for this space yet."}</p>
+          </div>
         </CardContent>
       </Card>
     );
@@ -90,6 +191,10 @@ export function ActivityTimelineView({ timelineItems, isLoading }: ActivityTimel
     <Card className="shadow-lg h-full flex flex-col">
       <CardContent className="flex-1 overflow-hidden p-0 sm:p-4"> {}
         <ScrollArea className="h-full pr-3">
+          {typeFilter}
+          {undoError && (
+            <Alert variant="destructive" className="mb-3 text-xs p-2"><AlertTriangle className="h-4 w-4" /><AlertDescription>{undoError}</AlertDescription></Alert>
+          )}
           <div className="space-y-4"> 
             {timelineItems.map((item) => (
               <div key={`${item.type}-${item.id}-${item.timestamp}`} className="flex items-start gap-3 p-3 rounded-md border bg-card hover:bg-muted/30 transition-colors">
@@ -111,6 +216,19 @@ export function ActivityTimelineView({ timelineItems, isLoading }: ActivityTimel
                         0 pts
                       </Badge>
                     )}
+                    {onUndoItem && isUndoable(item) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 ml-1 shrink-0 text-muted-foreground"
+                        onClick={() => setItemPendingUndo(item)}
+                        disabled={undoingItemId !== null}
+                        aria-label={`Undo ${item.title}`}
+                        title="Undo"
+                      >
+                        {undoingItemId === item.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4" />}
+                      </Button>
+                    )}
                   </div>
                   <p className="text-xs text-muted-foreground">
                     {format(parseISO(item.timestamp), "MMM d, yyyy 'at' h:mm a")}
@@ -134,9 +252,9 @@ export function ActivityTimelineView({ timelineItems, isLoading }: ActivityTimel
                    {item.type === 'problem' && item.problemResolved && item.problemResolutionNotes && (
                      <p className="text-sm text-muted-foreground mt-1 italic">Resolution: {item.problemResolutionNotes}</p>
                   )}
-                  {item.type === 'problem' && item.problemImageDataUri && (
+                  {item.type === 'problem' && item.problemImageAttachmentId && (
                     <div className="mt-2">
-                      <NextImage src={item.problemImageDataUri} alt="Problem image" width={128} height={96} className="rounded border object-cover" data-ai-hint="issue snapshot" />
+                      <AttachmentImage attachmentId={item.problemImageAttachmentId} alt="Problem image" width={128} height={96} className="rounded border object-cover" data-ai-hint="issue snapshot" />
                     </div>
                   )}
                   {item.type === 'todo' && item.todoCompleted && item.todoCompletionDate && (
@@ -144,17 +262,17 @@ export function ActivityTimelineView({ timelineItems, isLoading }: ActivityTimel
                        Completed: {format(parseISO(item.todoCompletionDate), "MMM d, yy")}
                      </Badge>
                   )}
-                  {item.type === 'todo' && (item.todoBeforeImageDataUri || item.todoAfterImageDataUri) && (
+                  {item.type === 'todo' && (item.todoBeforeImageAttachmentId || item.todoAfterImageAttachmentId) && (
                     <div className="mt-2 flex gap-2">
-                      {item.todoBeforeImageDataUri && (
+                      {item.todoBeforeImageAttachmentId && (
                         <div className="flex flex-col items-center">
-                          <NextImage src={item.todoBeforeImageDataUri} alt="Before image" width={64} height={48} className="rounded border object-cover" data-ai-hint="initial state"/>
+                          <AttachmentImage attachmentId={item.todoBeforeImageAttachmentId} alt="Before image" width={64} height={48} className="rounded border object-cover" data-ai-hint="initial state"/>
                           <span className="text-xs text-muted-foreground">Before</span>
                         </div>
                       )}
-                      {item.todoAfterImageDataUri && (
+                      {item.todoAfterImageAttachmentId && (
                         <div className="flex flex-col items-center">
-                           <NextImage src={item.todoAfterImageDataUri} alt="After image" width={64} height={48} className="rounded border object-cover" data-ai-hint="final state" />
+                           <AttachmentImage attachmentId={item.todoAfterImageAttachmentId} alt="After image" width={64} height={48} className="rounded border object-cover" data-ai-hint="final state" />
                            <span className="text-xs text-muted-foreground">After</span>
                         </div>
                       )}
@@ -172,8 +290,33 @@ export function ActivityTimelineView({ timelineItems, isLoading }: ActivityTimel
               </div>
             ))}
           </div>
+          {hasMore && onLoadMore && (
+            <div ref={loadMoreSentinelRef} className="flex justify-center py-3">
+              <Button variant="ghost" size="sm" className="text-xs text-muted-foreground" onClick={onLoadMore} disabled={isLoadingMore}>
+                {isLoadingMore ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                {isLoadingMore ? "Loading older activity..." : "Load older activity"}
+              </Button>
+            </div>
+          )}
         </ScrollArea>
       </CardContent>
+
+      <AlertDialog open={!!itemPendingUndo} onOpenChange={(open) => !open && setItemPendingUndo(null)}>
+        <AlertDialogContent className="p-4 sm:max-w-sm">
+          <AlertDialogHeader className="pb-2">
+            <AlertDialogTitle className="text-lg">Undo this entry?</AlertDialogTitle>
+            <AlertDialogDescription className="text-sm">
+              "{itemPendingUndo?.title}" will be removed and its points taken back. This does not go to the Trash.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="pt-2">
+            <AlertDialogCancel className="text-sm px-3 py-1.5 h-auto">Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmUndo} className="bg-destructive hover:bg-destructive/90 text-destructive-foreground text-sm px-3 py-1.5 h-auto">
+              Undo
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 }
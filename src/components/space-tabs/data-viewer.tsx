@@ -5,7 +5,7 @@ import * as React from 'react';
 import type { DataEntryLog, FormFieldDefinition } from '@/domain/entities';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { ListChecks, ChevronDown, ChevronRight, QrCode, Edit3 } from 'lucide-react';
+import { ListChecks, ChevronDown, ChevronRight, QrCode, Edit3, History } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 import { Button } from '@/components/ui/button';
 
@@ -15,9 +15,10 @@ interface DataViewerProps {
   dataEntries: DataEntryLog[];
   onShowBarcode: (value: string, type?: string) => void;
   onEditEntry: (entry: DataEntryLog) => void; // New prop for editing
+  onShowHistory?: (entry: DataEntryLog) => void;
 }
 
-export function DataViewer({ formTitle, formFields, dataEntries, onShowBarcode, onEditEntry }: DataViewerProps) {
+export function DataViewer({ formTitle, formFields, dataEntries, onShowBarcode, onEditEntry, onShowHistory }: DataViewerProps) {
   const [expandedRowId, setExpandedRowId] = React.useState<string | null>(null);
 
   if (!formFields || formFields.length === 0) {
@@ -49,7 +50,7 @@ export function DataViewer({ formTitle, formFields, dataEntries, onShowBarcode,
                 {summaryField && (
                   <TableHead className="sticky top-0 bg-card z-10 text-xs sm:text-sm whitespace-nowrap">{summaryField.label}</TableHead>
                 )}
-                <TableHead className="w-[50px] sticky top-0 bg-card z-10 text-xs sm:text-sm text-right">Edit</TableHead>
+                <TableHead className="w-[80px] sticky top-0 bg-card z-10 text-xs sm:text-sm text-right">Edit</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -73,7 +74,21 @@ export function DataViewer({ formTitle, formFields, dataEntries, onShowBarcode,
                         {entry.data[summaryField.name] !== undefined ? String(entry.data[summaryField.name]) : 'N/A'}
                       </TableCell>
                     )}
-                    <TableCell className="py-2 px-2 sm:px-3 text-right">
+                    <TableCell className="py-2 px-2 sm:px-3 text-right whitespace-nowrap">
+                      {onShowHistory && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 sm:h-7 sm:w-7 text-muted-foreground"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onShowHistory(entry);
+                          }}
+                          title="Change History"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="icon"
@@ -9,9 +9,10 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Trash2, Edit2, Save, XCircle, Loader2, Camera, RefreshCw, MessageSquare, CheckCircle2, AlertTriangle } from 'lucide-react'; 
+import { Trash2, Edit2, Save, XCircle, Loader2, Camera, RefreshCw, MessageSquare, CheckCircle2, AlertTriangle, History } from 'lucide-react'; 
 import { format, parseISO } from 'date-fns';
-import NextImage from 'next/image';
+import { AttachmentImage } from '@/components/attachment-image';
+import { RecordHistoryDialog } from '@/components/dialogs/record-history-dialog';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -28,11 +29,19 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { cn } from '@/lib/utils';
 import { ANIMATION_ITEM_FADE_OUT, ANIMATION_ITEM_NEWLY_ADDED } from '@/lib/constants';
 
+const PROBLEM_FIELD_LABELS: Record<string, string> = {
+  description: 'Description',
+  type: 'Type',
+  resolved: 'Resolved',
+  resolutionNotes: 'Resolution notes',
+  imageAttachmentId: 'Image',
+};
+
 interface ProblemItemProps {
   problem: Problem;
   onToggleResolved: (problem: Problem, resolutionNotes?: string) => Promise<void>;
   onDelete: (id: string) => Promise<void>;
-  onUpdateDetails: (id: string, newDescription: string, newType: Problem['type'], newResolutionNotes?: string, newImageDataUri?: string | null) => Promise<void>;
+  onUpdateDetails: (id: string, newDescription: string, newType: Problem['type'], newResolutionNotes?: string, newImage?: Blob | null) => Promise<void>;
   onOpenImageCapture: (problem: Problem) => void;
   onRemoveImage: (problemId: string) => Promise<void>;
   isSubmittingParent: boolean;
@@ -51,6 +60,7 @@ export function ProblemItem({
 }: ProblemItemProps) {
   const [itemError, setItemError] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   
   const {
     isEditing,
@@ -192,6 +202,9 @@ export function ProblemItem({
               </Button>
             )
           )}
+          <Button variant="ghost" size="icon" onClick={() => setIsHistoryOpen(true)} aria-label="Change history">
+            <History className="h-5 w-5 text-muted-foreground" />
+          </Button>
           <AlertDialog>
             <AlertDialogTrigger asChild>
               <Button variant="ghost" size="icon" aria-label="Delete problem" disabled={combinedSubmitting}>
@@ -202,7 +215,7 @@ export function ProblemItem({
               <AlertDialogHeader>
                 <AlertDialogTitle>Are you sure?</AlertDialogTitle>
                 <AlertDialogDescription>
-                  This action cannot be undone. This will permanently delete this problem log.
+                  This problem log will be moved to the Trash, where you can restore it.
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <AlertDialogFooter>
@@ -225,9 +238,9 @@ export function ProblemItem({
       )}
 
       <div className="pl-8 space-y-1">
-        {problem.imageDataUri ? (
+        {problem.imageAttachmentId ? (
           <div className="relative group w-full max-w-xs">
-            <NextImage src={problem.imageDataUri} alt={`Image for ${problem.description}`} width={160} height={120} className="rounded-md border object-cover w-full aspect-[4/3]" data-ai-hint="issue photo"/>
+            <AttachmentImage attachmentId={problem.imageAttachmentId} alt={`Image for ${problem.description}`} width={160} height={120} className="rounded-md border object-cover w-full aspect-[4/3]" data-ai-hint="issue photo"/>
             <div className="absolute inset-0 bg-black/50 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity rounded-md">
               <Button variant="outline" size="sm" onClick={() => onOpenImageCapture(problem)} className="mr-1" disabled={combinedSubmitting}>
                 <RefreshCw className="h-4 w-4 mr-1" /> Retake
@@ -257,6 +270,17 @@ export function ProblemItem({
           </p>
         </div>
       )}
+
+      {isHistoryOpen && (
+        <RecordHistoryDialog
+          isOpen={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          recordType="problem"
+          recordId={problem.id}
+          recordLabel={`"${problem.description}"`}
+          fieldLabels={PROBLEM_FIELD_LABELS}
+        />
+      )}
     </li>
   );
 }
@@ -13,8 +13,9 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import type { CreateProblemInputDTO, CreateProblemUseCase, UpdateProblemInputDTO, UpdateProblemUseCase, DeleteProblemUseCase, GetProblemsBySpaceUseCase } from '@/application/use-cases';
 import { ProblemItem } from './problem-item';
-import { useImageCaptureDialog, type UseImageCaptureDialogReturn } from '@/hooks';
+import { useImageCaptureDialog, useDataChanges, type UseImageCaptureDialogReturn } from '@/hooks';
 import { ImageCaptureDialogView } from '@/components/dialogs';
+import { canvasToBlob } from '@/lib/blob-utils';
 import { Alert, AlertDescription as UIDialogAlertDescription } from "@/components/ui/alert"; 
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -96,6 +97,8 @@ export function ProblemTracker({
     fetchProblems();
   }, [fetchProblems]);
 
+  useDataChanges({ storeNames: ['problems'], spaceId, onChange: fetchProblems });
+
   const handleOpenImageCaptureForProblem = useCallback((problem: Problem) => {
     imageCapture.handleOpenImageCaptureDialog(problem, 'problemImage');
   }, [imageCapture]);
@@ -159,7 +162,7 @@ export function ProblemTracker({
     }
   }, [problems, deleteProblemUseCase, onItemsChanged, sortProblems, setFormError]);
 
-  const handleUpdateDetails = useCallback(async (id: string, newDescription: string, newType: Problem['type'], newResolutionNotes?: string, newImageDataUri?: string | null ) => {
+  const handleUpdateDetails = useCallback(async (id: string, newDescription: string, newType: Problem['type'], newResolutionNotes?: string, newImage?: Blob | null ) => {
     setIsSubmittingAction(true);
     const originalProblems = [...problems];
     try {
@@ -171,7 +174,6 @@ export function ProblemTracker({
         description: newDescription,
         type: newType,
         resolutionNotes: newResolutionNotes !== undefined ? newResolutionNotes : currentProblem.resolutionNotes,
-        imageDataUri: newImageDataUri !== undefined ? (newImageDataUri === null ? undefined : newImageDataUri) : currentProblem.imageDataUri,
         lastModifiedDate: new Date().toISOString(),
       };
       setProblems(prev => sortProblems(prev.map(p => p.id === id ? updatedProblemUI : p)));
@@ -184,11 +186,13 @@ export function ProblemTracker({
         resolutionNotes: newResolutionNotes,
       };
 
-      if (newImageDataUri !== undefined) {
-        updatePayload.imageDataUri = newImageDataUri;
+      if (newImage !== undefined) {
+        updatePayload.image = newImage;
       }
 
-      await updateProblemUseCase.execute(updatePayload);
+      // The saved problem carries the new attachment id, so it replaces the optimistic copy
+      const savedProblem = await updateProblemUseCase.execute(updatePayload);
+      setProblems(prev => sortProblems(prev.map(p => p.id === id ? savedProblem : p)));
       onItemsChanged();
     } catch (error: any) {
       console.error("Error updating problem details:", error);
@@ -214,16 +218,16 @@ export function ProblemTracker({
         return;
     }
     context.drawImage(video, 0, 0, canvas.width, canvas.height);
-    const imageDataUri = canvas.toDataURL('image/jpeg', 0.8);
 
     setIsSubmittingAction(true); 
     try {
+      const image = await canvasToBlob(canvas);
       await handleUpdateDetails(
         imageCapture.selectedItemForImage.id, 
         imageCapture.selectedItemForImage.description, 
         imageCapture.selectedItemForImage.type, 
         imageCapture.selectedItemForImage.resolutionNotes,
-        imageDataUri
+        image
       );
       imageCapture.handleCloseImageCaptureDialog();
     } catch (error: any) {
@@ -6,8 +6,9 @@ import type { ChangeEvent } from 'react';
 import type { Todo, TodoStatus } from '@/domain/entities';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Trash2, Edit2, Save, XCircle, Loader2, Camera, RefreshCw, ArrowRight, Check, RotateCcw, GripVertical } from 'lucide-react';
-import NextImage from 'next/image';
+import { Trash2, Edit2, Save, XCircle, Loader2, Camera, RefreshCw, ArrowRight, Check, RotateCcw, GripVertical, History } from 'lucide-react';
+import { AttachmentImage } from '@/components/attachment-image';
+import { RecordHistoryDialog } from '@/components/dialogs/record-history-dialog';
 import { useEditableItem } from '@/hooks';
 import { cn } from '@/lib/utils';
 import { useState } from 'react';
@@ -23,6 +24,16 @@ import { Card } from '@/components/ui/card';
 
 type CaptureMode = 'before' | 'after';
 
+const TODO_FIELD_LABELS: Record<string, string> = {
+  description: 'Description',
+  status: 'Status',
+  completed: 'Completed',
+  completionDate: 'Completed on',
+  order: 'Position',
+  beforeImageAttachmentId: 'Before image',
+  afterImageAttachmentId: 'After image',
+};
+
 interface TodoItemProps {
   todo: Todo;
   onUpdateStatus: (todo: Todo, newStatus: TodoStatus) => Promise<void>;
@@ -46,6 +57,7 @@ export function TodoItem({
 }: TodoItemProps) {
   const [isDeleting, setIsDeleting] = useState(false);
   const [isChangingStatus, setIsChangingStatus] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   const {
     isEditing,
@@ -187,11 +199,11 @@ export function TodoItem({
         </DropdownMenu>
       </div>
 
-      {(todo.beforeImageDataUri || todo.afterImageDataUri) && (
+      {(todo.beforeImageAttachmentId || todo.afterImageAttachmentId) && (
         <div className="flex gap-1.5 mt-1">
-          {todo.beforeImageDataUri && (
+          {todo.beforeImageAttachmentId && (
             <div className="relative group w-1/2">
-              <NextImage src={todo.beforeImageDataUri} alt={`Before image for ${todo.description}`} width={80} height={60} className="rounded border object-cover w-full aspect-[4/3]" data-ai-hint="initial state" />
+              <AttachmentImage attachmentId={todo.beforeImageAttachmentId} alt={`Before image for ${todo.description}`} width={80} height={60} className="rounded border object-cover w-full aspect-[4/3]" data-ai-hint="initial state" />
                <div className="absolute inset-0 bg-black/50 flex items-center justify-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity rounded">
                 <Button variant="outline" size="icon" onClick={() => onOpenImageCapture(todo, 'before')} disabled={combinedSubmitting} className="h-6 w-6">
                   <RefreshCw className="h-3.5 w-3.5" />
@@ -203,9 +215,9 @@ export function TodoItem({
               <p className="text-[0.65rem] text-center text-muted-foreground mt-0.5">Before</p>
             </div>
           )}
-          {todo.afterImageDataUri && (
+          {todo.afterImageAttachmentId && (
             <div className="relative group w-1/2">
-              <NextImage src={todo.afterImageDataUri} alt={`After image for ${todo.description}`} width={80} height={60} className="rounded border object-cover w-full aspect-[4/3]" data-ai-hint="final state"/>
+              <AttachmentImage attachmentId={todo.afterImageAttachmentId} alt={`After image for ${todo.description}`} width={80} height={60} className="rounded border object-cover w-full aspect-[4/3]" data-ai-hint="final state"/>
               <div className="absolute inset-0 bg-black/50 flex items-center justify-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity rounded">
                 <Button variant="outline" size="icon" onClick={() => onOpenImageCapture(todo, 'after')} disabled={combinedSubmitting} className="h-6 w-6">
                   <RefreshCw className="h-3.5 w-3.5" />
@@ -220,10 +232,23 @@ export function TodoItem({
         </div>
       )}
        <div className="flex items-center justify-end mt-0.5">
+         <Button variant="ghost" size="icon" onClick={() => setIsHistoryOpen(true)} aria-label="Change history" className="h-6 w-6">
+            <History className="h-3.5 w-3.5 text-muted-foreground" />
+          </Button>
          <Button variant="ghost" size="icon" onClick={handleDeleteWithAnimation} aria-label="Delete to-do" disabled={combinedSubmitting} className="h-6 w-6">
             <Trash2 className="h-3.5 w-3.5 text-destructive" />
           </Button>
       </div>
+      {isHistoryOpen && (
+        <RecordHistoryDialog
+          isOpen={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          recordType="todo"
+          recordId={todo.id}
+          recordLabel={`"${todo.description}"`}
+          fieldLabels={TODO_FIELD_LABELS}
+        />
+      )}
     </Card>
   );
 }
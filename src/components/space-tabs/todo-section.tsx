@@ -12,6 +12,7 @@ import type { CreateTodoUseCase, UpdateTodoInputDTO, UpdateTodoUseCase, DeleteTo
 import { useImageCaptureDialog, type UseImageCaptureDialogReturn, useSpaceTodos, type UseSpaceTodosReturn, useDialogState } from '@/hooks';
 import { ImageCaptureDialogView, CreateTodoDialog, TodoListDialog } from '@/components/dialogs';
 import { Alert, AlertDescription as UIDialogAlertDescription } from "@/components/ui/alert";
+import { canvasToBlob } from '@/lib/blob-utils';
 
 interface TodoSectionProps {
   spaceId: string;
@@ -194,15 +195,15 @@ export function TodoSection({
         return;
     }
     context.drawImage(video, 0, 0, canvas.width, canvas.height);
-    const imageDataUri = canvas.toDataURL('image/jpeg', 0.8);
 
     setIsSubmittingAction(true);
     try {
+      const image = await canvasToBlob(canvas);
       const updateData: UpdateTodoInputDTO = { id: imageCaptureExisting.selectedItemForImage.id };
       if (imageCaptureExisting.captureMode === 'before') {
-        updateData.beforeImageDataUri = imageDataUri;
+        updateData.beforeImage = image;
       } else {
-        updateData.afterImageDataUri = imageDataUri;
+        updateData.afterImage = image;
       }
       const updatedTodo = await updateTodoUseCase.execute(updateData);
       setAllTodos(prev => sortTodosByOrderOrDate(prev.map(t => t.id === updatedTodo.id ? updatedTodo : t)));
@@ -224,9 +225,9 @@ export function TodoSection({
     try {
         const updateData: UpdateTodoInputDTO = { id: todoId };
         if (imgMode === 'before') {
-            updateData.beforeImageDataUri = null; 
+            updateData.beforeImage = null;
         } else {
-            updateData.afterImageDataUri = null; 
+            updateData.afterImage = null;
         }
         const updatedTodo = await updateTodoUseCase.execute(updateData);
         setAllTodos(prev => sortTodosByOrderOrDate(prev.map(t => t.id === updatedTodo.id ? updatedTodo : t)));
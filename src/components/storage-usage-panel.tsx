@@ -0,0 +1,271 @@
+// src/components/storage-usage-panel.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { HardDrive, Loader2, AlertTriangle, CheckCircle, ShieldCheck, RefreshCw, ImageOff, Eraser, ArchiveX } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { GetStorageUsageUseCase, StorageUsageDTO, DeleteOldImagesUseCase, PrunePastSpaceLogsUseCase, DeleteOldBackupSnapshotsUseCase } from '@/application/use-cases';
+import { useStorageEstimate } from '@/hooks';
+import { formatBytes } from '@/lib/blob-utils';
+
+interface StorageUsagePanelProps {
+  getStorageUsageUseCase: GetStorageUsageUseCase;
+  deleteOldImagesUseCase: DeleteOldImagesUseCase;
+  prunePastSpaceLogsUseCase: PrunePastSpaceLogsUseCase;
+  deleteOldBackupSnapshotsUseCase: DeleteOldBackupSnapshotsUseCase;
+  disabled?: boolean;
+}
+
+type CleanupAction = 'images' | 'logs' | 'backups';
+
+export function StorageUsagePanel({
+  getStorageUsageUseCase,
+  deleteOldImagesUseCase,
+  prunePastSpaceLogsUseCase,
+  deleteOldBackupSnapshotsUseCase,
+  disabled,
+}: StorageUsagePanelProps) {
+  const storage = useStorageEstimate();
+  const [usage, setUsage] = useState<StorageUsageDTO | null>(null);
+  const [isLoadingUsage, setIsLoadingUsage] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [imageAgeDays, setImageAgeDays] = useState('90');
+  const [logAgeDays, setLogAgeDays] = useState('30');
+  const [backupAgeDays, setBackupAgeDays] = useState('30');
+  const [pendingCleanup, setPendingCleanup] = useState<CleanupAction | null>(null);
+  const [isCleaning, setIsCleaning] = useState(false);
+
+  const { refreshEstimate } = storage;
+  const refreshUsage = useCallback(async () => {
+    setIsLoadingUsage(true);
+    try {
+      const [usageData] = await Promise.all([getStorageUsageUseCase.execute(), refreshEstimate()]);
+      setUsage(usageData);
+    } catch (err: any) {
+      console.error("Failed to compute storage usage:", err);
+      setError(err.message || "Could not compute storage usage.");
+    } finally {
+      setIsLoadingUsage(false);
+    }
+  }, [getStorageUsageUseCase, refreshEstimate]);
+
+  useEffect(() => {
+    refreshUsage();
+  }, [refreshUsage]);
+
+  const handleRequestPersist = useCallback(async () => {
+    setError(null);
+    setSuccess(null);
+    const granted = await storage.requestPersist();
+    if (granted) {
+      setSuccess("Storage is now persistent. The browser will not evict your data under storage pressure.");
+    } else {
+      setError("The browser declined persistent storage. Installing the app or bookmarking it can help.");
+    }
+  }, [storage]);
+
+  const handleConfirmCleanup = useCallback(async () => {
+    if (!pendingCleanup) return;
+    setError(null);
+    setSuccess(null);
+    setIsCleaning(true);
+    try {
+      if (pendingCleanup === 'images') {
+        const removedCount = await deleteOldImagesUseCase.execute(Number(imageAgeDays));
+        setSuccess(`Removed ${removedCount} image${removedCount === 1 ? '' : 's'} older than ${imageAgeDays} days.`);
+      } else if (pendingCleanup === 'logs') {
+        const prunedCount = await prunePastSpaceLogsUseCase.execute(Number(logAgeDays));
+        setSuccess(`Pruned logs of ${prunedCount} space${prunedCount === 1 ? '' : 's'} dated more than ${logAgeDays} days ago.`);
+      } else {
+        const deletedCount = await deleteOldBackupSnapshotsUseCase.execute(Number(backupAgeDays));
+        setSuccess(`Deleted ${deletedCount} backup${deletedCount === 1 ? '' : 's'} older than ${backupAgeDays} days.`);
+      }
+      await refreshUsage();
+    } catch (err: any) {
+      console.error("Storage cleanup failed:", err);
+      setError(err.message || "Cleanup failed.");
+    } finally {
+      setIsCleaning(false);
+      setPendingCleanup(null);
+    }
+  }, [pendingCleanup, imageAgeDays, logAgeDays, backupAgeDays, deleteOldImagesUseCase, prunePastSpaceLogsUseCase, deleteOldBackupSnapshotsUseCase, refreshUsage]);
+
+  const isBusy = disabled || isCleaning || isLoadingUsage;
+  const usedPercent = storage.usageBytes !== null && storage.quotaBytes ? (storage.usageBytes / storage.quotaBytes) * 100 : null;
+
+  return (
+    <Card className="shadow-md rounded-xl">
+      <CardHeader className="p-4">
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span className="flex items-center"><HardDrive className="mr-2.5 h-5 w-5 text-primary"/>Storage</span>
+          <Button variant="ghost" size="icon" onClick={refreshUsage} disabled={isBusy} className="h-8 w-8" aria-label="Refresh storage usage">
+            <RefreshCw className={isLoadingUsage ? "h-4 w-4 animate-spin" : "h-4 w-4"} />
+          </Button>
+        </CardTitle>
+        <CardDescription className="text-sm">See how much space your data takes and free some up.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 p-4">
+        {error && <Alert variant="destructive" className="text-xs p-2"><AlertTriangle className="h-4 w-4" /><AlertDescription>{error}</AlertDescription></Alert>}
+        {success && <Alert variant="default" className="border-green-500 bg-green-50 text-green-700 text-xs p-2"><CheckCircle className="h-4 w-4 text-green-600" /><AlertDescription>{success}</AlertDescription></Alert>}
+
+        <div className="space-y-1.5">
+          {storage.isSupported && storage.usageBytes !== null && storage.quotaBytes !== null ? (
+            <>
+              <div className="flex justify-between text-sm">
+                <span>{formatBytes(storage.usageBytes)} used</span>
+                <span className="text-muted-foreground">of {formatBytes(storage.quotaBytes)} available</span>
+              </div>
+              <Progress value={usedPercent ?? 0} className={usedPercent !== null && usedPercent > 80 ? "[&>div]:bg-destructive" : undefined} />
+              {usedPercent !== null && usedPercent > 80 && (
+                <p className="text-xs text-destructive">Storage is almost full. Clean up old images, logs or backups below.</p>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">This browser does not report storage usage.</p>
+          )}
+          <div className="flex items-center justify-between pt-1">
+            <span className="text-sm flex items-center">
+              <ShieldCheck className={storage.isPersisted ? "mr-1.5 h-4 w-4 text-green-600" : "mr-1.5 h-4 w-4 text-muted-foreground"} />
+              {storage.isPersisted ? "Persistent storage enabled" : "Storage may be cleared by the browser"}
+            </span>
+            {!storage.isPersisted && storage.isSupported && (
+              <Button variant="outline" size="sm" onClick={handleRequestPersist} disabled={storage.isRequestingPersist} className="text-xs h-8">
+                {storage.isRequestingPersist ? <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" /> : null}
+                Make Persistent
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {usage && (
+          <>
+            <div>
+              <h4 className="text-sm font-semibold mb-1">By data type</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="h-8 text-xs">Store</TableHead>
+                    <TableHead className="h-8 text-xs text-right">Records</TableHead>
+                    <TableHead className="h-8 text-xs text-right">Size</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {usage.stores.map(store => (
+                    <TableRow key={store.storeName}>
+                      <TableCell className="py-1.5 text-xs">{store.storeName}</TableCell>
+                      <TableCell className="py-1.5 text-xs text-right">{store.recordCount}</TableCell>
+                      <TableCell className="py-1.5 text-xs text-right">{formatBytes(store.bytes)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {usage.spaces.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold mb-1">By space</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="h-8 text-xs">Space</TableHead>
+                      <TableHead className="h-8 text-xs text-right">Images</TableHead>
+                      <TableHead className="h-8 text-xs text-right">Logs</TableHead>
+                      <TableHead className="h-8 text-xs text-right">Other</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {usage.spaces.map(space => (
+                      <TableRow key={space.spaceId}>
+                        <TableCell className="py-1.5 text-xs">
+                          {space.spaceName}
+                          <span className="block text-[0.65rem] text-muted-foreground">{space.spaceDate}{space.inTrash ? ' · In trash' : ''}</span>
+                        </TableCell>
+                        <TableCell className="py-1.5 text-xs text-right">{formatBytes(space.imageBytes)}</TableCell>
+                        <TableCell className="py-1.5 text-xs text-right">{formatBytes(space.logBytes)}</TableCell>
+                        <TableCell className="py-1.5 text-xs text-right">{formatBytes(space.otherBytes)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="space-y-3 border-t pt-3">
+          <h4 className="text-sm font-semibold">Clean up</h4>
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="image-age-days" className="text-xs">Remove images older than (days)</Label>
+              <Input id="image-age-days" type="number" min={0} value={imageAgeDays} onChange={e => setImageAgeDays(e.target.value)} className="h-9 text-sm" disabled={isBusy} />
+            </div>
+            <Button variant="outline" className="h-9 text-sm" onClick={() => setPendingCleanup('images')} disabled={isBusy || imageAgeDays === ''}>
+              <ImageOff className="mr-1.5 h-4 w-4" /> Remove
+            </Button>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="log-age-days" className="text-xs">Prune logs of spaces dated more than (days) ago</Label>
+              <Input id="log-age-days" type="number" min={0} value={logAgeDays} onChange={e => setLogAgeDays(e.target.value)} className="h-9 text-sm" disabled={isBusy} />
+            </div>
+            <Button variant="outline" className="h-9 text-sm" onClick={() => setPendingCleanup('logs')} disabled={isBusy || logAgeDays === ''}>
+              <Eraser className="mr-1.5 h-4 w-4" /> Prune
+            </Button>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="backup-age-days" className="text-xs">Delete backups older than (days)</Label>
+              <Input id="backup-age-days" type="number" min={0} value={backupAgeDays} onChange={e => setBackupAgeDays(e.target.value)} className="h-9 text-sm" disabled={isBusy} />
+            </div>
+            <Button variant="outline" className="h-9 text-sm" onClick={() => setPendingCleanup('backups')} disabled={isBusy || backupAgeDays === ''}>
+              <ArchiveX className="mr-1.5 h-4 w-4" /> Delete
+            </Button>
+          </div>
+        </div>
+
+        <AlertDialog open={pendingCleanup !== null} onOpenChange={(open) => !open && !isCleaning && setPendingCleanup(null)}>
+          <AlertDialogContent className="p-4 sm:max-w-sm">
+            <AlertDialogHeader className="pb-2">
+              <AlertDialogTitle className="text-lg flex items-center"><AlertTriangle className="mr-2 h-5 w-5 text-destructive" />Are you sure?</AlertDialogTitle>
+              <AlertDialogDescription className="text-sm">
+                {pendingCleanup === 'images'
+                  ? `Images taken more than ${imageAgeDays} days ago will be permanently removed from problems and to-dos.`
+                  : pendingCleanup === 'logs'
+                    ? `Action logs, clock events and data entries of spaces dated more than ${logAgeDays} days ago will be permanently deleted, along with the edit history of those entries. The spaces and their actions are kept.`
+                    : `Local backups taken more than ${backupAgeDays} days ago will be permanently deleted. The newest backup is always kept.`}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter className="pt-2">
+              <AlertDialogCancel className="text-sm px-3 py-1.5 h-auto" disabled={isCleaning}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleConfirmCleanup}
+                className="bg-destructive hover:bg-destructive/90 text-destructive-foreground text-sm px-3 py-1.5 h-auto"
+                disabled={isCleaning}
+              >
+                {isCleaning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  );
+}
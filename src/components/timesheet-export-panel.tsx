@@ -0,0 +1,117 @@
+// src/components/timesheet-export-panel.tsx
+"use client";
+
+import { useState, useCallback } from 'react';
+import { format, subDays } from 'date-fns';
+import { Sheet, Loader2, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TIMESHEET_ROUNDING_MINUTES } from '@/application/use-cases';
+import { useUseCases } from '@/contexts/AppContainerProvider';
+import { downloadBlob } from '@/lib/blob-utils';
+
+interface TimesheetExportPanelProps {
+  disabled?: boolean;
+}
+
+const DEFAULT_ROUNDING_MINUTES = 15;
+const DEFAULT_DAILY_OVERTIME_HOURS = '8';
+
+const formatHours = (ms: number): string => (ms / (60 * 60 * 1000)).toFixed(2);
+
+export function TimesheetExportPanel({ disabled }: TimesheetExportPanelProps) {
+  const [rangeFrom, setRangeFrom] = useState(() => format(subDays(new Date(), 13), 'yyyy-MM-dd'));
+  const [rangeTo, setRangeTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [roundingMinutes, setRoundingMinutes] = useState(String(DEFAULT_ROUNDING_MINUTES));
+  const [overtimeHours, setOvertimeHours] = useState(DEFAULT_DAILY_OVERTIME_HOURS);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  const { exportTimesheetUseCase } = useUseCases();
+
+  const handleExport = useCallback(async () => {
+    setError(null);
+    setSuccess(null);
+    setWarning(null);
+    setIsExporting(true);
+    try {
+      const file = await exportTimesheetUseCase.execute({
+        from: rangeFrom || undefined,
+        to: rangeTo || undefined,
+        roundingMinutes: Number(roundingMinutes),
+        dailyOvertimeHours: overtimeHours.trim() === '' ? undefined : Number(overtimeHours),
+      });
+      if (file.sessionCount === 0 && file.issueCount === 0) {
+        setSuccess("No clock sessions in this range.");
+        return;
+      }
+      downloadBlob(new Blob([file.content], { type: `${file.mimeType};charset=utf-8` }), file.fileName);
+      setSuccess(`Exported ${file.sessionCount} session${file.sessionCount === 1 ? '' : 's'}: ${formatHours(file.workedMs)} hours, ${formatHours(file.overtimeMs)} of them overtime.`);
+      if (file.issueCount > 0) {
+        setWarning(`${file.issueCount} clock event${file.issueCount === 1 ? ' has' : 's have'} no matching clock-in or clock-out. They are listed in the file without hours.`);
+      }
+    } catch (err: any) {
+      console.error("Timesheet export failed:", err);
+      setError(err.message || "Could not export the timesheet.");
+    } finally {
+      setIsExporting(false);
+    }
+  }, [exportTimesheetUseCase, rangeFrom, rangeTo, roundingMinutes, overtimeHours]);
+
+  const isBusy = disabled || isExporting;
+
+  return (
+    <Card className="shadow-md rounded-xl">
+      <CardHeader className="p-4">
+        <CardTitle className="text-lg flex items-center"><Sheet className="mr-2.5 h-5 w-5 text-primary"/>Timesheet</CardTitle>
+        <CardDescription className="text-sm">Download worked sessions across all spaces as a CSV for payroll, with day and week subtotals.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 p-4">
+        {error && <Alert variant="destructive" className="text-xs p-2"><AlertTriangle className="h-4 w-4" /><AlertDescription>{error}</AlertDescription></Alert>}
+        {success && <Alert variant="default" className="border-green-500 bg-green-50 text-green-700 text-xs p-2"><CheckCircle className="h-4 w-4 text-green-600" /><AlertDescription>{success}</AlertDescription></Alert>}
+        {warning && <Alert variant="default" className="border-amber-500 bg-amber-50 text-amber-700 text-xs p-2"><AlertTriangle className="h-4 w-4 text-amber-600" /><AlertDescription>{warning}</AlertDescription></Alert>}
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="timesheet-from" className="text-xs">From</Label>
+            <Input id="timesheet-from" type="date" value={rangeFrom} onChange={(e) => setRangeFrom(e.target.value)} className="h-9 text-sm" disabled={isBusy} />
+          </div>
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="timesheet-to" className="text-xs">To</Label>
+            <Input id="timesheet-to" type="date" value={rangeTo} onChange={(e) => setRangeTo(e.target.value)} className="h-9 text-sm" disabled={isBusy} />
+          </div>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="timesheet-rounding" className="text-xs">Round times to</Label>
+            <Select value={roundingMinutes} onValueChange={setRoundingMinutes} disabled={isBusy}>
+              <SelectTrigger id="timesheet-rounding" className="h-9 text-sm"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {TIMESHEET_ROUNDING_MINUTES.map(minutes => (
+                  <SelectItem key={minutes} value={String(minutes)} className="text-sm">
+                    {minutes === 0 ? 'No rounding' : `Nearest ${minutes} min`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="timesheet-overtime" className="text-xs">Overtime after (hours/day)</Label>
+            <Input id="timesheet-overtime" type="number" min={0} max={24} step={0.5} value={overtimeHours} onChange={(e) => setOvertimeHours(e.target.value)} placeholder="None" className="h-9 text-sm" disabled={isBusy} />
+          </div>
+        </div>
+        <Button onClick={handleExport} className="w-full text-md py-2.5 rounded-lg" disabled={isBusy} size="default">
+          {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sheet className="mr-2 h-4 w-4" />}
+          {isExporting ? "Exporting..." : "Export Timesheet"}
+        </Button>
+        <p className="text-xs text-muted-foreground text-center">Sessions count toward the day they start on. Leave the overtime field empty to turn overtime off.</p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,16 +2,10 @@
 // src/components/widgets/ProblemSummaryWidget.tsx
 "use client";
 
-import React, { useMemo, useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import type { UseSpaceDialogsReturn } from '@/hooks';
 import type { SpaceMetrics } from '@/hooks/data';
-import { 
-  CreateProblemUseCase,
-  UpdateProblemUseCase,
-  DeleteProblemUseCase, 
-  GetProblemsBySpaceUseCase 
-} from '@/application/use-cases';
-import { IndexedDBProblemRepository } from '@/infrastructure/persistence/indexeddb';
+import { useUseCases } from '@/contexts/AppContainerProvider';
 
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { AlertTriangle, CheckCircle2Icon } from 'lucide-react';
@@ -40,12 +34,8 @@ export function ProblemSummaryWidget({
   onProblemsChanged,
 }: ProblemSummaryWidgetProps) {
 
-  const problemRepository = useMemo(() => new IndexedDBProblemRepository(), []);
-  const createProblemUseCase = useMemo(() => new CreateProblemUseCase(problemRepository), [problemRepository]);
-  const updateProblemUseCase = useMemo(() => new UpdateProblemUseCase(problemRepository), [problemRepository]);
-  const deleteProblemUseCase = useMemo(() => new DeleteProblemUseCase(problemRepository), [problemRepository]);
-  const getProblemsBySpaceUseCase = useMemo(() => new GetProblemsBySpaceUseCase(problemRepository), [problemRepository]);
-  
+  const { createProblemUseCase, updateProblemUseCase, deleteProblemUseCase, getProblemsBySpaceUseCase } = useUseCases();
+
   const problemBoardButtonStructure = React.useMemo(() => [
     { type: 'pending', title: 'Pending', icon: PROBLEM_BUTTON_UI_DATA.pending.icon, count: metrics.unresolvedProblemsCount },
     { type: 'resolved', title: 'Resolved', icon: PROBLEM_BUTTON_UI_DATA.resolved.icon, count: metrics.resolvedProblemsCount },
@@ -2,15 +2,16 @@
 // src/components/widgets/QuickActionsWidget.tsx
 "use client";
 
-import React, { useMemo, useState, useCallback } from 'react';
+import React, { useMemo, useState, useCallback, useEffect } from 'react';
 import type { ActionDefinition } from '@/domain/entities';
-import type { LogDataEntryInputDTO } from '@/application/use-cases';
+import type { LogActionResult, LogDataEntryInputDTO, LogDataEntryResult } from '@/application/use-cases';
 import type { UseSpaceDialogsReturn } from '@/hooks';
 import type { UseSpaceActionsDataReturn } from '@/hooks/data';
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Cog, Loader2 } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Cog, Loader2, Undo2, CheckCircle, AlertTriangle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { AdvancedActionsDialog, MultiStepActionDialog, DataEntryFormDialog, TimerActionDialog } from '@/components/dialogs';
 
@@ -18,8 +19,10 @@ interface QuickActionsWidgetProps {
   spaceId: string; 
   actionDefinitions: ActionDefinition[];
   isLoadingActionDefinitions: boolean;
-  onLogAction: (actionDefinitionId: string, completedStepId?: string, stepOutcome?: 'completed' | 'skipped', notes?: string, durationMs?: number) => Promise<void>;
-  onLogDataEntry: (data: Omit<LogDataEntryInputDTO, 'spaceId'>) => Promise<void>;
+  onLogAction: (actionDefinitionId: string, completedStepId?: string, stepOutcome?: 'completed' | 'skipped', notes?: string, durationMs?: number) => Promise<LogActionResult>;
+  onLogDataEntry: (data: Omit<LogDataEntryInputDTO, 'spaceId'>) => Promise<LogDataEntryResult>;
+  onUndoActionLog: (actionLogId: string) => Promise<void>;
+  onUndoDataEntry: (dataEntryId: string) => Promise<void>;
   isLoggingActionOrDataEntry: boolean;
   
   dialogs: UseSpaceDialogsReturn;
@@ -36,17 +39,91 @@ interface QuickActionsWidgetProps {
   >;
 }
 
+// How long the undo prompt stays up after something is logged
+const UNDO_WINDOW_MS = 8000;
+
+// The most recent submission; a checklist data-entry step produces both a data entry and a step log
+interface UndoableLog {
+  actionDefinitionId: string;
+  label: string;
+  stepId?: string;
+  actionLogId?: string;
+  dataEntryId?: string;
+}
+
 export function QuickActionsWidget({
   spaceId,
   actionDefinitions,
   isLoadingActionDefinitions,
   onLogAction,
   onLogDataEntry,
+  onUndoActionLog,
+  onUndoDataEntry,
   isLoggingActionOrDataEntry,
   dialogs,
   actionsDataHook,
 }: QuickActionsWidgetProps) {
   const [animatingActionId, setAnimatingActionId] = useState<string | null>(null);
+  const [lastLogged, setLastLogged] = useState<UndoableLog | null>(null);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [undoError, setUndoError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!lastLogged || isUndoing) return;
+    const timeoutId = setTimeout(() => setLastLogged(null), UNDO_WINDOW_MS);
+    return () => clearTimeout(timeoutId);
+  }, [lastLogged, isUndoing]);
+
+  const describeLog = useCallback((actionDefinitionId: string, stepId?: string) => {
+    const def = actionDefinitions.find(ad => ad.id === actionDefinitionId);
+    const step = stepId ? def?.steps?.find(s => s.id === stepId) : undefined;
+    if (step) return `"${step.description}" (${def?.name})`;
+    return def ? `"${def.name}"` : 'entry';
+  }, [actionDefinitions]);
+
+  const trackedLogAction = useCallback(async (
+    actionDefinitionId: string,
+    completedStepId?: string,
+    stepOutcome?: 'completed' | 'skipped',
+    notes?: string,
+    durationMs?: number
+  ) => {
+    const result = await onLogAction(actionDefinitionId, completedStepId, stepOutcome, notes, durationMs);
+    const actionLogId = result.loggedAction.id;
+    setUndoError(null);
+    setLastLogged(prev =>
+      prev && prev.dataEntryId && !prev.actionLogId && prev.actionDefinitionId === actionDefinitionId && prev.stepId === completedStepId
+        ? { ...prev, actionLogId }
+        : { actionDefinitionId, stepId: completedStepId, actionLogId, label: describeLog(actionDefinitionId, completedStepId) }
+    );
+  }, [onLogAction, describeLog]);
+
+  const trackedLogDataEntry = useCallback(async (data: Omit<LogDataEntryInputDTO, 'spaceId'>) => {
+    const result = await onLogDataEntry(data);
+    setUndoError(null);
+    setLastLogged({
+      actionDefinitionId: data.actionDefinitionId,
+      stepId: data.stepId,
+      dataEntryId: result.loggedDataEntry.id,
+      label: describeLog(data.actionDefinitionId, data.stepId),
+    });
+  }, [onLogDataEntry, describeLog]);
+
+  const handleUndo = async () => {
+    if (!lastLogged) return;
+    setIsUndoing(true);
+    setUndoError(null);
+    try {
+      if (lastLogged.actionLogId) await onUndoActionLog(lastLogged.actionLogId);
+      if (lastLogged.dataEntryId) await onUndoDataEntry(lastLogged.dataEntryId);
+      setLastLogged(null);
+    } catch (error: any) {
+      setUndoError(error.message || "Could not undo the last entry.");
+      setLastLogged(null);
+    } finally {
+      setIsUndoing(false);
+    }
+  };
 
   const quickActions = useMemo(() => 
     (actionDefinitions || []).filter(ad => ad.isEnabled).slice(0, 6), 
@@ -68,7 +145,7 @@ export function QuickActionsWidget({
   ) => {
     setAnimatingActionId(actionDefinitionId);
     try {
-      await onLogAction(actionDefinitionId, completedStepId, stepOutcome, notes, durationMs);
+      await trackedLogAction(actionDefinitionId, completedStepId, stepOutcome, notes, durationMs);
     } finally {
       setTimeout(() => setAnimatingActionId(null), 600);
     }
@@ -77,7 +154,7 @@ export function QuickActionsWidget({
   const handleLogDataEntryWithAnimation = async (data: Omit<LogDataEntryInputDTO, 'spaceId'>) => {
     setAnimatingActionId(data.actionDefinitionId);
     try {
-      await onLogDataEntry(data);
+      await trackedLogDataEntry(data);
     } finally {
       setTimeout(() => setAnimatingActionId(null), 600);
     }
@@ -92,7 +169,21 @@ export function QuickActionsWidget({
             <Cog className="mr-1.5 h-3.5 w-3.5"/> Manage Actions
           </Button>
         </CardHeader>
-        <CardContent className="p-2 sm:p-3">
+        <CardContent className="p-2 sm:p-3 space-y-2">
+          {lastLogged && (
+            <Alert variant="default" className="border-green-500 bg-green-50 text-green-700 text-xs p-2 flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <CheckCircle className="h-4 w-4 shrink-0 text-green-600" />
+                <AlertDescription className="truncate">Logged {lastLogged.label}.</AlertDescription>
+              </div>
+              <Button variant="outline" size="sm" className="text-xs h-7 px-2 py-1 shrink-0" onClick={handleUndo} disabled={isUndoing}>
+                {isUndoing ? <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" /> : <Undo2 className="mr-1.5 h-3.5 w-3.5" />} Undo
+              </Button>
+            </Alert>
+          )}
+          {undoError && (
+            <Alert variant="destructive" className="text-xs p-2"><AlertTriangle className="h-4 w-4" /><AlertDescription>{undoError}</AlertDescription></Alert>
+          )}
           {isLoadingActionDefinitions ? (
             <div className="flex justify-center items-center py-4"> <Loader2 className="h-6 w-6 animate-spin text-primary" /> </div>
           ) : quickActions.length === 0 ? (
@@ -138,8 +229,8 @@ export function QuickActionsWidget({
         updateActionDefinitionInState={actionsDataHook.updateActionDefinitionInState}
         removeActionDefinitionFromState={actionsDataHook.removeActionDefinitionFromState}
         onActionDefinitionsChanged={actionsDataHook.refreshActionDefinitions}
-        onLogAction={onLogAction}
-        onLogDataEntry={onLogDataEntry}
+        onLogAction={trackedLogAction}
+        onLogDataEntry={trackedLogDataEntry}
       />
 
       {dialogs.currentMultiStepAction && dialogs.isMultiStepDialogOpen && (
@@ -147,8 +238,8 @@ export function QuickActionsWidget({
           actionDefinition={dialogs.currentMultiStepAction}
           isOpen={dialogs.isMultiStepDialogOpen}
           onClose={dialogs.closeMultiStepDialog}
-          onLogAction={onLogAction} 
-          onLogDataEntry={handleLogDataEntryWithAnimation} 
+          onLogAction={trackedLogAction}
+          onLogDataEntry={handleLogDataEntryWithAnimation}
         />
       )}
 
@@ -4,7 +4,7 @@
 
 import React from 'react';
 import type { TimelineItem } from '@/application/dto';
-import type { UseSpaceDialogsReturn } from '@/hooks';
+import type { UseSpaceDialogsReturn, UseTimelineDataReturn } from '@/hooks';
 
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { GanttChartSquare } from 'lucide-react';
@@ -16,14 +16,22 @@ interface TimelineSummaryWidgetProps {
     'openTimelineDialog' | 
     'closeTimelineDialog'
   >;
-  timelineItems: TimelineItem[];
-  isLoadingTimeline: boolean;
+  timeline: Pick<UseTimelineDataReturn,
+    'timelineItems' |
+    'isLoadingTimeline' |
+    'isLoadingMoreTimeline' |
+    'hasMoreTimeline' |
+    'timelineTypes' |
+    'setTimelineTypes' |
+    'loadMoreTimeline'
+  >;
+  onUndoItem?: (item: TimelineItem) => Promise<void>;
 }
 
 export function TimelineSummaryWidget({
   dialogs,
-  timelineItems,
-  isLoadingTimeline,
+  timeline,
+  onUndoItem,
 }: TimelineSummaryWidgetProps) {
   return (
     <>
@@ -37,9 +45,15 @@ export function TimelineSummaryWidget({
          <ActivityTimelineDialog
             isOpen={dialogs.isTimelineDialogOpen}
             onClose={dialogs.closeTimelineDialog}
-            timelineItems={timelineItems || []}
-            isLoading={isLoadingTimeline}
+            timelineItems={timeline.timelineItems || []}
+            isLoading={timeline.isLoadingTimeline}
+            isLoadingMore={timeline.isLoadingMoreTimeline}
+            hasMore={timeline.hasMoreTimeline}
+            onLoadMore={timeline.loadMoreTimeline}
+            selectedTypes={timeline.timelineTypes}
+            onSelectedTypesChange={timeline.setTimelineTypes}
             title="Activity Timeline / Gantt (Future)"
+            onUndoItem={onUndoItem}
         />
       )}
     </>
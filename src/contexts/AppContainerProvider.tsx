@@ -0,0 +1,49 @@
+// src/contexts/AppContainerProvider.tsx
+"use client";
+
+import React, { createContext, useContext, useState } from 'react';
+import type { ReactNode } from 'react';
+import { createAppContainer, type AppAdapters, type AppContainer, type AppUseCases } from '@/application/container';
+import { createIndexedDBAdapters } from '@/infrastructure/persistence/indexeddb';
+
+const AppContainerContext = createContext<AppContainer | undefined>(undefined);
+
+let defaultContainer: AppContainer | null = null;
+
+// The IndexedDB container is built on first use and kept for the lifetime of the page
+function getDefaultAppContainer(): AppContainer {
+  defaultContainer ??= createAppContainer(createIndexedDBAdapters());
+  return defaultContainer;
+}
+
+export function useAppContainer(): AppContainer {
+  const context = useContext(AppContainerContext);
+  if (context === undefined) {
+    throw new Error('useAppContainer must be used within an AppContainerProvider');
+  }
+  return context;
+}
+
+export function useUseCases(): AppUseCases {
+  return useAppContainer().useCases;
+}
+
+export function useAdapters(): AppAdapters {
+  return useAppContainer().adapters;
+}
+
+interface AppContainerProviderProps {
+  children: ReactNode;
+  container?: AppContainer; // Defaults to the IndexedDB adapters; pass another container to run on a different adapter set
+}
+
+export function AppContainerProvider({ children, container }: AppContainerProviderProps) {
+  // Kept stable across renders, so use cases can safely be listed as hook dependencies
+  const [value] = useState(() => container ?? getDefaultAppContainer());
+
+  return (
+    <AppContainerContext.Provider value={value}>
+      {children}
+    </AppContainerContext.Provider>
+  );
+}
@@ -6,8 +6,7 @@ import type { ReactNode } from 'react';
 import type { Space } from '@/domain/entities';
 import { useSpaceData } from '@/hooks/data';
 import type { GetSpaceByIdUseCase } from '@/application/use-cases';
-import { IndexedDBSpaceRepository } from '@/infrastructure/persistence/indexeddb';
-import { GetSpaceByIdUseCase as GetSpaceByIdUseCaseImpl } from '@/application/use-cases'; 
+import { useUseCases } from './AppContainerProvider';
 
 interface SpaceDataContextType {
   space: Space | null;
@@ -38,10 +37,9 @@ export function SpaceDataProvider({
   spaceId,
   getSpaceByIdUseCaseInstance,
 }: SpaceDataProviderProps) {
-  const defaultSpaceRepository = useMemo(() => new IndexedDBSpaceRepository(), []);
-  const defaultGetSpaceByIdUseCase = useMemo(() => new GetSpaceByIdUseCaseImpl(defaultSpaceRepository), [defaultSpaceRepository]);
+  const { getSpaceByIdUseCase } = useUseCases();
 
-  const useCaseToUse = getSpaceByIdUseCaseInstance || defaultGetSpaceByIdUseCase;
+  const useCaseToUse = getSpaceByIdUseCaseInstance || getSpaceByIdUseCase;
 
   const { space, isLoadingSpace, errorLoadingSpace, refreshSpace } = useSpaceData(
     spaceId,
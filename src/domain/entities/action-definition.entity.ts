@@ -42,4 +42,5 @@ export interface ActionDefinition {
   order?: number;
   creationDate: string; // ISO date string
   isEnabled: boolean;
+  deletedAt?: string; // ISO date string, set while the action is in the trash
 }
@@ -14,4 +14,5 @@ export interface ActionLog {
   isMultiStepFullCompletion?: boolean; // Optional: True if this log entry signifies the full completion of a multi-step action
   notes?: string; // Optional: Any notes related to this specific log instance
   durationMs?: number; // Optional: For timer actions, the duration in milliseconds
+  deletedAt?: string; // ISO date string, set while the entry is in the trash
 }
@@ -0,0 +1,16 @@
+// src/domain/entities/attachment.entity.ts
+
+/**
+ * Binary content, such as a photo, stored separately from the records that reference it.
+ */
+export interface Attachment {
+  id: string;
+  spaceId: string; // Space of the record the attachment was created for
+  blob: Blob;
+  mimeType: string;
+  size: number; // Size in bytes
+  creationDate: string; // ISO date string
+}
+
+// An attachment as listed without reading its content
+export type AttachmentMetadata = Omit<Attachment, 'blob'>;
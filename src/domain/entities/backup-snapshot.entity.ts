@@ -0,0 +1,21 @@
+// src/domain/entities/backup-snapshot.entity.ts
+
+/**
+ * - `scheduled`: taken automatically on the backup schedule
+ * - `manual`: taken from Settings
+ * - `beforeImport`, `beforeClear`, `beforeRestore`: taken just before all data is replaced or removed
+ */
+export type BackupTrigger = 'scheduled' | 'manual' | 'beforeImport' | 'beforeClear' | 'beforeRestore';
+
+/**
+ * A copy of all app data kept on this device. The archive itself is stored apart,
+ * so snapshots can be listed without reading it.
+ */
+export interface BackupSnapshot {
+  id: string;
+  createdAt: string; // ISO date string
+  trigger: BackupTrigger;
+  schemaVersion: string; // Database version the archive was written by
+  size: number; // Archive size in bytes
+  recordCounts: Record<string, number>; // Number of records per collection
+}
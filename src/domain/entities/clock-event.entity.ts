@@ -8,4 +8,5 @@ export interface ClockEvent {
   type: 'clock-in' | 'clock-out';
   timestamp: string; // ISO date string
   spaceId: string; // ID of the space this clock event pertains to
+  deletedAt?: string; // ISO date string, set while the event is in the trash
 }
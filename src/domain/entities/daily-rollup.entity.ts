@@ -0,0 +1,19 @@
+// src/domain/entities/daily-rollup.entity.ts
+
+/**
+ * Totals of one space for one calendar day, derived from its action logs, data entries
+ * and clock events. Kept up to date as those are written, so dashboards can read a few
+ * rollups instead of every log.
+ */
+export interface DailyRollup {
+  id: string; // `${spaceId}:${day}`
+  spaceId: string;
+  day: string; // YYYY-MM-DD in local time
+  actionPoints: number;
+  actionCount: number;
+  dataEntryPoints: number;
+  dataEntryCount: number;
+  clockedInMs: number; // Completed clock-in sessions, counted on the day they started
+  openClockInAt?: string; // ISO date string of a clock-in not yet followed by a clock-out
+  updatedAt: string; // ISO date string
+}
@@ -12,4 +12,5 @@ export interface DataEntryLog {
   timestamp: string; // ISO date string of when the data was submitted
   data: Record<string, any>; // Stores { fieldName: value } from the submitted form
   pointsAwarded: number; // Points awarded for this data submission (typically from the parent ActionDefinition)
+  deletedAt?: string; // ISO date string, set while the entry is in the trash
 }
@@ -2,23 +2,38 @@
 export * from './action-definition.entity';
 export type { ActionDefinition, ActionStep, FormFieldDefinition, ActionType } from './action-definition.entity';
 
+export * from './attachment.entity';
+export type { Attachment, AttachmentMetadata } from './attachment.entity';
+
+export * from './backup-snapshot.entity';
+export type { BackupSnapshot, BackupTrigger } from './backup-snapshot.entity';
+
 export * from './action-log.entity';
 export type { ActionLog } from './action-log.entity';
 
 export * from './clock-event.entity';
 export type { ClockEvent } from './clock-event.entity';
 
+export * from './daily-rollup.entity';
+export type { DailyRollup } from './daily-rollup.entity';
+
 export * from './data-entry-log.entity';
 export type { DataEntryLog } from './data-entry-log.entity';
 
 export * from './problem.entity';
 export type { Problem } from './problem.entity';
 
+export * from './record-history.entity';
+export type { RecordHistoryEntry, FieldChange, HistoryRecordType } from './record-history.entity';
+
 export * from './space.entity';
 export type { Space } from './space.entity';
 
 export * from './todo.entity';
 export type { Todo, TodoStatus } from './todo.entity';
 
+export * from './upgrade-marker.entity';
+export type { UpgradeMarker } from './upgrade-marker.entity';
+
 export * from './user-progress.entity';
 export type { UserProgress } from './user-progress.entity';
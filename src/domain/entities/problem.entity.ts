@@ -12,6 +12,7 @@ export interface Problem {
   lastModifiedDate: string; // ISO date string
   resolved: boolean;
   resolutionNotes?: string; // Optional notes when resolving
-  imageDataUri?: string; // Optional: Data URI for an image associated with the problem
+  imageAttachmentId?: string; // Optional: Attachment holding an image associated with the problem
+  deletedAt?: string; // ISO date string, set while the item is in the trash
 }
 
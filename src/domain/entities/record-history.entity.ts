@@ -0,0 +1,26 @@
+// src/domain/entities/record-history.entity.ts
+
+export type HistoryRecordType = 'dataEntry' | 'todo' | 'problem' | 'actionDefinition';
+
+/**
+ * One changed field. Nested values use a dotted path, e.g. `data.temperature`
+ * for a field of a data entry's submitted form.
+ */
+export interface FieldChange {
+  field: string;
+  before?: unknown; // Absent when the field was added
+  after?: unknown; // Absent when the field was removed
+}
+
+/**
+ * An append-only audit entry describing one update to a record.
+ */
+export interface RecordHistoryEntry {
+  id: string;
+  recordType: HistoryRecordType;
+  recordId: string; // ID of the data entry, todo, problem or action definition that changed
+  spaceId: string;
+  timestamp: string; // ISO date string of when the update was saved
+  reason?: string; // Optional explanation given by the user
+  changes: FieldChange[];
+}
@@ -12,4 +12,5 @@ export interface Space {
   tags: string[];
   colorScheme?: string; // Identifier for a predefined or custom color scheme
   goal?: string; // Current primary goal for this space
+  deletedAt?: string; // ISO date string, set while the space is in the trash
 }
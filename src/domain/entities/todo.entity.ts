@@ -11,11 +11,12 @@ export interface Todo {
   spaceId: string;
   description: string;
   status: TodoStatus; // New status field
-  beforeImageDataUri?: string; // Data URI for an image taken before starting the task
-  afterImageDataUri?: string;  // Data URI for an image taken after completing the task
+  beforeImageAttachmentId?: string; // Attachment holding an image taken before starting the task
+  afterImageAttachmentId?: string;  // Attachment holding an image taken after completing the task
   completed: boolean; // Will be kept in sync with status === 'done'
   creationDate: string; // ISO date string
   completionDate?: string; // ISO date string, set when status becomes 'done'
   lastModifiedDate: string; // ISO date string
   order?: number; // For manual sorting if implemented later
+  deletedAt?: string; // ISO date string, set while the item is in the trash
 }
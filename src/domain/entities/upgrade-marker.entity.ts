@@ -0,0 +1,10 @@
+// src/domain/entities/upgrade-marker.entity.ts
+
+/**
+ * Records that a one-off upgrade step has completed, such as building the daily rollups
+ * of a database that predates them. Written in the same change as the step itself.
+ */
+export interface UpgradeMarker {
+  id: string; // Names the step
+  completedAt: string; // ISO date string
+}
@@ -2,45 +2,37 @@
 // src/hooks/actions/use-space-action-logger.ts
 "use client";
 
-import { useCallback, useState, useMemo } from 'react';
-import type { LogActionResult, LogDataEntryInputDTO, LogDataEntryResult } from '@/application/use-cases';
-import type { IActionLogRepository, IActionDefinitionRepository, IDataEntryLogRepository } from '@/application/ports/repositories';
-import { LogActionUseCase, LogDataEntryUseCase } from '@/application/use-cases';
+import { useCallback, useState } from 'react';
+import type { DataEntryLog } from '@/domain/entities';
+import type { LogActionResult, LogDataEntryInputDTO, LogDataEntryResult, UndoActionLogResult } from '@/application/use-cases';
+import { useUseCases } from '@/contexts/AppContainerProvider';
 
 interface UseSpaceActionLoggerProps {
   spaceId: string;
-  actionLogRepository: IActionLogRepository;
-  dataEntryLogRepository: IDataEntryLogRepository;
-  actionDefinitionRepository: IActionDefinitionRepository;
   onActionLogged: (result: LogActionResult) => void;
   onDataEntryLogged: (result: LogDataEntryResult) => void;
+  onActionLogUndone: (result: UndoActionLogResult) => void;
+  onDataEntryUndone: (removedEntry: DataEntryLog) => void;
 }
 
 export interface UseSpaceActionLoggerReturn {
   handleLogAction: (actionDefinitionId: string, completedStepId?: string, stepOutcome?: 'completed' | 'skipped', notes?: string, durationMs?: number) => Promise<LogActionResult>;
   handleLogDataEntry: (data: Omit<LogDataEntryInputDTO, 'spaceId'>) => Promise<LogDataEntryResult>; 
+  handleUndoActionLog: (actionLogId: string) => Promise<UndoActionLogResult>;
+  handleUndoDataEntry: (dataEntryId: string) => Promise<DataEntryLog>;
   isLogging: boolean;
 }
 
 export function useSpaceActionLogger({
   spaceId,
-  actionLogRepository,
-  dataEntryLogRepository,
-  actionDefinitionRepository,
   onActionLogged,
   onDataEntryLogged,
+  onActionLogUndone,
+  onDataEntryUndone,
 }: UseSpaceActionLoggerProps): UseSpaceActionLoggerReturn {
   const [isLogging, setIsLogging] = useState(false);
 
-  const logActionUseCase = useMemo(() => 
-    new LogActionUseCase(actionLogRepository, actionDefinitionRepository), 
-    [actionLogRepository, actionDefinitionRepository]
-  );
-
-  const logDataEntryUseCase = useMemo(() => 
-    new LogDataEntryUseCase(dataEntryLogRepository, actionDefinitionRepository), 
-    [dataEntryLogRepository, actionDefinitionRepository]
-  );
+  const { logActionUseCase, logDataEntryUseCase, undoActionLogUseCase, undoDataEntryUseCase } = useUseCases();
 
   const handleLogAction = useCallback(
     async (actionDefinitionId: string, completedStepId?: string, stepOutcome?: 'completed' | 'skipped', notes?: string, durationMs?: number): Promise<LogActionResult> => {
@@ -96,5 +88,39 @@ export function useSpaceActionLogger({
     [spaceId, logDataEntryUseCase, onDataEntryLogged]
   );
 
-  return { handleLogAction, handleLogDataEntry, isLogging };
+  const handleUndoActionLog = useCallback(
+    async (actionLogId: string): Promise<UndoActionLogResult> => {
+      setIsLogging(true);
+      try {
+        const result = await undoActionLogUseCase.execute(actionLogId);
+        onActionLogUndone(result);
+        return result;
+      } catch (error: any) {
+        console.error("Error undoing action log:", error);
+        throw error;
+      } finally {
+        setIsLogging(false);
+      }
+    },
+    [undoActionLogUseCase, onActionLogUndone]
+  );
+
+  const handleUndoDataEntry = useCallback(
+    async (dataEntryId: string): Promise<DataEntryLog> => {
+      setIsLogging(true);
+      try {
+        const removedEntry = await undoDataEntryUseCase.execute(dataEntryId);
+        onDataEntryUndone(removedEntry);
+        return removedEntry;
+      } catch (error: any) {
+        console.error("Error undoing data entry:", error);
+        throw error;
+      } finally {
+        setIsLogging(false);
+      }
+    },
+    [undoDataEntryUseCase, onDataEntryUndone]
+  );
+
+  return { handleLogAction, handleLogDataEntry, handleUndoActionLog, handleUndoDataEntry, isLogging };
 }
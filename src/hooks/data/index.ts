@@ -1,8 +1,12 @@
 // src/hooks/data/index.ts
+export * from './use-backups';
+export * from './use-daily-rollups-bootstrap';
+export * from './use-data-changes';
 export * from './use-space-actions-data';
 export * from './use-space-clock-events';
 export * from './use-space-data';
 export * from './use-space-metrics';
 export * from './use-space-todos';
 export * from './use-timeline-data';
+export * from './use-trash';
 // use-action-definitions-data.ts is a placeholder, so not exported
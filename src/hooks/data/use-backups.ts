@@ -0,0 +1,147 @@
+// src/hooks/data/use-backups.ts
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { differenceInMinutes, parseISO } from 'date-fns';
+import type { BackupSnapshot, BackupTrigger } from '@/domain/entities';
+import { useUseCases } from '@/contexts/AppContainerProvider';
+import { getBackupSettings, setBackupSettings, type BackupSettings } from '@/lib/backup-settings';
+
+const SCHEDULE_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+let isScheduledBackupRunning = false;
+let scheduledBackupError: string | null = null; // Last scheduled backup's failure, shown in the backup panel
+
+// Lets open backup lists know about backups taken, or failed, elsewhere on the page
+const backupListeners = new Set<() => void>();
+const notifyBackupTaken = () => backupListeners.forEach(listener => listener());
+
+/**
+ * Takes a scheduled backup whenever the newest one, of any kind, is older than the
+ * configured interval. Checked on load and then every 15 minutes while the page is open.
+ */
+export function useScheduledBackups(): void {
+  const { getBackupSnapshotsUseCase, createBackupSnapshotUseCase } = useUseCases();
+
+  useEffect(() => {
+    const takeBackupIfDue = async () => {
+      const { intervalHours, keepDaily, keepWeekly } = getBackupSettings();
+      if (intervalHours === 0 || isScheduledBackupRunning) return;
+      isScheduledBackupRunning = true;
+      try {
+        const [newest] = await getBackupSnapshotsUseCase.execute();
+        if (newest && differenceInMinutes(new Date(), parseISO(newest.createdAt)) < intervalHours * 60) return;
+        await createBackupSnapshotUseCase.execute({ trigger: 'scheduled', retention: { keepDaily, keepWeekly } });
+        scheduledBackupError = null;
+        notifyBackupTaken();
+      } catch (err) {
+        console.error("Failed to take a scheduled backup:", err);
+        scheduledBackupError = `The scheduled backup failed: ${err instanceof Error ? err.message : String(err)}`;
+        notifyBackupTaken();
+      } finally {
+        isScheduledBackupRunning = false;
+      }
+    };
+
+    takeBackupIfDue();
+    const timer = window.setInterval(takeBackupIfDue, SCHEDULE_CHECK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [getBackupSnapshotsUseCase, createBackupSnapshotUseCase]);
+}
+
+/**
+ * Returns a function that saves a backup with the current retention settings. Callers
+ * await it before replacing or removing data and leave the data alone if it fails.
+ */
+export function useBackupBeforeChange(): (trigger: BackupTrigger) => Promise<BackupSnapshot> {
+  const { createBackupSnapshotUseCase } = useUseCases();
+
+  return useCallback(async (trigger: BackupTrigger) => {
+    const { keepDaily, keepWeekly } = getBackupSettings();
+    try {
+      const snapshot = await createBackupSnapshotUseCase.execute({ trigger, retention: { keepDaily, keepWeekly } });
+      notifyBackupTaken();
+      return snapshot;
+    } catch (err) {
+      console.error("Failed to take a backup:", err);
+      throw new Error(`Could not save a backup first, so nothing was changed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [createBackupSnapshotUseCase]);
+}
+
+export interface UseBackupsReturn {
+  snapshots: BackupSnapshot[];
+  isLoadingSnapshots: boolean;
+  snapshotsError: string | null;
+  scheduledBackupError: string | null;
+  settings: BackupSettings;
+  refreshSnapshots: () => Promise<void>;
+  createBackup: () => Promise<BackupSnapshot>;
+  restoreBackup: (id: string) => Promise<void>;
+  deleteBackup: (id: string) => Promise<void>;
+  updateSettings: (settings: BackupSettings) => void;
+}
+
+export function useBackups(): UseBackupsReturn {
+  const [snapshots, setSnapshots] = useState<BackupSnapshot[]>([]);
+  const [isLoadingSnapshots, setIsLoadingSnapshots] = useState(true);
+  const [snapshotsError, setSnapshotsError] = useState<string | null>(null);
+  const [lastScheduledError, setLastScheduledError] = useState<string | null>(() => scheduledBackupError);
+  const [settings, setSettings] = useState<BackupSettings>(() => getBackupSettings());
+
+  const { getBackupSnapshotsUseCase, restoreBackupSnapshotUseCase, deleteBackupSnapshotUseCase } = useUseCases();
+  const backupBeforeChange = useBackupBeforeChange();
+
+  const fetchSnapshots = useCallback(async () => {
+    setSnapshotsError(null);
+    setLastScheduledError(scheduledBackupError);
+    try {
+      setSnapshots(await getBackupSnapshotsUseCase.execute());
+    } catch (err: any) {
+      console.error("Failed to fetch backups:", err);
+      setSnapshotsError(err.message || "Could not load the backups.");
+    } finally {
+      setIsLoadingSnapshots(false);
+    }
+  }, [getBackupSnapshotsUseCase]);
+
+  useEffect(() => {
+    fetchSnapshots();
+    backupListeners.add(fetchSnapshots);
+    return () => {
+      backupListeners.delete(fetchSnapshots);
+    };
+  }, [fetchSnapshots]);
+
+  // Errors are left to the caller, which shows them in the panel
+  const createBackup = useCallback(() => backupBeforeChange('manual'), [backupBeforeChange]);
+
+  const restoreBackup = useCallback(async (id: string) => {
+    // The data being replaced is backed up too, so a restore can itself be undone
+    await backupBeforeChange('beforeRestore');
+    await restoreBackupSnapshotUseCase.execute(id);
+  }, [backupBeforeChange, restoreBackupSnapshotUseCase]);
+
+  const deleteBackup = useCallback(async (id: string) => {
+    await deleteBackupSnapshotUseCase.execute(id);
+    await fetchSnapshots();
+  }, [deleteBackupSnapshotUseCase, fetchSnapshots]);
+
+  const updateSettings = useCallback((next: BackupSettings) => {
+    setBackupSettings(next);
+    setSettings(next);
+  }, []);
+
+  return {
+    snapshots,
+    isLoadingSnapshots,
+    snapshotsError,
+    scheduledBackupError: lastScheduledError,
+    settings,
+    refreshSnapshots: fetchSnapshots,
+    createBackup,
+    restoreBackup,
+    deleteBackup,
+    updateSettings,
+  };
+}
@@ -0,0 +1,45 @@
+// src/hooks/data/use-daily-rollups-bootstrap.ts
+"use client";
+
+import { useEffect } from 'react';
+import type { AppUseCases } from '@/application/container';
+import { useUseCases } from '@/contexts/AppContainerProvider';
+
+// One bootstrap per container, shared by every page that mounts the hook
+const pendingBootstraps = new WeakMap<AppUseCases, Promise<boolean>>();
+
+// Resolves to true when rollups had to be built
+async function buildMissingDailyRollups(useCases: AppUseCases): Promise<boolean> {
+  const rollupCount = await useCases.rebuildDailyRollupsUseCase.execute({ onlyIfNotBuilt: true });
+  return rollupCount > 0;
+}
+
+/**
+ * A database upgraded from before daily rollups existed has none yet. The first page that
+ * mounts this builds them from the logs, unless a completed rebuild left its marker, and
+ * `onBuilt` is called so the page can read its totals again. Rollups written since the
+ * upgrade, by a new log or an import, say nothing about the older logs.
+ */
+export function useDailyRollupsBootstrap(onBuilt: () => void): void {
+  const useCases = useUseCases();
+
+  useEffect(() => {
+    let isCurrent = true;
+    let pendingBootstrap = pendingBootstraps.get(useCases);
+    if (!pendingBootstrap) {
+      pendingBootstrap = buildMissingDailyRollups(useCases).catch(err => {
+        pendingBootstraps.delete(useCases); // Try again on the next mount
+        throw err;
+      });
+      pendingBootstraps.set(useCases, pendingBootstrap);
+    }
+    pendingBootstrap
+      .then(built => {
+        if (built && isCurrent) onBuilt();
+      })
+      .catch(err => console.error("Failed to build daily rollups:", err));
+    return () => {
+      isCurrent = false;
+    };
+  }, [useCases, onBuilt]);
+}
@@ -0,0 +1,52 @@
+// src/hooks/data/use-data-changes.ts
+"use client";
+
+import { useEffect, useRef } from 'react';
+import type { DataChangeEvent, UnitOfWorkStoreName } from '@/application/ports/repositories';
+import { useAdapters } from '@/contexts/AppContainerProvider';
+
+// Writes usually arrive in short bursts (a log plus its progress update), so refresh once per burst
+const REFRESH_DELAY_MS = 150;
+
+interface UseDataChangesOptions {
+  storeNames: UnitOfWorkStoreName[];
+  spaceId?: string; // When set, changes known to belong to other spaces are ignored
+  onChange: () => void;
+}
+
+function isRelevant(event: DataChangeEvent, storeNames: UnitOfWorkStoreName[], spaceId?: string): boolean {
+  if (!storeNames.includes(event.storeName)) return false;
+  // Clears and deletes without a known space may affect any space
+  return !spaceId || !event.spaceId || event.spaceId === spaceId;
+}
+
+/**
+ * Calls `onChange` when another tab commits a write to one of `storeNames`,
+ * so data hooks can refetch instead of showing stale data.
+ */
+export function useDataChanges({ storeNames, spaceId, onChange }: UseDataChangesOptions): void {
+  const { dataChangeFeed } = useAdapters();
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const storeNamesKey = storeNames.join(',');
+
+  useEffect(() => {
+    const watchedStores = storeNamesKey.split(',') as UnitOfWorkStoreName[];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = dataChangeFeed.subscribe(events => {
+      if (!events.some(event => isRelevant(event, watchedStores, spaceId))) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        onChangeRef.current();
+      }, REFRESH_DELAY_MS);
+    });
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [dataChangeFeed, storeNamesKey, spaceId]);
+}
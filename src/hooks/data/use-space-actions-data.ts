@@ -2,20 +2,14 @@
 // src/hooks/data/use-space-actions-data.ts
 "use client";
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import type { ActionDefinition } from '@/domain/entities';
-import { GetActionDefinitionsBySpaceUseCase, CreateActionDefinitionUseCase, UpdateActionDefinitionUseCase, DeleteActionDefinitionUseCase } from '@/application/use-cases';
-import type { 
-  IActionDefinitionRepository, 
-  IActionLogRepository,
-  IDataEntryLogRepository 
-} from '@/application/ports/repositories'; 
+import type { CreateActionDefinitionUseCase, UpdateActionDefinitionUseCase, DeleteActionDefinitionUseCase } from '@/application/use-cases';
+import { useUseCases } from '@/contexts/AppContainerProvider';
+import { useDataChanges } from './use-data-changes';
 
 interface UseSpaceActionsDataProps {
   spaceId: string;
-  actionDefinitionRepository: IActionDefinitionRepository;
-  actionLogRepository: IActionLogRepository; 
-  dataEntryLogRepository: IDataEntryLogRepository; 
 }
 
 export interface UseSpaceActionsDataReturn {
@@ -33,18 +27,17 @@ export interface UseSpaceActionsDataReturn {
 
 export function useSpaceActionsData({
   spaceId,
-  actionDefinitionRepository,
-  actionLogRepository,
-  dataEntryLogRepository,
 }: UseSpaceActionsDataProps): UseSpaceActionsDataReturn {
   const [actionDefinitions, setActionDefinitions] = useState<ActionDefinition[]>([]);
   const [isLoadingActionDefinitions, setIsLoadingActionDefinitions] = useState<boolean>(true);
   const [errorLoadingActionDefinitions, setErrorLoadingActionDefinitions] = useState<string | null>(null);
 
-  const getActionDefinitionsBySpaceUseCase = useMemo(() => new GetActionDefinitionsBySpaceUseCase(actionDefinitionRepository), [actionDefinitionRepository]);
-  const createActionDefinitionUseCase = useMemo(() => new CreateActionDefinitionUseCase(actionDefinitionRepository), [actionDefinitionRepository]);
-  const updateActionDefinitionUseCase = useMemo(() => new UpdateActionDefinitionUseCase(actionDefinitionRepository), [actionDefinitionRepository]);
-  const deleteActionDefinitionUseCase = useMemo(() => new DeleteActionDefinitionUseCase(actionDefinitionRepository, actionLogRepository, dataEntryLogRepository), [actionDefinitionRepository, actionLogRepository, dataEntryLogRepository]);
+  const {
+    getActionDefinitionsBySpaceUseCase,
+    createActionDefinitionUseCase,
+    updateActionDefinitionUseCase,
+    deleteActionDefinitionUseCase,
+  } = useUseCases();
 
   const fetchActionDefinitions = useCallback(async () => {
     if (!spaceId) {
@@ -66,10 +59,12 @@ export function useSpaceActionsData({
   }, [spaceId, getActionDefinitionsBySpaceUseCase]);
 
   useEffect(() => {
-    if (spaceId && actionDefinitionRepository) {
+    if (spaceId) {
       fetchActionDefinitions();
     }
-  }, [spaceId, actionDefinitionRepository, fetchActionDefinitions]);
+  }, [spaceId, fetchActionDefinitions]);
+
+  useDataChanges({ storeNames: ['actionDefinitions'], spaceId, onChange: fetchActionDefinitions });
 
   const addActionDefinitionInState = useCallback((newDefinition: ActionDefinition) => {
     setActionDefinitions(prev => {
@@ -5,6 +5,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import type { ClockEvent } from '@/domain/entities';
 import type { SaveClockEventUseCase, SaveClockEventInputDTO, GetLastClockEventUseCase, GetClockEventsBySpaceUseCase } from '@/application/use-cases';
+import { useDataChanges } from './use-data-changes';
 
 interface UseSpaceClockEventsProps {
   spaceId: string;
@@ -92,6 +93,9 @@ export function useSpaceClockEvents({
     fetchInitialClockStatus();
   }, [fetchInitialClockStatus]);
 
+  // A clock-in or clock-out from another tab must flip this tab's clock immediately
+  useDataChanges({ storeNames: ['clockEvents'], spaceId, onChange: fetchInitialClockStatus });
+
   const handleSaveClockEvent = useCallback(async (type: 'clock-in' | 'clock-out') => {
     if (!spaceId || !saveClockEventUseCase) return;
     setIsSubmittingClockEvent(true);
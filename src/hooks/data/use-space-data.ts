@@ -5,6 +5,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import type { Space } from '@/domain/entities';
 import type { GetSpaceByIdUseCase } from '@/application/use-cases';
+import { useDataChanges } from './use-data-changes';
 
 interface UseSpaceDataReturn {
   space: Space | null;
@@ -47,6 +48,8 @@ export function useSpaceData(
     fetchSpace();
   }, [fetchSpace]);
 
+  useDataChanges({ storeNames: ['spaces'], spaceId, onChange: fetchSpace });
+
   return {
     space,
     isLoadingSpace,
@@ -3,19 +3,21 @@
 "use client";
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import type { ActionLog, DataEntryLog, Todo, Problem, ClockEvent } from '@/domain/entities';
+import type { DailyRollup, DataEntryLog, Todo, Problem, ClockEvent } from '@/domain/entities';
 import type {
-  GetActionLogsBySpaceUseCase,
+  GetDailyRollupsBySpaceUseCase,
   GetProblemsBySpaceUseCase,
-  GetDataEntriesBySpaceUseCase
+  GetDataEntriesBySpaceUseCase,
 } from '@/application/use-cases'; 
+import { summarizeDailyRollups } from '@/lib/daily-rollups';
+import { useDataChanges } from './use-data-changes';
 
 interface UseSpaceMetricsProps {
   spaceId: string;
-  getActionLogsBySpaceUseCase: GetActionLogsBySpaceUseCase;
+  getDailyRollupsBySpaceUseCase: GetDailyRollupsBySpaceUseCase;
   getDataEntriesBySpaceUseCase: GetDataEntriesBySpaceUseCase;
   getProblemsBySpaceUseCase: GetProblemsBySpaceUseCase;
-  clockEventsForSpace: ClockEvent[]; 
+  clockEventsForSpace: ClockEvent[]; // Only watched: the clock totals come from the rollups
 }
 
 export interface SpaceMetrics {
@@ -36,20 +38,21 @@ export interface UseSpaceMetricsReturn extends SpaceMetrics {
   isLoadingMetricsData: boolean;
   metricsError: string | null;
   refreshAllMetricsData: () => Promise<void>;
-  addOptimisticActionLog: (log: ActionLog) => void;
+  refreshDailyRollups: () => Promise<void>;
   addOptimisticDataEntryLog: (log: DataEntryLog) => void;
+  removeDataEntryLog: (dataEntryId: string) => void;
   setTodosForMetrics: (todos: Todo[]) => void;
   setProblemsForMetrics: (problems: Problem[]) => void;
 }
 
 export function useSpaceMetrics({
   spaceId,
-  getActionLogsBySpaceUseCase,
+  getDailyRollupsBySpaceUseCase,
   getDataEntriesBySpaceUseCase,
   getProblemsBySpaceUseCase,
   clockEventsForSpace,
 }: UseSpaceMetricsProps): UseSpaceMetricsReturn {
-  const [actionLogsForSpace, setActionLogsForSpace] = useState<ActionLog[]>([]);
+  const [dailyRollups, setDailyRollups] = useState<DailyRollup[]>([]);
   const [dataEntriesForSpace, setDataEntriesForSpace] = useState<DataEntryLog[]>([]);
   const [_allTodosForSpace, _setAllTodosForSpace] = useState<Todo[]>([]);
   const [_problemsForSpace, _setProblemsForSpace] = useState<Problem[]>([]);
@@ -62,12 +65,12 @@ export function useSpaceMetrics({
     setIsLoadingMetricsData(true);
     setMetricsError(null);
     try {
-      const [actions, dataEntries, problemsData] = await Promise.all([
-        getActionLogsBySpaceUseCase.execute(spaceId),
+      const [rollups, dataEntries, problemsData] = await Promise.all([
+        getDailyRollupsBySpaceUseCase.execute(spaceId),
         getDataEntriesBySpaceUseCase.execute(spaceId),
         getProblemsBySpaceUseCase.execute(spaceId),
       ]);
-      setActionLogsForSpace(actions.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()));
+      setDailyRollups(rollups);
       setDataEntriesForSpace(dataEntries.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()));
       _setProblemsForSpace(problemsData.sort((a,b) => (a.resolved === b.resolved) ? (new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()) : a.resolved ? 1 : -1));
     } catch (err: any) {
@@ -76,7 +79,18 @@ export function useSpaceMetrics({
     } finally {
       setIsLoadingMetricsData(false);
     }
-  }, [spaceId, getActionLogsBySpaceUseCase, getDataEntriesBySpaceUseCase, getProblemsBySpaceUseCase]);
+  }, [spaceId, getDailyRollupsBySpaceUseCase, getDataEntriesBySpaceUseCase, getProblemsBySpaceUseCase]);
+
+  // Logging, undoing and clocking in or out all update the rollups, so totals are re-read afterwards
+  const refreshDailyRollups = useCallback(async () => {
+    if (!spaceId) return;
+    try {
+      setDailyRollups(await getDailyRollupsBySpaceUseCase.execute(spaceId));
+    } catch (err: any) {
+      console.error("Error refreshing daily rollups:", err);
+      setMetricsError(err.message || String(err));
+    }
+  }, [spaceId, getDailyRollupsBySpaceUseCase]);
 
   useEffect(() => {
     if (spaceId) {
@@ -84,10 +98,19 @@ export function useSpaceMetrics({
     }
   }, [spaceId, fetchAllMetricsRelatedData]);
 
+  useEffect(() => {
+    refreshDailyRollups();
+  }, [clockEventsForSpace, refreshDailyRollups]);
+
+  useDataChanges({
+    storeNames: ['dailyRollups', 'dataEntries', 'problems'],
+    spaceId,
+    onChange: fetchAllMetricsRelatedData,
+  });
+
   const calculatedMetrics = useMemo(() => {
-    const totalActionPoints =
-      (actionLogsForSpace || []).reduce((sum, log) => sum + log.pointsAwarded, 0) +
-      (dataEntriesForSpace || []).reduce((sum, entry) => sum + entry.pointsAwarded, 0);
+    const totals = summarizeDailyRollups(dailyRollups);
+    const totalActionPoints = totals.actionPoints + totals.dataEntryPoints;
 
     const todoStatusItems = (_allTodosForSpace || []).filter(t => t.status === 'todo');
     const doingStatusItems = (_allTodosForSpace || []).filter(t => t.status === 'doing');
@@ -96,26 +119,9 @@ export function useSpaceMetrics({
     const unresolvedProblemsCount = (_problemsForSpace || []).filter(p => !p.resolved).length;
     const resolvedProblemsCount = (_problemsForSpace || []).filter(p => p.resolved).length;
 
-    let totalClockedInMs = 0;
-    let currentSessionStart: Date | null = null;
-    let isCurrentlyClockedIn = false;
-
-    const sortedClockEvents = [...(clockEventsForSpace || [])].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-    let lastClockInTime: Date | null = null;
-
-    sortedClockEvents.forEach(event => {
-      if (event.type === 'clock-in') {
-        lastClockInTime = new Date(event.timestamp);
-      } else if (event.type === 'clock-out' && lastClockInTime) {
-        totalClockedInMs += new Date(event.timestamp).getTime() - lastClockInTime.getTime();
-        lastClockInTime = null;
-      }
-    });
-
-    if (lastClockInTime) {
-      isCurrentlyClockedIn = true;
-      currentSessionStart = lastClockInTime;
-    }
+    const totalClockedInMs = totals.clockedInMs;
+    const currentSessionStart = totals.openClockInAt ? new Date(totals.openClockInAt) : null;
+    const isCurrentlyClockedIn = currentSessionStart !== null;
 
     return {
       totalActionPoints,
@@ -128,16 +134,16 @@ export function useSpaceMetrics({
       currentSessionStart,
       isCurrentlyClockedIn,
     };
-  }, [actionLogsForSpace, dataEntriesForSpace, _allTodosForSpace, _problemsForSpace, clockEventsForSpace]);
-
-  const addOptimisticActionLog = useCallback((log: ActionLog) => {
-    setActionLogsForSpace(prev => [log, ...prev].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()));
-  }, []);
+  }, [dailyRollups, _allTodosForSpace, _problemsForSpace]);
 
   const addOptimisticDataEntryLog = useCallback((log: DataEntryLog) => {
     setDataEntriesForSpace(prev => [log, ...prev].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()));
   }, []);
 
+  const removeDataEntryLog = useCallback((dataEntryId: string) => {
+    setDataEntriesForSpace(prev => prev.filter(entry => entry.id !== dataEntryId));
+  }, []);
+
   const setTodosForMetrics = useCallback((todos: Todo[]) => {
     _setAllTodosForSpace(todos.sort((a,b) => (a.order || 0) - (b.order || 0) || new Date(b.creationDate).getTime() - new Date(a.creationDate).getTime()));
   }, []);
@@ -153,8 +159,9 @@ export function useSpaceMetrics({
     isLoadingMetricsData,
     metricsError,
     refreshAllMetricsData: fetchAllMetricsRelatedData,
-    addOptimisticActionLog,
+    refreshDailyRollups,
     addOptimisticDataEntryLog,
+    removeDataEntryLog,
     setTodosForMetrics,
     setProblemsForMetrics,
   };
@@ -2,16 +2,13 @@
 // src/hooks/data/use-space-todos.ts
 "use client";
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import type { Todo, TodoStatus } from '@/domain/entities';
-import {
-  CreateTodoUseCase, type CreateTodoInputDTO,
-  UpdateTodoUseCase, type UpdateTodoInputDTO,
-  DeleteTodoUseCase,
-  GetTodosBySpaceUseCase
-} from '@/application/use-cases';
-import { IndexedDBTodoRepository } from '@/infrastructure/persistence/indexeddb';
+import type { CreateTodoUseCase, CreateTodoInputDTO, UpdateTodoInputDTO } from '@/application/use-cases';
+import { useUseCases } from '@/contexts/AppContainerProvider';
+import { canvasToBlob } from '@/lib/blob-utils';
 import { useImageCaptureDialog, type UseImageCaptureDialogReturn } from '@/hooks';
+import { useDataChanges } from './use-data-changes';
 
 type CaptureMode = 'before' | 'after';
 
@@ -47,11 +44,7 @@ export function useSpaceTodos({
 
   const imageCaptureHook = useImageCaptureDialog<Todo, CaptureMode>();
 
-  const todoRepository = useMemo(() => new IndexedDBTodoRepository(), []);
-  const createTodoUseCase = useMemo(() => new CreateTodoUseCase(todoRepository), [todoRepository]);
-  const updateTodoUseCase = useMemo(() => new UpdateTodoUseCase(todoRepository), [todoRepository]);
-  const deleteTodoUseCase = useMemo(() => new DeleteTodoUseCase(todoRepository), [todoRepository]);
-  const getTodosBySpaceUseCase = useMemo(() => new GetTodosBySpaceUseCase(todoRepository), [todoRepository]);
+  const { createTodoUseCase, updateTodoUseCase, deleteTodoUseCase, getTodosBySpaceUseCase } = useUseCases();
 
   const sortTodos = useCallback((todoList: Todo[]) => {
     return [...todoList].sort((a, b) => (a.order || 0) - (b.order || 0) || new Date(b.creationDate).getTime() - new Date(a.creationDate).getTime());
@@ -86,6 +79,8 @@ export function useSpaceTodos({
     }
   }, [fetchTodos, spaceId]);
 
+  useDataChanges({ storeNames: ['todos'], spaceId, onChange: fetchTodos });
+
   const handleTodoCreatedFromDialog = useCallback(async (newTodoPartialData: Omit<CreateTodoInputDTO, 'spaceId'>): Promise<Todo> => {
     setIsLoadingTodos(true); 
     setTodosError(null);
@@ -181,14 +176,14 @@ export function useSpaceTodos({
       return;
     }
     context.drawImage(video, 0, 0, canvas.width, canvas.height);
-    const imageDataUri = canvas.toDataURL('image/jpeg', 0.8);
 
     try {
+      const image = await canvasToBlob(canvas);
       const updateData: UpdateTodoInputDTO = { id: imageCaptureHook.selectedItemForImage.id };
       if (imageCaptureHook.captureMode === 'before') {
-        updateData.beforeImageDataUri = imageDataUri;
+        updateData.beforeImage = image;
       } else {
-        updateData.afterImageDataUri = imageDataUri;
+        updateData.afterImage = image;
       }
       const updatedTodo = await updateTodoUseCase.execute(updateData);
       setAllTodos(prev => {
@@ -213,9 +208,9 @@ export function useSpaceTodos({
     try {
       const updateData: UpdateTodoInputDTO = { id: todoId };
       if (mode === 'before') {
-        updateData.beforeImageDataUri = null;
+        updateData.beforeImage = null;
       } else {
-        updateData.afterImageDataUri = null;
+        updateData.afterImage = null;
       }
       const updatedTodo = await updateTodoUseCase.execute(updateData);
       setAllTodos(prev => {
@@ -1,53 +1,118 @@
-
 // src/hooks/data/use-timeline-data.ts
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
-import type { TimelineItem } from '@/application/dto';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { TimelineItem, TimelineItemType } from '@/application/dto';
 import type { GetTimelineItemsBySpaceUseCase } from '@/application/use-cases';
+import { useDataChanges } from './use-data-changes';
+
+const TIMELINE_PAGE_SIZE = 50;
+
+const ALL_TIMELINE_TYPES: TimelineItemType[] = ['action_log', 'data_entry', 'problem', 'todo'];
 
-interface UseTimelineDataReturn {
+export interface UseTimelineDataReturn {
   timelineItems: TimelineItem[];
   isLoadingTimeline: boolean;
+  isLoadingMoreTimeline: boolean;
+  hasMoreTimeline: boolean;
   errorLoadingTimeline: string | null;
+  timelineTypes: TimelineItemType[];
+  setTimelineTypes: (types: TimelineItemType[]) => void;
+  loadMoreTimeline: () => Promise<void>;
   refreshTimeline: () => Promise<void>;
 }
 
+/**
+ * Pages through a space's timeline, newest first. A refresh re-reads as many items as are
+ * already shown, so a change made far down the list does not scroll the view back to the top.
+ */
 export function useTimelineData(
   spaceId: string,
   getTimelineItemsBySpaceUseCase: GetTimelineItemsBySpaceUseCase
 ): UseTimelineDataReturn {
   const [timelineItems, setTimelineItems] = useState<TimelineItem[]>([]);
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [timelineTypes, setTimelineTypes] = useState<TimelineItemType[]>(ALL_TIMELINE_TYPES);
   const [isLoadingTimeline, setIsLoadingTimeline] = useState<boolean>(true);
+  const [isLoadingMoreTimeline, setIsLoadingMoreTimeline] = useState<boolean>(false);
   const [errorLoadingTimeline, setErrorLoadingTimeline] = useState<string | null>(null);
 
-  const fetchTimelineItems = useCallback(async () => {
+  // Bumped by every full reload, so a page requested before it is dropped
+  const requestGenerationRef = useRef(0);
+  const loadedCountRef = useRef(0);
+
+  const loadFirstPages = useCallback(async (showLoader: boolean) => {
     if (!spaceId || !getTimelineItemsBySpaceUseCase) {
       setErrorLoadingTimeline("Space ID or use case not provided for timeline.");
       setIsLoadingTimeline(false);
       return;
     }
-    setIsLoadingTimeline(true);
+    const generation = ++requestGenerationRef.current;
+    if (showLoader) setIsLoadingTimeline(true);
     setErrorLoadingTimeline(null);
     try {
-      const data = await getTimelineItemsBySpaceUseCase.execute(spaceId);
-      setTimelineItems(data);
+      const page = await getTimelineItemsBySpaceUseCase.execute(spaceId, {
+        limit: Math.max(TIMELINE_PAGE_SIZE, loadedCountRef.current),
+        types: timelineTypes,
+      });
+      if (generation !== requestGenerationRef.current) return;
+      loadedCountRef.current = page.items.length;
+      setTimelineItems(page.items);
+      setOlderCursor(page.olderCursor);
     } catch (err: any) {
       console.error("Failed to fetch timeline items:", err);
-      setErrorLoadingTimeline(err.message || "Could not load activity timeline.");
+      if (generation === requestGenerationRef.current) {
+        setErrorLoadingTimeline(err.message || "Could not load activity timeline.");
+      }
     } finally {
-      setIsLoadingTimeline(false);
+      if (generation === requestGenerationRef.current) setIsLoadingTimeline(false);
     }
-  }, [spaceId, getTimelineItemsBySpaceUseCase]);
+  }, [spaceId, getTimelineItemsBySpaceUseCase, timelineTypes]);
 
   useEffect(() => {
-    fetchTimelineItems();
-  }, [fetchTimelineItems]);
+    loadedCountRef.current = 0;
+    loadFirstPages(true);
+  }, [loadFirstPages]);
+
+  const refreshTimeline = useCallback(() => loadFirstPages(false), [loadFirstPages]);
+
+  const loadMoreTimeline = useCallback(async () => {
+    if (!olderCursor || isLoadingMoreTimeline) return;
+    const generation = requestGenerationRef.current;
+    setIsLoadingMoreTimeline(true);
+    try {
+      const page = await getTimelineItemsBySpaceUseCase.execute(spaceId, {
+        limit: TIMELINE_PAGE_SIZE,
+        before: olderCursor,
+        types: timelineTypes,
+      });
+      if (generation !== requestGenerationRef.current) return;
+      loadedCountRef.current += page.items.length;
+      setTimelineItems(prev => [...prev, ...page.items]);
+      setOlderCursor(page.olderCursor);
+    } catch (err: any) {
+      console.error("Failed to fetch older timeline items:", err);
+      setErrorLoadingTimeline(err.message || "Could not load older activity.");
+    } finally {
+      setIsLoadingMoreTimeline(false);
+    }
+  }, [spaceId, getTimelineItemsBySpaceUseCase, timelineTypes, olderCursor, isLoadingMoreTimeline]);
+
+  useDataChanges({
+    storeNames: ['actionLogs', 'actionDefinitions', 'problems', 'todos', 'dataEntries'],
+    spaceId,
+    onChange: refreshTimeline,
+  });
 
   return {
     timelineItems,
     isLoadingTimeline,
+    isLoadingMoreTimeline,
+    hasMoreTimeline: olderCursor !== null,
     errorLoadingTimeline,
-    refreshTimeline: fetchTimelineItems,
+    timelineTypes,
+    setTimelineTypes,
+    loadMoreTimeline,
+    refreshTimeline,
   };
 }
@@ -0,0 +1,92 @@
+// src/hooks/data/use-trash.ts
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { subDays } from 'date-fns';
+import type { TrashItemDTO, TrashItemKind } from '@/application/use-cases';
+import { useUseCases } from '@/contexts/AppContainerProvider';
+import { getTrashRetentionDays, setTrashRetentionDays } from '@/lib/trash-settings';
+import { useDataChanges } from './use-data-changes';
+
+let hasPurgedExpiredTrash = false;
+
+/**
+ * Purges trash older than the retention period, once per page load.
+ */
+export function useTrashAutoPurge(): void {
+  const { purgeTrashUseCase } = useUseCases();
+
+  useEffect(() => {
+    if (hasPurgedExpiredTrash) return;
+    hasPurgedExpiredTrash = true;
+    purgeTrashUseCase
+      .execute(subDays(new Date(), getTrashRetentionDays()))
+      .catch(err => console.error("Failed to purge expired trash:", err));
+  }, [purgeTrashUseCase]);
+}
+
+export interface UseTrashReturn {
+  trashItems: TrashItemDTO[];
+  isLoadingTrash: boolean;
+  trashError: string | null;
+  retentionDays: number;
+  refreshTrash: () => Promise<void>;
+  restoreItem: (kind: TrashItemKind, id: string) => Promise<void>;
+  emptyTrash: () => Promise<number>;
+  updateRetentionDays: (days: number) => void;
+}
+
+export function useTrash(): UseTrashReturn {
+  const [trashItems, setTrashItems] = useState<TrashItemDTO[]>([]);
+  const [isLoadingTrash, setIsLoadingTrash] = useState(true);
+  const [trashError, setTrashError] = useState<string | null>(null);
+  const [retentionDays, setRetentionDays] = useState(() => getTrashRetentionDays());
+
+  const { getTrashUseCase, restoreFromTrashUseCase, purgeTrashUseCase } = useUseCases();
+
+  const fetchTrash = useCallback(async () => {
+    setTrashError(null);
+    try {
+      setTrashItems(await getTrashUseCase.execute());
+    } catch (err: any) {
+      console.error("Failed to fetch trash:", err);
+      setTrashError(err.message || "Could not load the trash.");
+    } finally {
+      setIsLoadingTrash(false);
+    }
+  }, [getTrashUseCase]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  useDataChanges({ storeNames: ['spaces', 'actionDefinitions', 'problems', 'todos'], onChange: fetchTrash });
+
+  // Errors are left to the caller, which shows them next to the item
+  const restoreItem = useCallback(async (kind: TrashItemKind, id: string) => {
+    await restoreFromTrashUseCase.execute(kind, id);
+    await fetchTrash();
+  }, [restoreFromTrashUseCase, fetchTrash]);
+
+  const emptyTrash = useCallback(async () => {
+    const purgedCount = await purgeTrashUseCase.execute(new Date());
+    await fetchTrash();
+    return purgedCount;
+  }, [purgeTrashUseCase, fetchTrash]);
+
+  const updateRetentionDays = useCallback((days: number) => {
+    setTrashRetentionDays(days);
+    setRetentionDays(days);
+  }, []);
+
+  return {
+    trashItems,
+    isLoadingTrash,
+    trashError,
+    retentionDays,
+    refreshTrash: fetchTrash,
+    restoreItem,
+    emptyTrash,
+    updateRetentionDays,
+  };
+}
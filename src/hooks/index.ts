@@ -1,10 +1,13 @@
 // src/hooks/index.ts
+export * from './use-attachment-url';
 export * from './use-dialog-state';
 export * from './use-editable-item';
 export * from './use-form-wizard-logic';
 export * from './use-image-capture-dialog';
 export * from './use-mobile';
 export * from './use-space-dialogs';
+export * from './use-storage-estimate';
+export * from './use-database-encryption';
 export * from './use-action-definition-form'; // formerly use-create-action-definition-form
 
 // Re-export from sub-barrels
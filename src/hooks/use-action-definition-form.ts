@@ -31,6 +31,7 @@ export function useActionDefinitionForm({
   const [formFields, setFormFields] = useState<Array<Partial<Omit<FormFieldDefinition, 'order'>> & { id?: string }>>([]);
   const [order, setOrder] = useState<number>(0);
   const [isEnabled, setIsEnabled] = useState(true);
+  const [changeReason, setChangeReason] = useState(''); // Recorded in the change history when editing
   const [isLoading, setIsLoading] = useState(false);
   const [currentStepIndex, setCurrentStepIndex] = useState(0); 
 
@@ -67,6 +68,7 @@ export function useActionDefinitionForm({
       setOrder(0);
       setIsEnabled(true);
     }
+    setChangeReason('');
     setCurrentStepIndex(0);
   }, [initialActionDefinition]);
 
@@ -236,6 +238,7 @@ export function useActionDefinitionForm({
           formFields: processedFormFields,
           order,
           isEnabled,
+          reason: changeReason.trim() || undefined,
         };
         resultActionDefinition = await updateActionDefinition.execute(updateData);
       } else if (createActionDefinition) {
@@ -263,7 +266,7 @@ export function useActionDefinitionForm({
       setIsLoading(false);
     }
   }, [
-    spaceId, initialActionDefinition, name, description, type, pointsForCompletion, steps, formFields, order, isEnabled,
+    spaceId, initialActionDefinition, name, description, type, pointsForCompletion, steps, formFields, order, isEnabled, changeReason,
     createActionDefinition, updateActionDefinition, onSuccess, populateForm
   ]);
 
@@ -278,6 +281,7 @@ export function useActionDefinitionForm({
     formFields, setFormFields,
     order, setOrder,
     isEnabled, setIsEnabled,
+    changeReason, setChangeReason,
     isLoading,
     resetForm,
     handleAddStep, handleRemoveStep, handleStepChange,
@@ -0,0 +1,37 @@
+// src/hooks/use-attachment-url.ts
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useUseCases } from '@/contexts/AppContainerProvider';
+
+/**
+ * Resolves an attachment id to an object URL for display.
+ * The URL is revoked when the id changes or the component unmounts.
+ */
+export function useAttachmentUrl(attachmentId: string | null | undefined): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+
+  const { getAttachmentUseCase } = useUseCases();
+
+  useEffect(() => {
+    setUrl(null);
+    if (!attachmentId) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getAttachmentUseCase.execute(attachmentId)
+      .then(attachment => {
+        if (cancelled || !attachment) return;
+        objectUrl = URL.createObjectURL(attachment.blob);
+        setUrl(objectUrl);
+      })
+      .catch(err => console.error("Failed to load attachment:", err));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachmentId, getAttachmentUseCase]);
+
+  return url;
+}
@@ -0,0 +1,63 @@
+// src/hooks/use-database-encryption.ts
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import type { DatabaseEncryptionStatus } from '@/application/ports/repositories';
+import type { ChangeDatabasePassphraseInputDTO } from '@/application/use-cases';
+import { useAppContainer } from '@/contexts/AppContainerProvider';
+
+export interface UseDatabaseEncryptionReturn {
+  status: DatabaseEncryptionStatus | null; // null until the stored settings have been read
+  statusError: string | null;
+  unlock: (passphrase: string) => Promise<boolean>;
+  lock: () => Promise<void>;
+  enableEncryption: (passphrase: string, confirmation: string) => Promise<void>;
+  changePassphrase: (data: ChangeDatabasePassphraseInputDTO) => Promise<void>;
+  disableEncryption: (currentPassphrase: string) => Promise<void>;
+}
+
+/**
+ * Tracks whether the local database is encrypted and unlocked. The status follows
+ * changes made by this hook, by other components and by other tabs.
+ */
+export function useDatabaseEncryption(): UseDatabaseEncryptionReturn {
+  const [status, setStatus] = useState<DatabaseEncryptionStatus | null>(null);
+  const [statusError, setStatusError] = useState<string | null>(null);
+
+  const { adapters: { databaseEncryption }, useCases } = useAppContainer();
+  const { unlockDatabaseUseCase, enableDatabaseEncryptionUseCase, changeDatabasePassphraseUseCase, disableDatabaseEncryptionUseCase } = useCases;
+
+  useEffect(() => {
+    let isCurrent = true;
+    const unsubscribe = databaseEncryption.subscribe(nextStatus => setStatus(nextStatus));
+    databaseEncryption.getStatus()
+      .then(initialStatus => {
+        if (isCurrent) setStatus(initialStatus);
+      })
+      .catch(err => {
+        console.error("Failed to read encryption status:", err);
+        if (isCurrent) setStatusError(err.message || "Could not open the local database.");
+      });
+    return () => {
+      isCurrent = false;
+      unsubscribe();
+    };
+  }, [databaseEncryption]);
+
+  const unlock = useCallback((passphrase: string) => unlockDatabaseUseCase.execute(passphrase), [unlockDatabaseUseCase]);
+  const lock = useCallback(() => databaseEncryption.lock(), [databaseEncryption]);
+  const enableEncryption = useCallback(
+    (passphrase: string, confirmation: string) => enableDatabaseEncryptionUseCase.execute({ passphrase, confirmation }),
+    [enableDatabaseEncryptionUseCase]
+  );
+  const changePassphrase = useCallback(
+    (data: ChangeDatabasePassphraseInputDTO) => changeDatabasePassphraseUseCase.execute(data),
+    [changeDatabasePassphraseUseCase]
+  );
+  const disableEncryption = useCallback(
+    (currentPassphrase: string) => disableDatabaseEncryptionUseCase.execute(currentPassphrase),
+    [disableDatabaseEncryptionUseCase]
+  );
+
+  return { status, statusError, unlock, lock, enableEncryption, changePassphrase, disableEncryption };
+}
@@ -0,0 +1,65 @@
+// src/hooks/use-storage-estimate.ts
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+
+export interface UseStorageEstimateReturn {
+  isSupported: boolean;
+  usageBytes: number | null;
+  quotaBytes: number | null;
+  isPersisted: boolean | null;
+  isRequestingPersist: boolean;
+  refreshEstimate: () => Promise<void>;
+  requestPersist: () => Promise<boolean>;
+}
+
+/**
+ * Wraps the StorageManager API: the browser's usage/quota estimate for this origin
+ * and whether its storage is persistent, i.e. exempt from eviction under pressure.
+ */
+export function useStorageEstimate(): UseStorageEstimateReturn {
+  const [isSupported, setIsSupported] = useState(false);
+  const [usageBytes, setUsageBytes] = useState<number | null>(null);
+  const [quotaBytes, setQuotaBytes] = useState<number | null>(null);
+  const [isPersisted, setIsPersisted] = useState<boolean | null>(null);
+  const [isRequestingPersist, setIsRequestingPersist] = useState(false);
+
+  const refreshEstimate = useCallback(async () => {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      setIsSupported(false);
+      return;
+    }
+    setIsSupported(true);
+    try {
+      const estimate = await navigator.storage.estimate();
+      setUsageBytes(estimate.usage ?? null);
+      setQuotaBytes(estimate.quota ?? null);
+      if (navigator.storage.persisted) {
+        setIsPersisted(await navigator.storage.persisted());
+      }
+    } catch (error) {
+      console.error("Failed to read storage estimate:", error);
+    }
+  }, []);
+
+  const requestPersist = useCallback(async (): Promise<boolean> => {
+    if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false;
+    setIsRequestingPersist(true);
+    try {
+      const granted = await navigator.storage.persist();
+      setIsPersisted(granted);
+      return granted;
+    } catch (error) {
+      console.error("Failed to request persistent storage:", error);
+      return false;
+    } finally {
+      setIsRequestingPersist(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshEstimate();
+  }, [refreshEstimate]);
+
+  return { isSupported, usageBytes, quotaBytes, isPersisted, isRequestingPersist, refreshEstimate, requestPersist };
+}
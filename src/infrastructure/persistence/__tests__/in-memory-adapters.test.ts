@@ -0,0 +1,5 @@
+// src/infrastructure/persistence/__tests__/in-memory-adapters.test.ts
+import { createInMemoryAdapters } from '../in-memory/in-memory-adapters';
+import { describeRepositoryContract } from './repository-contract';
+
+describeRepositoryContract('In-memory', async () => createInMemoryAdapters());
@@ -0,0 +1,16 @@
+// src/infrastructure/persistence/__tests__/indexeddb-adapters.test.ts
+import { vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import 'fake-indexeddb/auto';
+import { describeRepositoryContract } from './repository-contract';
+
+// The adapters only look for IndexedDB on `window`
+vi.stubGlobal('window', globalThis);
+
+// The open connection and cipher state live in module scope, so each test gets fresh modules over a fresh database
+describeRepositoryContract('IndexedDB', async () => {
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  vi.resetModules();
+  const { createIndexedDBAdapters } = await import('../indexeddb/indexeddb-adapters');
+  return createIndexedDBAdapters();
+});
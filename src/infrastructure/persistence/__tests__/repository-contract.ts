@@ -0,0 +1,598 @@
+// src/infrastructure/persistence/__tests__/repository-contract.ts
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { AppAdapters } from '@/application/container';
+import type { ActionDefinition, ActionLog, Attachment, ClockEvent, DailyRollup, DataEntryLog, Problem, RecordHistoryEntry, Space, Todo } from '@/domain/entities';
+import { DEFAULT_USER_ID, STORE_ACTION_LOGS, STORE_DAILY_ROLLUPS, STORE_DATA_ENTRIES, STORE_SPACES, STORE_TODOS, STORE_UPGRADE_MARKERS } from '@/lib/constants';
+import { DAILY_ROLLUPS_BUILT_MARKER } from '@/lib/daily-rollups';
+
+const SPACE_A = 'space-a';
+const SPACE_B = 'space-b';
+
+const space = (id: string, extra: Partial<Space> = {}): Space => ({
+  id,
+  name: `Space ${id}`,
+  date: '2026-10-19',
+  creationDate: '2026-10-19T08:00:00.000Z',
+  tags: [],
+  ...extra,
+});
+
+const actionLog = (id: string, spaceId: string, timestamp: string, extra: Partial<ActionLog> = {}): ActionLog => ({
+  id,
+  spaceId,
+  actionDefinitionId: 'definition-1',
+  timestamp,
+  pointsAwarded: 1,
+  ...extra,
+});
+
+const todo = (id: string, spaceId: string, extra: Partial<Todo> = {}): Todo => ({
+  id,
+  spaceId,
+  description: `To-do ${id}`,
+  status: 'todo',
+  completed: false,
+  creationDate: '2026-10-19T08:00:00.000Z',
+  lastModifiedDate: '2026-10-19T08:00:00.000Z',
+  ...extra,
+});
+
+const actionDefinition = (id: string, spaceId: string, extra: Partial<ActionDefinition> = {}): ActionDefinition => ({
+  id,
+  spaceId,
+  name: `Action ${id}`,
+  type: 'single',
+  pointsForCompletion: 1,
+  creationDate: '2026-10-19T08:00:00.000Z',
+  isEnabled: true,
+  ...extra,
+});
+
+const problem = (id: string, spaceId: string, timestamp: string, extra: Partial<Problem> = {}): Problem => ({
+  id,
+  spaceId,
+  type: 'Issue',
+  description: `Problem ${id}`,
+  timestamp,
+  lastModifiedDate: timestamp,
+  resolved: false,
+  ...extra,
+});
+
+const clockEvent = (id: string, spaceId: string, timestamp: string, extra: Partial<ClockEvent> = {}): ClockEvent => ({
+  id,
+  spaceId,
+  type: 'clock-in',
+  timestamp,
+  ...extra,
+});
+
+const dataEntry = (id: string, spaceId: string, timestamp: string, extra: Partial<DataEntryLog> = {}): DataEntryLog => ({
+  id,
+  actionDefinitionId: 'definition-1',
+  spaceId,
+  timestamp,
+  data: {},
+  pointsAwarded: 0,
+  ...extra,
+});
+
+const historyEntry = (id: string, recordId: string, timestamp: string, spaceId = SPACE_A): RecordHistoryEntry => ({
+  id,
+  recordType: 'todo',
+  recordId,
+  spaceId,
+  timestamp,
+  changes: [{ field: 'description', before: 'Before', after: 'After' }],
+});
+
+const rollup = (spaceId: string, day: string, actionCount = 0): DailyRollup => ({
+  id: `${spaceId}:${day}`,
+  spaceId,
+  day,
+  actionPoints: actionCount,
+  actionCount,
+  dataEntryPoints: 0,
+  dataEntryCount: 0,
+  clockedInMs: 0,
+  updatedAt: '2026-10-19T08:00:00.000Z',
+});
+
+// Minute `n` of the test day, so timestamps sort in the order they are numbered
+const at = (n: number): string => new Date(Date.UTC(2026, 9, 19, 8, n)).toISOString();
+
+const ids = (records: { id: string }[]): string[] => records.map(record => record.id);
+
+/**
+ * Behaviour every set of repository adapters must share. `createAdapters` is called before
+ * each test and must return adapters over an empty database.
+ */
+export function describeRepositoryContract(name: string, createAdapters: () => Promise<AppAdapters>): void {
+  describe(`${name} repository contract`, () => {
+    let adapters: AppAdapters;
+
+    beforeEach(async () => {
+      adapters = await createAdapters();
+    });
+
+    describe('cursor pagination', () => {
+      beforeEach(async () => {
+        // Saved out of order; log-3a and log-3b share a timestamp and are ordered by id
+        for (const log of [
+          actionLog('log-4', SPACE_A, at(4)),
+          actionLog('log-1', SPACE_A, at(1)),
+          actionLog('log-3b', SPACE_A, at(3)),
+          actionLog('log-5', SPACE_A, at(5)),
+          actionLog('log-3a', SPACE_A, at(3)),
+          actionLog('log-2', SPACE_A, at(2)),
+          actionLog('other-space', SPACE_B, at(2)),
+          actionLog('trashed', SPACE_A, at(2), { deletedAt: at(10) }),
+        ]) {
+          await adapters.actionLogRepository.save(log);
+        }
+      });
+
+      const readAllPages = async (limit: number, direction?: 'newest-first' | 'oldest-first') => {
+        const pages: string[][] = [];
+        let cursor: string | null = null;
+        do {
+          const page = await adapters.actionLogRepository.findPageBySpaceId(SPACE_A, { limit, cursor, direction });
+          pages.push(ids(page.items));
+          cursor = page.nextCursor;
+        } while (cursor);
+        return pages;
+      };
+
+      it('pages newest first by default, skipping trashed logs and other spaces', async () => {
+        expect(await readAllPages(2)).toEqual([['log-5', 'log-4'], ['log-3b', 'log-3a'], ['log-2', 'log-1']]);
+      });
+
+      it('pages oldest first when asked', async () => {
+        expect(await readAllPages(4, 'oldest-first')).toEqual([['log-1', 'log-2', 'log-3a', 'log-3b'], ['log-4', 'log-5']]);
+      });
+
+      it('returns no cursor when the first page holds everything', async () => {
+        const page = await adapters.actionLogRepository.findPageBySpaceId(SPACE_A, { limit: 6 });
+        expect(page.items).toHaveLength(6);
+        expect(page.nextCursor).toBeNull();
+      });
+
+      it('resumes another log repository from the same cursor', async () => {
+        for (const event of [clockEvent('clock-1', SPACE_A, at(1)), clockEvent('clock-3', SPACE_A, at(3)), clockEvent('clock-6', SPACE_A, at(6))]) {
+          await adapters.clockEventRepository.save(event);
+        }
+        const firstLogs = await adapters.actionLogRepository.findPageBySpaceId(SPACE_A, { limit: 3 });
+        expect(ids(firstLogs.items)).toEqual(['log-5', 'log-4', 'log-3b']);
+
+        // clock-3 shares the timestamp of log-3b but comes first by id, so it is still ahead
+        const nextEvents = await adapters.clockEventRepository.findPageBySpaceId(SPACE_A, { limit: 5, cursor: firstLogs.nextCursor });
+        expect(ids(nextEvents.items)).toEqual(['clock-3', 'clock-1']);
+        expect(nextEvents.nextCursor).toBeNull();
+      });
+
+      it('reads a timestamp range across spaces oldest first, skipping trashed logs', async () => {
+        expect(ids(await adapters.actionLogRepository.findBetween(at(2), at(3)))).toEqual(['log-2', 'other-space', 'log-3a', 'log-3b']);
+        expect(await adapters.actionLogRepository.findBetween(at(3), at(2))).toEqual([]);
+      });
+
+      it('rejects a malformed cursor', async () => {
+        await expect(adapters.actionLogRepository.findPageBySpaceId(SPACE_A, { limit: 2, cursor: 'not-a-cursor' })).rejects.toThrow('Invalid page cursor');
+      });
+    });
+
+    describe('soft delete', () => {
+      beforeEach(async () => {
+        await adapters.spaceRepository.save(space(SPACE_A));
+        await adapters.spaceRepository.save(space(SPACE_B, { deletedAt: at(20) }));
+        await adapters.actionLogRepository.save(actionLog('live', SPACE_A, at(1)));
+        await adapters.actionLogRepository.save(actionLog('trashed-first', SPACE_A, at(2), { deletedAt: at(10) }));
+        await adapters.actionLogRepository.save(actionLog('trashed-last', SPACE_A, at(3), { deletedAt: at(11) }));
+      });
+
+      it('hides trashed records from every finder', async () => {
+        const logs = adapters.actionLogRepository;
+        expect(await logs.findById('trashed-first')).toBeNull();
+        expect(ids(await logs.getAll())).toEqual(['live']);
+        expect(ids(await logs.findBySpaceId(SPACE_A))).toEqual(['live']);
+        expect(ids(await logs.findByActionDefinitionId('definition-1'))).toEqual(['live']);
+        expect(ids(await logs.findBySpaceIdBetween(SPACE_A, at(0), at(5)))).toEqual(['live']);
+
+        expect(await adapters.spaceRepository.findById(SPACE_B)).toBeNull();
+        expect(ids(await adapters.spaceRepository.getAll())).toEqual([SPACE_A]);
+      });
+
+      it('lists trashed records most recently deleted first', async () => {
+        expect(ids(await adapters.actionLogRepository.findDeleted())).toEqual(['trashed-last', 'trashed-first']);
+        expect(ids(await adapters.spaceRepository.findDeleted())).toEqual([SPACE_B]);
+      });
+
+      it('brings a record back once it is saved without deletedAt', async () => {
+        const { deletedAt, ...restored } = actionLog('trashed-first', SPACE_A, at(2), { deletedAt: at(10) });
+        await adapters.actionLogRepository.save(restored);
+        expect(await adapters.actionLogRepository.findById('trashed-first')).toEqual(restored);
+        expect(ids(await adapters.actionLogRepository.findDeleted())).toEqual(['trashed-last']);
+      });
+    });
+
+    describe('deleteBySpaceId', () => {
+      it('removes live and trashed records of that space only', async () => {
+        await adapters.todoRepository.save(todo('a-live', SPACE_A));
+        await adapters.todoRepository.save(todo('a-trashed', SPACE_A, { deletedAt: at(10) }));
+        await adapters.todoRepository.save(todo('b-live', SPACE_B));
+
+        await adapters.todoRepository.deleteBySpaceId(SPACE_A);
+
+        expect(ids(await adapters.todoRepository.getAll())).toEqual(['b-live']);
+        expect(await adapters.todoRepository.findDeleted()).toEqual([]);
+      });
+
+      it('does nothing for a space without records', async () => {
+        await adapters.actionLogRepository.save(actionLog('log-1', SPACE_A, at(1)));
+        await adapters.actionLogRepository.deleteBySpaceId('unknown-space');
+        expect(ids(await adapters.actionLogRepository.getAll())).toEqual(['log-1']);
+      });
+    });
+
+    describe('action definitions', () => {
+      it('finds live definitions by id and space, and trashed ones only in the trash', async () => {
+        await adapters.actionDefinitionRepository.save(actionDefinition('def-a1', SPACE_A));
+        await adapters.actionDefinitionRepository.save(actionDefinition('def-a2', SPACE_A, { isEnabled: false }));
+        await adapters.actionDefinitionRepository.save(actionDefinition('def-b1', SPACE_B));
+        await adapters.actionDefinitionRepository.save(actionDefinition('def-trashed', SPACE_A, { deletedAt: at(10) }));
+
+        expect(await adapters.actionDefinitionRepository.findById('def-a2')).toEqual(actionDefinition('def-a2', SPACE_A, { isEnabled: false }));
+        expect(await adapters.actionDefinitionRepository.findById('def-trashed')).toBeNull();
+        expect(ids(await adapters.actionDefinitionRepository.findBySpaceId(SPACE_A)).sort()).toEqual(['def-a1', 'def-a2']);
+        expect(ids(await adapters.actionDefinitionRepository.getAll()).sort()).toEqual(['def-a1', 'def-a2', 'def-b1']);
+        expect(ids(await adapters.actionDefinitionRepository.findDeleted())).toEqual(['def-trashed']);
+      });
+
+      it('updates in place and deletes by id, by space and entirely', async () => {
+        await adapters.actionDefinitionRepository.save(actionDefinition('def-a1', SPACE_A));
+        await adapters.actionDefinitionRepository.save(actionDefinition('def-a1', SPACE_A, { name: 'Renamed' }));
+        await adapters.actionDefinitionRepository.save(actionDefinition('def-a2', SPACE_A));
+        await adapters.actionDefinitionRepository.save(actionDefinition('def-b1', SPACE_B));
+        await adapters.actionDefinitionRepository.save(actionDefinition('def-b2', SPACE_B));
+        expect((await adapters.actionDefinitionRepository.findById('def-a1'))?.name).toBe('Renamed');
+
+        await adapters.actionDefinitionRepository.delete('def-b2');
+        await adapters.actionDefinitionRepository.deleteBySpaceId(SPACE_A);
+        expect(ids(await adapters.actionDefinitionRepository.getAll())).toEqual(['def-b1']);
+
+        await adapters.actionDefinitionRepository.clearAll();
+        expect(await adapters.actionDefinitionRepository.getAll()).toEqual([]);
+      });
+    });
+
+    describe('problems', () => {
+      it('lists a space with unresolved problems first, newest first within each group', async () => {
+        for (const record of [
+          problem('resolved-old', SPACE_A, at(1), { resolved: true }),
+          problem('open-old', SPACE_A, at(2)),
+          problem('resolved-new', SPACE_A, at(3), { resolved: true }),
+          problem('open-new', SPACE_A, at(4)),
+          problem('other-space', SPACE_B, at(5)),
+          problem('trashed', SPACE_A, at(6), { deletedAt: at(10) }),
+        ]) {
+          await adapters.problemRepository.save(record);
+        }
+
+        expect(ids(await adapters.problemRepository.findBySpaceId(SPACE_A))).toEqual(['open-new', 'open-old', 'resolved-new', 'resolved-old']);
+        expect(ids(await adapters.problemRepository.findBySpaceId(SPACE_B))).toEqual(['other-space']);
+        expect(ids(await adapters.problemRepository.findDeleted())).toEqual(['trashed']);
+      });
+
+      it('stamps lastModifiedDate on save', async () => {
+        const saved = await adapters.problemRepository.save(problem('stamped', SPACE_A, '2020-01-01T00:00:00.000Z'));
+
+        expect(saved.lastModifiedDate > '2020-01-01T00:00:00.000Z').toBe(true);
+        expect(await adapters.problemRepository.findById('stamped')).toEqual(saved);
+      });
+    });
+
+    describe('user progress', () => {
+      it('creates and stores default progress for the default user', async () => {
+        const created = await adapters.userProgressRepository.findByUserId(DEFAULT_USER_ID);
+
+        expect(created).toEqual({ userId: DEFAULT_USER_ID, points: 0, level: 1, unlockedCustomizations: [] });
+        await adapters.userProgressRepository.save({ ...created!, points: 40 });
+        expect((await adapters.userProgressRepository.findByUserId(DEFAULT_USER_ID))?.points).toBe(40);
+      });
+
+      it('returns null for any other user without progress', async () => {
+        expect(await adapters.userProgressRepository.findByUserId('someone-else')).toBeNull();
+      });
+
+      it('starts over with default progress after clearAll', async () => {
+        await adapters.userProgressRepository.save({ userId: DEFAULT_USER_ID, points: 40, level: 2, unlockedCustomizations: ['theme_dark'] });
+        await adapters.userProgressRepository.clearAll();
+
+        expect((await adapters.userProgressRepository.findByUserId(DEFAULT_USER_ID))?.points).toBe(0);
+      });
+    });
+
+    describe('attachments', () => {
+      const attachment = (id: string, spaceId: string, content: string): Attachment => ({
+        id,
+        spaceId,
+        blob: new Blob([content], { type: 'text/plain' }),
+        mimeType: 'text/plain',
+        size: content.length,
+        creationDate: '2026-10-19T08:00:00.000Z',
+      });
+
+      it('stores the blob and reads it back unchanged', async () => {
+        await adapters.attachmentRepository.save(attachment('photo', SPACE_A, 'image bytes'));
+
+        const stored = await adapters.attachmentRepository.findById('photo');
+        expect(stored?.blob).toBeInstanceOf(Blob);
+        expect(await stored?.blob.text()).toBe('image bytes');
+        expect({ ...stored, blob: undefined }).toEqual({ ...attachment('photo', SPACE_A, 'image bytes'), blob: undefined });
+      });
+
+      it('lists ids without the blobs and finds attachments by space', async () => {
+        await adapters.attachmentRepository.save(attachment('b-1', SPACE_B, 'b'));
+        await adapters.attachmentRepository.save(attachment('a-2', SPACE_A, 'a2'));
+        await adapters.attachmentRepository.save(attachment('a-1', SPACE_A, 'a1'));
+
+        expect((await adapters.attachmentRepository.getAllIds()).sort()).toEqual(['a-1', 'a-2', 'b-1']);
+        expect(ids(await adapters.attachmentRepository.findBySpaceId(SPACE_A)).sort()).toEqual(['a-1', 'a-2']);
+      });
+
+      it('lists metadata without the blobs', async () => {
+        await adapters.attachmentRepository.save(attachment('photo', SPACE_A, 'image bytes'));
+
+        const { blob, ...metadata } = attachment('photo', SPACE_A, 'image bytes');
+        expect(await adapters.attachmentRepository.getAllMetadata()).toEqual([metadata]);
+      });
+
+      it('deletes by id and by space', async () => {
+        await adapters.attachmentRepository.save(attachment('a-1', SPACE_A, 'a1'));
+        await adapters.attachmentRepository.save(attachment('a-2', SPACE_A, 'a2'));
+        await adapters.attachmentRepository.save(attachment('b-1', SPACE_B, 'b'));
+        await adapters.attachmentRepository.save(attachment('b-2', SPACE_B, 'b'));
+
+        await adapters.attachmentRepository.delete('b-2');
+        await adapters.attachmentRepository.deleteBySpaceId(SPACE_A);
+
+        expect(await adapters.attachmentRepository.getAllIds()).toEqual(['b-1']);
+        expect(await adapters.attachmentRepository.findById('a-1')).toBeNull();
+      });
+    });
+
+    describe('record history', () => {
+      beforeEach(async () => {
+        // Appended out of order so only the timestamp index can put them in order
+        for (const entry of [
+          historyEntry('h-2', 'todo-1', at(2)),
+          historyEntry('h-3', 'todo-1', at(3)),
+          historyEntry('h-1', 'todo-1', at(1)),
+          historyEntry('other-record', 'todo-2', at(4)),
+          historyEntry('other-space', 'todo-3', at(5), SPACE_B),
+        ]) {
+          await adapters.recordHistoryRepository.append(entry);
+        }
+      });
+
+      it('lists the history of one record newest first', async () => {
+        expect(ids(await adapters.recordHistoryRepository.findByRecord('todo', 'todo-1'))).toEqual(['h-3', 'h-2', 'h-1']);
+        expect(await adapters.recordHistoryRepository.findByRecord('problem', 'todo-1')).toEqual([]);
+      });
+
+      it('never overwrites an appended entry', async () => {
+        await expect(adapters.recordHistoryRepository.append(historyEntry('h-1', 'todo-9', at(9)))).rejects.toThrow();
+        expect((await adapters.recordHistoryRepository.findByRecord('todo', 'todo-1')).at(-1)).toEqual(historyEntry('h-1', 'todo-1', at(1)));
+      });
+
+      it('finds and deletes entries by space', async () => {
+        expect(ids(await adapters.recordHistoryRepository.findBySpaceId(SPACE_B))).toEqual(['other-space']);
+
+        await adapters.recordHistoryRepository.deleteBySpaceId(SPACE_A);
+        expect(ids(await adapters.recordHistoryRepository.getAll())).toEqual(['other-space']);
+      });
+    });
+
+    describe('clock events', () => {
+      beforeEach(async () => {
+        for (const event of [
+          clockEvent('in-1', SPACE_A, at(1)),
+          clockEvent('out-3', SPACE_A, at(3), { type: 'clock-out' }),
+          clockEvent('in-2', SPACE_A, at(2)),
+          clockEvent('other-space', SPACE_B, at(9)),
+          clockEvent('trashed', SPACE_A, at(8), { deletedAt: at(10) }),
+        ]) {
+          await adapters.clockEventRepository.save(event);
+        }
+      });
+
+      it('finds the newest live event of a space', async () => {
+        expect(await adapters.clockEventRepository.findLastForSpace(SPACE_A)).toEqual(clockEvent('out-3', SPACE_A, at(3), { type: 'clock-out' }));
+        expect(await adapters.clockEventRepository.findLastForSpace('unknown-space')).toBeNull();
+      });
+
+      it('lists a space newest first, and a range of it oldest first', async () => {
+        expect(ids(await adapters.clockEventRepository.findBySpaceId(SPACE_A))).toEqual(['out-3', 'in-2', 'in-1']);
+        expect(ids(await adapters.clockEventRepository.findBySpaceIdBetween(SPACE_A, at(2), at(3)))).toEqual(['in-2', 'out-3']);
+      });
+
+      it('lists a range of every space oldest first', async () => {
+        expect(ids(await adapters.clockEventRepository.findBetween(at(2), at(9)))).toEqual(['in-2', 'out-3', 'other-space']);
+        expect(ids(await adapters.clockEventRepository.findBetween('', '\uffff'))).toEqual(['in-1', 'in-2', 'out-3', 'other-space']);
+      });
+
+      it('keeps trashed events out of the finders and removes a whole space', async () => {
+        expect(await adapters.clockEventRepository.findById('trashed')).toBeNull();
+        expect(ids(await adapters.clockEventRepository.findDeleted())).toEqual(['trashed']);
+
+        await adapters.clockEventRepository.deleteBySpaceId(SPACE_A);
+        expect(ids(await adapters.clockEventRepository.getAll())).toEqual(['other-space']);
+        expect(await adapters.clockEventRepository.findDeleted()).toEqual([]);
+      });
+    });
+
+    describe('data entry logs', () => {
+      beforeEach(async () => {
+        // save() stamps entries with the current time, so they are written as they are
+        await adapters.unitOfWork.execute([
+          dataEntry('a-3', SPACE_A, at(3)),
+          dataEntry('b-2', SPACE_B, at(2)),
+          dataEntry('a-1', SPACE_A, at(1)),
+          dataEntry('a-5', SPACE_A, at(5)),
+          dataEntry('trashed', SPACE_B, at(3), { deletedAt: at(10) }),
+        ].map(record => ({ type: 'put' as const, storeName: STORE_DATA_ENTRIES, record })));
+      });
+
+      it('lists a range of one space or of every space oldest first, skipping trashed entries', async () => {
+        expect(ids(await adapters.dataEntryLogRepository.findBySpaceIdBetween(SPACE_A, at(1), at(4)))).toEqual(['a-1', 'a-3']);
+        expect(ids(await adapters.dataEntryLogRepository.findBetween(at(2), at(5)))).toEqual(['b-2', 'a-3', 'a-5']);
+      });
+    });
+
+    describe('unit of work', () => {
+      it('applies the operations in order', async () => {
+        await adapters.todoRepository.save(todo('old-a', SPACE_A));
+        await adapters.spaceRepository.save(space('removed'));
+
+        await adapters.unitOfWork.execute([
+          { type: 'deleteBySpaceId', storeName: STORE_TODOS, spaceId: SPACE_A },
+          { type: 'put', storeName: STORE_TODOS, record: todo('new-a', SPACE_A) },
+          { type: 'put', storeName: STORE_SPACES, record: space(SPACE_A) },
+          { type: 'delete', storeName: STORE_SPACES, key: 'removed' },
+          { type: 'put', storeName: STORE_ACTION_LOGS, record: actionLog('cleared', SPACE_A, at(1)) },
+          { type: 'clear', storeName: STORE_ACTION_LOGS },
+        ]);
+
+        expect(ids(await adapters.todoRepository.getAll())).toEqual(['new-a']);
+        expect(ids(await adapters.spaceRepository.getAll())).toEqual([SPACE_A]);
+        expect(await adapters.actionLogRepository.getAll()).toEqual([]);
+      });
+
+      it('stores records exactly as given', async () => {
+        const record = todo('kept', SPACE_A, { lastModifiedDate: '2020-01-01T00:00:00.000Z' });
+        await adapters.unitOfWork.execute([{ type: 'put', storeName: STORE_TODOS, record }]);
+        expect(await adapters.todoRepository.findById('kept')).toEqual(record);
+      });
+
+      it('persists nothing when an operation fails', async () => {
+        await adapters.todoRepository.save(todo('existing', SPACE_A));
+
+        await expect(adapters.unitOfWork.execute([
+          { type: 'put', storeName: STORE_SPACES, record: space(SPACE_A) },
+          { type: 'deleteBySpaceId', storeName: STORE_TODOS, spaceId: SPACE_A },
+          {
+            type: 'updateBySpaceId',
+            storeName: STORE_DAILY_ROLLUPS,
+            spaceId: SPACE_A,
+            update: () => {
+              throw new Error('Update failed');
+            },
+          },
+        ])).rejects.toThrow('Update failed');
+
+        expect(await adapters.spaceRepository.getAll()).toEqual([]);
+        expect(ids(await adapters.todoRepository.getAll())).toEqual(['existing']);
+      });
+
+      it('updates records by space from what is stored inside the transaction', async () => {
+        await adapters.unitOfWork.execute([
+          { type: 'put', storeName: STORE_DAILY_ROLLUPS, record: rollup(SPACE_A, '2026-10-18', 5) },
+          { type: 'put', storeName: STORE_DAILY_ROLLUPS, record: rollup(SPACE_B, '2026-10-18', 7) },
+        ]);
+
+        let seen: string[] = [];
+        await adapters.unitOfWork.execute([
+          { type: 'put', storeName: STORE_DAILY_ROLLUPS, record: rollup(SPACE_A, '2026-10-19', 1) },
+          {
+            type: 'updateBySpaceId',
+            storeName: STORE_DAILY_ROLLUPS,
+            spaceId: SPACE_A,
+            update: rollups => {
+              seen = ids(rollups).sort();
+              return rollups.map(current => ({ ...current, actionCount: current.actionCount + 1 }));
+            },
+          },
+        ]);
+
+        expect(seen).toEqual([`${SPACE_A}:2026-10-18`, `${SPACE_A}:2026-10-19`]);
+        expect((await adapters.dailyRollupRepository.findBySpaceId(SPACE_A)).map(r => r.actionCount)).toEqual([6, 2]);
+        expect((await adapters.dailyRollupRepository.findBySpaceId(SPACE_B)).map(r => r.actionCount)).toEqual([7]);
+      });
+
+      it('keeps every increment when updates by space run concurrently', async () => {
+        const increment = (): Promise<void> => adapters.unitOfWork.execute([
+          {
+            type: 'updateBySpaceId',
+            storeName: STORE_DAILY_ROLLUPS,
+            spaceId: SPACE_A,
+            update: rollups => {
+              const current = rollups.find(r => r.day === '2026-10-19') ?? rollup(SPACE_A, '2026-10-19');
+              return [{ ...current, actionCount: current.actionCount + 1 }];
+            },
+          },
+        ]);
+
+        await Promise.all(Array.from({ length: 20 }, increment));
+
+        const [today] = await adapters.dailyRollupRepository.findBySpaceId(SPACE_A);
+        expect(today.actionCount).toBe(20);
+      });
+
+      it('replaces records by space with what is computed from sources read inside the transaction', async () => {
+        await adapters.unitOfWork.execute([
+          { type: 'put', storeName: STORE_DAILY_ROLLUPS, record: rollup(SPACE_A, '2026-10-01', 9) },
+          { type: 'put', storeName: STORE_DAILY_ROLLUPS, record: rollup(SPACE_B, '2026-10-01', 9) },
+          { type: 'put', storeName: STORE_ACTION_LOGS, record: actionLog('other-space', SPACE_B, at(1)) },
+        ]);
+
+        await adapters.unitOfWork.execute([
+          { type: 'put', storeName: STORE_ACTION_LOGS, record: actionLog('log-1', SPACE_A, at(1)) },
+          { type: 'put', storeName: STORE_ACTION_LOGS, record: actionLog('trashed', SPACE_A, at(2), { deletedAt: at(3) }) },
+          {
+            type: 'recomputeBySpaceId',
+            storeName: STORE_DAILY_ROLLUPS,
+            spaceId: SPACE_A,
+            sourceStoreNames: [STORE_ACTION_LOGS],
+            compute: sources => [rollup(SPACE_A, '2026-10-19', sources.actionLogs?.length)],
+          },
+        ]);
+
+        expect(await adapters.dailyRollupRepository.findBySpaceId(SPACE_A)).toEqual([rollup(SPACE_A, '2026-10-19', 2)]);
+        expect(await adapters.dailyRollupRepository.findBySpaceId(SPACE_B)).toEqual([rollup(SPACE_B, '2026-10-01', 9)]);
+      });
+
+      it('keeps logs written while a recompute by space runs', async () => {
+        const countLogs = (logs: ActionLog[] = []) => rollup(SPACE_A, '2026-10-19', logs.filter(log => !log.deletedAt).length);
+        const logAction = (id: string): Promise<void> => adapters.unitOfWork.execute([
+          { type: 'put', storeName: STORE_ACTION_LOGS, record: actionLog(id, SPACE_A, at(1)) },
+          {
+            type: 'updateBySpaceId',
+            storeName: STORE_DAILY_ROLLUPS,
+            spaceId: SPACE_A,
+            update: rollups => {
+              const current = rollups[0] ?? rollup(SPACE_A, '2026-10-19');
+              return [{ ...current, actionCount: current.actionCount + 1 }];
+            },
+          },
+        ]);
+        const recount = (): Promise<void> => adapters.unitOfWork.execute([
+          { type: 'recomputeBySpaceId', storeName: STORE_DAILY_ROLLUPS, spaceId: SPACE_A, sourceStoreNames: [STORE_ACTION_LOGS], compute: sources => [countLogs(sources.actionLogs)] },
+        ]);
+
+        await Promise.all([logAction('log-1'), recount(), logAction('log-2'), recount(), logAction('log-3'), recount()]);
+
+        const [today] = await adapters.dailyRollupRepository.findBySpaceId(SPACE_A);
+        expect(today.actionCount).toBe(3);
+      });
+    });
+
+    describe('daily rollups', () => {
+      it('counts as built only once the rebuild marker is written', async () => {
+        await adapters.unitOfWork.execute([{ type: 'put', storeName: STORE_DAILY_ROLLUPS, record: rollup(SPACE_A, '2026-10-19', 1) }]);
+        expect(await adapters.dailyRollupRepository.isBuilt()).toBe(false);
+
+        await adapters.unitOfWork.execute([{ type: 'put', storeName: STORE_UPGRADE_MARKERS, record: { id: DAILY_ROLLUPS_BUILT_MARKER, completedAt: at(1) } }]);
+        expect(await adapters.dailyRollupRepository.isBuilt()).toBe(true);
+      });
+    });
+  });
+}
@@ -0,0 +1,46 @@
+// src/infrastructure/persistence/in-memory/in-memory-action-definition.repository.ts
+import type { ActionDefinition } from '@/domain/entities/action-definition.entity';
+import type { IActionDefinitionRepository } from '@/application/ports/repositories/iaction-definition.repository';
+import { STORE_ACTION_DEFINITIONS } from '@/lib/constants';
+import { cloneRecord, liveRecords, deletedRecords, type InMemoryDatabase } from './in-memory-database';
+
+export class InMemoryActionDefinitionRepository implements IActionDefinitionRepository {
+  constructor(private readonly db: InMemoryDatabase) {}
+
+  async findById(id: string): Promise<ActionDefinition | null> {
+    const definition = this.db.table(STORE_ACTION_DEFINITIONS).get(id);
+    return definition && !definition.deletedAt ? cloneRecord(definition) : null;
+  }
+
+  async findBySpaceId(spaceId: string): Promise<ActionDefinition[]> {
+    return (await this.getAll()).filter(definition => definition.spaceId === spaceId);
+  }
+
+  async getAll(): Promise<ActionDefinition[]> {
+    return liveRecords(this.db.table(STORE_ACTION_DEFINITIONS).values());
+  }
+
+  async findDeleted(): Promise<ActionDefinition[]> {
+    return deletedRecords(this.db.table(STORE_ACTION_DEFINITIONS).values());
+  }
+
+  async save(actionDefinition: ActionDefinition): Promise<ActionDefinition> {
+    this.db.table(STORE_ACTION_DEFINITIONS).set(actionDefinition.id, cloneRecord(actionDefinition));
+    return actionDefinition;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.table(STORE_ACTION_DEFINITIONS).delete(id);
+  }
+
+  async deleteBySpaceId(spaceId: string): Promise<void> {
+    const table = this.db.table(STORE_ACTION_DEFINITIONS);
+    table.forEach((definition, id) => {
+      if (definition.spaceId === spaceId) table.delete(id);
+    });
+  }
+
+  async clearAll(): Promise<void> {
+    this.db.table(STORE_ACTION_DEFINITIONS).clear();
+  }
+}
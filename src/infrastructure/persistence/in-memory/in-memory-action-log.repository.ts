@@ -0,0 +1,63 @@
+// src/infrastructure/persistence/in-memory/in-memory-action-log.repository.ts
+import type { ActionLog } from '@/domain/entities/action-log.entity';
+import type { IActionLogRepository } from '@/application/ports/repositories/iaction-log.repository';
+import type { CursorPage, CursorPageRequest } from '@/application/ports/repositories/pagination';
+import { STORE_ACTION_LOGS } from '@/lib/constants';
+import { cloneRecord, liveRecords, deletedRecords, findBySpaceAndTimestampRange, findByTimestampRange, findPageBySpaceAndTimestamp, type InMemoryDatabase } from './in-memory-database';
+
+export class InMemoryActionLogRepository implements IActionLogRepository {
+  constructor(private readonly db: InMemoryDatabase) {}
+
+  async findById(id: string): Promise<ActionLog | null> {
+    const log = this.db.table(STORE_ACTION_LOGS).get(id);
+    return log && !log.deletedAt ? cloneRecord(log) : null;
+  }
+
+  async findBySpaceId(spaceId: string): Promise<ActionLog[]> {
+    return (await this.getAll()).filter(log => log.spaceId === spaceId);
+  }
+
+  async findBySpaceIdBetween(spaceId: string, from: string, to: string): Promise<ActionLog[]> {
+    return findBySpaceAndTimestampRange(this.db.table(STORE_ACTION_LOGS).values(), spaceId, from, to);
+  }
+
+  async findBetween(from: string, to: string): Promise<ActionLog[]> {
+    return findByTimestampRange(this.db.table(STORE_ACTION_LOGS).values(), from, to);
+  }
+
+  async findPageBySpaceId(spaceId: string, page: CursorPageRequest): Promise<CursorPage<ActionLog>> {
+    return findPageBySpaceAndTimestamp(this.db.table(STORE_ACTION_LOGS).values(), spaceId, page);
+  }
+
+  async findByActionDefinitionId(actionDefinitionId: string): Promise<ActionLog[]> {
+    return (await this.getAll()).filter(log => log.actionDefinitionId === actionDefinitionId);
+  }
+
+  async getAll(): Promise<ActionLog[]> {
+    return liveRecords(this.db.table(STORE_ACTION_LOGS).values());
+  }
+
+  async findDeleted(): Promise<ActionLog[]> {
+    return deletedRecords(this.db.table(STORE_ACTION_LOGS).values());
+  }
+
+  async save(actionLog: ActionLog): Promise<ActionLog> {
+    this.db.table(STORE_ACTION_LOGS).set(actionLog.id, cloneRecord(actionLog));
+    return actionLog;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.table(STORE_ACTION_LOGS).delete(id);
+  }
+
+  async deleteBySpaceId(spaceId: string): Promise<void> {
+    const table = this.db.table(STORE_ACTION_LOGS);
+    table.forEach((log, id) => {
+      if (log.spaceId === spaceId) table.delete(id);
+    });
+  }
+
+  async clearAll(): Promise<void> {
+    this.db.table(STORE_ACTION_LOGS).clear();
+  }
+}
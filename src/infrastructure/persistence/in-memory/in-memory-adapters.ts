@@ -0,0 +1,41 @@
+// src/infrastructure/persistence/in-memory/in-memory-adapters.ts
+import type { AppAdapters } from '@/application/container';
+import { InMemoryDatabase } from './in-memory-database';
+import { InMemorySpaceRepository } from './in-memory-space.repository';
+import { InMemoryActionDefinitionRepository } from './in-memory-action-definition.repository';
+import { InMemoryActionLogRepository } from './in-memory-action-log.repository';
+import { InMemoryProblemRepository } from './in-memory-problem.repository';
+import { InMemoryTodoRepository } from './in-memory-todo.repository';
+import { InMemoryUserProgressRepository } from './in-memory-user-progress.repository';
+import { InMemoryClockEventRepository } from './in-memory-clock-event.repository';
+import { InMemoryDataEntryLogRepository } from './in-memory-data-entry-log.repository';
+import { InMemoryAttachmentRepository } from './in-memory-attachment.repository';
+import { InMemoryRecordHistoryRepository } from './in-memory-record-history.repository';
+import { InMemoryBackupSnapshotRepository } from './in-memory-backup-snapshot.repository';
+import { InMemoryDailyRollupRepository } from './in-memory-daily-rollup.repository';
+import { InMemoryUnitOfWork } from './in-memory-unit-of-work';
+import { InMemoryRecordScanner } from './in-memory-record-scanner';
+import { InMemoryDataChangeFeed } from './in-memory-data-change-feed';
+import { InMemoryDatabaseEncryption } from './in-memory-database-encryption';
+
+// Every adapter reads and writes `db`; pass the same instance to share data between sets
+export function createInMemoryAdapters(db: InMemoryDatabase = new InMemoryDatabase()): AppAdapters {
+  return {
+    spaceRepository: new InMemorySpaceRepository(db),
+    actionDefinitionRepository: new InMemoryActionDefinitionRepository(db),
+    actionLogRepository: new InMemoryActionLogRepository(db),
+    problemRepository: new InMemoryProblemRepository(db),
+    todoRepository: new InMemoryTodoRepository(db),
+    userProgressRepository: new InMemoryUserProgressRepository(db),
+    clockEventRepository: new InMemoryClockEventRepository(db),
+    dataEntryLogRepository: new InMemoryDataEntryLogRepository(db),
+    attachmentRepository: new InMemoryAttachmentRepository(db),
+    recordHistoryRepository: new InMemoryRecordHistoryRepository(db),
+    dailyRollupRepository: new InMemoryDailyRollupRepository(db),
+    backupSnapshotRepository: new InMemoryBackupSnapshotRepository(),
+    unitOfWork: new InMemoryUnitOfWork(db),
+    recordScanner: new InMemoryRecordScanner(db),
+    dataChangeFeed: new InMemoryDataChangeFeed(),
+    databaseEncryption: new InMemoryDatabaseEncryption(),
+  };
+}
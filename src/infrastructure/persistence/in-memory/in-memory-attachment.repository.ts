@@ -0,0 +1,50 @@
+// src/infrastructure/persistence/in-memory/in-memory-attachment.repository.ts
+import type { Attachment, AttachmentMetadata } from '@/domain/entities/attachment.entity';
+import type { IAttachmentRepository } from '@/application/ports/repositories/iattachment.repository';
+import { STORE_ATTACHMENTS } from '@/lib/constants';
+import { cloneRecord, type InMemoryDatabase } from './in-memory-database';
+
+export class InMemoryAttachmentRepository implements IAttachmentRepository {
+  constructor(private readonly db: InMemoryDatabase) {}
+
+  async findById(id: string): Promise<Attachment | null> {
+    const attachment = this.db.table(STORE_ATTACHMENTS).get(id);
+    return attachment ? cloneRecord(attachment) : null;
+  }
+
+  async findBySpaceId(spaceId: string): Promise<Attachment[]> {
+    return (await this.getAll()).filter(attachment => attachment.spaceId === spaceId);
+  }
+
+  async getAll(): Promise<Attachment[]> {
+    return Array.from(this.db.table(STORE_ATTACHMENTS).values()).map(cloneRecord);
+  }
+
+  async getAllIds(): Promise<string[]> {
+    return Array.from(this.db.table(STORE_ATTACHMENTS).keys());
+  }
+
+  async getAllMetadata(): Promise<AttachmentMetadata[]> {
+    return Array.from(this.db.table(STORE_ATTACHMENTS).values(), ({ blob, ...metadata }) => cloneRecord(metadata));
+  }
+
+  async save(attachment: Attachment): Promise<Attachment> {
+    this.db.table(STORE_ATTACHMENTS).set(attachment.id, cloneRecord(attachment));
+    return attachment;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.table(STORE_ATTACHMENTS).delete(id);
+  }
+
+  async deleteBySpaceId(spaceId: string): Promise<void> {
+    const table = this.db.table(STORE_ATTACHMENTS);
+    table.forEach((attachment, id) => {
+      if (attachment.spaceId === spaceId) table.delete(id);
+    });
+  }
+
+  async clearAll(): Promise<void> {
+    this.db.table(STORE_ATTACHMENTS).clear();
+  }
+}
@@ -0,0 +1,30 @@
+// src/infrastructure/persistence/in-memory/in-memory-backup-snapshot.repository.ts
+import type { BackupSnapshot } from '@/domain/entities/backup-snapshot.entity';
+import type { IBackupSnapshotRepository } from '@/application/ports/repositories/ibackup-snapshot.repository';
+import { cloneRecord } from './in-memory-database';
+
+// Backups are not app data, so they are kept here rather than in an InMemoryDatabase table
+export class InMemoryBackupSnapshotRepository implements IBackupSnapshotRepository {
+  private readonly snapshots = new Map<string, BackupSnapshot>();
+  private readonly archives = new Map<string, Blob>();
+
+  async getAll(): Promise<BackupSnapshot[]> {
+    return Array.from(this.snapshots.values())
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(cloneRecord);
+  }
+
+  async getArchive(id: string): Promise<Blob | null> {
+    return this.archives.get(id) ?? null;
+  }
+
+  async save(snapshot: BackupSnapshot, archive: Blob): Promise<void> {
+    this.snapshots.set(snapshot.id, cloneRecord(snapshot));
+    this.archives.set(snapshot.id, archive);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.snapshots.delete(id);
+    this.archives.delete(id);
+  }
+}
@@ -0,0 +1,63 @@
+// src/infrastructure/persistence/in-memory/in-memory-clock-event.repository.ts
+import type { ClockEvent } from '@/domain/entities/clock-event.entity';
+import type { IClockEventRepository } from '@/application/ports/repositories/iclock-event.repository';
+import type { CursorPage, CursorPageRequest } from '@/application/ports/repositories/pagination';
+import { STORE_CLOCK_EVENTS } from '@/lib/constants';
+import { cloneRecord, liveRecords, deletedRecords, findBySpaceAndTimestampRange, findByTimestampRange, findPageBySpaceAndTimestamp, type InMemoryDatabase } from './in-memory-database';
+
+export class InMemoryClockEventRepository implements IClockEventRepository {
+  constructor(private readonly db: InMemoryDatabase) {}
+
+  async findById(id: string): Promise<ClockEvent | null> {
+    const event = this.db.table(STORE_CLOCK_EVENTS).get(id);
+    return event && !event.deletedAt ? cloneRecord(event) : null;
+  }
+
+  async getAll(): Promise<ClockEvent[]> {
+    return liveRecords(this.db.table(STORE_CLOCK_EVENTS).values());
+  }
+
+  async findDeleted(): Promise<ClockEvent[]> {
+    return deletedRecords(this.db.table(STORE_CLOCK_EVENTS).values());
+  }
+
+  async findLastForSpace(spaceId: string): Promise<ClockEvent | null> {
+    const { items } = findPageBySpaceAndTimestamp(this.db.table(STORE_CLOCK_EVENTS).values(), spaceId, { limit: 1 });
+    return items[0] || null;
+  }
+
+  async findBySpaceId(spaceId: string): Promise<ClockEvent[]> {
+    // Sort by timestamp descending (newest first)
+    return (await this.getAll())
+      .filter(event => event.spaceId === spaceId)
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  }
+
+  async findBySpaceIdBetween(spaceId: string, from: string, to: string): Promise<ClockEvent[]> {
+    return findBySpaceAndTimestampRange(this.db.table(STORE_CLOCK_EVENTS).values(), spaceId, from, to);
+  }
+
+  async findBetween(from: string, to: string): Promise<ClockEvent[]> {
+    return findByTimestampRange(this.db.table(STORE_CLOCK_EVENTS).values(), from, to);
+  }
+
+  async findPageBySpaceId(spaceId: string, page: CursorPageRequest): Promise<CursorPage<ClockEvent>> {
+    return findPageBySpaceAndTimestamp(this.db.table(STORE_CLOCK_EVENTS).values(), spaceId, page);
+  }
+
+  async save(clockEvent: ClockEvent): Promise<ClockEvent> {
+    this.db.table(STORE_CLOCK_EVENTS).set(clockEvent.id, cloneRecord(clockEvent));
+    return clockEvent;
+  }
+
+  async deleteBySpaceId(spaceId: string): Promise<void> {
+    const table = this.db.table(STORE_CLOCK_EVENTS);
+    table.forEach((event, id) => {
+      if (event.spaceId === spaceId) table.delete(id);
+    });
+  }
+
+  async clearAll(): Promise<void> {
+    this.db.table(STORE_CLOCK_EVENTS).clear();
+  }
+}
@@ -0,0 +1,24 @@
+// src/infrastructure/persistence/in-memory/in-memory-daily-rollup.repository.ts
+import type { DailyRollup } from '@/domain/entities/daily-rollup.entity';
+import type { IDailyRollupRepository } from '@/application/ports/repositories/idaily-rollup.repository';
+import { STORE_DAILY_ROLLUPS, STORE_UPGRADE_MARKERS } from '@/lib/constants';
+import { DAILY_ROLLUPS_BUILT_MARKER } from '@/lib/daily-rollups';
+import { cloneRecord, type InMemoryDatabase } from './in-memory-database';
+
+export class InMemoryDailyRollupRepository implements IDailyRollupRepository {
+  constructor(private readonly db: InMemoryDatabase) {}
+
+  async findBySpaceId(spaceId: string): Promise<DailyRollup[]> {
+    return (await this.getAll())
+      .filter(rollup => rollup.spaceId === spaceId)
+      .sort((a, b) => (a.day < b.day ? -1 : a.day > b.day ? 1 : 0));
+  }
+
+  async getAll(): Promise<DailyRollup[]> {
+    return Array.from(this.db.table(STORE_DAILY_ROLLUPS).values()).map(cloneRecord);
+  }
+
+  async isBuilt(): Promise<boolean> {
+    return this.db.table(STORE_UPGRADE_MARKERS).has(DAILY_ROLLUPS_BUILT_MARKER);
+  }
+}
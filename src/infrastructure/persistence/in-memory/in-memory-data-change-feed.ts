@@ -0,0 +1,11 @@
+// src/infrastructure/persistence/in-memory/in-memory-data-change-feed.ts
+import type { IDataChangeFeed } from '@/application/ports/repositories/idata-change-feed';
+
+// An in-memory database belongs to one browsing context, so there is never anyone to tell
+export class InMemoryDataChangeFeed implements IDataChangeFeed {
+  publish(): void {}
+
+  subscribe(): () => void {
+    return () => {};
+  }
+}
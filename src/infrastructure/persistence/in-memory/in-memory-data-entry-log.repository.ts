@@ -0,0 +1,74 @@
+// src/infrastructure/persistence/in-memory/in-memory-data-entry-log.repository.ts
+import type { DataEntryLog } from '@/domain/entities/data-entry-log.entity';
+import type { IDataEntryLogRepository } from '@/application/ports/repositories/idata-entry-log.repository';
+import type { CursorPage, CursorPageRequest } from '@/application/ports/repositories/pagination';
+import { STORE_DATA_ENTRIES } from '@/lib/constants';
+import { cloneRecord, liveRecords, deletedRecords, findBySpaceAndTimestampRange, findByTimestampRange, findPageBySpaceAndTimestamp, type InMemoryDatabase } from './in-memory-database';
+
+const newestFirst = (a: DataEntryLog, b: DataEntryLog) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+
+export class InMemoryDataEntryLogRepository implements IDataEntryLogRepository {
+  constructor(private readonly db: InMemoryDatabase) {}
+
+  async findById(id: string): Promise<DataEntryLog | null> {
+    const entry = this.db.table(STORE_DATA_ENTRIES).get(id);
+    return entry && !entry.deletedAt ? cloneRecord(entry) : null;
+  }
+
+  async findByActionDefinitionId(actionDefinitionId: string): Promise<DataEntryLog[]> {
+    return (await this.getAll()).filter(entry => entry.actionDefinitionId === actionDefinitionId).sort(newestFirst);
+  }
+
+  async findBySpaceId(spaceId: string): Promise<DataEntryLog[]> {
+    return (await this.getAll()).filter(entry => entry.spaceId === spaceId).sort(newestFirst);
+  }
+
+  async findBySpaceIdBetween(spaceId: string, from: string, to: string): Promise<DataEntryLog[]> {
+    return findBySpaceAndTimestampRange(this.db.table(STORE_DATA_ENTRIES).values(), spaceId, from, to);
+  }
+
+  async findBetween(from: string, to: string): Promise<DataEntryLog[]> {
+    return findByTimestampRange(this.db.table(STORE_DATA_ENTRIES).values(), from, to);
+  }
+
+  async findPageBySpaceId(spaceId: string, page: CursorPageRequest): Promise<CursorPage<DataEntryLog>> {
+    return findPageBySpaceAndTimestamp(this.db.table(STORE_DATA_ENTRIES).values(), spaceId, page);
+  }
+
+  async getAll(): Promise<DataEntryLog[]> {
+    return liveRecords(this.db.table(STORE_DATA_ENTRIES).values());
+  }
+
+  async findDeleted(): Promise<DataEntryLog[]> {
+    return deletedRecords(this.db.table(STORE_DATA_ENTRIES).values());
+  }
+
+  async save(dataEntryLog: DataEntryLog): Promise<DataEntryLog> {
+    // Matches the IndexedDB adapter, which stamps every save with the current time
+    const entryToSave = { ...dataEntryLog, timestamp: new Date().toISOString() };
+    this.db.table(STORE_DATA_ENTRIES).set(entryToSave.id, cloneRecord(entryToSave));
+    return entryToSave;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.table(STORE_DATA_ENTRIES).delete(id);
+  }
+
+  async deleteByActionDefinitionId(actionDefinitionId: string): Promise<void> {
+    const table = this.db.table(STORE_DATA_ENTRIES);
+    table.forEach((entry, id) => {
+      if (entry.actionDefinitionId === actionDefinitionId) table.delete(id);
+    });
+  }
+
+  async deleteBySpaceId(spaceId: string): Promise<void> {
+    const table = this.db.table(STORE_DATA_ENTRIES);
+    table.forEach((entry, id) => {
+      if (entry.spaceId === spaceId) table.delete(id);
+    });
+  }
+
+  async clearAll(): Promise<void> {
+    this.db.table(STORE_DATA_ENTRIES).clear();
+  }
+}
@@ -0,0 +1,34 @@
+// src/infrastructure/persistence/in-memory/in-memory-database-encryption.ts
+import type { IDatabaseEncryption, DatabaseEncryptionStatus } from '@/application/ports/repositories/idatabase-encryption';
+
+/**
+ * Nothing held in memory is written to disk, so there is nothing to encrypt at rest.
+ * The status is always `disabled` and turning encryption on is refused.
+ */
+export class InMemoryDatabaseEncryption implements IDatabaseEncryption {
+  async getStatus(): Promise<DatabaseEncryptionStatus> {
+    return 'disabled';
+  }
+
+  async unlock(): Promise<boolean> {
+    return true;
+  }
+
+  async lock(): Promise<void> {}
+
+  async enable(): Promise<void> {
+    throw new Error("Encryption is not available for the in-memory database.");
+  }
+
+  async changePassphrase(): Promise<void> {
+    throw new Error("Encryption is not available for the in-memory database.");
+  }
+
+  async disable(): Promise<void> {
+    throw new Error("Encryption is not available for the in-memory database.");
+  }
+
+  subscribe(): () => void {
+    return () => {};
+  }
+}
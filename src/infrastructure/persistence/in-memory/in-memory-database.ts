@@ -0,0 +1,136 @@
+// src/infrastructure/persistence/in-memory/in-memory-database.ts
+import type { UnitOfWorkRecords, UnitOfWorkStoreName } from '@/application/ports/repositories/iunit-of-work';
+import type { CursorPage, CursorPageRequest } from '@/application/ports/repositories/pagination';
+import { encodePageCursor, decodePageCursor } from '@/lib/page-cursor';
+
+type Tables = { [K in UnitOfWorkStoreName]: Map<string, UnitOfWorkRecords[K]> };
+
+function createEmptyTables(): Tables {
+  return {
+    spaces: new Map(),
+    actionDefinitions: new Map(),
+    actionLogs: new Map(),
+    problems: new Map(),
+    todos: new Map(),
+    userProgress: new Map(),
+    clockEvents: new Map(),
+    dataEntries: new Map(),
+    attachments: new Map(),
+    recordHistory: new Map(),
+    dailyRollups: new Map(),
+    upgradeMarkers: new Map(),
+  };
+}
+
+/**
+ * Process-local stand-in for OkapiWorkflowDB. Repositories that share one instance
+ * see each other's writes, just like the IndexedDB adapters share one database.
+ * Records are cloned on the way in and out to mirror IndexedDB's structured cloning.
+ */
+export class InMemoryDatabase {
+  private tables: Tables = createEmptyTables();
+
+  table<K extends UnitOfWorkStoreName>(storeName: K): Map<string, UnitOfWorkRecords[K]> {
+    return this.tables[storeName];
+  }
+
+  /**
+   * Runs `change` against a copy of every table and only keeps the result if it
+   * completes without throwing.
+   */
+  transact(change: (tables: Tables) => void): void {
+    const draft = createEmptyTables();
+    (Object.keys(this.tables) as UnitOfWorkStoreName[]).forEach(storeName => {
+      (draft[storeName] as Map<string, unknown>) = new Map(this.tables[storeName] as Map<string, unknown>);
+    });
+    change(draft);
+    this.tables = draft;
+  }
+}
+
+export function cloneRecord<T>(record: T): T {
+  return structuredClone(record);
+}
+
+export function keyOf<K extends UnitOfWorkStoreName>(storeName: K, record: UnitOfWorkRecords[K]): string {
+  return storeName === 'userProgress'
+    ? (record as UnitOfWorkRecords['userProgress']).userId
+    : (record as { id: string }).id;
+}
+
+interface SoftDeletableRecord {
+  deletedAt?: string;
+}
+
+// Trashed records stay in their table until purged; finders leave them out
+export function liveRecords<T extends SoftDeletableRecord>(records: Iterable<T>): T[] {
+  return Array.from(records).filter(record => !record.deletedAt).map(cloneRecord);
+}
+
+// Trashed records, most recently deleted first like the IndexedDB deletedAt_idx read
+export function deletedRecords<T extends SoftDeletableRecord>(records: Iterable<T>): T[] {
+  return Array.from(records)
+    .filter((record): record is T & { deletedAt: string } => !!record.deletedAt)
+    .sort((a, b) => (a.deletedAt < b.deletedAt ? 1 : a.deletedAt > b.deletedAt ? -1 : 0))
+    .map(cloneRecord);
+}
+
+interface SpaceTimestampedRecord extends SoftDeletableRecord {
+  id: string;
+  spaceId: string;
+  timestamp: string;
+}
+
+// Same ordering as the IndexedDB spaceId_timestamp_idx index: timestamp, then id
+function compareByTimestamp(a: SpaceTimestampedRecord, b: SpaceTimestampedRecord): number {
+  if (a.timestamp !== b.timestamp) return a.timestamp < b.timestamp ? -1 : 1;
+  if (a.id !== b.id) return a.id < b.id ? -1 : 1;
+  return 0;
+}
+
+export function findBySpaceAndTimestampRange<T extends SpaceTimestampedRecord>(
+  records: Iterable<T>,
+  spaceId: string,
+  from: string,
+  to: string
+): T[] {
+  return Array.from(records)
+    .filter(record => !record.deletedAt && record.spaceId === spaceId && record.timestamp >= from && record.timestamp <= to)
+    .sort(compareByTimestamp)
+    .map(cloneRecord);
+}
+
+export function findByTimestampRange<T extends SpaceTimestampedRecord>(records: Iterable<T>, from: string, to: string): T[] {
+  return Array.from(records)
+    .filter(record => !record.deletedAt && record.timestamp >= from && record.timestamp <= to)
+    .sort(compareByTimestamp)
+    .map(cloneRecord);
+}
+
+/**
+ * Cursor pagination with the same cursor format and ordering as the IndexedDB adapters.
+ */
+export function findPageBySpaceAndTimestamp<T extends SpaceTimestampedRecord>(
+  records: Iterable<T>,
+  spaceId: string,
+  page: CursorPageRequest
+): CursorPage<T> {
+  const newestFirst = (page.direction ?? 'newest-first') === 'newest-first';
+  let ordered = Array.from(records).filter(record => !record.deletedAt && record.spaceId === spaceId).sort(compareByTimestamp);
+  if (newestFirst) ordered.reverse();
+
+  if (page.cursor) {
+    const after = decodePageCursor(page.cursor);
+    ordered = ordered.filter(record => {
+      const order = compareByTimestamp(record, { ...after, spaceId });
+      return newestFirst ? order < 0 : order > 0;
+    });
+  }
+
+  const items = ordered.slice(0, page.limit).map(cloneRecord);
+  const lastItem = items[items.length - 1];
+  return {
+    items,
+    nextCursor: ordered.length > page.limit && lastItem ? encodePageCursor(lastItem) : null,
+  };
+}
@@ -0,0 +1,55 @@
+// src/infrastructure/persistence/in-memory/in-memory-problem.repository.ts
+import type { Problem } from '@/domain/entities/problem.entity';
+import type { IProblemRepository } from '@/application/ports/repositories/iproblem.repository';
+import { STORE_PROBLEMS } from '@/lib/constants';
+import { cloneRecord, liveRecords, deletedRecords, type InMemoryDatabase } from './in-memory-database';
+
+export class InMemoryProblemRepository implements IProblemRepository {
+  constructor(private readonly db: InMemoryDatabase) {}
+
+  async findById(id: string): Promise<Problem | null> {
+    const problem = this.db.table(STORE_PROBLEMS).get(id);
+    return problem && !problem.deletedAt ? cloneRecord(problem) : null;
+  }
+
+  async findBySpaceId(spaceId: string): Promise<Problem[]> {
+    // Sort: unresolved first, then by creation date descending
+    return (await this.getAll())
+      .filter(problem => problem.spaceId === spaceId)
+      .sort((a, b) => {
+        if (a.resolved === b.resolved) {
+          return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+        }
+        return a.resolved ? 1 : -1;
+      });
+  }
+
+  async getAll(): Promise<Problem[]> {
+    return liveRecords(this.db.table(STORE_PROBLEMS).values());
+  }
+
+  async findDeleted(): Promise<Problem[]> {
+    return deletedRecords(this.db.table(STORE_PROBLEMS).values());
+  }
+
+  async save(problem: Problem): Promise<Problem> {
+    const problemToSave = { ...problem, lastModifiedDate: new Date().toISOString() };
+    this.db.table(STORE_PROBLEMS).set(problemToSave.id, cloneRecord(problemToSave));
+    return problemToSave;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.table(STORE_PROBLEMS).delete(id);
+  }
+
+  async deleteBySpaceId(spaceId: string): Promise<void> {
+    const table = this.db.table(STORE_PROBLEMS);
+    table.forEach((problem, id) => {
+      if (problem.spaceId === spaceId) table.delete(id);
+    });
+  }
+
+  async clearAll(): Promise<void> {
+    this.db.table(STORE_PROBLEMS).clear();
+  }
+}
@@ -0,0 +1,43 @@
+// src/infrastructure/persistence/in-memory/in-memory-record-history.repository.ts
+import type { RecordHistoryEntry, HistoryRecordType } from '@/domain/entities/record-history.entity';
+import type { IRecordHistoryRepository } from '@/application/ports/repositories/irecord-history.repository';
+import { STORE_RECORD_HISTORY } from '@/lib/constants';
+import { cloneRecord, type InMemoryDatabase } from './in-memory-database';
+
+export class InMemoryRecordHistoryRepository implements IRecordHistoryRepository {
+  constructor(private readonly db: InMemoryDatabase) {}
+
+  async findByRecord(recordType: HistoryRecordType, recordId: string): Promise<RecordHistoryEntry[]> {
+    return (await this.getAll())
+      .filter(entry => entry.recordType === recordType && entry.recordId === recordId)
+      .sort((a, b) => (a.timestamp < b.timestamp ? 1 : a.timestamp > b.timestamp ? -1 : 0));
+  }
+
+  async findBySpaceId(spaceId: string): Promise<RecordHistoryEntry[]> {
+    return (await this.getAll()).filter(entry => entry.spaceId === spaceId);
+  }
+
+  async getAll(): Promise<RecordHistoryEntry[]> {
+    return Array.from(this.db.table(STORE_RECORD_HISTORY).values()).map(cloneRecord);
+  }
+
+  async append(entry: RecordHistoryEntry): Promise<RecordHistoryEntry> {
+    const table = this.db.table(STORE_RECORD_HISTORY);
+    if (table.has(entry.id)) {
+      throw new Error(`History entry ${entry.id} already exists.`);
+    }
+    table.set(entry.id, cloneRecord(entry));
+    return entry;
+  }
+
+  async deleteBySpaceId(spaceId: string): Promise<void> {
+    const table = this.db.table(STORE_RECORD_HISTORY);
+    table.forEach((entry, id) => {
+      if (entry.spaceId === spaceId) table.delete(id);
+    });
+  }
+
+  async clearAll(): Promise<void> {
+    this.db.table(STORE_RECORD_HISTORY).clear();
+  }
+}
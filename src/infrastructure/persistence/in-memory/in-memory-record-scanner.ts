@@ -0,0 +1,21 @@
+// src/infrastructure/persistence/in-memory/in-memory-record-scanner.ts
+import type { IRecordScanner, RecordScanPage, RecordScanRequest } from '@/application/ports/repositories/irecord-scanner';
+import type { UnitOfWorkStoreName } from '@/application/ports/repositories/iunit-of-work';
+import { cloneRecord, type InMemoryDatabase } from './in-memory-database';
+
+// Keys are compared as strings, which is the order IndexedDB gives string keys too
+export class InMemoryRecordScanner implements IRecordScanner {
+  constructor(private readonly db: InMemoryDatabase) {}
+
+  async scan<K extends UnitOfWorkStoreName>(storeName: K, request: RecordScanRequest): Promise<RecordScanPage<K>> {
+    const afterKey = request.afterKey;
+    const keys = Array.from(this.db.table(storeName).keys())
+      .filter(key => afterKey === undefined || afterKey === null || key > afterKey)
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    const pageKeys = keys.slice(0, request.limit);
+    return {
+      records: pageKeys.map(key => cloneRecord(this.db.table(storeName).get(key)!)),
+      nextKey: keys.length > request.limit ? pageKeys[pageKeys.length - 1] : null,
+    };
+  }
+}
@@ -0,0 +1,35 @@
+// src/infrastructure/persistence/in-memory/in-memory-space.repository.ts
+import type { Space } from '@/domain/entities/space.entity';
+import type { ISpaceRepository } from '@/application/ports/repositories/ispace.repository';
+import { STORE_SPACES } from '@/lib/constants';
+import { cloneRecord, liveRecords, deletedRecords, type InMemoryDatabase } from './in-memory-database';
+
+export class InMemorySpaceRepository implements ISpaceRepository {
+  constructor(private readonly db: InMemoryDatabase) {}
+
+  async findById(id: string): Promise<Space | null> {
+    const space = this.db.table(STORE_SPACES).get(id);
+    return space && !space.deletedAt ? cloneRecord(space) : null;
+  }
+
+  async getAll(): Promise<Space[]> {
+    return liveRecords(this.db.table(STORE_SPACES).values());
+  }
+
+  async findDeleted(): Promise<Space[]> {
+    return deletedRecords(this.db.table(STORE_SPACES).values());
+  }
+
+  async save(space: Space): Promise<Space> {
+    this.db.table(STORE_SPACES).set(space.id, cloneRecord(space));
+    return space;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.table(STORE_SPACES).delete(id);
+  }
+
+  async clearAll(): Promise<void> {
+    this.db.table(STORE_SPACES).clear();
+  }
+}
@@ -0,0 +1,56 @@
+// src/infrastructure/persistence/in-memory/in-memory-todo.repository.ts
+import type { Todo } from '@/domain/entities/todo.entity';
+import type { ITodoRepository } from '@/application/ports/repositories/itodo.repository';
+import { STORE_TODOS } from '@/lib/constants';
+import { cloneRecord, liveRecords, deletedRecords, type InMemoryDatabase } from './in-memory-database';
+
+export class InMemoryTodoRepository implements ITodoRepository {
+  constructor(private readonly db: InMemoryDatabase) {}
+
+  async findById(id: string): Promise<Todo | null> {
+    const todo = this.db.table(STORE_TODOS).get(id);
+    return todo && !todo.deletedAt ? cloneRecord(todo) : null;
+  }
+
+  async findBySpaceId(spaceId: string): Promise<Todo[]> {
+    // Default sort: incomplete first, then by creation date descending (newest first)
+    return (await this.getAll())
+      .filter(todo => todo.spaceId === spaceId)
+      .sort((a, b) => {
+        if (a.completed === b.completed) {
+          return new Date(b.creationDate).getTime() - new Date(a.creationDate).getTime();
+        }
+        return a.completed ? 1 : -1;
+      });
+  }
+
+  async getAll(): Promise<Todo[]> {
+    return liveRecords(this.db.table(STORE_TODOS).values());
+  }
+
+  async findDeleted(): Promise<Todo[]> {
+    return deletedRecords(this.db.table(STORE_TODOS).values());
+  }
+
+  async save(todo: Todo): Promise<Todo> {
+    // Ensure lastModifiedDate is updated on every save
+    const todoToSave = { ...todo, lastModifiedDate: new Date().toISOString() };
+    this.db.table(STORE_TODOS).set(todoToSave.id, cloneRecord(todoToSave));
+    return todoToSave;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.table(STORE_TODOS).delete(id);
+  }
+
+  async deleteBySpaceId(spaceId: string): Promise<void> {
+    const table = this.db.table(STORE_TODOS);
+    table.forEach((todo, id) => {
+      if (todo.spaceId === spaceId) table.delete(id);
+    });
+  }
+
+  async clearAll(): Promise<void> {
+    this.db.table(STORE_TODOS).clear();
+  }
+}
@@ -0,0 +1,54 @@
+// src/infrastructure/persistence/in-memory/in-memory-unit-of-work.ts
+import type { IUnitOfWork, UnitOfWorkOperation } from '@/application/ports/repositories/iunit-of-work';
+import { cloneRecord, keyOf, type InMemoryDatabase } from './in-memory-database';
+
+/**
+ * Applies the operations to a draft copy of the database and swaps it in only
+ * when every operation succeeded, matching the all-or-nothing IndexedDB transaction.
+ */
+export class InMemoryUnitOfWork implements IUnitOfWork {
+  constructor(private readonly db: InMemoryDatabase) {}
+
+  async execute(operations: UnitOfWorkOperation[]): Promise<void> {
+    this.db.transact(tables => {
+      for (const op of operations) {
+        const table = tables[op.storeName] as Map<string, unknown>;
+        switch (op.type) {
+          case 'put':
+            table.set(keyOf(op.storeName, op.record), cloneRecord(op.record));
+            break;
+          case 'updateBySpaceId': {
+            const update = op.update as (records: unknown[]) => unknown[];
+            const records = Array.from(table.values()).filter(record => (record as { spaceId?: string }).spaceId === op.spaceId);
+            update(records.map(cloneRecord)).forEach(record => table.set((record as { id: string }).id, cloneRecord(record)));
+            break;
+          }
+          case 'recomputeBySpaceId': {
+            const compute = op.compute as (sources: Record<string, unknown[]>) => unknown[];
+            const ofSpace = (record: unknown) => (record as { spaceId?: string }).spaceId === op.spaceId;
+            const records = compute(Object.fromEntries(op.sourceStoreNames.map(name => [
+              name,
+              Array.from((tables[name] as Map<string, unknown>).values()).filter(ofSpace).map(cloneRecord),
+            ])));
+            table.forEach((record, key) => {
+              if (ofSpace(record)) table.delete(key);
+            });
+            records.forEach(record => table.set((record as { id: string }).id, cloneRecord(record)));
+            break;
+          }
+          case 'delete':
+            table.delete(op.key);
+            break;
+          case 'clear':
+            table.clear();
+            break;
+          case 'deleteBySpaceId':
+            table.forEach((record, key) => {
+              if ((record as { spaceId?: string }).spaceId === op.spaceId) table.delete(key);
+            });
+            break;
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,29 @@
+// src/infrastructure/persistence/in-memory/in-memory-user-progress.repository.ts
+import type { UserProgress } from '@/domain/entities/user-progress.entity';
+import type { IUserProgressRepository } from '@/application/ports/repositories/iuser-progress.repository';
+import { STORE_USER_PROGRESS, DEFAULT_USER_ID } from '@/lib/constants';
+import { cloneRecord, type InMemoryDatabase } from './in-memory-database';
+
+export class InMemoryUserProgressRepository implements IUserProgressRepository {
+  constructor(private readonly db: InMemoryDatabase) {}
+
+  async findByUserId(userId: string): Promise<UserProgress | null> {
+    const progress = this.db.table(STORE_USER_PROGRESS).get(userId);
+    if (!progress && userId === DEFAULT_USER_ID) {
+      // If default user has no progress, create and save a default one.
+      const defaultProgress: UserProgress = { userId: DEFAULT_USER_ID, points: 0, level: 1, unlockedCustomizations: [] };
+      await this.save(defaultProgress);
+      return defaultProgress;
+    }
+    return progress ? cloneRecord(progress) : null;
+  }
+
+  async save(userProgress: UserProgress): Promise<UserProgress> {
+    this.db.table(STORE_USER_PROGRESS).set(userProgress.userId, cloneRecord(userProgress));
+    return userProgress;
+  }
+
+  async clearAll(): Promise<void> {
+    this.db.table(STORE_USER_PROGRESS).clear();
+  }
+}
@@ -0,0 +1,19 @@
+// src/infrastructure/persistence/in-memory/index.ts
+export { InMemoryDatabase } from './in-memory-database';
+export { InMemoryActionDefinitionRepository } from './in-memory-action-definition.repository';
+export { InMemoryActionLogRepository } from './in-memory-action-log.repository';
+export { InMemoryAttachmentRepository } from './in-memory-attachment.repository';
+export { InMemoryBackupSnapshotRepository } from './in-memory-backup-snapshot.repository';
+export { InMemoryClockEventRepository } from './in-memory-clock-event.repository';
+export { InMemoryDailyRollupRepository } from './in-memory-daily-rollup.repository';
+export { InMemoryDataEntryLogRepository } from './in-memory-data-entry-log.repository';
+export { InMemoryProblemRepository } from './in-memory-problem.repository';
+export { InMemoryRecordHistoryRepository } from './in-memory-record-history.repository';
+export { InMemorySpaceRepository } from './in-memory-space.repository';
+export { InMemoryTodoRepository } from './in-memory-todo.repository';
+export { InMemoryUserProgressRepository } from './in-memory-user-progress.repository';
+export { InMemoryUnitOfWork } from './in-memory-unit-of-work';
+export { InMemoryRecordScanner } from './in-memory-record-scanner';
+export { InMemoryDataChangeFeed } from './in-memory-data-change-feed';
+export { InMemoryDatabaseEncryption } from './in-memory-database-encryption';
+export { createInMemoryAdapters } from './in-memory-adapters';
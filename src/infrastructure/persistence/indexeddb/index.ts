@@ -1,10 +1,22 @@
 // src/infrastructure/persistence/indexeddb/index.ts
 export { IndexedDBActionDefinitionRepository } from './indexeddb-action-definition.repository';
 export { IndexedDBActionLogRepository } from './indexeddb-action-log.repository';
+export { IndexedDBAttachmentRepository } from './indexeddb-attachment.repository';
+export { IndexedDBBackupSnapshotRepository } from './indexeddb-backup-snapshot.repository';
 export { IndexedDBClockEventRepository } from './indexeddb-clock-event.repository';
+export { IndexedDBDailyRollupRepository } from './indexeddb-daily-rollup.repository';
 export { IndexedDBDataEntryLogRepository } from './indexeddb-data-entry-log.repository';
 export { IndexedDBProblemRepository } from './indexeddb-problem.repository';
+export { IndexedDBRecordHistoryRepository } from './indexeddb-record-history.repository';
 export { IndexedDBSpaceRepository } from './indexeddb-space.repository';
 export { IndexedDBTodoRepository } from './indexeddb-todo.repository';
 export { IndexedDBUserProgressRepository } from './indexeddb-user-progress.repository';
+export { IndexedDBUnitOfWork } from './indexeddb-unit-of-work';
+export { IndexedDBRecordScanner } from './indexeddb-record-scanner';
+export { createIndexedDBAdapters } from './indexeddb-adapters';
 export { initDB, performOperation } from './indexeddb-base.repository';
+export { DatabaseMigrationError } from './indexeddb-migration-runner';
+export type { Migration, SchemaStep, DataStep, AppliedMigration } from './indexeddb-migration-runner';
+export { dataChangeFeed } from './indexeddb-change-feed';
+export { databaseEncryption } from './indexeddb-database-encryption';
+export { DatabaseLockedError } from './indexeddb-record-cipher';
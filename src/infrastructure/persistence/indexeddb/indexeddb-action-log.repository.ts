@@ -1,13 +1,16 @@
 // src/infrastructure/persistence/indexeddb/indexeddb-action-log.repository.ts
 import type { ActionLog } from '@/domain/entities/action-log.entity';
 import type { IActionLogRepository } from '@/application/ports/repositories/iaction-log.repository';
+import type { CursorPage, CursorPageRequest } from '@/application/ports/repositories/pagination';
 import { STORE_ACTION_LOGS } from '@/lib/constants';
-import { performOperation, initDB } from './indexeddb-base.repository';
+import { performOperation, putRecord, initDB, findBySpaceAndTimestampRange, findByTimestampRange, findPageBySpaceAndTimestamp, excludeDeleted, findDeletedRecords, deleteByIndexKey } from './indexeddb-base.repository';
+import { publishDataChange } from './indexeddb-change-feed';
 
 export class IndexedDBActionLogRepository implements IActionLogRepository {
   async findById(id: string): Promise<ActionLog | null> {
     const result = await performOperation<ActionLog>(STORE_ACTION_LOGS, 'readonly', store => store.get(id));
-    return (result as ActionLog | undefined) || null;
+    const log = result as ActionLog | undefined;
+    return log && !log.deletedAt ? log : null;
   }
 
   async findBySpaceId(spaceId: string): Promise<ActionLog[]> {
@@ -15,7 +18,19 @@ export class IndexedDBActionLogRepository implements IActionLogRepository {
       const index = store.index('spaceId_idx');
       return index.getAll(spaceId);
     });
-    return (result as ActionLog[]) || [];
+    return excludeDeleted((result as ActionLog[]) || []);
+  }
+
+  async findBySpaceIdBetween(spaceId: string, from: string, to: string): Promise<ActionLog[]> {
+    return findBySpaceAndTimestampRange<ActionLog>(STORE_ACTION_LOGS, spaceId, from, to);
+  }
+
+  async findBetween(from: string, to: string): Promise<ActionLog[]> {
+    return findByTimestampRange<ActionLog>(STORE_ACTION_LOGS, from, to);
+  }
+
+  async findPageBySpaceId(spaceId: string, page: CursorPageRequest): Promise<CursorPage<ActionLog>> {
+    return findPageBySpaceAndTimestamp<ActionLog>(STORE_ACTION_LOGS, spaceId, page);
   }
   
   async findByActionDefinitionId(actionDefinitionId: string): Promise<ActionLog[]> {
@@ -23,37 +38,36 @@ export class IndexedDBActionLogRepository implements IActionLogRepository {
       const index = store.index('actionDefinitionId_idx');
       return index.getAll(actionDefinitionId);
     });
-    return (result as ActionLog[]) || [];
+    return excludeDeleted((result as ActionLog[]) || []);
   }
   
   async getAll(): Promise<ActionLog[]> {
     const result = await performOperation<ActionLog[]>(STORE_ACTION_LOGS, 'readonly', store => store.getAll());
-    return (result as ActionLog[]) || [];
+    return excludeDeleted((result as ActionLog[]) || []);
+  }
+
+  async findDeleted(): Promise<ActionLog[]> {
+    return findDeletedRecords<ActionLog>(STORE_ACTION_LOGS);
   }
 
   async save(actionLog: ActionLog): Promise<ActionLog> {
-    await performOperation(STORE_ACTION_LOGS, 'readwrite', store => store.put(actionLog));
+    await putRecord(STORE_ACTION_LOGS, actionLog);
+    publishDataChange({ storeName: 'actionLogs', operation: 'put', id: actionLog.id, spaceId: actionLog.spaceId });
     return actionLog;
   }
 
   async delete(id: string): Promise<void> {
     await performOperation(STORE_ACTION_LOGS, 'readwrite', store => store.delete(id));
+    publishDataChange({ storeName: 'actionLogs', operation: 'delete', id });
   }
 
   async deleteBySpaceId(spaceId: string): Promise<void> {
-    const itemsToDelete = await this.findBySpaceId(spaceId);
-    if (itemsToDelete.length === 0) {
-        return;
-    }
-    await performOperation(STORE_ACTION_LOGS, 'readwrite', store => {
-        itemsToDelete.forEach(item => {
-            store.delete(item.id);
-        });
-        return store.count(); // Return a request to ensure transaction completion
-    });
+    await deleteByIndexKey(STORE_ACTION_LOGS, 'spaceId_idx', spaceId);
+    publishDataChange({ storeName: 'actionLogs', operation: 'delete', spaceId });
   }
   
   async clearAll(): Promise<void> {
     await performOperation(STORE_ACTION_LOGS, 'readwrite', store => store.clear());
+    publishDataChange({ storeName: 'actionLogs', operation: 'clear' });
   }
 }
@@ -0,0 +1,40 @@
+// src/infrastructure/persistence/indexeddb/indexeddb-adapters.ts
+import type { AppAdapters } from '@/application/container';
+import { IndexedDBSpaceRepository } from './indexeddb-space.repository';
+import { IndexedDBActionDefinitionRepository } from './indexeddb-action-definition.repository';
+import { IndexedDBActionLogRepository } from './indexeddb-action-log.repository';
+import { IndexedDBProblemRepository } from './indexeddb-problem.repository';
+import { IndexedDBTodoRepository } from './indexeddb-todo.repository';
+import { IndexedDBUserProgressRepository } from './indexeddb-user-progress.repository';
+import { IndexedDBClockEventRepository } from './indexeddb-clock-event.repository';
+import { IndexedDBDataEntryLogRepository } from './indexeddb-data-entry-log.repository';
+import { IndexedDBAttachmentRepository } from './indexeddb-attachment.repository';
+import { IndexedDBRecordHistoryRepository } from './indexeddb-record-history.repository';
+import { IndexedDBBackupSnapshotRepository } from './indexeddb-backup-snapshot.repository';
+import { IndexedDBDailyRollupRepository } from './indexeddb-daily-rollup.repository';
+import { IndexedDBUnitOfWork } from './indexeddb-unit-of-work';
+import { IndexedDBRecordScanner } from './indexeddb-record-scanner';
+import { dataChangeFeed } from './indexeddb-change-feed';
+import { databaseEncryption } from './indexeddb-database-encryption';
+
+// The adapters share one OkapiWorkflowDB connection, so any number of sets see the same data
+export function createIndexedDBAdapters(): AppAdapters {
+  return {
+    spaceRepository: new IndexedDBSpaceRepository(),
+    actionDefinitionRepository: new IndexedDBActionDefinitionRepository(),
+    actionLogRepository: new IndexedDBActionLogRepository(),
+    problemRepository: new IndexedDBProblemRepository(),
+    todoRepository: new IndexedDBTodoRepository(),
+    userProgressRepository: new IndexedDBUserProgressRepository(),
+    clockEventRepository: new IndexedDBClockEventRepository(),
+    dataEntryLogRepository: new IndexedDBDataEntryLogRepository(),
+    attachmentRepository: new IndexedDBAttachmentRepository(),
+    recordHistoryRepository: new IndexedDBRecordHistoryRepository(),
+    dailyRollupRepository: new IndexedDBDailyRollupRepository(),
+    backupSnapshotRepository: new IndexedDBBackupSnapshotRepository(),
+    unitOfWork: new IndexedDBUnitOfWork(),
+    recordScanner: new IndexedDBRecordScanner(),
+    dataChangeFeed,
+    databaseEncryption,
+  };
+}
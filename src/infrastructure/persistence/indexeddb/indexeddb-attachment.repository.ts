@@ -0,0 +1,85 @@
+// src/infrastructure/persistence/indexeddb/indexeddb-attachment.repository.ts
+import type { Attachment, AttachmentMetadata } from '@/domain/entities/attachment.entity';
+import type { IAttachmentRepository } from '@/application/ports/repositories/iattachment.repository';
+import { STORE_ATTACHMENTS } from '@/lib/constants';
+import { performOperation, putRecord, collectWithCursor } from './indexeddb-base.repository';
+import { publishDataChange } from './indexeddb-change-feed';
+
+export class IndexedDBAttachmentRepository implements IAttachmentRepository {
+  async findById(id: string): Promise<Attachment | null> {
+    const result = await performOperation<Attachment>(
+      STORE_ATTACHMENTS,
+      'readonly',
+      (store) => store.get(id)
+    );
+    return (result as Attachment | undefined) || null;
+  }
+
+  async findBySpaceId(spaceId: string): Promise<Attachment[]> {
+    const result = await performOperation<Attachment[]>(
+      STORE_ATTACHMENTS,
+      'readonly',
+      (store) => store.index('spaceId_idx').getAll(spaceId)
+    );
+    return (result as Attachment[]) || [];
+  }
+
+  async getAll(): Promise<Attachment[]> {
+    const result = await performOperation<Attachment[]>(
+      STORE_ATTACHMENTS,
+      'readonly',
+      (store) => store.getAll()
+    );
+    return (result as Attachment[]) || [];
+  }
+
+  async getAllIds(): Promise<string[]> {
+    const result = await performOperation<IDBValidKey[]>(
+      STORE_ATTACHMENTS,
+      'readonly',
+      (store) => store.getAllKeys()
+    );
+    return ((result as IDBValidKey[]) || []).map(String);
+  }
+
+  async getAllMetadata(): Promise<AttachmentMetadata[]> {
+    const attachments = await collectWithCursor<Partial<Attachment>>(STORE_ATTACHMENTS, store => store.openCursor(), { withoutBlobs: true });
+    // Plaintext records still carry the blob; dropping it here keeps it from being read
+    return attachments.map(({ blob, ...metadata }) => metadata as AttachmentMetadata);
+  }
+
+  async save(attachment: Attachment): Promise<Attachment> {
+    await putRecord(STORE_ATTACHMENTS, attachment);
+    publishDataChange({ storeName: 'attachments', operation: 'put', id: attachment.id, spaceId: attachment.spaceId });
+    return attachment;
+  }
+
+  async delete(id: string): Promise<void> {
+    await performOperation(STORE_ATTACHMENTS, 'readwrite', (store) =>
+      store.delete(id)
+    );
+    publishDataChange({ storeName: 'attachments', operation: 'delete', id });
+  }
+
+  async deleteBySpaceId(spaceId: string): Promise<void> {
+    const keysToDelete = await performOperation<IDBValidKey[]>(
+      STORE_ATTACHMENTS,
+      'readonly',
+      (store) => store.index('spaceId_idx').getAllKeys(spaceId)
+    );
+    const keys = (keysToDelete as IDBValidKey[]) || [];
+    if (keys.length === 0) {
+      return;
+    }
+    await performOperation(STORE_ATTACHMENTS, 'readwrite', (store) => {
+      keys.forEach((key) => store.delete(key));
+      return store.count();
+    });
+    publishDataChange({ storeName: 'attachments', operation: 'delete', spaceId });
+  }
+
+  async clearAll(): Promise<void> {
+    await performOperation(STORE_ATTACHMENTS, 'readwrite', (store) => store.clear());
+    publishDataChange({ storeName: 'attachments', operation: 'clear' });
+  }
+}
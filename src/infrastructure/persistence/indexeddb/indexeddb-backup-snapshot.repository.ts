@@ -0,0 +1,76 @@
+// src/infrastructure/persistence/indexeddb/indexeddb-backup-snapshot.repository.ts
+import type { BackupSnapshot } from '@/domain/entities/backup-snapshot.entity';
+import type { IBackupSnapshotRepository } from '@/application/ports/repositories/ibackup-snapshot.repository';
+import { STORE_BACKUP_ARCHIVES, STORE_BACKUP_SNAPSHOTS } from '@/lib/constants';
+import { initDB, performOperation } from './indexeddb-base.repository';
+import { sealRecord } from './indexeddb-record-cipher';
+
+interface StoredBackupArchive {
+  id: string; // Same as the snapshot's
+  archive: Blob;
+}
+
+const BACKUP_STORES = [STORE_BACKUP_SNAPSHOTS, STORE_BACKUP_ARCHIVES];
+
+// Snapshots and their archives are always written and removed together
+async function writeBackupStores(write: (snapshots: IDBObjectStore, archives: IDBObjectStore) => void): Promise<void> {
+  const db = await initDB();
+  if (!db) {
+    throw new Error("IndexedDB is not available.");
+  }
+  return new Promise((resolve, reject) => {
+    try {
+      const transaction = db.transaction(BACKUP_STORES, 'readwrite');
+      transaction.oncomplete = () => resolve();
+      transaction.onabort = () => reject(transaction.error || new Error("Backup transaction was aborted."));
+      write(transaction.objectStore(STORE_BACKUP_SNAPSHOTS), transaction.objectStore(STORE_BACKUP_ARCHIVES));
+    } catch (error) {
+      console.error("Failed to write backup stores:", error);
+      reject(error);
+    }
+  });
+}
+
+export class IndexedDBBackupSnapshotRepository implements IBackupSnapshotRepository {
+  async getAll(): Promise<BackupSnapshot[]> {
+    const result = await performOperation<BackupSnapshot[]>(
+      STORE_BACKUP_SNAPSHOTS,
+      'readonly',
+      (store) => store.getAll()
+    );
+    return ((result as BackupSnapshot[]) || []).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getArchive(id: string): Promise<Blob | null> {
+    const result = await performOperation<StoredBackupArchive>(
+      STORE_BACKUP_ARCHIVES,
+      'readonly',
+      (store) => store.get(id)
+    );
+    return (result as StoredBackupArchive | undefined)?.archive ?? null;
+  }
+
+  async save(snapshot: BackupSnapshot, archive: Blob): Promise<void> {
+    const db = await initDB();
+    if (!db) {
+      throw new Error("IndexedDB is not available.");
+    }
+    // Sealed before the transaction opens, as awaiting inside it would let it commit early
+    const archiveRecord: StoredBackupArchive = { id: snapshot.id, archive };
+    const [storedSnapshot, storedArchive] = await Promise.all([
+      sealRecord(db, STORE_BACKUP_SNAPSHOTS, snapshot),
+      sealRecord(db, STORE_BACKUP_ARCHIVES, archiveRecord),
+    ]);
+    await writeBackupStores((snapshots, archives) => {
+      snapshots.put(storedSnapshot);
+      archives.put(storedArchive);
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await writeBackupStores((snapshots, archives) => {
+      snapshots.delete(id);
+      archives.delete(id);
+    });
+  }
+}
@@ -1,5 +1,10 @@
 // src/infrastructure/persistence/indexeddb/indexeddb-base.repository.ts
-import { DB_NAME, DB_VERSION, STORE_SPACES, STORE_ACTION_DEFINITIONS, STORE_ACTION_LOGS, STORE_PROBLEMS, STORE_TODOS, STORE_USER_PROGRESS, STORE_CLOCK_EVENTS, STORE_DATA_ENTRIES } from '@/lib/constants';
+import { DB_NAME, DB_VERSION } from '@/lib/constants';
+import { applyMigrations, validateMigrations, type DatabaseMigrationError } from './indexeddb-migration-runner';
+import { MIGRATIONS } from './indexeddb-migrations';
+import type { CursorPage, CursorPageRequest } from '@/application/ports/repositories/pagination';
+import { openStoredValue, sealRecord } from './indexeddb-record-cipher';
+import { encodePageCursor, decodePageCursor } from '@/lib/page-cursor';
 
 let dbPromise: Promise<IDBDatabase | null> | null = null;
 
@@ -13,131 +18,25 @@ export function initDB(): Promise<IDBDatabase | null> {
     return dbPromise;
   }
 
+  try {
+    validateMigrations(MIGRATIONS, DB_VERSION);
+  } catch (error) {
+    console.error("Invalid database migrations:", error);
+    return Promise.reject(error);
+  }
+
   dbPromise = new Promise((resolve, reject) => {
+    let migrationError: DatabaseMigrationError | null = null;
     const request = indexedDB.open(DB_NAME, DB_VERSION);
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      const transaction = (event.target as IDBOpenDBRequest).transaction;
-
-      // STORE_SPACES
-      if (!db.objectStoreNames.contains(STORE_SPACES)) {
-        const spacesStore = db.createObjectStore(STORE_SPACES, { keyPath: 'id' });
-        spacesStore.createIndex('date_idx', 'date', { unique: false });
-      } else {
-        const spacesStore = transaction?.objectStore(STORE_SPACES);
-        if (spacesStore && !spacesStore.indexNames.contains('date_idx')) {
-            spacesStore.createIndex('date_idx', 'date', { unique: false });
-        }
-      }
-
-      // STORE_ACTION_DEFINITIONS
-      if (!db.objectStoreNames.contains(STORE_ACTION_DEFINITIONS)) {
-        const actionDefinitionsStore = db.createObjectStore(STORE_ACTION_DEFINITIONS, { keyPath: 'id' });
-        actionDefinitionsStore.createIndex('spaceId_idx', 'spaceId', { unique: false });
-        actionDefinitionsStore.createIndex('type_idx', 'type', { unique: false });
-      } else {
-        const actionDefinitionsStore = transaction?.objectStore(STORE_ACTION_DEFINITIONS);
-        if (actionDefinitionsStore && !actionDefinitionsStore.indexNames.contains('spaceId_idx')) {
-            actionDefinitionsStore.createIndex('spaceId_idx', 'spaceId', { unique: false });
-        }
-        if (actionDefinitionsStore && !actionDefinitionsStore.indexNames.contains('type_idx')) {
-            actionDefinitionsStore.createIndex('type_idx', 'type', { unique: false });
-        }
-      }
-      
-      // STORE_ACTION_LOGS
-      if (!db.objectStoreNames.contains(STORE_ACTION_LOGS)) {
-        const actionLogsStore = db.createObjectStore(STORE_ACTION_LOGS, { keyPath: 'id' });
-        actionLogsStore.createIndex('spaceId_idx', 'spaceId', { unique: false });
-        actionLogsStore.createIndex('actionDefinitionId_idx', 'actionDefinitionId', { unique: false });
-        actionLogsStore.createIndex('timestamp_idx', 'timestamp', {unique: false});
-      } else {
-        const actionLogsStore = transaction?.objectStore(STORE_ACTION_LOGS);
-        if (actionLogsStore && !actionLogsStore.indexNames.contains('spaceId_idx')) {
-            actionLogsStore.createIndex('spaceId_idx', 'spaceId', { unique: false });
-        }
-        if (actionLogsStore && !actionLogsStore.indexNames.contains('actionDefinitionId_idx')) {
-            actionLogsStore.createIndex('actionDefinitionId_idx', 'actionDefinitionId', { unique: false });
-        }
-        if (actionLogsStore && !actionLogsStore.indexNames.contains('timestamp_idx')) {
-            actionLogsStore.createIndex('timestamp_idx', 'timestamp', {unique: false});
-        }
-      }
-      
-      // STORE_PROBLEMS
-      if (!db.objectStoreNames.contains(STORE_PROBLEMS)) {
-        const problemsStore = db.createObjectStore(STORE_PROBLEMS, { keyPath: 'id' });
-        problemsStore.createIndex('spaceId_idx', 'spaceId', { unique: false });
-      } else {
-         const problemsStore = transaction?.objectStore(STORE_PROBLEMS);
-         if (problemsStore && !problemsStore.indexNames.contains('spaceId_idx')) {
-            problemsStore.createIndex('spaceId_idx', 'spaceId', { unique: false });
-        }
-      }
-
-      // STORE_TODOS
-      if (!db.objectStoreNames.contains(STORE_TODOS)) {
-        const todosStore = db.createObjectStore(STORE_TODOS, { keyPath: 'id' });
-        todosStore.createIndex('spaceId_idx', 'spaceId', { unique: false });
-        todosStore.createIndex('status_idx', 'status', {unique: false}); 
-        todosStore.createIndex('creationDate_idx', 'creationDate', {unique: false});
-
-      } else {
-        const todosStore = transaction?.objectStore(STORE_TODOS);
-        if (todosStore && !todosStore.indexNames.contains('spaceId_idx')) {
-            todosStore.createIndex('spaceId_idx', 'spaceId', { unique: false });
-        }
-        if (todosStore && !todosStore.indexNames.contains('status_idx')) {
-             todosStore.createIndex('status_idx', 'status', {unique: false});
-        }
-        if (todosStore && !todosStore.indexNames.contains('creationDate_idx')) {
-             todosStore.createIndex('creationDate_idx', 'creationDate', {unique: false});
-        }
-      }
-
-      // STORE_USER_PROGRESS
-      if (!db.objectStoreNames.contains(STORE_USER_PROGRESS)) {
-        db.createObjectStore(STORE_USER_PROGRESS, { keyPath: 'userId' });
-      }
-
-      // STORE_CLOCK_EVENTS
-      if (!db.objectStoreNames.contains(STORE_CLOCK_EVENTS)) {
-        const clockEventsStore = db.createObjectStore(STORE_CLOCK_EVENTS, { keyPath: 'id' });
-        clockEventsStore.createIndex('timestamp_idx', 'timestamp', {unique: false });
-        clockEventsStore.createIndex('spaceId_idx', 'spaceId', { unique: false });
-      } else {
-        const clockEventsStore = transaction?.objectStore(STORE_CLOCK_EVENTS);
-        if (clockEventsStore && !clockEventsStore.indexNames.contains('timestamp_idx')) {
-             clockEventsStore.createIndex('timestamp_idx', 'timestamp', {unique: false });
-        }
-         if (clockEventsStore && !clockEventsStore.indexNames.contains('spaceId_idx')) {
-             clockEventsStore.createIndex('spaceId_idx', 'spaceId', { unique: false });
-        }
-      }
-
-      // STORE_DATA_ENTRIES
-      if (!db.objectStoreNames.contains(STORE_DATA_ENTRIES)) {
-        const dataEntriesStore = db.createObjectStore(STORE_DATA_ENTRIES, { keyPath: 'id' });
-        dataEntriesStore.createIndex('actionDefinitionId_idx', 'actionDefinitionId', { unique: false });
-        dataEntriesStore.createIndex('spaceId_idx', 'spaceId', { unique: false });
-        dataEntriesStore.createIndex('timestamp_idx', 'timestamp', { unique: false });
-        dataEntriesStore.createIndex('stepId_idx', 'stepId', { unique: false }); // New index for stepId
-      } else {
-        const dataEntriesStore = transaction?.objectStore(STORE_DATA_ENTRIES);
-        if (dataEntriesStore && !dataEntriesStore.indexNames.contains('actionDefinitionId_idx')) {
-          dataEntriesStore.createIndex('actionDefinitionId_idx', 'actionDefinitionId', { unique: false });
-        }
-        if (dataEntriesStore && !dataEntriesStore.indexNames.contains('spaceId_idx')) {
-          dataEntriesStore.createIndex('spaceId_idx', 'spaceId', { unique: false });
-        }
-        if (dataEntriesStore && !dataEntriesStore.indexNames.contains('timestamp_idx')) {
-          dataEntriesStore.createIndex('timestamp_idx', 'timestamp', { unique: false });
-        }
-        if (dataEntriesStore && !dataEntriesStore.indexNames.contains('stepId_idx')) { // Add index if not exists
-          dataEntriesStore.createIndex('stepId_idx', 'stepId', { unique: false });
-        }
-      }
+      const db = request.result;
+      const transaction = request.transaction;
+      if (!transaction) return;
+      console.log(`Upgrading ${DB_NAME} from version ${event.oldVersion} to ${event.newVersion}`);
+      applyMigrations(db, transaction, event.oldVersion, MIGRATIONS, error => {
+        migrationError = error;
+      });
     };
 
     request.onsuccess = (event) => {
@@ -149,7 +48,8 @@ export function initDB(): Promise<IDBDatabase | null> {
     request.onerror = (event) => {
       console.error("IndexedDB error:", (event.target as IDBOpenDBRequest).error);
       dbPromise = null; // Reset promise on error
-      reject((event.target as IDBOpenDBRequest).error);
+      // A failed migration aborts the upgrade; report which one instead of the bare AbortError
+      reject(migrationError || (event.target as IDBOpenDBRequest).error);
     };
   });
   return dbPromise;
@@ -200,7 +100,8 @@ export async function performOperation<T>(storeName: string, mode: IDBTransactio
       const request = requestOrVoidOrPromise as IDBRequest<T>; 
 
       request.onsuccess = () => {
-        resolve(request.result);
+        // Records of an encrypted database are opened after the request, outside the transaction
+        openStoredValue(db, request.result).then(resolve, reject);
       };
 
       request.onerror = (event) => {
@@ -214,6 +115,174 @@ export async function performOperation<T>(storeName: string, mode: IDBTransactio
   });
 }
 
+/**
+ * Writes `record` to `storeName`, sealing it first when the database is encrypted.
+ * `add` fails instead of overwriting a record with the same key.
+ */
+export async function putRecord(storeName: string, record: object, mode: 'put' | 'add' = 'put'): Promise<void> {
+  const db = await initDB();
+  if (!db) return;
+  const stored = await sealRecord(db, storeName, record);
+  await performOperation(storeName, 'readwrite', store => mode === 'add' ? store.add(stored) : store.put(stored));
+}
+
+/**
+ * Opens a cursor on `storeName` and collects its values in cursor order.
+ * Values matched by `skip` are passed over without counting towards `limit`.
+ * `skip` sees values as stored, so in an encrypted database it may only read indexed fields.
+ * `withoutBlobs` leaves the sealed Blobs of an encrypted database undecrypted and out of the values.
+ */
+export async function collectWithCursor<T>(
+  storeName: string,
+  openCursor: (store: IDBObjectStore) => IDBRequest<IDBCursorWithValue | null>,
+  options: { limit?: number; skip?: (value: T) => boolean; withoutBlobs?: boolean } = {}
+): Promise<T[]> {
+  const db = await initDB();
+  if (!db) return [];
+
+  return new Promise((resolve, reject) => {
+    try {
+      const transaction = db.transaction(storeName, 'readonly');
+      const request = openCursor(transaction.objectStore(storeName));
+      const results: T[] = [];
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        const finish = () => openStoredValue(db, results, { withoutBlobs: options.withoutBlobs }).then(resolve, reject);
+        if (!cursor) {
+          finish();
+          return;
+        }
+        const value = cursor.value as T;
+        if (!options.skip || !options.skip(value)) {
+          results.push(value);
+        }
+        if (options.limit !== undefined && results.length >= options.limit) {
+          finish();
+          return;
+        }
+        cursor.continue();
+      };
+
+      request.onerror = (event) => {
+        console.error(`Error iterating cursor on ${storeName}:`, (event.target as IDBRequest).error);
+        reject((event.target as IDBRequest).error);
+      };
+    } catch (error) {
+      console.error(`Failed to open cursor on ${storeName}:`, error);
+      reject(error);
+    }
+  });
+}
+
+interface SoftDeletableRecord {
+  deletedAt?: string;
+}
+
+// Trashed records stay in their store until purged; finders leave them out
+export function excludeDeleted<T extends SoftDeletableRecord>(records: T[]): T[] {
+  return records.filter(record => !record.deletedAt);
+}
+
+/**
+ * Reads the trashed records of a store, most recently deleted first. `deletedAt_idx`
+ * only holds records that have a `deletedAt`, so live records are never scanned.
+ */
+export async function findDeletedRecords<T extends SoftDeletableRecord>(storeName: string): Promise<T[]> {
+  const result = await performOperation<T[]>(storeName, 'readonly', store => store.index('deletedAt_idx').getAll());
+  return ((result as T[]) || []).reverse();
+}
+
+/**
+ * Permanently deletes every record whose `indexName` key equals `key`, including trashed ones.
+ */
+export async function deleteByIndexKey(storeName: string, indexName: string, key: IDBValidKey): Promise<void> {
+  const keysToDelete = await performOperation<IDBValidKey[]>(storeName, 'readonly', store =>
+    store.index(indexName).getAllKeys(key)
+  );
+  const keys = (keysToDelete as IDBValidKey[]) || [];
+  if (keys.length === 0) return;
+  await performOperation(storeName, 'readwrite', store => {
+    keys.forEach(k => store.delete(k));
+    return store.count(); // Ensure transaction completes
+  });
+}
+
+interface SpaceTimestampedRecord extends SoftDeletableRecord {
+  id: string;
+  spaceId: string;
+  timestamp: string;
+}
+
+const MIN_TIMESTAMP = '';
+const MAX_TIMESTAMP = '\uffff';
+
+/**
+ * Reads the live records of a space whose timestamp lies within [from, to], oldest first,
+ * using the compound `spaceId_timestamp_idx` index.
+ */
+export async function findBySpaceAndTimestampRange<T extends SpaceTimestampedRecord>(
+  storeName: string,
+  spaceId: string,
+  from: string,
+  to: string
+): Promise<T[]> {
+  if (from > to) return [];
+  const result = await performOperation<T[]>(storeName, 'readonly', store =>
+    store.index('spaceId_timestamp_idx').getAll(IDBKeyRange.bound([spaceId, from], [spaceId, to]))
+  );
+  return excludeDeleted((result as T[]) || []);
+}
+
+/**
+ * Reads the live records of every space whose timestamp lies within [from, to], oldest
+ * first, using the `timestamp_idx` index.
+ */
+export async function findByTimestampRange<T extends SpaceTimestampedRecord>(storeName: string, from: string, to: string): Promise<T[]> {
+  if (from > to) return [];
+  const result = await performOperation<T[]>(storeName, 'readonly', store =>
+    store.index('timestamp_idx').getAll(IDBKeyRange.bound(from, to))
+  );
+  return excludeDeleted((result as T[]) || []);
+}
+
+/**
+ * Reads one page of a space's live records ordered by timestamp through `spaceId_timestamp_idx`.
+ * The cursor holds the (timestamp, id) of the last record returned; records sharing that
+ * timestamp are ordered by id, so a page boundary never drops or repeats a record.
+ */
+export async function findPageBySpaceAndTimestamp<T extends SpaceTimestampedRecord>(
+  storeName: string,
+  spaceId: string,
+  page: CursorPageRequest
+): Promise<CursorPage<T>> {
+  const newestFirst = (page.direction ?? 'newest-first') === 'newest-first';
+  const after = page.cursor ? decodePageCursor(page.cursor) : null;
+
+  const lower = !newestFirst && after ? after.timestamp : MIN_TIMESTAMP;
+  const upper = newestFirst && after ? after.timestamp : MAX_TIMESTAMP;
+  const range = IDBKeyRange.bound([spaceId, lower], [spaceId, upper]);
+
+  const items = await collectWithCursor<T>(
+    storeName,
+    store => store.index('spaceId_timestamp_idx').openCursor(range, newestFirst ? 'prev' : 'next'),
+    {
+      limit: page.limit + 1, // One extra record tells us whether another page exists
+      skip: record =>
+        !!record.deletedAt ||
+        (!!after && record.timestamp === after.timestamp && (newestFirst ? record.id >= after.id : record.id <= after.id)),
+    }
+  );
+
+  const hasMore = items.length > page.limit;
+  const pageItems = hasMore ? items.slice(0, page.limit) : items;
+  const lastItem = pageItems[pageItems.length - 1];
+  return {
+    items: pageItems,
+    nextCursor: hasMore && lastItem ? encodePageCursor(lastItem) : null,
+  };
+}
+
 if (typeof window !== 'undefined') {
   initDB().catch(err => console.error("DB initialization failed during load:", err));
 }
@@ -0,0 +1,57 @@
+// src/infrastructure/persistence/indexeddb/indexeddb-change-feed.ts
+import type { IDataChangeFeed, DataChangeEvent, DataChangeListener } from '@/application/ports/repositories/idata-change-feed';
+import { DB_NAME } from '@/lib/constants';
+
+const CHANNEL_NAME = `${DB_NAME}:changes`;
+
+/**
+ * Change feed shared by every tab that opens the database. A BroadcastChannel never
+ * delivers a message back to the channel that posted it, so listeners only hear
+ * about writes made elsewhere; the tab that wrote the data already has it.
+ */
+class BroadcastChannelDataChangeFeed implements IDataChangeFeed {
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<DataChangeListener>();
+
+  private getChannel(): BroadcastChannel | null {
+    if (this.channel) return this.channel;
+    if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') return null;
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<DataChangeEvent[]>) => {
+      if (!Array.isArray(event.data)) return;
+      this.listeners.forEach(listener => {
+        try {
+          listener(event.data);
+        } catch (error) {
+          console.error("Error in data change listener:", error);
+        }
+      });
+    };
+    return this.channel;
+  }
+
+  publish(events: DataChangeEvent[]): void {
+    if (events.length === 0) return;
+    try {
+      this.getChannel()?.postMessage(events);
+    } catch (error) {
+      // Other tabs simply stay stale until their next refresh
+      console.error("Failed to publish data changes:", error);
+    }
+  }
+
+  subscribe(listener: DataChangeListener): () => void {
+    this.getChannel();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const dataChangeFeed: IDataChangeFeed = new BroadcastChannelDataChangeFeed();
+
+export function publishDataChange(event: DataChangeEvent): void {
+  dataChangeFeed.publish([event]);
+}
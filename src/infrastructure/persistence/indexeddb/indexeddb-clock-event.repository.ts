@@ -1,37 +1,31 @@
 // src/infrastructure/persistence/indexeddb/indexeddb-clock-event.repository.ts
 import type { ClockEvent } from '@/domain/entities/clock-event.entity';
 import type { IClockEventRepository } from '@/application/ports/repositories/iclock-event.repository';
+import type { CursorPage, CursorPageRequest } from '@/application/ports/repositories/pagination';
 import { STORE_CLOCK_EVENTS } from '@/lib/constants';
-import { performOperation } from './indexeddb-base.repository';
+import { performOperation, putRecord, findBySpaceAndTimestampRange, findByTimestampRange, findPageBySpaceAndTimestamp, excludeDeleted, findDeletedRecords, deleteByIndexKey } from './indexeddb-base.repository';
+import { publishDataChange } from './indexeddb-change-feed';
 
 export class IndexedDBClockEventRepository implements IClockEventRepository {
   async findById(id: string): Promise<ClockEvent | null> {
     const result = await performOperation<ClockEvent>(STORE_CLOCK_EVENTS, 'readonly', store => store.get(id));
-    return (result as ClockEvent | undefined) || null;
+    const event = result as ClockEvent | undefined;
+    return event && !event.deletedAt ? event : null;
   }
 
   async getAll(): Promise<ClockEvent[]> {
     const result = await performOperation<ClockEvent[]>(STORE_CLOCK_EVENTS, 'readonly', store => store.getAll());
-    return (result as ClockEvent[]) || [];
+    return excludeDeleted((result as ClockEvent[]) || []);
+  }
+
+  async findDeleted(): Promise<ClockEvent[]> {
+    return findDeletedRecords<ClockEvent>(STORE_CLOCK_EVENTS);
   }
 
   async findLastForSpace(spaceId: string): Promise<ClockEvent | null> {
-    const result = await performOperation<ClockEvent[]>(
-      STORE_CLOCK_EVENTS,
-      'readonly',
-      store => {
-        const index = store.index('spaceId_idx');
-        const request = index.getAll(spaceId);
-        return request;
-      }
-    );
-    const eventsForSpace = (result as ClockEvent[]) || [];
-    if (eventsForSpace.length > 0) {
-      // Sort by timestamp descending to get the latest
-      eventsForSpace.sort((a: ClockEvent, b: ClockEvent) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-      return eventsForSpace[0];
-    }
-    return null;
+    // Reads only the newest entry from the compound index instead of the space's whole history
+    const { items } = await findPageBySpaceAndTimestamp<ClockEvent>(STORE_CLOCK_EVENTS, spaceId, { limit: 1 });
+    return items[0] || null;
   }
 
   async findBySpaceId(spaceId: string): Promise<ClockEvent[]> {
@@ -40,31 +34,35 @@ export class IndexedDBClockEventRepository implements IClockEventRepository {
       return index.getAll(spaceId);
     });
     // Sort by timestamp descending (newest first)
-    const events = (result as ClockEvent[]) || [];
+    const events = excludeDeleted((result as ClockEvent[]) || []);
     return events.sort((a: ClockEvent, b: ClockEvent) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
   }
 
+  async findBySpaceIdBetween(spaceId: string, from: string, to: string): Promise<ClockEvent[]> {
+    return findBySpaceAndTimestampRange<ClockEvent>(STORE_CLOCK_EVENTS, spaceId, from, to);
+  }
+
+  async findBetween(from: string, to: string): Promise<ClockEvent[]> {
+    return findByTimestampRange<ClockEvent>(STORE_CLOCK_EVENTS, from, to);
+  }
+
+  async findPageBySpaceId(spaceId: string, page: CursorPageRequest): Promise<CursorPage<ClockEvent>> {
+    return findPageBySpaceAndTimestamp<ClockEvent>(STORE_CLOCK_EVENTS, spaceId, page);
+  }
+
   async save(clockEvent: ClockEvent): Promise<ClockEvent> {
-    await performOperation(STORE_CLOCK_EVENTS, 'readwrite', store => store.put(clockEvent));
+    await putRecord(STORE_CLOCK_EVENTS, clockEvent);
+    publishDataChange({ storeName: 'clockEvents', operation: 'put', id: clockEvent.id, spaceId: clockEvent.spaceId });
     return clockEvent;
   }
 
   async deleteBySpaceId(spaceId: string): Promise<void> {
-    const itemsToDelete = await this.findBySpaceId(spaceId);
-    if (itemsToDelete.length === 0) {
-        return;
-    }
-    await performOperation(STORE_CLOCK_EVENTS, 'readwrite', store => {
-        itemsToDelete.forEach(item => {
-            store.delete(item.id);
-        });
-        // Return a request to ensure transaction completion
-        // Using count as a placeholder for a request that the transaction can wait for.
-        return store.count(); 
-    });
+    await deleteByIndexKey(STORE_CLOCK_EVENTS, 'spaceId_idx', spaceId);
+    publishDataChange({ storeName: 'clockEvents', operation: 'delete', spaceId });
   }
 
   async clearAll(): Promise<void> {
     await performOperation(STORE_CLOCK_EVENTS, 'readwrite', store => store.clear());
+    publishDataChange({ storeName: 'clockEvents', operation: 'clear' });
   }
 }
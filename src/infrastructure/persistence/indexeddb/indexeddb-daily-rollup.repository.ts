@@ -0,0 +1,35 @@
+// src/infrastructure/persistence/indexeddb/indexeddb-daily-rollup.repository.ts
+import type { DailyRollup } from '@/domain/entities/daily-rollup.entity';
+import type { IDailyRollupRepository } from '@/application/ports/repositories/idaily-rollup.repository';
+import { STORE_DAILY_ROLLUPS, STORE_UPGRADE_MARKERS } from '@/lib/constants';
+import { DAILY_ROLLUPS_BUILT_MARKER } from '@/lib/daily-rollups';
+import { performOperation } from './indexeddb-base.repository';
+
+function byDay(a: DailyRollup, b: DailyRollup): number {
+  return a.day < b.day ? -1 : a.day > b.day ? 1 : 0;
+}
+
+export class IndexedDBDailyRollupRepository implements IDailyRollupRepository {
+  async findBySpaceId(spaceId: string): Promise<DailyRollup[]> {
+    const result = await performOperation<DailyRollup[]>(
+      STORE_DAILY_ROLLUPS,
+      'readonly',
+      (store) => store.index('spaceId_idx').getAll(spaceId)
+    );
+    return ((result as DailyRollup[]) || []).sort(byDay);
+  }
+
+  async getAll(): Promise<DailyRollup[]> {
+    const result = await performOperation<DailyRollup[]>(
+      STORE_DAILY_ROLLUPS,
+      'readonly',
+      (store) => store.getAll()
+    );
+    return (result as DailyRollup[]) || [];
+  }
+
+  async isBuilt(): Promise<boolean> {
+    const marker = await performOperation(STORE_UPGRADE_MARKERS, 'readonly', store => store.get(DAILY_ROLLUPS_BUILT_MARKER));
+    return marker !== undefined;
+  }
+}
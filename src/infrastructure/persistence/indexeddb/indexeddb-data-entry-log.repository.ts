@@ -1,13 +1,15 @@
 // src/infrastructure/persistence/indexeddb/indexeddb-data-entry-log.repository.ts
 import type { DataEntryLog } from '@/domain/entities/data-entry-log.entity';
 import type { IDataEntryLogRepository } from '@/application/ports/repositories/idata-entry-log.repository';
+import type { CursorPage, CursorPageRequest } from '@/application/ports/repositories/pagination';
 import { STORE_DATA_ENTRIES } from '@/lib/constants';
-import { performOperation } from './indexeddb-base.repository';
+import { performOperation, putRecord, findBySpaceAndTimestampRange, findByTimestampRange, findPageBySpaceAndTimestamp, excludeDeleted, findDeletedRecords, deleteByIndexKey } from './indexeddb-base.repository';
+import { publishDataChange } from './indexeddb-change-feed';
 
 export class IndexedDBDataEntryLogRepository implements IDataEntryLogRepository {
   async findById(id: string): Promise<DataEntryLog | null> {
     const result = await performOperation<DataEntryLog | undefined>(STORE_DATA_ENTRIES, 'readonly', store => store.get(id));
-    if (result && typeof result === 'object' && !Array.isArray(result)) {
+    if (result && typeof result === 'object' && !Array.isArray(result) && !(result as DataEntryLog).deletedAt) {
       return result;
     }
     return null;
@@ -19,7 +21,7 @@ export class IndexedDBDataEntryLogRepository implements IDataEntryLogRepository
       return index.getAll(actionDefinitionId);
     });
     const arrayResult: DataEntryLog[] = (Array.isArray(result) ? result : []).filter((item): item is DataEntryLog => !!item);
-    return arrayResult.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    return excludeDeleted(arrayResult).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
   }
 
   async findBySpaceId(spaceId: string): Promise<DataEntryLog[]> {
@@ -28,50 +30,62 @@ export class IndexedDBDataEntryLogRepository implements IDataEntryLogRepository
       return index.getAll(spaceId);
     });
     const arrayResult: DataEntryLog[] = Array.isArray(result)
-      ? (result as DataEntryLog[]).flat()
+      ? excludeDeleted((result as DataEntryLog[]).flat())
       : [];
     return arrayResult.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
   }
 
+  async findBySpaceIdBetween(spaceId: string, from: string, to: string): Promise<DataEntryLog[]> {
+    return findBySpaceAndTimestampRange<DataEntryLog>(STORE_DATA_ENTRIES, spaceId, from, to);
+  }
+
+  async findBetween(from: string, to: string): Promise<DataEntryLog[]> {
+    return findByTimestampRange<DataEntryLog>(STORE_DATA_ENTRIES, from, to);
+  }
+
+  async findPageBySpaceId(spaceId: string, page: CursorPageRequest): Promise<CursorPage<DataEntryLog>> {
+    return findPageBySpaceAndTimestamp<DataEntryLog>(STORE_DATA_ENTRIES, spaceId, page);
+  }
+
   async getAll(): Promise<DataEntryLog[]> {
     const result = await performOperation<DataEntryLog[]>(STORE_DATA_ENTRIES, 'readonly', store => store.getAll());
     if (Array.isArray(result)) {
       // Flatten in case result is DataEntryLog[][]
-      return result.flat();
+      return excludeDeleted(result.flat());
     }
     return [];
   }
 
+  async findDeleted(): Promise<DataEntryLog[]> {
+    return findDeletedRecords<DataEntryLog>(STORE_DATA_ENTRIES);
+  }
+
   async save(dataEntryLog: DataEntryLog): Promise<DataEntryLog> {
     // Ensure timestamp is updated if it's an edit operation
     const entryToSave = { ...dataEntryLog, timestamp: new Date().toISOString() };
-    await performOperation(STORE_DATA_ENTRIES, 'readwrite', store => store.put(entryToSave));
+    await putRecord(STORE_DATA_ENTRIES, entryToSave);
+    publishDataChange({ storeName: 'dataEntries', operation: 'put', id: entryToSave.id, spaceId: entryToSave.spaceId });
     return entryToSave;
   }
 
   async delete(id: string): Promise<void> {
     await performOperation(STORE_DATA_ENTRIES, 'readwrite', store => store.delete(id));
+    publishDataChange({ storeName: 'dataEntries', operation: 'delete', id });
   }
   
   async deleteByActionDefinitionId(actionDefinitionId: string): Promise<void> {
-    const itemsToDelete = await this.findByActionDefinitionId(actionDefinitionId);
-    if (itemsToDelete.length === 0) return;
-    await performOperation(STORE_DATA_ENTRIES, 'readwrite', store => {
-      itemsToDelete.forEach(item => store.delete(item.id));
-      return store.count(); // Ensure transaction completes
-    });
+    await deleteByIndexKey(STORE_DATA_ENTRIES, 'actionDefinitionId_idx', actionDefinitionId);
+    // The owning space is not known here, so listeners treat it as affecting every space
+    publishDataChange({ storeName: 'dataEntries', operation: 'delete' });
   }
 
   async deleteBySpaceId(spaceId: string): Promise<void> {
-    const itemsToDelete = await this.findBySpaceId(spaceId);
-    if (itemsToDelete.length === 0) return;
-    await performOperation(STORE_DATA_ENTRIES, 'readwrite', store => {
-      itemsToDelete.forEach(item => store.delete(item.id));
-      return store.count(); // Ensure transaction completes
-    });
+    await deleteByIndexKey(STORE_DATA_ENTRIES, 'spaceId_idx', spaceId);
+    publishDataChange({ storeName: 'dataEntries', operation: 'delete', spaceId });
   }
 
   async clearAll(): Promise<void> {
     await performOperation(STORE_DATA_ENTRIES, 'readwrite', store => store.clear());
+    publishDataChange({ storeName: 'dataEntries', operation: 'clear' });
   }
 }
@@ -0,0 +1,223 @@
+// src/infrastructure/persistence/indexeddb/indexeddb-database-encryption.ts
+import type { IDatabaseEncryption, DatabaseEncryptionStatus, DatabaseEncryptionListener } from '@/application/ports/repositories/idatabase-encryption';
+import {
+  DB_NAME, STORE_ENCRYPTION, STORE_SPACES, STORE_ACTION_DEFINITIONS, STORE_ACTION_LOGS, STORE_PROBLEMS, STORE_TODOS,
+  STORE_USER_PROGRESS, STORE_CLOCK_EVENTS, STORE_DATA_ENTRIES, STORE_ATTACHMENTS, STORE_RECORD_HISTORY,
+  STORE_DAILY_ROLLUPS, STORE_BACKUP_SNAPSHOTS, STORE_BACKUP_ARCHIVES,
+} from '@/lib/constants';
+import { deriveKeyFromPassphrase, generateSalt, encryptBytes, decryptBytes, PBKDF2_ITERATIONS } from '@/lib/passphrase-crypto';
+import { initDB } from './indexeddb-base.repository';
+import {
+  ENCRYPTION_SETTINGS_ID, type EncryptionSettings, readEncryptionSettings, getCipherStatus, setCipherState,
+  sealRecordWithKey, openRecordWithKey,
+} from './indexeddb-record-cipher';
+
+const CHANNEL_NAME = `${DB_NAME}:encryption`;
+const VERIFIER_TEXT = DB_NAME;
+
+// Every store holding app data, backups included since they are copies of it.
+// The migration log and the encryption settings stay readable.
+const ENCRYPTED_STORES = [
+  STORE_SPACES,
+  STORE_ACTION_DEFINITIONS,
+  STORE_ACTION_LOGS,
+  STORE_PROBLEMS,
+  STORE_TODOS,
+  STORE_USER_PROGRESS,
+  STORE_CLOCK_EVENTS,
+  STORE_DATA_ENTRIES,
+  STORE_ATTACHMENTS,
+  STORE_RECORD_HISTORY,
+  STORE_DAILY_ROLLUPS,
+  STORE_BACKUP_SNAPSHOTS,
+  STORE_BACKUP_ARCHIVES,
+];
+
+interface NextEncryption {
+  settings: EncryptionSettings;
+  key: CryptoKey;
+}
+
+function readAllStored(db: IDBDatabase, storeName: string): Promise<object[]> {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result as object[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function requireDB(): Promise<IDBDatabase> {
+  const db = await initDB();
+  if (!db) {
+    throw new Error("IndexedDB is not available.");
+  }
+  return db;
+}
+
+/**
+ * Keeps the AES-GCM key derived from the passphrase in memory only. Other tabs are told
+ * when the key changes, so they lock instead of reading or writing with a stale one.
+ */
+class IndexedDBDatabaseEncryption implements IDatabaseEncryption {
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<DatabaseEncryptionListener>();
+
+  private getChannel(): BroadcastChannel | null {
+    if (this.channel) return this.channel;
+    if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') return null;
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = () => {
+      // Whatever changed, this tab's key may be stale: start over from the stored settings
+      setCipherState(null);
+      this.getStatus()
+        .then(status => this.notify(status))
+        .catch(error => console.error("Failed to reload encryption status:", error));
+    };
+    return this.channel;
+  }
+
+  private notify(status: DatabaseEncryptionStatus): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error("Error in encryption status listener:", error);
+      }
+    });
+  }
+
+  private async createEncryption(passphrase: string): Promise<NextEncryption> {
+    const salt = generateSalt();
+    const key = await deriveKeyFromPassphrase(passphrase, salt, PBKDF2_ITERATIONS);
+    const verifier = await encryptBytes(key, new TextEncoder().encode(VERIFIER_TEXT));
+    return {
+      key,
+      settings: { id: ENCRYPTION_SETTINGS_ID, salt, iterations: PBKDF2_ITERATIONS, verifier, enabledAt: new Date().toISOString() },
+    };
+  }
+
+  // Resolves to null when the passphrase does not open the verifier
+  private async deriveVerifiedKey(settings: EncryptionSettings, passphrase: string): Promise<CryptoKey | null> {
+    const key = await deriveKeyFromPassphrase(passphrase, settings.salt, settings.iterations);
+    try {
+      const text = new TextDecoder().decode(await decryptBytes(key, settings.verifier));
+      return text === VERIFIER_TEXT ? key : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async requireCurrentKey(db: IDBDatabase, passphrase: string): Promise<CryptoKey> {
+    const settings = await readEncryptionSettings(db);
+    if (!settings) {
+      throw new Error("Encryption is not enabled.");
+    }
+    const key = await this.deriveVerifiedKey(settings, passphrase);
+    if (!key) {
+      throw new Error("The current passphrase is incorrect.");
+    }
+    return key;
+  }
+
+  /**
+   * Opens every record with `currentKey` and writes it back sealed with the next key, or in
+   * plaintext when `next` is null. All records, attachments included, are held in memory
+   * meanwhile. The writes and the settings change share one transaction, so a failure
+   * leaves the database readable with the old passphrase.
+   */
+  private async rewriteAllRecords(db: IDBDatabase, currentKey: CryptoKey | null, next: NextEncryption | null): Promise<void> {
+    const rewritten = new Map<string, object[]>();
+    for (const storeName of ENCRYPTED_STORES) {
+      const records = await Promise.all((await readAllStored(db, storeName)).map(stored => openRecordWithKey(stored, currentKey)));
+      rewritten.set(storeName, next
+        ? await Promise.all(records.map(record => sealRecordWithKey(db, storeName, record, next.key)))
+        : records);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      let transaction: IDBTransaction;
+      try {
+        transaction = db.transaction([...ENCRYPTED_STORES, STORE_ENCRYPTION], 'readwrite');
+      } catch (error) {
+        reject(error);
+        return;
+      }
+      transaction.oncomplete = () => resolve();
+      transaction.onabort = () => reject(transaction.error || new Error("Re-encrypting the database was aborted."));
+
+      try {
+        rewritten.forEach((records, storeName) => {
+          const store = transaction.objectStore(storeName);
+          records.forEach(record => store.put(record));
+        });
+        const settingsStore = transaction.objectStore(STORE_ENCRYPTION);
+        if (next) {
+          settingsStore.put(next.settings);
+        } else {
+          settingsStore.delete(ENCRYPTION_SETTINGS_ID);
+        }
+      } catch (error) {
+        transaction.abort();
+        reject(error);
+      }
+    });
+
+    setCipherState(next ? { status: 'unlocked', key: next.key } : { status: 'disabled' });
+    this.getChannel()?.postMessage('changed');
+    this.notify(next ? 'unlocked' : 'disabled');
+  }
+
+  async getStatus(): Promise<DatabaseEncryptionStatus> {
+    const db = await initDB();
+    if (!db) return 'disabled';
+    return getCipherStatus(db);
+  }
+
+  async unlock(passphrase: string): Promise<boolean> {
+    const db = await requireDB();
+    const settings = await readEncryptionSettings(db);
+    if (!settings) return true; // Nothing to unlock
+    const key = await this.deriveVerifiedKey(settings, passphrase);
+    if (!key) return false;
+    setCipherState({ status: 'unlocked', key });
+    this.notify('unlocked');
+    return true;
+  }
+
+  async lock(): Promise<void> {
+    if (await this.getStatus() !== 'unlocked') return;
+    setCipherState({ status: 'locked' });
+    this.notify('locked');
+  }
+
+  async enable(passphrase: string): Promise<void> {
+    const db = await requireDB();
+    if (await getCipherStatus(db) !== 'disabled') {
+      throw new Error("Encryption is already enabled.");
+    }
+    await this.rewriteAllRecords(db, null, await this.createEncryption(passphrase));
+  }
+
+  async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    const db = await requireDB();
+    const currentKey = await this.requireCurrentKey(db, currentPassphrase);
+    await this.rewriteAllRecords(db, currentKey, await this.createEncryption(newPassphrase));
+  }
+
+  async disable(currentPassphrase: string): Promise<void> {
+    const db = await requireDB();
+    const currentKey = await this.requireCurrentKey(db, currentPassphrase);
+    await this.rewriteAllRecords(db, currentKey, null);
+  }
+
+  subscribe(listener: DatabaseEncryptionListener): () => void {
+    this.getChannel();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const databaseEncryption: IDatabaseEncryption = new IndexedDBDatabaseEncryption();
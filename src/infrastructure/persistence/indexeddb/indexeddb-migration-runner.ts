@@ -0,0 +1,175 @@
+// src/infrastructure/persistence/indexeddb/indexeddb-migration-runner.ts
+import { STORE_SCHEMA_MIGRATIONS } from '@/lib/constants';
+
+/**
+ * Declarative schema change. Creating a store or index that already exists is a no-op,
+ * so databases created by older, hand-written upgrade code converge on the same schema.
+ */
+export type SchemaStep =
+  | { type: 'createStore'; storeName: string; keyPath: string }
+  | { type: 'createIndex'; storeName: string; indexName: string; keyPath: string | string[]; unique?: boolean }
+  | { type: 'deleteIndex'; storeName: string; indexName: string };
+
+/**
+ * Rewrites every record of a store. `transform` returns the replacement record,
+ * or undefined to leave the record untouched. It may write related records to other
+ * stores through `transaction`, as long as it does so synchronously.
+ * Records are passed as stored: in an encrypted database only indexed fields are readable,
+ * since no key is available during an upgrade.
+ */
+export interface DataStep {
+  storeName: string;
+  transform: (record: any, transaction: IDBTransaction) => any | undefined;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  schema?: SchemaStep[];
+  data?: DataStep[]; // Run after the schema steps of the same migration
+}
+
+// Row written to STORE_SCHEMA_MIGRATIONS for every migration that has run
+export interface AppliedMigration {
+  version: number;
+  description: string;
+  appliedAt: string; // ISO date string
+}
+
+export class DatabaseMigrationError extends Error {
+  constructor(readonly migration: Migration, readonly cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Database upgrade to version ${migration.version} ("${migration.description}") failed: ${reason}. No changes were saved.`);
+    this.name = 'DatabaseMigrationError';
+  }
+}
+
+/**
+ * Checks that versions are unique, ascending and end at the version the app opens the database with.
+ */
+export function validateMigrations(migrations: readonly Migration[], targetVersion: number): void {
+  migrations.forEach((migration, i) => {
+    if (i > 0 && migration.version <= migrations[i - 1].version) {
+      throw new Error(`Migration versions must be strictly ascending: ${migration.version} follows ${migrations[i - 1].version}.`);
+    }
+  });
+  const latest = migrations[migrations.length - 1]?.version;
+  if (latest !== targetVersion) {
+    throw new Error(`The latest migration (version ${latest}) does not match DB_VERSION ${targetVersion}.`);
+  }
+}
+
+function applySchemaStep(db: IDBDatabase, transaction: IDBTransaction, step: SchemaStep): void {
+  switch (step.type) {
+    case 'createStore':
+      if (!db.objectStoreNames.contains(step.storeName)) {
+        db.createObjectStore(step.storeName, { keyPath: step.keyPath });
+      }
+      break;
+    case 'createIndex': {
+      const store = transaction.objectStore(step.storeName);
+      if (!store.indexNames.contains(step.indexName)) {
+        store.createIndex(step.indexName, step.keyPath, { unique: step.unique ?? false });
+      }
+      break;
+    }
+    case 'deleteIndex': {
+      const store = transaction.objectStore(step.storeName);
+      if (store.indexNames.contains(step.indexName)) {
+        store.deleteIndex(step.indexName);
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Runs every migration newer than `oldVersion` inside the versionchange transaction.
+ * Data steps are chained through request callbacks so the transaction stays active.
+ * On failure the transaction is aborted, which rolls back the whole upgrade, and
+ * `onFailure` receives the error naming the migration that failed.
+ */
+export function applyMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  migrations: readonly Migration[],
+  onFailure: (error: DatabaseMigrationError) => void
+): void {
+  const pending = migrations.filter(migration => migration.version > oldVersion);
+
+  const fail = (migration: Migration, cause: unknown) => {
+    const error = new DatabaseMigrationError(migration, cause);
+    console.error(error.message, cause);
+    onFailure(error);
+    try {
+      transaction.abort();
+    } catch {
+      // The transaction may already be aborting
+    }
+  };
+
+  const runDataSteps = (migration: Migration, steps: DataStep[], done: () => void) => {
+    if (steps.length === 0) {
+      done();
+      return;
+    }
+    const [step, ...rest] = steps;
+    const request = transaction.objectStore(step.storeName).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        runDataSteps(migration, rest, done);
+        return;
+      }
+      try {
+        const updated = step.transform(cursor.value, transaction);
+        if (updated !== undefined) {
+          cursor.update(updated);
+        }
+        cursor.continue();
+      } catch (error) {
+        fail(migration, error);
+      }
+    };
+    request.onerror = () => fail(migration, request.error);
+  };
+
+  const runFrom = (index: number) => {
+    const migration = pending[index];
+    if (!migration) return;
+
+    try {
+      (migration.schema || []).forEach(step => applySchemaStep(db, transaction, step));
+    } catch (error) {
+      fail(migration, error);
+      return;
+    }
+
+    runDataSteps(migration, migration.data || [], () => {
+      const applied: AppliedMigration = {
+        version: migration.version,
+        description: migration.description,
+        appliedAt: new Date().toISOString(),
+      };
+      try {
+        transaction.objectStore(STORE_SCHEMA_MIGRATIONS).put(applied);
+      } catch (error) {
+        fail(migration, error);
+        return;
+      }
+      runFrom(index + 1);
+    });
+  };
+
+  try {
+    // The history store belongs to the runner itself, so it exists before any migration is recorded
+    if (!db.objectStoreNames.contains(STORE_SCHEMA_MIGRATIONS)) {
+      db.createObjectStore(STORE_SCHEMA_MIGRATIONS, { keyPath: 'version' });
+    }
+  } catch (error) {
+    if (pending[0]) fail(pending[0], error);
+    return;
+  }
+  runFrom(0);
+}
@@ -0,0 +1,187 @@
+// src/infrastructure/persistence/indexeddb/indexeddb-migrations.ts
+import { STORE_SPACES, STORE_ACTION_DEFINITIONS, STORE_ACTION_LOGS, STORE_PROBLEMS, STORE_TODOS, STORE_USER_PROGRESS, STORE_CLOCK_EVENTS, STORE_DATA_ENTRIES, STORE_ATTACHMENTS, STORE_RECORD_HISTORY, STORE_ENCRYPTION, STORE_DAILY_ROLLUPS, STORE_BACKUP_SNAPSHOTS, STORE_BACKUP_ARCHIVES, STORE_UPGRADE_MARKERS } from '@/lib/constants';
+import type { Todo } from '@/domain/entities/todo.entity';
+import type { Attachment } from '@/domain/entities/attachment.entity';
+import { dataUriToBlob } from '@/lib/blob-utils';
+import type { Migration } from './indexeddb-migration-runner';
+
+/**
+ * Stores an inline image as an attachment and returns its id.
+ * Unreadable data URIs are dropped rather than failing the whole upgrade.
+ */
+function moveDataUriToAttachment(transaction: IDBTransaction, spaceId: string, dataUri: string, creationDate: string): string | undefined {
+  let blob: Blob;
+  try {
+    blob = dataUriToBlob(dataUri);
+  } catch (error) {
+    console.warn("Dropping unreadable image data URI during migration:", error);
+    return undefined;
+  }
+  const attachment: Attachment = {
+    id: self.crypto.randomUUID(),
+    spaceId,
+    blob,
+    mimeType: blob.type,
+    size: blob.size,
+    creationDate,
+  };
+  transaction.objectStore(STORE_ATTACHMENTS).put(attachment);
+  return attachment.id;
+}
+
+/**
+ * Ordered schema history of OkapiWorkflowDB. Append new migrations to the end and
+ * set DB_VERSION to the new last version; never edit a migration that has shipped.
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    // Everything the hand-written upgrade code created up to version 9.
+    // Steps skip stores and indexes that already exist, so older databases are brought up to date.
+    version: 9,
+    description: 'Initial schema',
+    schema: [
+      { type: 'createStore', storeName: STORE_SPACES, keyPath: 'id' },
+      { type: 'createIndex', storeName: STORE_SPACES, indexName: 'date_idx', keyPath: 'date' },
+
+      { type: 'createStore', storeName: STORE_ACTION_DEFINITIONS, keyPath: 'id' },
+      { type: 'createIndex', storeName: STORE_ACTION_DEFINITIONS, indexName: 'spaceId_idx', keyPath: 'spaceId' },
+      { type: 'createIndex', storeName: STORE_ACTION_DEFINITIONS, indexName: 'type_idx', keyPath: 'type' },
+
+      { type: 'createStore', storeName: STORE_ACTION_LOGS, keyPath: 'id' },
+      { type: 'createIndex', storeName: STORE_ACTION_LOGS, indexName: 'spaceId_idx', keyPath: 'spaceId' },
+      { type: 'createIndex', storeName: STORE_ACTION_LOGS, indexName: 'actionDefinitionId_idx', keyPath: 'actionDefinitionId' },
+      { type: 'createIndex', storeName: STORE_ACTION_LOGS, indexName: 'timestamp_idx', keyPath: 'timestamp' },
+      { type: 'createIndex', storeName: STORE_ACTION_LOGS, indexName: 'spaceId_timestamp_idx', keyPath: ['spaceId', 'timestamp'] },
+
+      { type: 'createStore', storeName: STORE_PROBLEMS, keyPath: 'id' },
+      { type: 'createIndex', storeName: STORE_PROBLEMS, indexName: 'spaceId_idx', keyPath: 'spaceId' },
+
+      { type: 'createStore', storeName: STORE_TODOS, keyPath: 'id' },
+      { type: 'createIndex', storeName: STORE_TODOS, indexName: 'spaceId_idx', keyPath: 'spaceId' },
+      { type: 'createIndex', storeName: STORE_TODOS, indexName: 'status_idx', keyPath: 'status' },
+      { type: 'createIndex', storeName: STORE_TODOS, indexName: 'creationDate_idx', keyPath: 'creationDate' },
+
+      { type: 'createStore', storeName: STORE_USER_PROGRESS, keyPath: 'userId' },
+
+      { type: 'createStore', storeName: STORE_CLOCK_EVENTS, keyPath: 'id' },
+      { type: 'createIndex', storeName: STORE_CLOCK_EVENTS, indexName: 'timestamp_idx', keyPath: 'timestamp' },
+      { type: 'createIndex', storeName: STORE_CLOCK_EVENTS, indexName: 'spaceId_idx', keyPath: 'spaceId' },
+      { type: 'createIndex', storeName: STORE_CLOCK_EVENTS, indexName: 'spaceId_timestamp_idx', keyPath: ['spaceId', 'timestamp'] },
+
+      { type: 'createStore', storeName: STORE_DATA_ENTRIES, keyPath: 'id' },
+      { type: 'createIndex', storeName: STORE_DATA_ENTRIES, indexName: 'actionDefinitionId_idx', keyPath: 'actionDefinitionId' },
+      { type: 'createIndex', storeName: STORE_DATA_ENTRIES, indexName: 'spaceId_idx', keyPath: 'spaceId' },
+      { type: 'createIndex', storeName: STORE_DATA_ENTRIES, indexName: 'timestamp_idx', keyPath: 'timestamp' },
+      { type: 'createIndex', storeName: STORE_DATA_ENTRIES, indexName: 'stepId_idx', keyPath: 'stepId' },
+      { type: 'createIndex', storeName: STORE_DATA_ENTRIES, indexName: 'spaceId_timestamp_idx', keyPath: ['spaceId', 'timestamp'] },
+    ],
+  },
+  {
+    // Todos saved before `status` existed only carry the `completed` flag
+    version: 10,
+    description: 'Backfill Todo.status from completed',
+    data: [
+      {
+        storeName: STORE_TODOS,
+        transform: (todo: Todo) => {
+          if (todo.status === 'todo' || todo.status === 'doing' || todo.status === 'done') {
+            return undefined;
+          }
+          return { ...todo, status: todo.completed ? 'done' : 'todo' };
+        },
+      },
+    ],
+  },
+  {
+    // Inline base64 images move to their own store and are referenced by id
+    version: 11,
+    description: 'Move image data URIs into the attachments store',
+    schema: [
+      { type: 'createStore', storeName: STORE_ATTACHMENTS, keyPath: 'id' },
+      { type: 'createIndex', storeName: STORE_ATTACHMENTS, indexName: 'spaceId_idx', keyPath: 'spaceId' },
+    ],
+    data: [
+      {
+        storeName: STORE_PROBLEMS,
+        transform: (problem, transaction) => {
+          if (!('imageDataUri' in problem)) return undefined;
+          const { imageDataUri, ...rest } = problem;
+          return {
+            ...rest,
+            imageAttachmentId: imageDataUri ? moveDataUriToAttachment(transaction, problem.spaceId, imageDataUri, problem.lastModifiedDate) : undefined,
+          };
+        },
+      },
+      {
+        storeName: STORE_TODOS,
+        transform: (todo, transaction) => {
+          if (!('beforeImageDataUri' in todo) && !('afterImageDataUri' in todo)) return undefined;
+          const { beforeImageDataUri, afterImageDataUri, ...rest } = todo;
+          return {
+            ...rest,
+            beforeImageAttachmentId: beforeImageDataUri ? moveDataUriToAttachment(transaction, todo.spaceId, beforeImageDataUri, todo.creationDate) : undefined,
+            afterImageAttachmentId: afterImageDataUri ? moveDataUriToAttachment(transaction, todo.spaceId, afterImageDataUri, todo.lastModifiedDate) : undefined,
+          };
+        },
+      },
+    ],
+  },
+  {
+    // Soft delete: deletedAt is only present on trashed records, so these indexes list the trash alone
+    version: 12,
+    description: 'Index deletedAt for the trash',
+    schema: [
+      STORE_SPACES,
+      STORE_ACTION_DEFINITIONS,
+      STORE_ACTION_LOGS,
+      STORE_PROBLEMS,
+      STORE_TODOS,
+      STORE_CLOCK_EVENTS,
+      STORE_DATA_ENTRIES,
+    ].map(storeName => ({ type: 'createIndex' as const, storeName, indexName: 'deletedAt_idx', keyPath: 'deletedAt' })),
+  },
+  {
+    // Audit trail of edits; record_idx lists one record's history in the order it was written
+    version: 13,
+    description: 'Add the record history store',
+    schema: [
+      { type: 'createStore', storeName: STORE_RECORD_HISTORY, keyPath: 'id' },
+      { type: 'createIndex', storeName: STORE_RECORD_HISTORY, indexName: 'spaceId_idx', keyPath: 'spaceId' },
+      { type: 'createIndex', storeName: STORE_RECORD_HISTORY, indexName: 'record_timestamp_idx', keyPath: ['recordType', 'recordId', 'timestamp'] },
+    ],
+  },
+  {
+    // Holds the single record describing passphrase encryption, present only while it is enabled
+    version: 14,
+    description: 'Add the encryption settings store',
+    schema: [
+      { type: 'createStore', storeName: STORE_ENCRYPTION, keyPath: 'id' },
+    ],
+  },
+  {
+    // Starts empty: existing databases get their rollups from a rebuild on first load
+    version: 15,
+    description: 'Add the daily rollups store',
+    schema: [
+      { type: 'createStore', storeName: STORE_DAILY_ROLLUPS, keyPath: 'id' },
+      { type: 'createIndex', storeName: STORE_DAILY_ROLLUPS, indexName: 'spaceId_idx', keyPath: 'spaceId' },
+    ],
+  },
+  {
+    // Archives get a store of their own so that listing the backups never reads them
+    version: 16,
+    description: 'Add the local backup stores',
+    schema: [
+      { type: 'createStore', storeName: STORE_BACKUP_SNAPSHOTS, keyPath: 'id' },
+      { type: 'createStore', storeName: STORE_BACKUP_ARCHIVES, keyPath: 'id' },
+    ],
+  },
+  {
+    // Lets one-off steps such as the first daily rollup build tell whether they already ran
+    version: 17,
+    description: 'Add the upgrade markers store',
+    schema: [
+      { type: 'createStore', storeName: STORE_UPGRADE_MARKERS, keyPath: 'id' },
+    ],
+  },
+];
@@ -2,7 +2,8 @@
 import type { Problem } from '@/domain/entities/problem.entity';
 import type { IProblemRepository } from '@/application/ports/repositories/iproblem.repository';
 import { STORE_PROBLEMS } from '@/lib/constants';
-import { performOperation } from './indexeddb-base.repository';
+import { performOperation, putRecord, excludeDeleted, findDeletedRecords, deleteByIndexKey } from './indexeddb-base.repository';
+import { publishDataChange } from './indexeddb-change-feed';
 
 export class IndexedDBProblemRepository implements IProblemRepository {
   async findById(id: string): Promise<Problem | null> {
@@ -11,7 +12,8 @@ export class IndexedDBProblemRepository implements IProblemRepository {
       'readonly',
       (store) => store.get(id)
     );
-    return (result as Problem | undefined) || null;
+    const problem = result as Problem | undefined;
+    return problem && !problem.deletedAt ? problem : null;
   }
 
   async findBySpaceId(spaceId: string): Promise<Problem[]> {
@@ -23,7 +25,7 @@ export class IndexedDBProblemRepository implements IProblemRepository {
         return index.getAll(spaceId);
       }
     );
-    const problems = (result as Problem[]) || [];
+    const problems = excludeDeleted((result as Problem[]) || []);
     // Sort: unresolved first, then by creation date descending
     return problems.sort((a: Problem, b: Problem) => {
       if (a.resolved === b.resolved) {
@@ -39,14 +41,17 @@ export class IndexedDBProblemRepository implements IProblemRepository {
       'readonly',
       (store) => store.getAll()
     );
-    return (result as Problem[]) || [];
+    return excludeDeleted((result as Problem[]) || []);
+  }
+
+  async findDeleted(): Promise<Problem[]> {
+    return findDeletedRecords<Problem>(STORE_PROBLEMS);
   }
 
   async save(problem: Problem): Promise<Problem> {
     const problemToSave = { ...problem, lastModifiedDate: new Date().toISOString() };
-    await performOperation(STORE_PROBLEMS, 'readwrite', (store) =>
-      store.put(problemToSave)
-    );
+    await putRecord(STORE_PROBLEMS, problemToSave);
+    publishDataChange({ storeName: 'problems', operation: 'put', id: problemToSave.id, spaceId: problemToSave.spaceId });
     return problemToSave;
   }
 
@@ -54,23 +59,16 @@ export class IndexedDBProblemRepository implements IProblemRepository {
     await performOperation(STORE_PROBLEMS, 'readwrite', (store) =>
       store.delete(id)
     );
+    publishDataChange({ storeName: 'problems', operation: 'delete', id });
   }
 
   async deleteBySpaceId(spaceId: string): Promise<void> {
-    const itemsToDelete = await this.findBySpaceId(spaceId);
-    if (itemsToDelete.length === 0) {
-      return;
-    }
-    await performOperation(STORE_PROBLEMS, 'readwrite', (store) => {
-      const tx = store.transaction;
-      itemsToDelete.forEach((item) => {
-        store.delete(item.id);
-      });
-      return tx.objectStore(STORE_PROBLEMS).count();
-    });
+    await deleteByIndexKey(STORE_PROBLEMS, 'spaceId_idx', spaceId);
+    publishDataChange({ storeName: 'problems', operation: 'delete', spaceId });
   }
 
   async clearAll(): Promise<void> {
     await performOperation(STORE_PROBLEMS, 'readwrite', (store) => store.clear());
+    publishDataChange({ storeName: 'problems', operation: 'clear' });
   }
 }
@@ -0,0 +1,183 @@
+// src/infrastructure/persistence/indexeddb/indexeddb-record-cipher.ts
+import type { DatabaseEncryptionStatus } from '@/application/ports/repositories/idatabase-encryption';
+import { STORE_ENCRYPTION } from '@/lib/constants';
+import { encryptBytes, decryptBytes, type SealedBytes } from '@/lib/passphrase-crypto';
+
+// Encrypted records keep their indexed fields and carry everything else under this property
+const SEALED_FIELD = '__sealed';
+
+export const ENCRYPTION_SETTINGS_ID = 'settings';
+
+/**
+ * The single record in STORE_ENCRYPTION, present only while encryption is enabled.
+ */
+export interface EncryptionSettings {
+  id: typeof ENCRYPTION_SETTINGS_ID;
+  salt: Uint8Array;
+  iterations: number;
+  verifier: SealedBytes; // A known text sealed with the key, to check a passphrase without reading any data
+  enabledAt: string; // ISO date string
+}
+
+interface SealedBlob extends SealedBytes {
+  type: string;
+}
+
+interface SealedPayload {
+  fields: SealedBytes; // JSON of the fields that are neither indexed nor Blobs
+  blobs?: Record<string, SealedBlob>; // Blobs cannot go through JSON, so each is sealed separately
+}
+
+export class DatabaseLockedError extends Error {
+  constructor() {
+    super('The database is locked. Enter your passphrase to unlock it.');
+    this.name = 'DatabaseLockedError';
+  }
+}
+
+export type CipherState =
+  | { status: 'disabled' }
+  | { status: 'locked' }
+  | { status: 'unlocked'; key: CryptoKey };
+
+let cipherState: CipherState | null = null; // Unknown until the settings store has been read
+let pendingCipherState: Promise<CipherState> | null = null;
+
+const plaintextFieldsByStore = new Map<string, Set<string>>();
+
+export function readEncryptionSettings(db: IDBDatabase): Promise<EncryptionSettings | undefined> {
+  return new Promise((resolve, reject) => {
+    try {
+      const request = db.transaction(STORE_ENCRYPTION, 'readonly').objectStore(STORE_ENCRYPTION).get(ENCRYPTION_SETTINGS_ID);
+      request.onsuccess = () => resolve(request.result as EncryptionSettings | undefined);
+      request.onerror = () => reject(request.error);
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+async function getCipherState(db: IDBDatabase): Promise<CipherState> {
+  if (cipherState) return cipherState;
+  if (!pendingCipherState) {
+    pendingCipherState = readEncryptionSettings(db).then(
+      settings => {
+        pendingCipherState = null;
+        // An unlock may have finished while the settings were being read
+        cipherState = cipherState ?? (settings ? { status: 'locked' } : { status: 'disabled' });
+        return cipherState;
+      },
+      error => {
+        pendingCipherState = null;
+        throw error;
+      }
+    );
+  }
+  return pendingCipherState;
+}
+
+export async function getCipherStatus(db: IDBDatabase): Promise<DatabaseEncryptionStatus> {
+  return (await getCipherState(db)).status;
+}
+
+// Passing null forgets the state, so it is read from the settings store again on next use
+export function setCipherState(state: CipherState | null): void {
+  cipherState = state;
+}
+
+/**
+ * IndexedDB can only index values it can read, so the fields behind the key path
+ * and every index of a store are kept in plaintext.
+ */
+function getPlaintextFields(db: IDBDatabase, storeName: string): Set<string> {
+  let fields = plaintextFieldsByStore.get(storeName);
+  if (!fields) {
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    const keyPaths = [store.keyPath, ...Array.from(store.indexNames).map(indexName => store.index(indexName).keyPath)];
+    fields = new Set(
+      keyPaths
+        .flat()
+        .filter((keyPath): keyPath is string => typeof keyPath === 'string')
+        .map(keyPath => keyPath.split('.')[0])
+    );
+    plaintextFieldsByStore.set(storeName, fields);
+  }
+  return fields;
+}
+
+function isSealed(value: unknown): value is { [SEALED_FIELD]: SealedPayload } {
+  return typeof value === 'object' && value !== null && SEALED_FIELD in value;
+}
+
+export async function sealRecordWithKey(db: IDBDatabase, storeName: string, record: object, key: CryptoKey): Promise<object> {
+  const plaintextFields = getPlaintextFields(db, storeName);
+  const stored: Record<string, unknown> = {};
+  const fields: Record<string, unknown> = {};
+  const blobs: Record<string, SealedBlob> = {};
+
+  for (const [name, value] of Object.entries(record)) {
+    if (plaintextFields.has(name)) {
+      stored[name] = value;
+    } else if (value instanceof Blob) {
+      blobs[name] = { ...await encryptBytes(key, await value.arrayBuffer()), type: value.type };
+    } else {
+      fields[name] = value;
+    }
+  }
+
+  const payload: SealedPayload = { fields: await encryptBytes(key, new TextEncoder().encode(JSON.stringify(fields))) };
+  if (Object.keys(blobs).length > 0) {
+    payload.blobs = blobs;
+  }
+  stored[SEALED_FIELD] = payload;
+  return stored;
+}
+
+export interface OpenRecordOptions {
+  withoutBlobs?: boolean; // Leave sealed Blobs out instead of decrypting them
+}
+
+/**
+ * Returns the record as the repositories know it. Plaintext records are returned unchanged;
+ * a sealed record needs `key` and fails to open when it was sealed with a different one.
+ */
+export async function openRecordWithKey<T>(stored: T, key: CryptoKey | null, options: OpenRecordOptions = {}): Promise<T> {
+  if (!isSealed(stored)) return stored;
+  if (!key) throw new DatabaseLockedError();
+
+  const { [SEALED_FIELD]: payload, ...plaintext } = stored;
+  const fields = JSON.parse(new TextDecoder().decode(await decryptBytes(key, payload.fields)));
+  const record: Record<string, unknown> = { ...plaintext, ...fields };
+  if (options.withoutBlobs) return record as T;
+  for (const [name, blob] of Object.entries(payload.blobs ?? {})) {
+    record[name] = new Blob([await decryptBytes(key, blob)], { type: blob.type });
+  }
+  return record as T;
+}
+
+/**
+ * Prepares a record for writing: sealed while the database is unlocked, unchanged while
+ * encryption is disabled. Writing to a locked database fails rather than storing plaintext.
+ */
+export async function sealRecord(db: IDBDatabase, storeName: string, record: object): Promise<object> {
+  const state = await getCipherState(db);
+  if (state.status === 'disabled') return record;
+  if (state.status === 'locked') throw new DatabaseLockedError();
+  return sealRecordWithKey(db, storeName, record, state.key);
+}
+
+/**
+ * Opens whatever a read request produced: one record, an array of records, or values
+ * that are not records at all (keys, counts), which pass through untouched.
+ */
+export async function openStoredValue<T>(db: IDBDatabase, value: T, options: OpenRecordOptions = {}): Promise<T> {
+  if (Array.isArray(value) ? !value.some(isSealed) : !isSealed(value)) {
+    return value;
+  }
+  const state = await getCipherState(db);
+  const key = state.status === 'unlocked' ? state.key : null;
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(item => openRecordWithKey(item, key, options))) as Promise<T>;
+  }
+  return openRecordWithKey(value, key, options);
+}
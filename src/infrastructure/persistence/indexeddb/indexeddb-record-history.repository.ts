@@ -0,0 +1,54 @@
+// src/infrastructure/persistence/indexeddb/indexeddb-record-history.repository.ts
+import type { RecordHistoryEntry, HistoryRecordType } from '@/domain/entities/record-history.entity';
+import type { IRecordHistoryRepository } from '@/application/ports/repositories/irecord-history.repository';
+import { STORE_RECORD_HISTORY } from '@/lib/constants';
+import { performOperation, putRecord, deleteByIndexKey } from './indexeddb-base.repository';
+import { publishDataChange } from './indexeddb-change-feed';
+
+export class IndexedDBRecordHistoryRepository implements IRecordHistoryRepository {
+  async findByRecord(recordType: HistoryRecordType, recordId: string): Promise<RecordHistoryEntry[]> {
+    // ISO timestamps sort as strings, so '' and '\uffff' bound every timestamp of the record
+    const range = IDBKeyRange.bound([recordType, recordId, ''], [recordType, recordId, '\uffff']);
+    const result = await performOperation<RecordHistoryEntry[]>(
+      STORE_RECORD_HISTORY,
+      'readonly',
+      (store) => store.index('record_timestamp_idx').getAll(range)
+    );
+    return ((result as RecordHistoryEntry[]) || []).reverse();
+  }
+
+  async findBySpaceId(spaceId: string): Promise<RecordHistoryEntry[]> {
+    const result = await performOperation<RecordHistoryEntry[]>(
+      STORE_RECORD_HISTORY,
+      'readonly',
+      (store) => store.index('spaceId_idx').getAll(spaceId)
+    );
+    return (result as RecordHistoryEntry[]) || [];
+  }
+
+  async getAll(): Promise<RecordHistoryEntry[]> {
+    const result = await performOperation<RecordHistoryEntry[]>(
+      STORE_RECORD_HISTORY,
+      'readonly',
+      (store) => store.getAll()
+    );
+    return (result as RecordHistoryEntry[]) || [];
+  }
+
+  async append(entry: RecordHistoryEntry): Promise<RecordHistoryEntry> {
+    // add() rather than put(): an existing entry is never overwritten
+    await putRecord(STORE_RECORD_HISTORY, entry, 'add');
+    publishDataChange({ storeName: 'recordHistory', operation: 'put', id: entry.id, spaceId: entry.spaceId });
+    return entry;
+  }
+
+  async deleteBySpaceId(spaceId: string): Promise<void> {
+    await deleteByIndexKey(STORE_RECORD_HISTORY, 'spaceId_idx', spaceId);
+    publishDataChange({ storeName: 'recordHistory', operation: 'delete', spaceId });
+  }
+
+  async clearAll(): Promise<void> {
+    await performOperation(STORE_RECORD_HISTORY, 'readwrite', (store) => store.clear());
+    publishDataChange({ storeName: 'recordHistory', operation: 'clear' });
+  }
+}
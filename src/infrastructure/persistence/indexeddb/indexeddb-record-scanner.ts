@@ -0,0 +1,29 @@
+// src/infrastructure/persistence/indexeddb/indexeddb-record-scanner.ts
+import type { IRecordScanner, RecordScanPage, RecordScanRequest } from '@/application/ports/repositories/irecord-scanner';
+import type { UnitOfWorkRecords, UnitOfWorkStoreName } from '@/application/ports/repositories/iunit-of-work';
+import { collectWithCursor } from './indexeddb-base.repository';
+
+/**
+ * Walks a store with a cursor over its primary key. Each page is its own short read
+ * transaction, so records written between pages may or may not be included.
+ */
+export class IndexedDBRecordScanner implements IRecordScanner {
+  async scan<K extends UnitOfWorkStoreName>(storeName: K, request: RecordScanRequest): Promise<RecordScanPage<K>> {
+    let keyPath = 'id';
+    const records = await collectWithCursor<UnitOfWorkRecords[K]>(
+      storeName,
+      store => {
+        keyPath = store.keyPath as string;
+        return store.openCursor(request.afterKey ? IDBKeyRange.lowerBound(request.afterKey, true) : undefined);
+      },
+      { limit: request.limit + 1 } // One extra record tells us whether another page exists
+    );
+
+    const page = records.slice(0, request.limit);
+    const lastRecord = page[page.length - 1] as unknown as Record<string, unknown> | undefined;
+    return {
+      records: page,
+      nextKey: records.length > request.limit && lastRecord ? String(lastRecord[keyPath]) : null,
+    };
+  }
+}
@@ -2,29 +2,38 @@
 import type { Space } from '@/domain/entities/space.entity';
 import type { ISpaceRepository } from '@/application/ports/repositories/ispace.repository';
 import { STORE_SPACES } from '@/lib/constants';
-import { performOperation } from './indexeddb-base.repository';
+import { performOperation, putRecord, excludeDeleted, findDeletedRecords } from './indexeddb-base.repository';
+import { publishDataChange } from './indexeddb-change-feed';
 
 export class IndexedDBSpaceRepository implements ISpaceRepository {
   async findById(id: string): Promise<Space | null> {
     const result = await performOperation<Space | undefined>(STORE_SPACES, 'readonly', store => store.get(id));
-    return result || null;
+    const space = result as Space | undefined;
+    return space && !space.deletedAt ? space : null;
   }
 
   async getAll(): Promise<Space[]> {
     const result = await performOperation<Space[]>(STORE_SPACES, 'readonly', store => store.getAll());
-    return result || [];
+    return excludeDeleted((result as Space[]) || []);
+  }
+
+  async findDeleted(): Promise<Space[]> {
+    return findDeletedRecords<Space>(STORE_SPACES);
   }
 
   async save(space: Space): Promise<Space> {
-    await performOperation(STORE_SPACES, 'readwrite', store => store.put(space));
+    await putRecord(STORE_SPACES, space);
+    publishDataChange({ storeName: 'spaces', operation: 'put', id: space.id, spaceId: space.id });
     return space;
   }
 
   async delete(id: string): Promise<void> {
     await performOperation(STORE_SPACES, 'readwrite', store => store.delete(id));
+    publishDataChange({ storeName: 'spaces', operation: 'delete', id, spaceId: id });
   }
   
   async clearAll(): Promise<void> {
     await performOperation(STORE_SPACES, 'readwrite', store => store.clear());
+    publishDataChange({ storeName: 'spaces', operation: 'clear' });
   }
 }
@@ -2,7 +2,8 @@
 import type { Todo } from '@/domain/entities/todo.entity';
 import type { ITodoRepository } from '@/application/ports/repositories/itodo.repository';
 import { STORE_TODOS } from '@/lib/constants';
-import { performOperation } from './indexeddb-base.repository';
+import { performOperation, putRecord, excludeDeleted, findDeletedRecords, deleteByIndexKey } from './indexeddb-base.repository';
+import { publishDataChange } from './indexeddb-change-feed';
 
 export class IndexedDBTodoRepository implements ITodoRepository {
   async findById(id: string): Promise<Todo | null> {
@@ -11,7 +12,8 @@ export class IndexedDBTodoRepository implements ITodoRepository {
       'readonly',
       (store) => store.get(id)
     );
-    return result || null;
+    const todo = result as Todo | undefined;
+    return todo && !todo.deletedAt ? todo : null;
   }
 
   async findBySpaceId(spaceId: string): Promise<Todo[]> {
@@ -23,7 +25,7 @@ export class IndexedDBTodoRepository implements ITodoRepository {
         return index.getAll(spaceId);
       }
     );
-    const todos = result || [];
+    const todos = excludeDeleted((result as Todo[]) || []);
     // Default sort: incomplete first, then by creation date descending (newest first)
     return todos.sort((a, b) => {
       if (a.completed === b.completed) {
@@ -39,15 +41,18 @@ export class IndexedDBTodoRepository implements ITodoRepository {
       'readonly',
       (store) => store.getAll()
     );
-    return result || [];
+    return excludeDeleted((result as Todo[]) || []);
+  }
+
+  async findDeleted(): Promise<Todo[]> {
+    return findDeletedRecords<Todo>(STORE_TODOS);
   }
 
   async save(todo: Todo): Promise<Todo> {
     // Ensure lastModifiedDate is updated on every save
     const todoToSave = { ...todo, lastModifiedDate: new Date().toISOString() };
-    await performOperation(STORE_TODOS, 'readwrite', (store) =>
-      store.put(todoToSave)
-    );
+    await putRecord(STORE_TODOS, todoToSave);
+    publishDataChange({ storeName: 'todos', operation: 'put', id: todoToSave.id, spaceId: todoToSave.spaceId });
     return todoToSave;
   }
 
@@ -55,27 +60,16 @@ export class IndexedDBTodoRepository implements ITodoRepository {
     await performOperation(STORE_TODOS, 'readwrite', (store) =>
       store.delete(id)
     );
+    publishDataChange({ storeName: 'todos', operation: 'delete', id });
   }
 
   async deleteBySpaceId(spaceId: string): Promise<void> {
-    const itemsToDelete = await this.findBySpaceId(spaceId);
-    if (itemsToDelete.length === 0) {
-      return;
-    }
-    await performOperation(STORE_TODOS, 'readwrite', (store) => {
-      const tx = store.transaction;
-      itemsToDelete.forEach((item) => {
-        store.delete(item.id);
-      });
-      // Ensure transaction completes for multiple ops
-      // For IDB, operations are queued on the transaction. When all requests complete, the transaction auto-commits.
-      // Returning a promise from one of the operations or tx.done (if available) can help.
-      // Since performOperation already handles promise resolution, this should be fine.
-      return tx.objectStore(STORE_TODOS).count(); // Example operation to ensure tx continues
-    });
+    await deleteByIndexKey(STORE_TODOS, 'spaceId_idx', spaceId);
+    publishDataChange({ storeName: 'todos', operation: 'delete', spaceId });
   }
 
   async clearAll(): Promise<void> {
     await performOperation(STORE_TODOS, 'readwrite', (store) => store.clear());
+    publishDataChange({ storeName: 'todos', operation: 'clear' });
   }
 }
@@ -0,0 +1,187 @@
+// src/infrastructure/persistence/indexeddb/indexeddb-unit-of-work.ts
+import type { IUnitOfWork, UnitOfWorkOperation } from '@/application/ports/repositories/iunit-of-work';
+import type { DataChangeEvent } from '@/application/ports/repositories/idata-change-feed';
+import { initDB } from './indexeddb-base.repository';
+import { dataChangeFeed } from './indexeddb-change-feed';
+import { openStoredValue, sealRecord } from './indexeddb-record-cipher';
+
+function toDataChangeEvent(op: UnitOfWorkOperation): DataChangeEvent {
+  switch (op.type) {
+    case 'put': {
+      const record = op.record as { id?: string; userId?: string; spaceId?: string };
+      const id = record.id ?? record.userId;
+      const spaceId = op.storeName === 'spaces' ? record.id : record.spaceId;
+      return { storeName: op.storeName, operation: 'put', id, spaceId };
+    }
+    case 'updateBySpaceId':
+    case 'recomputeBySpaceId':
+      return { storeName: op.storeName, operation: 'put', spaceId: op.spaceId };
+    case 'delete':
+      return { storeName: op.storeName, operation: 'delete', id: op.key, spaceId: op.storeName === 'spaces' ? op.key : undefined };
+    case 'deleteBySpaceId':
+      return { storeName: op.storeName, operation: 'delete', spaceId: op.spaceId };
+    case 'clear':
+      return { storeName: op.storeName, operation: 'clear' };
+  }
+}
+
+/**
+ * Calls `next` with the result of `work` without letting the transaction commit meanwhile.
+ * A transaction commits once no request is pending, and new requests can only be placed from
+ * a request callback, so a cheap read stays in flight until `work` has settled.
+ */
+function continueAfter<T>(store: IDBObjectStore, work: Promise<T>, next: (value: T) => void, fail: (error: unknown) => void): void {
+  let outcome: { value: T } | { error: unknown } | null = null;
+  work.then(value => { outcome = { value }; }, error => { outcome = { error }; });
+
+  const keepAlive = () => {
+    const request = store.get('');
+    request.onsuccess = () => {
+      if (!outcome) {
+        keepAlive();
+      } else if ('error' in outcome) {
+        fail(outcome.error);
+      } else {
+        next(outcome.value);
+      }
+    };
+  };
+  keepAlive();
+}
+
+/**
+ * Runs a unit of work inside a single readwrite transaction spanning every store
+ * the operations touch. IndexedDB rolls the whole transaction back if any request
+ * fails or the transaction is aborted, so partial cascades cannot be persisted.
+ */
+export class IndexedDBUnitOfWork implements IUnitOfWork {
+  async execute(operations: UnitOfWorkOperation[]): Promise<void> {
+    if (operations.length === 0) return;
+
+    const db = await initDB();
+    if (!db) {
+      throw new Error("IndexedDB is not available.");
+    }
+
+    const storeNames = Array.from(new Set(operations.flatMap(op =>
+      op.type === 'recomputeBySpaceId' ? [op.storeName, ...op.sourceStoreNames] : [op.storeName]
+    )));
+    // Sealing is asynchronous, so it happens before the transaction opens; awaiting inside would let it commit early
+    const storedRecords = await Promise.all(operations.map(op =>
+      op.type === 'put' ? sealRecord(db, op.storeName, op.record) : Promise.resolve(undefined)
+    ));
+
+    return new Promise((resolve, reject) => {
+      let transaction: IDBTransaction;
+      try {
+        transaction = db.transaction(storeNames, 'readwrite');
+      } catch (error) {
+        console.error(`Failed to start unit of work on ${storeNames.join(', ')}:`, error);
+        reject(error);
+        return;
+      }
+
+      transaction.oncomplete = () => {
+        // Announced only once committed, as a single batch so other tabs refresh once
+        dataChangeFeed.publish(operations.map(toDataChangeEvent));
+        resolve();
+      };
+      transaction.onerror = () => {
+        console.error("Error in unit of work transaction:", transaction.error);
+      };
+      transaction.onabort = () => {
+        reject(transaction.error || new Error("Unit of work was aborted."));
+      };
+
+      const fail = (error: unknown) => {
+        console.error("Unit of work failed, rolling back:", error);
+        try {
+          transaction.abort();
+        } catch {
+          // The transaction may already be finished or aborting
+        }
+        reject(error);
+      };
+
+      // Requests run in the order they are placed, so simple writes are queued right away.
+      // Only the operations by space must wait for their reads before the remaining operations are queued.
+      const applyFrom = (startIndex: number) => {
+        try {
+          for (let i = startIndex; i < operations.length; i++) {
+            const op = operations[i];
+            const store = transaction.objectStore(op.storeName);
+            switch (op.type) {
+              case 'put':
+                store.put(storedRecords[i]);
+                break;
+              case 'delete':
+                store.delete(op.key);
+                break;
+              case 'clear':
+                store.clear();
+                break;
+              case 'deleteBySpaceId': {
+                const keysRequest = store.index('spaceId_idx').getAllKeys(op.spaceId);
+                keysRequest.onsuccess = () => {
+                  try {
+                    keysRequest.result.forEach(key => store.delete(key));
+                  } catch (error) {
+                    fail(error);
+                    return;
+                  }
+                  applyFrom(i + 1);
+                };
+                return;
+              }
+              case 'updateBySpaceId': {
+                const update = op.update as (records: object[]) => object[];
+                const recordsRequest = store.index('spaceId_idx').getAll(op.spaceId);
+                recordsRequest.onsuccess = () => {
+                  // Opening and sealing are asynchronous, so they run while continueAfter keeps the transaction alive
+                  const sealedUpdates = openStoredValue(db, recordsRequest.result as object[])
+                    .then(records => Promise.all(update(records).map(record => sealRecord(db, op.storeName, record))));
+                  continueAfter(store, sealedUpdates, storedUpdates => {
+                    try {
+                      storedUpdates.forEach(record => store.put(record));
+                    } catch (error) {
+                      fail(error);
+                      return;
+                    }
+                    applyFrom(i + 1);
+                  }, fail);
+                };
+                return;
+              }
+              case 'recomputeBySpaceId': {
+                const compute = op.compute as (sources: Record<string, object[]>) => object[];
+                // Requests complete in the order they are placed, so the sources are read once the keys are
+                const sourceRequests = op.sourceStoreNames.map(name => transaction.objectStore(name).index('spaceId_idx').getAll(op.spaceId));
+                const keysRequest = store.index('spaceId_idx').getAllKeys(op.spaceId);
+                keysRequest.onsuccess = () => {
+                  const sealedRecords = Promise.all(sourceRequests.map(request => openStoredValue(db, request.result as object[])))
+                    .then(sources => compute(Object.fromEntries(op.sourceStoreNames.map((name, index) => [name, sources[index]]))))
+                    .then(records => Promise.all(records.map(record => sealRecord(db, op.storeName, record))));
+                  continueAfter(store, sealedRecords, storedRecords => {
+                    try {
+                      keysRequest.result.forEach(key => store.delete(key));
+                      storedRecords.forEach(record => store.put(record));
+                    } catch (error) {
+                      fail(error);
+                      return;
+                    }
+                    applyFrom(i + 1);
+                  }, fail);
+                };
+                return;
+              }
+            }
+          }
+        } catch (error) {
+          fail(error);
+        }
+      };
+
+      applyFrom(0);
+    });
+  }
+}
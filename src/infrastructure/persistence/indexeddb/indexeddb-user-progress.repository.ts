@@ -2,7 +2,8 @@
 import type { UserProgress } from '@/domain/entities/user-progress.entity';
 import type { IUserProgressRepository } from '@/application/ports/repositories/iuser-progress.repository';
 import { STORE_USER_PROGRESS, DEFAULT_USER_ID } from '@/lib/constants';
-import { performOperation, initDB } from './indexeddb-base.repository';
+import { performOperation, putRecord, initDB } from './indexeddb-base.repository';
+import { publishDataChange } from './indexeddb-change-feed';
 
 export class IndexedDBUserProgressRepository implements IUserProgressRepository {
   async findByUserId(userId: string): Promise<UserProgress | null> {
@@ -17,11 +18,13 @@ export class IndexedDBUserProgressRepository implements IUserProgressRepository
   }
 
   async save(userProgress: UserProgress): Promise<UserProgress> {
-    await performOperation(STORE_USER_PROGRESS, 'readwrite', store => store.put(userProgress));
+    await putRecord(STORE_USER_PROGRESS, userProgress);
+    publishDataChange({ storeName: 'userProgress', operation: 'put', id: userProgress.userId });
     return userProgress;
   }
 
   async clearAll(): Promise<void> {
     await performOperation(STORE_USER_PROGRESS, 'readwrite', store => store.clear());
+    publishDataChange({ storeName: 'userProgress', operation: 'clear' });
   }
 }
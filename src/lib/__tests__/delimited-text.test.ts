@@ -0,0 +1,89 @@
+// src/lib/__tests__/delimited-text.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  asSpreadsheetText,
+  detectDelimitedTextFormat,
+  escapeDelimitedField,
+  formatDelimitedText,
+  fromSpreadsheetText,
+  guardSpreadsheetFormula,
+  parseDelimitedText,
+} from '../delimited-text';
+
+describe('escapeDelimitedField', () => {
+  it('leaves plain fields alone', () => {
+    expect(escapeDelimitedField('plain text', 'csv')).toBe('plain text');
+    expect(escapeDelimitedField('a,b', 'tsv')).toBe('a,b');
+  });
+
+  it('quotes fields holding the delimiter, quotes or line breaks, doubling the quotes', () => {
+    expect(escapeDelimitedField('a,b', 'csv')).toBe('"a,b"');
+    expect(escapeDelimitedField('a\tb', 'tsv')).toBe('"a\tb"');
+    expect(escapeDelimitedField('say "hi"', 'csv')).toBe('"say ""hi"""');
+    expect(escapeDelimitedField('line 1\nline 2', 'csv')).toBe('"line 1\nline 2"');
+    expect(escapeDelimitedField('line 1\r\nline 2', 'csv')).toBe('"line 1\r\nline 2"');
+  });
+});
+
+describe('formatDelimitedText', () => {
+  it('starts with a byte order mark and ends every line in CRLF', () => {
+    expect(formatDelimitedText([['a', 'b'], ['1', '2']], 'csv')).toBe('\uFEFFa,b\r\n1,2\r\n');
+    expect(formatDelimitedText([['a', 'b']], 'tsv')).toBe('\uFEFFa\tb\r\n');
+  });
+
+  it('guards fields that a spreadsheet app would run as formulas', () => {
+    const text = formatDelimitedText([['=HYPERLINK("http://example.com")', '+1+1', '-A1', '@SUM(A1)', 'safe']], 'csv');
+    expect(text).toBe('\uFEFF"\'=HYPERLINK(""http://example.com"")",\'+1+1,\'-A1,\'@SUM(A1),safe\r\n');
+  });
+
+  it('writes numbers and spreadsheet text unguarded', () => {
+    expect(formatDelimitedText([['-5', '+2.5', '1e-3', asSpreadsheetText('00123')]], 'csv')).toBe('\uFEFF-5,+2.5,1e-3,"=""00123"""\r\n');
+  });
+});
+
+describe('guardSpreadsheetFormula', () => {
+  it('prefixes every formula trigger, including tabs and carriage returns', () => {
+    expect(['=1', '+x', '-x', '@x', '\tx', '\rx'].map(guardSpreadsheetFormula)).toEqual(["'=1", "'+x", "'-x", "'@x", "'\tx", "'\rx"]);
+  });
+
+  it('leaves other fields alone', () => {
+    expect(['', 'x=1', '12', '-12.5', "'=already"].map(guardSpreadsheetFormula)).toEqual(['', 'x=1', '12', '-12.5', "'=already"]);
+  });
+});
+
+describe('spreadsheet text', () => {
+  it('round-trips values through asSpreadsheetText and fromSpreadsheetText', () => {
+    for (const value of ['00123', 'say "hi"', '', '=1+1']) {
+      expect(fromSpreadsheetText(asSpreadsheetText(value))).toBe(value);
+    }
+  });
+
+  it('undoes the formula guard', () => {
+    expect(fromSpreadsheetText(guardSpreadsheetFormula('=SUM(A1:A2)'))).toBe('=SUM(A1:A2)');
+    expect(fromSpreadsheetText(guardSpreadsheetFormula('-A1'))).toBe('-A1');
+  });
+
+  it('returns other values unchanged', () => {
+    expect(fromSpreadsheetText('00123')).toBe('00123');
+    expect(fromSpreadsheetText("it's")).toBe("it's");
+    expect(fromSpreadsheetText('="unterminated')).toBe('="unterminated');
+  });
+});
+
+describe('parseDelimitedText', () => {
+  it('reads back what formatDelimitedText wrote', () => {
+    const rows = [['name', 'note', 'barcode'], ['a,b', 'say "hi"\r\nbye', asSpreadsheetText('007')], ['', '-5', 'x']];
+    expect(parseDelimitedText(formatDelimitedText(rows, 'csv'))).toEqual(rows);
+    expect(parseDelimitedText(formatDelimitedText(rows, 'tsv'))).toEqual(rows);
+  });
+
+  it('accepts LF line endings and keeps blank lines as one empty field', () => {
+    expect(parseDelimitedText('a,b\n\n1,2\n')).toEqual([['a', 'b'], [''], ['1', '2']]);
+  });
+
+  it('detects TSV from a header with more tabs than commas', () => {
+    expect(detectDelimitedTextFormat('a\tb\tc,d\n')).toBe('tsv');
+    expect(detectDelimitedTextFormat('a,b\tc\n')).toBe('csv');
+    expect(parseDelimitedText('a\tb\r\n1\t2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
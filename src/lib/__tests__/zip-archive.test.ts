@@ -0,0 +1,109 @@
+// src/lib/__tests__/zip-archive.test.ts
+import { inflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { crc32, formatCrc32, ZipArchiveReader, ZipArchiveWriter } from '../zip-archive';
+
+const encode = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+async function* chunksOf(...chunks: string[]): AsyncGenerator<Uint8Array> {
+  for (const chunk of chunks) yield encode(chunk);
+}
+
+const MODIFIED_AT = new Date(2026, 9, 19, 8, 30, 10);
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(formatCrc32(crc32(encode('123456789')))).toBe('cbf43926');
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  it('continues from a previous value across chunks', () => {
+    expect(crc32(encode('56789'), crc32(encode('1234')))).toBe(crc32(encode('123456789')));
+  });
+});
+
+describe('ZipArchiveWriter and ZipArchiveReader', () => {
+  const repeated = 'The same line, again and again.\n'.repeat(200);
+
+  const writeArchive = async () => {
+    const writer = new ZipArchiveWriter();
+    const written = [
+      await writer.add('records.ndjson', chunksOf(repeated.slice(0, 1000), repeated.slice(1000)), { compress: true, modifiedAt: MODIFIED_AT }),
+      await writer.add('images/photo.png', new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 255])], { type: 'image/png' }), { modifiedAt: MODIFIED_AT }),
+      await writer.add('empty-stored.txt', new Blob([]), { modifiedAt: MODIFIED_AT }),
+      await writer.add('empty-deflated.txt', chunksOf(), { compress: true, modifiedAt: MODIFIED_AT }),
+      await writer.add('données/日本語 été.txt', chunksOf('non-ASCII name'), { modifiedAt: MODIFIED_AT }),
+    ];
+    return { archive: writer.finish(), written };
+  };
+
+  it('reads back every entry as it was written', async () => {
+    const { archive } = await writeArchive();
+    const reader = await ZipArchiveReader.open(archive);
+
+    expect(reader.entries.map(entry => entry.name)).toEqual([
+      'records.ndjson', 'images/photo.png', 'empty-stored.txt', 'empty-deflated.txt', 'données/日本語 été.txt',
+    ]);
+    expect(await reader.text(reader.get('records.ndjson')!)).toBe(repeated);
+    expect(new Uint8Array(await (await reader.blob(reader.get('images/photo.png')!, 'image/png')).arrayBuffer()))
+      .toEqual(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 255]));
+    expect(await reader.text(reader.get('empty-stored.txt')!)).toBe('');
+    expect(await reader.text(reader.get('empty-deflated.txt')!)).toBe('');
+    expect(await reader.text(reader.get('données/日本語 été.txt')!)).toBe('non-ASCII name');
+  });
+
+  it('records the size and CRC-32 of the uncompressed content', async () => {
+    const { archive, written } = await writeArchive();
+    const reader = await ZipArchiveReader.open(archive);
+
+    expect(written[0]).toEqual({ name: 'records.ndjson', size: encode(repeated).length, crc32: crc32(encode(repeated)) });
+    expect(written[1]).toEqual({ name: 'images/photo.png', size: 6, crc32: crc32(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 255])) });
+    expect(written[2]).toEqual({ name: 'empty-stored.txt', size: 0, crc32: 0 });
+    for (const { name, size, crc32: checksum } of written) {
+      expect(reader.get(name)).toMatchObject({ size, crc32: checksum });
+    }
+  });
+
+  it('deflates compressed entries and stores the rest as they are', async () => {
+    const { archive } = await writeArchive();
+    const reader = await ZipArchiveReader.open(archive);
+    const records = reader.get('records.ndjson')!;
+    const photo = reader.get('images/photo.png')!;
+
+    expect(records.method).toBe(8);
+    expect(records.compressedSize).toBeLessThan(records.size);
+    expect(photo.method).toBe(0);
+    expect(photo.compressedSize).toBe(photo.size);
+
+    // Any raw DEFLATE decoder can read the data, not just the one that wrote it
+    const header = new DataView(await archive.slice(records.localHeaderOffset, records.localHeaderOffset + 30).arrayBuffer());
+    const dataStart = records.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+    const compressed = new Uint8Array(await archive.slice(dataStart, dataStart + records.compressedSize).arrayBuffer());
+    expect(inflateRawSync(compressed).toString('utf8')).toBe(repeated);
+  });
+
+  it('fails to read an entry whose content no longer matches its CRC-32', async () => {
+    const { archive } = await writeArchive();
+    const bytes = new Uint8Array(await archive.arrayBuffer());
+    const reader = await ZipArchiveReader.open(archive);
+    const named = reader.get('données/日本語 été.txt')!;
+    const nameLength = encode(named.name).length;
+    bytes[named.localHeaderOffset + 30 + nameLength] ^= 0xff;
+
+    const damaged = await ZipArchiveReader.open(new Blob([bytes]));
+    await expect(damaged.text(damaged.get(named.name)!)).rejects.toThrow('its checksum does not match');
+  });
+
+  it('rejects a duplicate entry name and entries added after finishing', async () => {
+    const writer = new ZipArchiveWriter();
+    await writer.add('a.txt', new Blob(['a']));
+    await expect(writer.add('a.txt', new Blob(['b']))).rejects.toThrow('already has an entry named a.txt');
+
+    writer.finish();
+    await expect(writer.add('b.txt', new Blob(['b']))).rejects.toThrow('already been finished');
+  });
+
+  it('rejects a file that is not an archive', async () => {
+    await expect(ZipArchiveReader.open(new Blob(['not a zip']))).rejects.toThrow('not a ZIP archive');
+  });
+});
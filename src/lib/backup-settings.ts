@@ -0,0 +1,47 @@
+// src/lib/backup-settings.ts
+import { DB_NAME, DEFAULT_BACKUP_INTERVAL_HOURS, DEFAULT_BACKUP_KEEP_DAILY, DEFAULT_BACKUP_KEEP_WEEKLY } from '@/lib/constants';
+
+// Like the trash retention period, a device preference kept outside the database
+const BACKUP_SETTINGS_KEY = `${DB_NAME}:backupSettings`;
+
+export interface BackupSettings {
+  intervalHours: number; // 0 turns scheduled backups off; backups before imports and clearing are still taken
+  keepDaily: number;
+  keepWeekly: number;
+}
+
+export const DEFAULT_BACKUP_SETTINGS: BackupSettings = {
+  intervalHours: DEFAULT_BACKUP_INTERVAL_HOURS,
+  keepDaily: DEFAULT_BACKUP_KEEP_DAILY,
+  keepWeekly: DEFAULT_BACKUP_KEEP_WEEKLY,
+};
+
+const isCount = (value: unknown, min: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min;
+
+export function getBackupSettings(): BackupSettings {
+  if (typeof window === 'undefined') return DEFAULT_BACKUP_SETTINGS;
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(BACKUP_SETTINGS_KEY) ?? 'null');
+    return {
+      intervalHours: isCount(stored?.intervalHours, 0) ? stored.intervalHours : DEFAULT_BACKUP_SETTINGS.intervalHours,
+      keepDaily: isCount(stored?.keepDaily, 1) ? stored.keepDaily : DEFAULT_BACKUP_SETTINGS.keepDaily,
+      keepWeekly: isCount(stored?.keepWeekly, 0) ? stored.keepWeekly : DEFAULT_BACKUP_SETTINGS.keepWeekly,
+    };
+  } catch {
+    return DEFAULT_BACKUP_SETTINGS;
+  }
+}
+
+export function setBackupSettings(settings: BackupSettings): void {
+  if (!isCount(settings.intervalHours, 0)) {
+    throw new Error('The backup interval must be a whole number of hours.');
+  }
+  if (!isCount(settings.keepDaily, 1)) {
+    throw new Error('Keep at least 1 daily backup.');
+  }
+  if (!isCount(settings.keepWeekly, 0)) {
+    throw new Error('The number of weekly backups must be a whole number.');
+  }
+  window.localStorage.setItem(BACKUP_SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,68 @@
+// src/lib/blob-utils.ts
+
+/**
+ * Decodes a base64 data URI (e.g. from canvas.toDataURL) into a Blob synchronously,
+ * so it can also be used inside IndexedDB upgrade transactions.
+ */
+export function dataUriToBlob(dataUri: string): Blob {
+  const match = /^data:([^;,]*)(;base64)?,([\s\S]*)$/.exec(dataUri);
+  if (!match) {
+    throw new Error('Invalid data URI.');
+  }
+  const mimeType = match[1] || 'application/octet-stream';
+  if (!match[2]) {
+    return new Blob([decodeURIComponent(match[3])], { type: mimeType });
+  }
+  const binary = atob(match[3]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+export function blobToDataUri(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, mimeType = 'image/jpeg', quality = 0.8): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Could not capture image from canvas.'));
+      }
+    }, mimeType, quality);
+  });
+}
+
+// Saves a blob through the browser's download prompt
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// Human-readable size, e.g. 512 B, 1.5 MB or 24 MB
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unitIndex]}`;
+}
@@ -4,7 +4,7 @@ export const APP_NAME = "Okapi Workflow Game";
 export const APP_VERSION = "0.2.1"; // Incremented for schema change (DataEntryLog.stepId, ActionStep.formFields/stepType)
 
 export const DB_NAME = "OkapiWorkflowDB"; // Added DB_NAME
-export const DB_VERSION = 8; // Incremented for STORE_DATA_ENTRIES.stepId_idx
+export const DB_VERSION = 17; // Must equal the version of the last entry in the IndexedDB MIGRATIONS list
 
 // Store names for IndexedDB
 export const STORE_SPACES = "spaces";
@@ -15,9 +15,26 @@ export const STORE_TODOS = "todos";
 export const STORE_USER_PROGRESS = "userProgress";
 export const STORE_CLOCK_EVENTS = "clockEvents";
 export const STORE_DATA_ENTRIES = "dataEntries";
+export const STORE_ATTACHMENTS = "attachments";
+export const STORE_RECORD_HISTORY = "recordHistory";
+export const STORE_DAILY_ROLLUPS = "dailyRollups"; // Per-space, per-day totals derived from the logs
+export const STORE_UPGRADE_MARKERS = "upgradeMarkers"; // One record per one-off upgrade step that has completed
+export const STORE_SCHEMA_MIGRATIONS = "schemaMigrations"; // Record of applied migrations
+export const STORE_ENCRYPTION = "encryption"; // Passphrase salt and verifier; never exported or cleared with the data
+export const STORE_BACKUP_SNAPSHOTS = "backupSnapshots"; // What each local backup holds, without the archive itself
+export const STORE_BACKUP_ARCHIVES = "backupArchives"; // The ZIP archive of each local backup, by snapshot id
 
 export const DEFAULT_USER_ID = "localUser";
 
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30; // Trashed items older than this are purged permanently
+
+// Local backups: how often one is taken automatically, and how many survive rotation
+export const DEFAULT_BACKUP_INTERVAL_HOURS = 24;
+export const DEFAULT_BACKUP_KEEP_DAILY = 7;
+export const DEFAULT_BACKUP_KEEP_WEEKLY = 4;
+
 export const DEFAULT_SPACE_COLOR_SCHEMES = [
   { id: 'default', name: 'Default Theme Colors' },
   { id: 'forest', name: 'Forest Green', primary: '#228B22', secondary: '#8FBC8F' },
@@ -0,0 +1,137 @@
+// src/lib/daily-rollups.ts
+import { format } from 'date-fns';
+import type { ActionLog, ClockEvent, DailyRollup, DataEntryLog } from '@/domain/entities';
+
+/**
+ * Records written to one space in a single change. Updated records are passed as
+ * removed (old version) and added (new version).
+ */
+export interface DailyRollupChanges {
+  addedActionLogs?: ActionLog[];
+  removedActionLogs?: ActionLog[];
+  addedDataEntries?: DataEntryLog[];
+  removedDataEntries?: DataEntryLog[];
+  addedClockEvents?: ClockEvent[]; // Newer than every clock event already counted
+}
+
+export interface DailyRollupTotals {
+  actionPoints: number;
+  actionCount: number;
+  dataEntryPoints: number;
+  dataEntryCount: number;
+  clockedInMs: number;
+  openClockInAt: string | null;
+}
+
+// Upgrade marker written with the first full rebuild; until it exists, older logs have no rollups
+export const DAILY_ROLLUPS_BUILT_MARKER = 'dailyRollupsBuilt';
+
+export function rollupDayOf(timestamp: string): string {
+  return format(new Date(timestamp), 'yyyy-MM-dd');
+}
+
+export function dailyRollupId(spaceId: string, day: string): string {
+  return `${spaceId}:${day}`;
+}
+
+/**
+ * Applies `changes` to the current rollups of `spaceId` and returns only the rollups that
+ * changed, ready to be stored. Clock events follow the same rule as the dashboards always
+ * have: a clock-out closes the latest clock-in, and a second clock-in replaces an open one.
+ */
+export function applyDailyRollupChanges(
+  currentRollups: DailyRollup[],
+  spaceId: string,
+  changes: DailyRollupChanges,
+  updatedAt: string = new Date().toISOString()
+): DailyRollup[] {
+  const rollupsByDay = new Map(currentRollups.map(rollup => [rollup.day, rollup]));
+  const changed = new Map<string, DailyRollup>();
+
+  const rollupFor = (day: string): DailyRollup => {
+    let rollup = changed.get(day);
+    if (!rollup) {
+      const current = rollupsByDay.get(day);
+      rollup = current
+        ? { ...current, updatedAt }
+        : { id: dailyRollupId(spaceId, day), spaceId, day, actionPoints: 0, actionCount: 0, dataEntryPoints: 0, dataEntryCount: 0, clockedInMs: 0, updatedAt };
+      changed.set(day, rollup);
+      rollupsByDay.set(day, rollup);
+    }
+    return rollup;
+  };
+
+  const countActionLogs = (logs: ActionLog[] | undefined, sign: 1 | -1) => logs?.forEach(log => {
+    const rollup = rollupFor(rollupDayOf(log.timestamp));
+    rollup.actionPoints += sign * log.pointsAwarded;
+    rollup.actionCount += sign;
+  });
+  const countDataEntries = (entries: DataEntryLog[] | undefined, sign: 1 | -1) => entries?.forEach(entry => {
+    const rollup = rollupFor(rollupDayOf(entry.timestamp));
+    rollup.dataEntryPoints += sign * entry.pointsAwarded;
+    rollup.dataEntryCount += sign;
+  });
+
+  countActionLogs(changes.removedActionLogs, -1);
+  countDataEntries(changes.removedDataEntries, -1);
+  countActionLogs(changes.addedActionLogs, 1);
+  countDataEntries(changes.addedDataEntries, 1);
+
+  const clockEvents = [...(changes.addedClockEvents ?? [])].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  for (const event of clockEvents) {
+    const open = Array.from(rollupsByDay.values()).find(rollup => rollup.openClockInAt);
+    if (open) {
+      const rollup = rollupFor(open.day);
+      if (event.type === 'clock-out') {
+        rollup.clockedInMs += new Date(event.timestamp).getTime() - new Date(open.openClockInAt!).getTime();
+      }
+      delete rollup.openClockInAt;
+    }
+    if (event.type === 'clock-in') {
+      rollupFor(rollupDayOf(event.timestamp)).openClockInAt = event.timestamp;
+    }
+  }
+
+  return Array.from(changed.values());
+}
+
+// Rollups of one space computed from scratch, as the rebuild and an import store them
+export function computeDailyRollups(
+  spaceId: string,
+  actionLogs: ActionLog[],
+  dataEntries: DataEntryLog[],
+  clockEvents: ClockEvent[],
+  updatedAt?: string
+): DailyRollup[] {
+  return applyDailyRollupChanges([], spaceId, { addedActionLogs: actionLogs, addedDataEntries: dataEntries, addedClockEvents: clockEvents }, updatedAt);
+}
+
+/**
+ * Computes the rollups of every space that has logs, grouping the records by `spaceId`.
+ */
+export function computeDailyRollupsForAllSpaces(
+  actionLogs: ActionLog[],
+  dataEntries: DataEntryLog[],
+  clockEvents: ClockEvent[],
+  updatedAt: string = new Date().toISOString()
+): DailyRollup[] {
+  const spaceIds = new Set([...actionLogs, ...dataEntries, ...clockEvents].map(record => record.spaceId));
+  return Array.from(spaceIds).flatMap(spaceId => computeDailyRollups(
+    spaceId,
+    actionLogs.filter(log => log.spaceId === spaceId),
+    dataEntries.filter(entry => entry.spaceId === spaceId),
+    clockEvents.filter(event => event.spaceId === spaceId),
+    updatedAt
+  ));
+}
+
+export function summarizeDailyRollups(rollups: DailyRollup[]): DailyRollupTotals {
+  return rollups.reduce<DailyRollupTotals>((totals, rollup) => ({
+    actionPoints: totals.actionPoints + rollup.actionPoints,
+    actionCount: totals.actionCount + rollup.actionCount,
+    dataEntryPoints: totals.dataEntryPoints + rollup.dataEntryPoints,
+    dataEntryCount: totals.dataEntryCount + rollup.dataEntryCount,
+    clockedInMs: totals.clockedInMs + rollup.clockedInMs,
+    openClockInAt: rollup.openClockInAt ?? totals.openClockInAt,
+  }), { actionPoints: 0, actionCount: 0, dataEntryPoints: 0, dataEntryCount: 0, clockedInMs: 0, openClockInAt: null });
+}
@@ -0,0 +1,129 @@
+// src/lib/delimited-text.ts
+
+export type DelimitedTextFormat = 'csv' | 'tsv';
+
+export const DELIMITED_TEXT_MIME_TYPES: Record<DelimitedTextFormat, string> = {
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+};
+
+const DELIMITERS: Record<DelimitedTextFormat, string> = { csv: ',', tsv: '\t' };
+
+// A field starting with one of these is read as a formula by spreadsheet apps
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+const GUARDED_FORMULA = /^'[=+\-@\t\r]/;
+const NUMBER = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/;
+const SPREADSHEET_TEXT = /^="((?:[^"]|"")*)"$/;
+
+/**
+ * Quotes a field as RFC 4180 requires: fields containing the delimiter, a double quote
+ * or a line break are wrapped in double quotes, and double quotes inside are doubled.
+ * TSV has no quoting rules of its own, so the same ones are applied with a tab delimiter.
+ */
+export function escapeDelimitedField(value: string, format: DelimitedTextFormat): string {
+  const delimiter = DELIMITERS[format];
+  if (value.includes(delimiter) || value.includes('"') || value.includes('\r') || value.includes('\n')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Keeps a field from running as a formula when the file is opened in a spreadsheet app:
+ * one starting with =, +, -, @, a tab or a carriage return gets a leading apostrophe.
+ * Numbers such as -5 and fields written by asSpreadsheetText are left as they are.
+ */
+export function guardSpreadsheetFormula(value: string): string {
+  if (!FORMULA_TRIGGER.test(value) || NUMBER.test(value) || SPREADSHEET_TEXT.test(value)) {
+    return value;
+  }
+  return `'${value}`;
+}
+
+/**
+ * Lines end in CRLF, as in RFC 4180. The text starts with a byte order mark so
+ * spreadsheet apps read it as UTF-8 instead of the system code page. Every field
+ * goes through guardSpreadsheetFormula before it is escaped.
+ */
+export function formatDelimitedText(rows: string[][], format: DelimitedTextFormat): string {
+  const delimiter = DELIMITERS[format];
+  return '\uFEFF' + rows.map(row => row.map(field => escapeDelimitedField(guardSpreadsheetFormula(field), format)).join(delimiter)).join('\r\n') + '\r\n';
+}
+
+/**
+ * Wraps a value so spreadsheet apps keep it as text, e.g. a barcode with leading zeros
+ * that would otherwise be read as a number. The result is an ordinary field and is
+ * escaped like any other.
+ */
+export function asSpreadsheetText(value: string): string {
+  return `="${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Undoes asSpreadsheetText, so a barcode exported as ="00123" comes back as 00123, and
+ * guardSpreadsheetFormula, so '=A1 comes back as =A1. Other values are returned unchanged.
+ */
+export function fromSpreadsheetText(value: string): string {
+  if (GUARDED_FORMULA.test(value)) return value.slice(1);
+  const match = SPREADSHEET_TEXT.exec(value);
+  return match ? match[1].replace(/""/g, '"') : value;
+}
+
+/**
+ * Guesses the format from the first line: spreadsheet apps copy and save tables with tabs,
+ * so a header holding more tabs than commas is read as TSV.
+ */
+export function detectDelimitedTextFormat(text: string): DelimitedTextFormat {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const count = (character: string) => firstLine.split(character).length - 1;
+  return count('\t') > count(',') ? 'tsv' : 'csv';
+}
+
+/**
+ * Reads RFC 4180 text into rows of fields. Quoted fields may hold delimiters, doubled
+ * quotes and line breaks; LF and CRLF line endings are both accepted and a leading byte order
+ * mark is dropped. Blank lines come back as rows holding one empty field, so row numbers
+ * match the ones a spreadsheet shows. Rows keep their own length, which may differ from
+ * the header's when the file was edited by hand.
+ */
+export function parseDelimitedText(text: string, format: DelimitedTextFormat = detectDelimitedTextFormat(text)): string[][] {
+  const delimiter = DELIMITERS[format];
+  const source = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const character = source[i];
+    if (inQuotes) {
+      if (character === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (character === '"') {
+        inQuotes = false;
+      } else {
+        field += character;
+      }
+    } else if (character === '"' && field === '') {
+      inQuotes = true;
+    } else if (character === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (character === '\n' || character === '\r') {
+      if (character === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += character;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
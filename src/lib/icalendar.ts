@@ -0,0 +1,87 @@
+// src/lib/icalendar.ts
+
+export const ICALENDAR_MIME_TYPE = 'text/calendar';
+
+const PRODUCT_ID = '-//Okapi Workflow Game//Time Export//EN';
+const MAX_LINE_OCTETS = 75;
+
+export interface ICalendarEvent {
+  uid: string; // Calendars match re-imported events by this, so it must not change between exports
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  categories?: string[];
+}
+
+// TEXT values as RFC 5545 section 3.3.11 requires: backslash, semicolon and comma escaped, line breaks as \n
+export function escapeICalendarText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+// UTC date-time, e.g. 20260119T083000Z
+export function formatICalendarDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Splits a content line into lines of at most 75 octets, each continuation starting with
+ * a space. Splits fall between characters, never inside a multi-byte one.
+ */
+export function foldICalendarLine(line: string): string {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+  const lines: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines lose one octet to their leading space
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      lines.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+}
+
+/**
+ * Writes a VCALENDAR with one VEVENT per event. Lines end in CRLF and are folded, as
+ * calendar apps expect. `stampedAt` becomes every event's DTSTAMP.
+ */
+export function formatICalendar(events: ICalendarEvent[], calendarName: string, stampedAt: Date): string {
+  const stamp = formatICalendarDate(stampedAt);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalendarText(calendarName)}`,
+  ];
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatICalendarDate(event.start)}`,
+      `DTEND:${formatICalendarDate(event.end)}`,
+      `SUMMARY:${escapeICalendarText(event.summary)}`,
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeICalendarText(event.description)}`);
+    if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeICalendarText).join(',')}`);
+    lines.push('TRANSP:OPAQUE', 'END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldICalendarLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,19 @@
+// src/lib/local-day-range.ts
+import { endOfDay, parseISO, startOfDay } from 'date-fns';
+
+export interface TimestampRange {
+  from: string; // ISO date string, inclusive
+  to: string;
+}
+
+/**
+ * Turns a range of local days given as YYYY-MM-DD into the inclusive ISO bounds the
+ * repository range finders take. A missing day leaves that side open: '' sorts before
+ * every timestamp and '\uffff' after.
+ */
+export function toTimestampRange(from?: string, to?: string): TimestampRange {
+  return {
+    from: from ? startOfDay(parseISO(from)).toISOString() : '',
+    to: to ? endOfDay(parseISO(to)).toISOString() : '\uffff',
+  };
+}
@@ -0,0 +1,26 @@
+// src/lib/ndjson.ts
+import { readStreamChunks } from './zip-archive';
+
+const encoder = new TextEncoder();
+
+// One record per line; JSON.stringify escapes line breaks inside strings
+export function toNdjsonLine(value: unknown): Uint8Array {
+  return encoder.encode(JSON.stringify(value) + '\n');
+}
+
+/**
+ * Yields the lines of a UTF-8 stream as they arrive, without the line breaks. Blank
+ * lines are yielded too, so the count matches the line numbers an editor shows.
+ */
+export async function* readNdjsonLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let pending = '';
+  for await (const chunk of readStreamChunks(stream)) {
+    pending += decoder.decode(chunk, { stream: true });
+    const lines = pending.split('\n');
+    pending = lines.pop() ?? '';
+    for (const line of lines) yield line.endsWith('\r') ? line.slice(0, -1) : line;
+  }
+  pending += decoder.decode();
+  if (pending !== '') yield pending.endsWith('\r') ? pending.slice(0, -1) : pending;
+}
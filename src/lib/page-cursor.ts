@@ -0,0 +1,34 @@
+// src/lib/page-cursor.ts
+
+/**
+ * Position in a list ordered by timestamp, then id. The log repositories return these as
+ * `nextCursor`, and a query that merges several of them can resume each one from the same
+ * position because they all share the ordering.
+ */
+export interface PageCursorPosition {
+  timestamp: string;
+  id: string;
+}
+
+export function encodePageCursor(position: PageCursorPosition): string {
+  return JSON.stringify([position.timestamp, position.id]);
+}
+
+export function decodePageCursor(cursor: string): PageCursorPosition {
+  try {
+    const [timestamp, id] = JSON.parse(cursor);
+    if (typeof timestamp === 'string' && typeof id === 'string') {
+      return { timestamp, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error(`Invalid page cursor: ${cursor}`);
+}
+
+// Negative when `a` comes before `b` in oldest-first order
+export function comparePageCursorPositions(a: PageCursorPosition, b: PageCursorPosition): number {
+  if (a.timestamp !== b.timestamp) return a.timestamp < b.timestamp ? -1 : 1;
+  if (a.id !== b.id) return a.id < b.id ? -1 : 1;
+  return 0;
+}
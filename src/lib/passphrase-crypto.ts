@@ -0,0 +1,110 @@
+// src/lib/passphrase-crypto.ts
+import { MIN_PASSPHRASE_LENGTH } from '@/lib/constants';
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256; slow on purpose, so keys are derived once per unlock
+export const PBKDF2_ITERATIONS = 600000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12; // The size AES-GCM is specified for
+
+/**
+ * Bytes encrypted with AES-GCM. The IV is random per encryption and must be kept
+ * with the ciphertext; the authentication tag is appended to the ciphertext.
+ */
+export interface SealedBytes {
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer | Uint8Array;
+}
+
+/**
+ * Text encrypted under a passphrase, with everything needed to derive the key again.
+ * Binary values are base64 so the whole object can be written as JSON.
+ */
+export interface PassphraseEncryptedText {
+  salt: string;
+  iterations: number;
+  iv: string;
+  ciphertext: string;
+}
+
+// Checks a passphrase the user is choosing; entered twice, since a typo would lock them out
+export function validateNewPassphrase(passphrase: string, confirmation: string): void {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`);
+  }
+  if (passphrase !== confirmation) {
+    throw new Error('The passphrases do not match.');
+  }
+}
+
+export function generateSalt(): Uint8Array {
+  return self.crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+}
+
+/**
+ * Derives a non-extractable AES-GCM key from a passphrase with PBKDF2-SHA256.
+ */
+export async function deriveKeyFromPassphrase(passphrase: string, salt: Uint8Array, iterations = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+  const baseKey = await self.crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return self.crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptBytes(key: CryptoKey, bytes: ArrayBuffer | Uint8Array): Promise<SealedBytes> {
+  const iv = self.crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await self.crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+  return { iv, ciphertext };
+}
+
+/**
+ * Rejects when the key is wrong or the ciphertext was altered, since GCM authenticates both.
+ */
+export async function decryptBytes(key: CryptoKey, sealed: SealedBytes): Promise<ArrayBuffer> {
+  return self.crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.ciphertext);
+}
+
+export function bytesToBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (let i = 0; i < view.length; i++) {
+    binary += String.fromCharCode(view[i]);
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export async function encryptTextWithPassphrase(text: string, passphrase: string): Promise<PassphraseEncryptedText> {
+  const salt = generateSalt();
+  const key = await deriveKeyFromPassphrase(passphrase, salt);
+  const sealed = await encryptBytes(key, new TextEncoder().encode(text));
+  return {
+    salt: bytesToBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    iv: bytesToBase64(sealed.iv),
+    ciphertext: bytesToBase64(sealed.ciphertext),
+  };
+}
+
+export async function decryptTextWithPassphrase(encrypted: PassphraseEncryptedText, passphrase: string): Promise<string> {
+  const key = await deriveKeyFromPassphrase(passphrase, base64ToBytes(encrypted.salt), encrypted.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await decryptBytes(key, { iv: base64ToBytes(encrypted.iv), ciphertext: base64ToBytes(encrypted.ciphertext) });
+  } catch {
+    throw new Error('Incorrect passphrase, or the data has been altered.');
+  }
+  return new TextDecoder().decode(plaintext);
+}
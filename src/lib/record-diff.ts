@@ -0,0 +1,75 @@
+// src/lib/record-diff.ts
+import type { FieldChange, HistoryRecordType, RecordHistoryEntry } from '@/domain/entities/record-history.entity';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Blob);
+
+// Structural equality for JSON-like values; key order does not matter
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every(key => isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Lists the fields that differ between two versions of a record. Plain objects such as
+ * a data entry's `data` are compared field by field; arrays are compared as a whole.
+ * Undefined and missing fields are treated alike.
+ */
+export function diffRecords(
+  before: object,
+  after: object,
+  ignoredFields: readonly string[] = [],
+  path = ''
+): FieldChange[] {
+  const beforeRecord = before as Record<string, unknown>;
+  const afterRecord = after as Record<string, unknown>;
+  const keys = Array.from(new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)])).sort();
+  const changes: FieldChange[] = [];
+
+  for (const key of keys) {
+    if (!path && ignoredFields.includes(key)) continue;
+    const field = path ? `${path}.${key}` : key;
+    const beforeValue = beforeRecord[key];
+    const afterValue = afterRecord[key];
+
+    if (isPlainObject(beforeValue) && isPlainObject(afterValue)) {
+      changes.push(...diffRecords(beforeValue, afterValue, ignoredFields, field));
+    } else if (!isEqual(beforeValue, afterValue)) {
+      const change: FieldChange = { field };
+      if (beforeValue !== undefined) change.before = beforeValue;
+      if (afterValue !== undefined) change.after = afterValue;
+      changes.push(change);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Builds the history entry for an update, or returns null when nothing changed.
+ */
+export function createRecordHistoryEntry<T extends { id: string; spaceId: string }>(
+  recordType: HistoryRecordType,
+  before: T,
+  after: T,
+  reason?: string,
+  ignoredFields: readonly string[] = []
+): RecordHistoryEntry | null {
+  const changes = diffRecords(before, after, ignoredFields);
+  if (changes.length === 0) return null;
+  return {
+    id: self.crypto.randomUUID(),
+    recordType,
+    recordId: after.id,
+    spaceId: after.spaceId,
+    timestamp: new Date().toISOString(),
+    reason: reason?.trim() || undefined,
+    changes,
+  };
+}
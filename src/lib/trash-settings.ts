@@ -0,0 +1,18 @@
+// src/lib/trash-settings.ts
+import { DB_NAME, DEFAULT_TRASH_RETENTION_DAYS } from '@/lib/constants';
+
+// A device preference rather than app data, so it lives outside the database and is not exported
+const RETENTION_DAYS_KEY = `${DB_NAME}:trashRetentionDays`;
+
+export function getTrashRetentionDays(): number {
+  if (typeof window === 'undefined') return DEFAULT_TRASH_RETENTION_DAYS;
+  const stored = Number(window.localStorage.getItem(RETENTION_DAYS_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export function setTrashRetentionDays(days: number): void {
+  if (!Number.isInteger(days) || days < 1) {
+    throw new Error('Retention period must be a whole number of days, at least 1.');
+  }
+  window.localStorage.setItem(RETENTION_DAYS_KEY, String(days));
+}
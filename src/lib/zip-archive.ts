@@ -0,0 +1,419 @@
+// src/lib/zip-archive.ts
+
+/**
+ * A minimal ZIP reader and writer built on Blob slices and the browser's
+ * CompressionStream, so archives are produced and read in chunks instead of as one
+ * buffer. Entries are stored or deflated; ZIP64 is not supported, which limits an
+ * archive to 65,535 entries and 4 GiB.
+ */
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const MAX_ZIP32_VALUE = 0xffffffff;
+const MAX_ZIP32_ENTRIES = 0xffff;
+
+// Sizes and CRC follow the data in a descriptor (bit 3); names are UTF-8 (bit 11)
+const GENERAL_PURPOSE_FLAGS = 0x0808;
+const VERSION = 20;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+// Written bytes are collected up to this size and then moved into a Blob
+const FLUSH_THRESHOLD = 1024 * 1024;
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 as used by ZIP. Pass the previous result to continue over the next chunk.
+ */
+export function crc32(data: Uint8Array, previous = 0): number {
+  let crc = ~previous;
+  for (let i = 0; i < data.length; i++) crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return ~crc >>> 0;
+}
+
+export function formatCrc32(value: number): string {
+  return value.toString(16).padStart(8, '0');
+}
+
+export async function* readStreamChunks(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+class ByteWriter {
+  readonly bytes: Uint8Array;
+  private readonly view: DataView;
+  private position = 0;
+
+  constructor(size: number) {
+    this.bytes = new Uint8Array(size);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  uint16(value: number): this {
+    this.view.setUint16(this.position, value, true);
+    this.position += 2;
+    return this;
+  }
+
+  uint32(value: number): this {
+    this.view.setUint32(this.position, value, true);
+    this.position += 4;
+    return this;
+  }
+
+  raw(data: Uint8Array): this {
+    this.bytes.set(data, this.position);
+    this.position += data.length;
+    return this;
+  }
+}
+
+export interface ZipEntryOptions {
+  compress?: boolean; // Deflate the data; leave off for content that is compressed already, like photos
+  modifiedAt?: Date;
+}
+
+export interface ZipWrittenEntry {
+  name: string;
+  size: number; // Uncompressed bytes
+  crc32: number;
+}
+
+interface CentralDirectoryRecord extends ZipWrittenEntry {
+  nameBytes: Uint8Array;
+  method: number;
+  dosTime: number;
+  dosDate: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Builds an archive one entry at a time. Bytes the writer produces, headers and deflated
+ * or streamed data, are gathered in small batches that are turned into Blobs once they
+ * reach 1 MiB, so at most one batch sits in the JavaScript heap. A stored Blob entry is
+ * read once for its CRC and then referenced as the Blob it is, without copying it.
+ */
+export class ZipArchiveWriter {
+  private readonly parts: Blob[] = [];
+  private pending: Uint8Array[] = [];
+  private pendingSize = 0;
+  private readonly records: CentralDirectoryRecord[] = [];
+  private readonly names = new Set<string>();
+  private offset = 0;
+  private isWriting = false;
+  private isFinished = false;
+
+  private push(part: Uint8Array): void {
+    this.pending.push(part);
+    this.pendingSize += part.length;
+    this.offset += part.length;
+    if (this.pendingSize >= FLUSH_THRESHOLD) this.flush();
+  }
+
+  private pushBlob(blob: Blob): void {
+    this.flush();
+    this.parts.push(blob);
+    this.offset += blob.size;
+  }
+
+  private flush(): void {
+    if (this.pending.length === 0) return;
+    this.parts.push(new Blob(this.pending));
+    this.pending = [];
+    this.pendingSize = 0;
+  }
+
+  async add(name: string, content: Blob | AsyncIterable<Uint8Array>, options: ZipEntryOptions = {}): Promise<ZipWrittenEntry> {
+    if (this.isFinished) throw new Error('The archive has already been finished.');
+    if (this.isWriting) throw new Error('Entries must be added one at a time.');
+    if (this.names.has(name)) throw new Error(`The archive already has an entry named ${name}.`);
+    if (this.records.length >= MAX_ZIP32_ENTRIES) throw new Error(`An archive cannot hold more than ${MAX_ZIP32_ENTRIES} entries.`);
+
+    this.isWriting = true;
+    try {
+      const nameBytes = new TextEncoder().encode(name);
+      const method = options.compress ? METHOD_DEFLATED : METHOD_STORED;
+      const { time: dosTime, date: dosDate } = toDosDateTime(options.modifiedAt ?? new Date());
+      const localHeaderOffset = this.offset;
+
+      this.push(new ByteWriter(30 + nameBytes.length)
+        .uint32(LOCAL_FILE_HEADER_SIGNATURE)
+        .uint16(VERSION)
+        .uint16(GENERAL_PURPOSE_FLAGS)
+        .uint16(method)
+        .uint16(dosTime)
+        .uint16(dosDate)
+        .uint32(0) // CRC-32, compressed and uncompressed size are in the data descriptor
+        .uint32(0)
+        .uint32(0)
+        .uint16(nameBytes.length)
+        .uint16(0)
+        .raw(nameBytes).bytes);
+
+      const source = content instanceof Blob ? readStreamChunks(content.stream()) : content;
+      let crc = 0;
+      let size = 0;
+      const dataStart = this.offset;
+      const measured = async function* () {
+        for await (const chunk of source) {
+          crc = crc32(chunk, crc);
+          size += chunk.length;
+          yield chunk;
+        }
+      };
+
+      if (method === METHOD_DEFLATED) {
+        const compressor = new CompressionStream('deflate-raw');
+        const writer = compressor.writable.getWriter();
+        // Fed and drained at the same time, so the stream's backpressure bounds what is buffered
+        const feeding = (async () => {
+          for await (const chunk of measured()) await writer.write(chunk);
+          await writer.close();
+        })().catch(async error => {
+          await writer.abort(error).catch(() => undefined);
+          throw error;
+        });
+        try {
+          for await (const chunk of readStreamChunks(compressor.readable)) this.push(chunk);
+        } finally {
+          await feeding;
+        }
+      } else if (content instanceof Blob) {
+        // Read only for the CRC; the archive refers to the Blob itself instead of a copy
+        for await (const chunk of source) crc = crc32(chunk, crc);
+        size = content.size;
+        this.pushBlob(content);
+      } else {
+        for await (const chunk of measured()) this.push(chunk);
+      }
+
+      const compressedSize = this.offset - dataStart;
+      if (size > MAX_ZIP32_VALUE || compressedSize > MAX_ZIP32_VALUE || this.offset > MAX_ZIP32_VALUE) {
+        throw new Error(`${name} makes the archive larger than 4 GiB, which is not supported.`);
+      }
+      this.push(new ByteWriter(16)
+        .uint32(DATA_DESCRIPTOR_SIGNATURE)
+        .uint32(crc)
+        .uint32(compressedSize)
+        .uint32(size).bytes);
+
+      this.names.add(name);
+      this.records.push({ name, nameBytes, method, dosTime, dosDate, crc32: crc, compressedSize, size, localHeaderOffset });
+      return { name, size, crc32: crc };
+    } finally {
+      this.isWriting = false;
+    }
+  }
+
+  finish(): Blob {
+    if (this.isWriting) throw new Error('An entry is still being written.');
+    if (!this.isFinished) {
+      this.isFinished = true;
+      const centralDirectoryOffset = this.offset;
+      for (const record of this.records) {
+        this.push(new ByteWriter(46 + record.nameBytes.length)
+          .uint32(CENTRAL_DIRECTORY_SIGNATURE)
+          .uint16(VERSION) // Made by
+          .uint16(VERSION) // Needed to extract
+          .uint16(GENERAL_PURPOSE_FLAGS)
+          .uint16(record.method)
+          .uint16(record.dosTime)
+          .uint16(record.dosDate)
+          .uint32(record.crc32)
+          .uint32(record.compressedSize)
+          .uint32(record.size)
+          .uint16(record.nameBytes.length)
+          .uint16(0) // Extra field length
+          .uint16(0) // Comment length
+          .uint16(0) // Disk number
+          .uint16(0) // Internal attributes
+          .uint32(0) // External attributes
+          .uint32(record.localHeaderOffset)
+          .raw(record.nameBytes).bytes);
+      }
+      const centralDirectorySize = this.offset - centralDirectoryOffset;
+      if (this.offset > MAX_ZIP32_VALUE) {
+        throw new Error('The archive is larger than 4 GiB, which is not supported.');
+      }
+      this.push(new ByteWriter(END_OF_CENTRAL_DIRECTORY_SIZE)
+        .uint32(END_OF_CENTRAL_DIRECTORY_SIGNATURE)
+        .uint16(0)
+        .uint16(0)
+        .uint16(this.records.length)
+        .uint16(this.records.length)
+        .uint32(centralDirectorySize)
+        .uint32(centralDirectoryOffset)
+        .uint16(0).bytes);
+    }
+    this.flush();
+    return new Blob(this.parts, { type: 'application/zip' });
+  }
+}
+
+export interface ZipArchiveEntry {
+  name: string;
+  method: number;
+  crc32: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+/**
+ * Reads an archive through its central directory. Entry data is streamed from slices of
+ * the Blob, so opening a large file only reads its directory.
+ */
+export class ZipArchiveReader {
+  private readonly entriesByName: Map<string, ZipArchiveEntry>;
+
+  private constructor(private readonly file: Blob, entries: ZipArchiveEntry[]) {
+    this.entriesByName = new Map(entries.map(entry => [entry.name, entry]));
+  }
+
+  static async open(blob: Blob): Promise<ZipArchiveReader> {
+    const tailStart = Math.max(0, blob.size - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_SIZE);
+    const tail = await readBytes(blob, tailStart, blob.size);
+    let endOffset = -1;
+    for (let i = tail.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE; i >= 0; i--) {
+      if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+        endOffset = i;
+        break;
+      }
+    }
+    if (endOffset < 0) {
+      throw new Error('The file is not a ZIP archive.');
+    }
+
+    const entryCount = tail.getUint16(endOffset + 10, true);
+    const directorySize = tail.getUint32(endOffset + 12, true);
+    const directoryOffset = tail.getUint32(endOffset + 16, true);
+    if (directoryOffset + directorySize > blob.size) {
+      throw new Error('The ZIP archive is truncated.');
+    }
+
+    const directory = await readBytes(blob, directoryOffset, directoryOffset + directorySize);
+    const decoder = new TextDecoder();
+    const entries: ZipArchiveEntry[] = [];
+    let position = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (position + 46 > directory.byteLength || directory.getUint32(position, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+        throw new Error('The ZIP archive directory is damaged.');
+      }
+      const nameLength = directory.getUint16(position + 28, true);
+      const extraLength = directory.getUint16(position + 30, true);
+      const commentLength = directory.getUint16(position + 32, true);
+      entries.push({
+        name: decoder.decode(new Uint8Array(directory.buffer, position + 46, nameLength)),
+        method: directory.getUint16(position + 10, true),
+        crc32: directory.getUint32(position + 16, true),
+        compressedSize: directory.getUint32(position + 20, true),
+        size: directory.getUint32(position + 24, true),
+        localHeaderOffset: directory.getUint32(position + 42, true),
+      });
+      position += 46 + nameLength + extraLength + commentLength;
+    }
+    return new ZipArchiveReader(blob, entries);
+  }
+
+  get entries(): ZipArchiveEntry[] {
+    return Array.from(this.entriesByName.values());
+  }
+
+  get(name: string): ZipArchiveEntry | undefined {
+    return this.entriesByName.get(name);
+  }
+
+  private async dataStart(entry: ZipArchiveEntry): Promise<number> {
+    const header = await readBytes(this.file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+    if (header.byteLength < 30 || header.getUint32(0, true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+      throw new Error(`The ZIP archive entry ${entry.name} is damaged.`);
+    }
+    return entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  }
+
+  /**
+   * Streams the uncompressed content of an entry. The stream errors at its end if the
+   * content does not match the CRC-32 and size recorded in the directory.
+   */
+  async stream(entry: ZipArchiveEntry): Promise<ReadableStream<Uint8Array>> {
+    if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATED) {
+      throw new Error(`${entry.name} uses an unsupported compression method (${entry.method}).`);
+    }
+    const start = await this.dataStart(entry);
+    let data = this.file.slice(start, start + entry.compressedSize).stream();
+    if (entry.method === METHOD_DEFLATED) {
+      data = data.pipeThrough(new DecompressionStream('deflate-raw'));
+    }
+
+    let crc = 0;
+    let size = 0;
+    return data.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        crc = crc32(chunk, crc);
+        size += chunk.length;
+        controller.enqueue(chunk);
+      },
+      flush() {
+        if (crc !== entry.crc32 || size !== entry.size) {
+          throw new Error(`${entry.name} is damaged: its checksum does not match.`);
+        }
+      },
+    }));
+  }
+
+  /**
+   * Returns the checked content of an entry. A stored entry is returned as a slice of
+   * the archive, so a large image is not copied into memory.
+   */
+  async blob(entry: ZipArchiveEntry, type = ''): Promise<Blob> {
+    const chunks: Uint8Array[] = [];
+    const isStored = entry.method === METHOD_STORED;
+    for await (const chunk of readStreamChunks(await this.stream(entry))) {
+      if (!isStored) chunks.push(chunk);
+    }
+    if (isStored) {
+      const start = await this.dataStart(entry);
+      return this.file.slice(start, start + entry.size, type);
+    }
+    return new Blob(chunks, { type });
+  }
+
+  async text(entry: ZipArchiveEntry): Promise<string> {
+    return (await this.blob(entry)).text();
+  }
+}